@@ -1,4 +1,8 @@
 import type {NextConfig} from 'next';
+import {loadConfig} from './src/lib/config';
+
+// Read when the app is built; changing CLOUDWISE_MAX_UPLOAD_MB later still applies to the upload checks, up to this cap
+const {maxUploadMb} = loadConfig().config;
 
 const nextConfig: NextConfig = {
   /* config options here */
@@ -9,6 +13,11 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      bodySizeLimit: `${maxUploadMb}mb`, // Cloud cost reports are uploaded through server actions and are often large
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,46 @@
+// Copies the data of a SQLite database into the PostgreSQL database at CLOUDWISE_DATABASE_URL, to move an
+// installation to the postgres storage backend (see src/lib/config.ts).
+//
+//   npm run db:copy-to-postgres -- [--db <file>]
+//
+// The SQLite database is the app's (CLOUDWISE_DB_PATH) unless --db names another; it is only read, and must have
+// every migration of this build applied. The PostgreSQL database must be a new one, without the app's tables: the
+// copy migrates it. Stop the app while copying, then start it with CLOUDWISE_STORAGE_BACKEND=postgres.
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { getConfig } from '@/lib/config';
+import { createPostgresPool, PostgresDatabase } from '@/lib/postgres';
+import { copySqliteToPostgres } from '@/lib/postgres-copy';
+
+const USAGE = 'Usage: npm run db:copy-to-postgres -- [--db <file>]';
+
+async function main() {
+    const args = process.argv.slice(2);
+    const dbIndex = args.indexOf('--db');
+    const file = dbIndex >= 0 ? args.splice(dbIndex, 2)[1] : getConfig().databasePath;
+    if (!file || args.length > 0) {
+        throw new Error(USAGE);
+    }
+    const { databaseUrl } = getConfig();
+    if (!databaseUrl) {
+        throw new Error('Set CLOUDWISE_DATABASE_URL to the PostgreSQL database to copy to.');
+    }
+
+    const source = await open({ filename: file, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    const target = new PostgresDatabase(createPostgresPool(databaseUrl));
+    try {
+        const copied = await copySqliteToPostgres(source, target);
+        for (const [table, rows] of Object.entries(copied)) {
+            console.log(`  ${table.padEnd(32)}  ${rows} row(s)`);
+        }
+        console.log(`Copied ${file} to the PostgreSQL database.`);
+    } finally {
+        await source.close();
+        await target.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exitCode = 1;
+});
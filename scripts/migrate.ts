@@ -0,0 +1,84 @@
+// Shows and changes which schema migrations (see src/lib/migrations.ts) the database has.
+//
+//   npm run db:migrate -- status
+//   npm run db:migrate -- up [version]     applies the pending migrations, all of them or up to the version
+//   npm run db:migrate -- down [version]   rolls back to the version, by default undoing the latest migration
+//
+// --db <file> works on another database file than the app's, which CLOUDWISE_DB_PATH sets (see src/lib/config.ts).
+// With the postgres storage backend, the commands work on the PostgreSQL database at CLOUDWISE_DATABASE_URL
+// unless --db names a SQLite file.
+// The app applies pending migrations itself when it starts, so roll back only to run an older build of it.
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { getConfig } from '@/lib/config';
+import { configureConnection, type Database } from '@/lib/db';
+import { getMigrationStatus, migrateDown, migrateUp, type Migration } from '@/lib/migrate';
+import { MIGRATIONS } from '@/lib/migrations';
+import { createPostgresPool, PostgresDatabase } from '@/lib/postgres';
+import { POSTGRES_MIGRATIONS } from '@/lib/postgres-migrations';
+
+const USAGE = 'Usage: npm run db:migrate -- [status | up [version] | down [version]] [--db <file>]';
+
+function parseVersion(value: string | undefined): number | null {
+    if (value === undefined) return null;
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`"${value}" is not a migration version.\n${USAGE}`);
+    }
+    return version;
+}
+
+async function runCommand(db: Database, migrations: Migration[], command: string, version: number | null, label: string) {
+    if (command === 'up') {
+        const applied = await migrateUp(db, migrations, version);
+        console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'No migrations to apply.');
+    } else if (command === 'down') {
+        const applied = (await getMigrationStatus(db, migrations)).filter(migration => migration.applied_at !== null);
+        const target = version ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+        const rolledBack = await migrateDown(db, migrations, target);
+        console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s).` : 'No migrations to roll back.');
+    }
+
+    const status = await getMigrationStatus(db, migrations);
+    console.log(`\n${label}`);
+    for (const migration of status) {
+        const state = migration.applied_at ?? 'pending';
+        console.log(`  ${String(migration.version).padStart(4)}  ${migration.name.padEnd(40)}  ${state}${migration.known ? '' : ' (unknown to this build)'}`);
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const dbIndex = args.indexOf('--db');
+    const file = dbIndex >= 0 ? args.splice(dbIndex, 2)[1] : getConfig().databasePath;
+    const [command = 'status', versionArg, ...rest] = args;
+    if (!file || rest.length > 0 || !['status', 'up', 'down'].includes(command)) {
+        throw new Error(USAGE);
+    }
+    const version = parseVersion(versionArg);
+
+    if (dbIndex < 0 && getConfig().storageBackend === 'postgres') {
+        const db = new PostgresDatabase(createPostgresPool(getConfig().databaseUrl!));
+        try {
+            await db.withConnection(session => runCommand(session, POSTGRES_MIGRATIONS, command, version, 'PostgreSQL database'));
+        } finally {
+            await db.close();
+        }
+        return;
+    }
+
+    // Only `up` creates a database that does not exist yet
+    const mode = command === 'up' ? sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE : sqlite3.OPEN_READWRITE;
+    const db = await open({ filename: file, driver: sqlite3.Database, mode });
+    try {
+        await configureConnection(db);
+        await runCommand(db, MIGRATIONS, command, version, file);
+    } finally {
+        await db.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,118 @@
+// A stand-in OIDC provider for trying single sign-on locally. It signs in whoever is typed into its form.
+//
+//   node scripts/mock-oidc-provider.mjs
+//
+// and start the app with
+//
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=cloudwise OIDC_CLIENT_SECRET=secret \
+//   OIDC_REDIRECT_URI=http://localhost:9002/api/auth/oidc/callback npm run dev
+//
+// MOCK_OIDC_PORT changes the port. Codes and tokens live in memory; ID tokens are not signed.
+import http from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+
+const port = parseInt(process.env.MOCK_OIDC_PORT ?? '9400', 10);
+const issuer = `http://localhost:${port}`;
+const codes = new Map(); // code -> { clientId, redirectUri, codeChallenge, nonce, user }
+const accessTokens = new Map(); // token -> user
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function send(res, status, body, headers = {}) {
+    const json = typeof body !== 'string';
+    res.writeHead(status, { 'Content-Type': json ? 'application/json' : 'text/html; charset=utf-8', ...headers });
+    res.end(json ? JSON.stringify(body) : body);
+}
+
+async function readForm(req) {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return new URLSearchParams(body);
+}
+
+function subjectOf(email) {
+    return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 16);
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, issuer);
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+        return send(res, 200, {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            userinfo_endpoint: `${issuer}/userinfo`,
+            response_types_supported: ['code'],
+            subject_types_supported: ['public'],
+            id_token_signing_alg_values_supported: ['none'],
+            code_challenge_methods_supported: ['S256'],
+        });
+    }
+
+    if (url.pathname === '/authorize' && req.method === 'GET') {
+        const hidden = [...url.searchParams].map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`).join('');
+        return send(res, 200, `<!doctype html><title>Mock OIDC</title>
+            <form method="post" action="/authorize" style="font-family:sans-serif;max-width:20rem;margin:4rem auto;display:grid;gap:.5rem">
+              <h1>Mock OIDC sign-in</h1>${hidden}
+              <label>Email <input name="email" value="jane.doe@example.com" required></label>
+              <label>Name <input name="name" value="Jane Doe"></label>
+              <button>Sign in</button>
+              <button name="deny" value="1">Deny</button>
+            </form>`);
+    }
+
+    if (url.pathname === '/authorize' && req.method === 'POST') {
+        const form = await readForm(req);
+        const redirect = new URL(form.get('redirect_uri'));
+        if (form.get('state')) redirect.searchParams.set('state', form.get('state'));
+        if (form.get('deny')) {
+            redirect.searchParams.set('error', 'access_denied');
+            redirect.searchParams.set('error_description', 'The user denied the sign-in.');
+        } else {
+            const code = randomBytes(16).toString('hex');
+            const email = form.get('email').trim();
+            codes.set(code, {
+                clientId: form.get('client_id'),
+                redirectUri: form.get('redirect_uri'),
+                codeChallenge: form.get('code_challenge'),
+                nonce: form.get('nonce'),
+                user: { sub: subjectOf(email), email, email_verified: true, name: form.get('name') || email },
+            });
+            redirect.searchParams.set('code', code);
+        }
+        return send(res, 302, '', { Location: redirect.toString() });
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+        const form = await readForm(req);
+        const grant = codes.get(form.get('code'));
+        codes.delete(form.get('code'));
+        const verifier = form.get('code_verifier') ?? '';
+        if (!grant || grant.redirectUri !== form.get('redirect_uri') || grant.clientId !== form.get('client_id')) {
+            return send(res, 400, { error: 'invalid_grant' });
+        }
+        if (grant.codeChallenge && createHash('sha256').update(verifier).digest('base64url') !== grant.codeChallenge) {
+            return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+        }
+        const now = Math.floor(Date.now() / 1000);
+        const idToken = [
+            base64url({ alg: 'none', typ: 'JWT' }),
+            base64url({ iss: issuer, aud: grant.clientId, iat: now, exp: now + 300, nonce: grant.nonce, ...grant.user }),
+            '',
+        ].join('.');
+        const accessToken = randomBytes(16).toString('hex');
+        accessTokens.set(accessToken, grant.user);
+        return send(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+    }
+
+    if (url.pathname === '/userinfo') {
+        const user = accessTokens.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+        return user ? send(res, 200, user) : send(res, 401, { error: 'invalid_token' });
+    }
+
+    send(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => console.log(`Mock OIDC provider listening on ${issuer}`));
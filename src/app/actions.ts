@@ -1,94 +1,592 @@
 
 'use server';
 
-import type { Database } from 'sqlite';
-import { open } from 'sqlite'; // Import open directly
 import sqlite3 from 'sqlite3'; // Import sqlite3 driver
 import { revalidatePath } from 'next/cache';
-import { getDb } from '@/lib/db';
-import type { BusinessLine, CostCenter, Budget, BudgetEntry, CostCenterWithBusinessLines, ChartItem, Expense, ExpenseEntry } from '@/types'; // Added Expense types
+import { replaceDatabase, withConnection, type Database } from '@/lib/db';
+import type { BusinessLine, CostCenter, Budget, BudgetEntry, CostCenterWithBusinessLines, ChartItem, Expense, ExpenseEntry, ImportPreview, StagedImportRow, ColumnMapping, ImportMappingProfile, ImportBatch, CloudCostImportOptions, CostAllocationRule, CostDimension, ImportSource, ExchangeRate, MissingExchangeRate, ImportLocale, ImportMode, MasterDataCounts, MasterDataPlan, MasterDataRow, WorkbookSheet, WorkbookSheetRole, MonthRange, VarianceCell, VarianceEntry, ForecastEntry, VarianceQuery, VarianceReport, BudgetVersion, BudgetChange, BudgetChangeValues, BudgetReview, BudgetReviewDecision, BudgetReviewItem, AlertRule, AlertChannel, AlertChannelConfig, AlertNotification, TriggeredAlert, Permission, SessionUser, User, UserRole, BusinessLineScope, AuditEvent, AuditLogFilter, BackupSchedule, DatabaseSnapshot, EffectiveSettings, EntryFilter, EntryListQuery, EntrySortColumn, Page, PageRequest, ApiKey, ApiKeyScope, WebhookDelivery, WebhookEvent, WebhookSubscription } from '@/types'; // Added Expense types
 import * as XLSX from 'xlsx';
+import { createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
 import { z } from 'zod';
 import { notFound } from 'next/navigation'; // Import notFound
+import { applyColumnMapping, DEFAULT_COLUMN_MAPPING, findUnmappedRequiredFields, IMPORT_FIELDS, isRequiredFieldMapped, normalizeHeader, REQUIRED_IMPORT_FIELDS } from '@/lib/import-mapping';
+import { DEFAULT_IMPORT_LOCALE, isImportLocale, parseLocaleAmount, parseLocaleYearMonth } from '@/lib/import-locale';
+import { DEFAULT_IMPORT_MODE, isImportMode } from '@/lib/import-mode';
+import { parseBudgetVersionId } from '@/lib/budget-versions';
+import { canReviewBudget } from '@/lib/budget-approval';
+import { createSession, endSession, generateApiKey, getBusinessLineScope, getCurrentUser, hashPassword, MIN_PASSWORD_LENGTH, permissionDenial, requirePermission, requireUser, verifyPassword } from '@/lib/auth';
+import { describeOutOfScope, isInScope, scopeCondition } from '@/lib/business-line-scope';
+import { describeScopedPermission, hasPermission } from '@/lib/user-roles';
+import { isApiKeyScope } from '@/lib/api-keys';
+import { isWebhookEvent } from '@/lib/webhook-events';
+import { listWebhookDeliveries, queueWebhookEvent, sendTestWebhook } from '@/lib/webhooks';
+import { AUDIT_ACTIONS, AUDIT_TABLES, diffAuditValues, isAuditAction, isAuditTable, withAuditActor } from '@/lib/audit';
+import { BACKUP_INTERVAL_SETTING, BACKUP_RETENTION_SETTING, checkSnapshot, createSnapshot, deleteSnapshot, isSnapshotName, listSnapshots, pruneScheduledSnapshots, readBackupSchedule, snapshotPath } from '@/lib/backup';
+import { BACKUP_INTERVALS, MAX_BACKUP_RETENTION } from '@/lib/snapshots';
+import { describeConfig, getConfig } from '@/lib/config';
+import { parseSheetRoles, suggestSheetRole } from '@/lib/workbook-sheets';
+import { buildVarianceReport, fiscalYearOf, fromMonthIndex, monthIndex, remainingFiscalYear, selectVarianceEntries } from '@/lib/variance';
+import { forecastHistoryRange, forecastSpend } from '@/lib/forecast';
+import { alertPeriodOf, describeAlert, describeAlertScope, evaluateAlertRule, type AlertChannelSender } from '@/lib/alerts';
+import { createSlackChannel, createWebhookChannel } from '@/lib/alert-webhook';
+import { createEmailChannel } from '@/lib/alert-email';
+import { aggregateCloudCostRows, CLOUD_PROVIDERS, COST_DIMENSION_LABELS, describeCloudCostGroup, findAllocationRule, flattenRecord, type CloudCostReader } from '@/lib/cloud-costs';
+import { createAwsCurReader } from '@/lib/aws-cur';
+import { createAzureCostReader } from '@/lib/azure-cost-export';
+import { createGcpBillingReader } from '@/lib/gcp-billing-export';
+import { createFocusReader, toFocusRow } from '@/lib/focus';
+import { AssociateBusinessLineSchema, AssociateMultipleBusinessLinesSchema, BudgetSchema, BusinessLineSchema, CostCenterSchema, EntryListQuerySchema, ExpenseSchema, PageRequestSchema } from '@/lib/schemas';
+import { convertedAmountSql, createCurrencyConverter, DEFAULT_CURRENCY, normalizeCurrencyCode, type CurrencyConverter } from '@/lib/currency';
 
 // --- Validation Schemas ---
-const BusinessLineSchema = z.object({
-  name: z.string().min(1, { message: 'Business line name cannot be empty' }),
+// Schemas of budgets, expenses and master data are in '@/lib/schemas', shared with the REST API
+
+const UserSchema = z.object({
+    email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+    name: z.string().trim().min(1, 'Name cannot be empty'),
+    role: z.enum(['admin', 'finance_editor', 'business_line_owner', 'viewer']),
+    // Empty keeps the current password; a user without one can only sign in with OIDC
+    password: z.string().transform(password => password || null)
+        .refine(password => password === null || password.length >= MIN_PASSWORD_LENGTH, `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`),
+    is_active: z.boolean(),
+    business_line_ids: z.array(z.number().int().positive()), // See BusinessLineScope
+});
+
+const ApiKeySchema = z.object({
+    name: z.string().trim().min(1, 'Name cannot be empty'),
+    scopes: z.array(z.string().refine(isApiKeyScope, 'Unknown scope')).min(1, 'Pick at least one scope')
+        .transform(scopes => [...new Set(scopes)] as ApiKeyScope[]),
+    business_line_ids: z.array(z.number().int().positive()), // Empty for a key not limited to business lines
 });
 
-// Cost Center Schema - Updated (no business_line_id)
-const CostCenterSchema = z.object({
-  id: z.number().optional(), // For updates
-  name: z.string().min(1, { message: 'Cost center name cannot be empty' }),
-  // business_line_id removed
+const BudgetReviewSchema = z.object({
+    items: z.array(z.object({ kind: z.enum(['entry', 'change']), id: z.number().int().positive() })).min(1, 'Select at least one entry to review'),
+    decision: z.enum(['approved', 'rejected']),
+    comment: z.string().trim().transform(comment => comment || null),
+}).refine(review => review.decision === 'approved' || review.comment !== null, 'A comment is required when rejecting');
+
+const BudgetVersionSchema = z.object({
+    name: z.string().trim().min(1, 'Version name cannot be empty'),
+    kind: z.enum(['original', 'reforecast', 'what_if']),
+    description: z.string().trim().nullable().transform(description => description || null),
 });
 
-// Schema for associating a single BL to a CC
-const AssociateBusinessLineSchema = z.object({
-    cost_center_id: z.number().int().positive(),
-    business_line_id: z.number().int().positive(),
+// Schemas for column mapping profiles used by spreadsheet uploads
+const FieldMappingSchema = z.discriminatedUnion('kind', [
+    z.object({
+        kind: z.literal('column'),
+        column: z.string().trim().min(1, 'Source column cannot be empty'),
+        transform: z.enum(['none', 'date-year', 'date-month']).optional(),
+    }),
+    z.object({
+        kind: z.literal('constant'),
+        value: z.string().trim().min(1, 'Constant value cannot be empty'),
+    }),
+]);
+
+const ImportMappingProfileSchema = z.object({
+    name: z.string().trim().min(1, 'Profile name cannot be empty'),
+    mapping: z.object({
+        'description': FieldMappingSchema.optional(),
+        'amount': FieldMappingSchema.optional(),
+        'year': FieldMappingSchema.optional(),
+        'month': FieldMappingSchema.optional(),
+        'date': FieldMappingSchema.optional(),
+        'type': FieldMappingSchema.optional(),
+        'currency': FieldMappingSchema.optional(),
+        'business line': FieldMappingSchema.optional(),
+        'cost center': FieldMappingSchema.optional(),
+        'source': FieldMappingSchema.optional(),
+    }).superRefine((mapping, ctx) => {
+        REQUIRED_IMPORT_FIELDS.filter(field => !isRequiredFieldMapped(mapping, field)).forEach(field => {
+            const message = field === 'year' || field === 'month'
+                ? `Required field '${field}' must be mapped (or map 'date' instead of year and month)`
+                : `Required field '${field}' must be mapped`;
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+        });
+    }),
 });
 
-// Schema for associating multiple BLs to a CC
-const AssociateMultipleBusinessLinesSchema = z.object({
-    cost_center_id: z.number().int().positive(),
-    business_line_ids: z.array(z.number().int().positive()).min(0), // Allow empty array to disassociate all
+// Schema for monthly exchange rates (entered by hand or imported from CSV)
+const CurrencyCodeSchema = z.preprocess(
+    (val) => String(val ?? '').trim().toUpperCase(),
+    z.string().regex(/^[A-Z]{3}$/, 'Currencies must be 3-letter ISO 4217 codes')
+);
+
+const ExchangeRateSchema = z.object({
+    year: z.number({ invalid_type_error: 'Enter a valid year' }).int().min(1900).max(2100, 'Enter a valid year'),
+    month: z.number({ invalid_type_error: 'Enter a valid month (1-12)' }).int().min(1).max(12, 'Enter a valid month (1-12)'),
+    from_currency: CurrencyCodeSchema,
+    to_currency: CurrencyCodeSchema,
+    rate: z.number({ invalid_type_error: 'Rate must be a number' }).positive('Rate must be a positive number'),
+}).refine(rate => rate.from_currency !== rate.to_currency, {
+    message: 'From and To currencies must differ',
+    path: ['to_currency'],
 });
 
+// Schema for cost allocation rules used by cloud cost imports
+const CostAllocationRuleSchema = z.object({
+    dimension: z.enum(['tag', 'account', 'subscription', 'resource_group', 'project']),
+    tag_key: z.string().trim(),
+    value: z.string().trim().min(1, 'Value cannot be empty'),
+    business_line_id: z.number().int().positive().nullable(),
+    cost_center_id: z.number().int().positive().nullable(),
+}).refine(rule => rule.dimension !== 'tag' || rule.tag_key !== '', {
+    message: 'Tag key cannot be empty for tag rules',
+    path: ['tag_key'],
+}).refine(rule => rule.business_line_id !== null || rule.cost_center_id !== null, {
+    message: 'Choose a business line, a cost center, or both',
+    path: ['business_line_id'],
+});
 
-const BaseEntrySchema = z.object({ // Base schema for common fields
-    description: z.string().min(1, 'Description cannot be empty'),
-    amount: z.number().positive('Amount must be a positive number'),
-    year: z.number().int().min(1900).max(2100, 'Enter a valid year'),
-    month: z.number().int().min(1).max(12, 'Enter a valid month (1-12)'),
-    type: z.enum(['CAPEX', 'OPEX']),
-    // Use zod transform to handle the special "__NONE__" value from the form or nullish values
-    business_line_id: z.preprocess(
-        (val) => (val === '__NONE__' || val === null || val === '' || val === undefined ? null : parseInt(String(val), 10)),
-        z.number().int().positive().nullable()
-    ).optional(),
-    cost_center_id: z.preprocess(
-        (val) => (val === '__NONE__' || val === null || val === '' || val === undefined ? null : parseInt(String(val), 10)),
-        z.number().int().positive().nullable()
-    ).optional(),
+// Schemas for budget alert rules and the channels alerts are sent to
+const AlertRuleSchema = z.object({
+    name: z.string().trim().min(1, 'Rule name cannot be empty'),
+    scope: z.enum(['business_line', 'cost_center', 'type']),
+    business_line_id: z.number().int().positive().nullable(),
+    cost_center_id: z.number().int().positive().nullable(),
+    expense_type: z.enum(['CAPEX', 'OPEX']).nullable(),
+    threshold_kind: z.enum(['percent', 'amount']),
+    threshold_value: z.number({ invalid_type_error: 'Threshold must be a number' }).positive('Threshold must be a positive number'),
+    period: z.enum(['month', 'quarter', 'year']),
+    is_active: z.boolean(),
+}).refine(rule => rule.scope !== 'business_line' || rule.business_line_id !== null, {
+    message: 'Choose the business line the rule watches',
+    path: ['business_line_id'],
+}).refine(rule => rule.scope !== 'cost_center' || rule.cost_center_id !== null, {
+    message: 'Choose the cost center the rule watches',
+    path: ['cost_center_id'],
+}).refine(rule => rule.scope !== 'type' || rule.expense_type !== null, {
+    message: 'Choose CAPEX or OPEX',
+    path: ['expense_type'],
 });
 
-// Schema for Budget Entries (inherits Base and adds ID)
-const BudgetSchema = BaseEntrySchema.extend({
-    id: z.number().optional(), // Optional for update
+const AlertChannelUrlSchema = z.string().trim().url('Enter a valid URL, e.g. https://hooks.example.com/alerts')
+    .refine(url => /^https?:\/\//i.test(url), 'The URL must start with http:// or https://');
+
+const WebhookSubscriptionSchema = z.object({
+    name: z.string().trim().min(1, 'Name cannot be empty'),
+    url: AlertChannelUrlSchema,
+    secret: z.string().trim(), // Empty keeps the stored secret; required for new subscriptions
+    events: z.array(z.string().refine(isWebhookEvent, 'Unknown event')).min(1, 'Pick at least one event')
+        .transform(events => [...new Set(events)] as WebhookEvent[]),
+    is_active: z.boolean(),
 });
 
-// Schema for Expense Entries (inherits Base and adds ID) (NEW)
-const ExpenseSchema = BaseEntrySchema.extend({
-    id: z.number().optional(), // Optional for update
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+const AlertChannelConfigSchema = z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('webhook'), url: AlertChannelUrlSchema, secret: z.string() }),
+    z.object({ kind: z.literal('slack'), url: AlertChannelUrlSchema }),
+    z.object({
+        kind: z.literal('email'),
+        host: z.string().trim().min(1, 'SMTP host cannot be empty'),
+        port: z.number({ invalid_type_error: 'Enter a valid port' }).int().min(1).max(65535, 'Enter a valid port'),
+        secure: z.boolean(),
+        username: z.string().trim(),
+        password: z.string(),
+        from: z.string().trim().min(1, 'From address cannot be empty'),
+        to: z.string().trim().refine(
+            to => to.split(',').map(address => address.trim()).filter(Boolean).length > 0,
+            'Enter at least one recipient'
+        ),
+    }),
+]);
+
+const AlertChannelSchema = z.object({
+    name: z.string().trim().min(1, 'Channel name cannot be empty'),
+    is_active: z.boolean(),
+    config: AlertChannelConfigSchema,
 });
 
 
+// Runs the operation on one database connection (see withConnection), so its transactions hold together
 async function runDbOperation<T>(operation: (db: Database) => Promise<T>): Promise<T> {
-  const db = await getDb();
   try {
-    // Enable foreign keys for this operation if not already enabled globally
-    // await db.run('PRAGMA foreign_keys = ON;'); // Done in getDb
-    return await operation(db);
+    return await withConnection(operation);
   } catch (error) {
       console.error('An error occurred during the database operation:', error);
       // Re-throw a generic error or a more specific one if needed
       throw new Error(`An error occurred during the database operation. Please check server logs.`);
   }
-  // Note: We don't close the DB here, as it's managed globally in getDb
+}
+
+// For writes to the audited tables (see AuditTable): their audit events name the signed-in user as the actor
+async function runAuditedOperation<T>(operation: (db: Database) => Promise<T>): Promise<T> {
+    const actor = await requireUser();
+    return runDbOperation(db => withAuditActor(db, actor, () => operation(db)));
+}
+
+// Tells the webhook subscriptions to the event about a change the signed-in user (or API key) made; see queueWebhookEvent
+async function notifyWebhooks(event: WebhookEvent, data: unknown): Promise<void> {
+    await queueWebhookEvent(event, data, (await getCurrentUser())?.name ?? null);
+}
+
+// Every action checks the signed-in user's role itself, since any action can be called without the UI.
+// Signed-out users are sent to the login page; users whose role lacks the permission get the result returned.
+async function denyUnless(permission: Permission): Promise<{ success: false; message: string } | null> {
+    const denial = await permissionDenial(await requireUser(), permission);
+    return denial ? { success: false, message: denial } : null;
+}
+
+// Business lines the signed-in user sees and changes; see BusinessLineScope
+async function currentScope(): Promise<BusinessLineScope> {
+    return getBusinessLineScope(await requireUser());
+}
+
+// Whether a budget or expense lies in the signed-in user's scope; false when it does not exist
+async function isEntryInScope(table: 'budgets' | 'expenses', id: number, scope: BusinessLineScope): Promise<boolean> {
+    const entry = await runDbOperation(db => db.get<{ business_line_id: number | null }>(`SELECT business_line_id FROM ${table} WHERE id = ?`, id));
+    return !!entry && isInScope(scope, entry.business_line_id);
+}
+
+
+// --- User & Session Actions ---
+
+const USER_COLUMNS = `
+    id, email, name, role, oidc_subject, is_active, password_hash IS NOT NULL as has_password,
+    strftime('%Y-%m-%d %H:%M:%S', last_login_at) as last_login_at,
+    strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+    (SELECT GROUP_CONCAT(business_line_id) FROM user_business_lines WHERE user_id = users.id) as business_line_ids
+`;
+
+function toUser(row: any): User {
+    return {
+        ...row,
+        is_active: row.is_active === 1,
+        has_password: row.has_password === 1,
+        business_line_ids: row.business_line_ids ? String(row.business_line_ids).split(',').map(Number).sort((a, b) => a - b) : [],
+    };
+}
+
+// True until the first account exists; the login page then offers to create it as an admin
+export async function needsFirstAdmin(): Promise<boolean> {
+    try {
+        return !await runDbOperation(db => db.get('SELECT 1 FROM users LIMIT 1'));
+    } catch (error) {
+        console.error('Failed to check for users:', error);
+        return false;
+    }
+}
+
+export async function signIn(formData: FormData) {
+    const email = String(formData.get('email') ?? '').trim();
+    const password = String(formData.get('password') ?? '');
+    try {
+        const user = await runDbOperation(db => db.get<{ id: number; password_hash: string | null; is_active: number }>(
+            'SELECT id, password_hash, is_active FROM users WHERE email = ?', email
+        ));
+        // The same answer for unknown emails, wrong passwords and deactivated accounts
+        if (!user || !user.is_active || !await verifyPassword(password, user.password_hash)) {
+            return { success: false, message: 'Email or password is incorrect.' };
+        }
+        await createSession(user.id);
+        return { success: true, message: 'Signed in.' };
+    } catch (error: any) {
+        console.error('Failed to sign in:', error);
+        return { success: false, message: `Failed to sign in. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function signOut() {
+    try {
+        await endSession();
+        return { success: true, message: 'Signed out.' };
+    } catch (error: any) {
+        console.error('Failed to sign out:', error);
+        return { success: false, message: `Failed to sign out. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Creates the first account, an admin, and signs it in; refused once any account exists
+export async function createFirstAdmin(formData: FormData) {
+    try {
+        const validated = UserSchema.parse({
+            email: formData.get('email') ?? '',
+            name: formData.get('name') ?? '',
+            role: 'admin',
+            password: formData.get('password') ?? '',
+            is_active: true,
+            business_line_ids: [],
+        });
+        if (!validated.password) {
+            return { success: false, message: 'Validation failed: Enter a password' };
+        }
+        const passwordHash = await hashPassword(validated.password);
+        const userId = await runDbOperation(async (db) => {
+            if (await db.get('SELECT 1 FROM users LIMIT 1')) return null;
+            const result = await db.run(
+                `INSERT INTO users (email, name, role, password_hash) VALUES (?, ?, 'admin', ?)`,
+                [validated.email, validated.name, passwordHash]
+            );
+            return result.lastID!;
+        });
+        if (userId === null) {
+            return { success: false, message: 'An admin account already exists. Sign in instead.' };
+        }
+        await createSession(userId);
+        return { success: true, message: 'Admin account created.' };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to create the first admin:', error);
+        return { success: false, message: `Failed to create the admin account. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function getUsers(): Promise<User[]> {
+    await requirePermission('manage_users');
+    try {
+        const rows = await runDbOperation(db => db.all<any[]>(`SELECT ${USER_COLUMNS} FROM users ORDER BY name COLLATE NOCASE, id`));
+        return rows.map(toUser);
+    } catch (error) {
+        console.error('Failed to get users:', error);
+        throw new Error('Failed to fetch users.');
+    }
+}
+
+// Keeps at least one active admin, so users can always be managed
+async function isLastActiveAdmin(db: Database, id: number): Promise<boolean> {
+    const other = await db.get(`SELECT 1 FROM users WHERE role = 'admin' AND is_active = 1 AND id != ?`, id);
+    return !other;
+}
+
+async function grantBusinessLines(db: Database, userId: number, businessLineIds: number[]): Promise<void> {
+    await db.run('DELETE FROM user_business_lines WHERE user_id = ?', userId);
+    for (const businessLineId of businessLineIds) {
+        await db.run('INSERT INTO user_business_lines (user_id, business_line_id) VALUES (?, ?)', userId, businessLineId);
+    }
+}
+
+// A new password or deactivation signs the user out everywhere, except the admin making the change
+export async function saveUser(
+    id: number | null,
+    values: { email: string; name: string; role: UserRole; password: string; is_active: boolean; business_line_ids: number[] }
+) {
+    const denied = await denyUnless('manage_users');
+    if (denied) return denied;
+    const admin = await requireUser();
+    try {
+        const validated = UserSchema.parse(values);
+        const passwordHash = validated.password ? await hashPassword(validated.password) : null;
+        const error = await runDbOperation(async (db) => {
+            if (await db.get('SELECT 1 FROM users WHERE email = ? AND id != ?', validated.email, id ?? 0)) {
+                return `A user with the email '${validated.email}' already exists.`;
+            }
+            const businessLineIds = [...new Set(validated.business_line_ids)];
+            const known = await db.all<{ id: number }[]>(
+                `SELECT id FROM business_lines WHERE id IN (${businessLineIds.map(() => '?').join(', ')})`, businessLineIds
+            );
+            if (known.length !== businessLineIds.length) {
+                return 'One of the selected business lines no longer exists.';
+            }
+            if (id === null) {
+                const result = await db.run(
+                    'INSERT INTO users (email, name, role, password_hash, is_active) VALUES (?, ?, ?, ?, ?)',
+                    [validated.email, validated.name, validated.role, passwordHash, validated.is_active ? 1 : 0]
+                );
+                await grantBusinessLines(db, result.lastID!, businessLineIds);
+                return null;
+            }
+            const existing = await db.get<{ role: UserRole; is_active: number }>('SELECT role, is_active FROM users WHERE id = ?', id);
+            if (!existing) {
+                return `User with ID ${id} not found.`;
+            }
+            const losesAdmin = existing.role === 'admin' && existing.is_active === 1 && (validated.role !== 'admin' || !validated.is_active);
+            if (losesAdmin && await isLastActiveAdmin(db, id)) {
+                return 'At least one active admin must remain.';
+            }
+            await db.run(
+                `UPDATE users SET email = ?, name = ?, role = ?, is_active = ?, password_hash = COALESCE(?, password_hash), updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [validated.email, validated.name, validated.role, validated.is_active ? 1 : 0, passwordHash, id]
+            );
+            await grantBusinessLines(db, id, businessLineIds);
+            if ((passwordHash || !validated.is_active) && id !== admin.id) {
+                await db.run('DELETE FROM sessions WHERE user_id = ?', id);
+            }
+            return null;
+        });
+        if (error) {
+            return { success: false, message: error };
+        }
+        revalidatePath('/users');
+        return { success: true, message: `User ${id === null ? 'added' : 'updated'} successfully.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save user:', error);
+        return { success: false, message: `Failed to save user. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteUser(id: number) {
+    const denied = await denyUnless('manage_users');
+    if (denied) return denied;
+    const admin = await requireUser();
+    if (id === admin.id) {
+        return { success: false, message: 'You cannot delete your own account.' };
+    }
+    try {
+        // Sessions are deleted with the user (ON DELETE CASCADE)
+        await runDbOperation(db => db.run('DELETE FROM users WHERE id = ?', id));
+        revalidatePath('/users');
+        return { success: true, message: 'User deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete user with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete user (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- API Key Actions ---
+
+const API_KEY_COLUMNS = `
+    id, name, key_prefix, scopes, all_business_lines, created_by,
+    strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+    strftime('%Y-%m-%d %H:%M:%S', last_used_at) as last_used_at,
+    strftime('%Y-%m-%d %H:%M:%S', revoked_at) as revoked_at,
+    (SELECT GROUP_CONCAT(business_line_id) FROM api_key_business_lines WHERE api_key_id = api_keys.id) as business_line_ids
+`;
+
+function toApiKey({ all_business_lines, business_line_ids, scopes, ...row }: Record<string, any>): ApiKey {
+    return {
+        ...row,
+        scopes: String(scopes).split(',').filter(isApiKeyScope),
+        business_line_ids: all_business_lines ? null : business_line_ids ? String(business_line_ids).split(',').map(Number).sort((a, b) => a - b) : [],
+    } as ApiKey;
+}
+
+// Active keys first
+export async function getApiKeys(): Promise<ApiKey[]> {
+    await requirePermission('manage_api_keys');
+    try {
+        const rows = await runDbOperation(db => db.all<Record<string, any>[]>(
+            `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY revoked_at IS NOT NULL, name COLLATE NOCASE, id`
+        ));
+        return rows.map(toApiKey);
+    } catch (error) {
+        console.error('Failed to get API keys:', error);
+        throw new Error('Failed to fetch API keys.');
+    }
+}
+
+// Returns the new key; only its hash is stored, so it cannot be shown again
+export async function createApiKey(values: { name: string; scopes: ApiKeyScope[]; business_line_ids: number[] }) {
+    const denied = await denyUnless('manage_api_keys');
+    if (denied) return denied;
+    const admin = await requireUser();
+    try {
+        const validated = ApiKeySchema.parse(values);
+        const { key, prefix, hash } = generateApiKey();
+        const error = await runAuditedOperation(async (db) => {
+            if (await db.get('SELECT 1 FROM api_keys WHERE name = ?', validated.name)) {
+                return `An API key named '${validated.name}' already exists.`;
+            }
+            const businessLineIds = [...new Set(validated.business_line_ids)];
+            const known = await db.all<{ id: number }[]>(
+                `SELECT id FROM business_lines WHERE id IN (${businessLineIds.map(() => '?').join(', ')})`, businessLineIds
+            );
+            if (known.length !== businessLineIds.length) {
+                return 'One of the selected business lines no longer exists.';
+            }
+            const result = await db.run(
+                'INSERT INTO api_keys (name, key_prefix, key_hash, scopes, all_business_lines, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+                [validated.name, prefix, hash, validated.scopes.join(','), businessLineIds.length === 0 ? 1 : 0, admin.name]
+            );
+            for (const businessLineId of businessLineIds) {
+                await db.run('INSERT INTO api_key_business_lines (api_key_id, business_line_id) VALUES (?, ?)', result.lastID!, businessLineId);
+            }
+            return null;
+        });
+        if (error) {
+            return { success: false, message: error };
+        }
+        revalidatePath('/api-keys');
+        return { success: true, message: `API key '${validated.name}' created. Copy it now; it cannot be shown again.`, key };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to create API key:', error);
+        return { success: false, message: `Failed to create the API key. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Revoked keys are kept, so the audit log and the key list still name them
+export async function revokeApiKey(id: number) {
+    const denied = await denyUnless('manage_api_keys');
+    if (denied) return denied;
+    try {
+        const result = await runAuditedOperation(db => db.run(
+            'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL', id
+        ));
+        if (result.changes === 0) {
+            return { success: false, message: `Active API key with ID ${id} not found.` };
+        }
+        revalidatePath('/api-keys');
+        return { success: true, message: 'API key revoked. Requests made with it are refused from now on.' };
+    } catch (error: any) {
+        console.error(`Failed to revoke API key with ID ${id}:`, error);
+        return { success: false, message: `Failed to revoke API key (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
 }
 
 
 // --- Business Line Actions ---
 
+// Active users who can review budgets, any of whom can be made the budget owner of a business line
+export async function getBudgetOwnerOptions(): Promise<Pick<User, 'id' | 'name' | 'email'>[]> {
+    await requireUser();
+    try {
+        const users = await runDbOperation(db => db.all<(Pick<User, 'id' | 'name' | 'email' | 'role'>)[]>(
+            'SELECT id, name, email, role FROM users WHERE is_active = 1 ORDER BY name COLLATE NOCASE, id'
+        ));
+        return users.filter(user => hasPermission(user.role, 'review_budgets')).map(({ id, name, email }) => ({ id, name, email }));
+    } catch (error: any) {
+        console.error('Failed to get budget owner options:', error);
+        return [];
+    }
+}
+
+// Why the user cannot be the budget owner of the business line (null while it is being added), or null if they can:
+// they must be active, allowed to review budgets and see the business line's budgets
+async function describeBudgetOwnerProblem(ownerId: number | null, businessLineId: number | null): Promise<string | null> {
+    if (ownerId === null) return null;
+    const owner = await runDbOperation(db => db.get<Pick<User, 'id' | 'name' | 'email' | 'role'> & { is_active: number }>(
+        'SELECT id, name, email, role, is_active FROM users WHERE id = ?', ownerId
+    ));
+    if (!owner || !owner.is_active) {
+        return `User with ID ${ownerId} not found or deactivated.`;
+    }
+    if (!hasPermission(owner.role, 'review_budgets')) {
+        return `${owner.name} cannot review budget entries, so they cannot be a budget owner.`;
+    }
+    if (!isInScope(await getBusinessLineScope(owner), businessLineId)) {
+        return businessLineId === null
+            ? `${owner.name} only sees the business lines granted to them. Add the business line, grant it to them, then make them its budget owner.`
+            : `${owner.name} does not see this business line's budgets. Grant it to them first.`;
+    }
+    return null;
+}
+
 export async function addBusinessLine(formData: FormData) {
+  const denied = await denyUnless('manage_master_data');
+  if (denied) return denied;
   const name = formData.get('name') as string;
 
   try {
-    BusinessLineSchema.parse({ name });
-    await runDbOperation(async (db) => {
+    const { budget_owner_id } = BusinessLineSchema.parse({ name, budget_owner_id: formData.get('budget_owner_id') });
+    const ownerProblem = await describeBudgetOwnerProblem(budget_owner_id, null);
+    if (ownerProblem) {
+        return { success: false, message: ownerProblem };
+    }
+    const id = await runAuditedOperation(async (db) => {
       // Insert and trigger handles updated_at
-      await db.run('INSERT INTO business_lines (name) VALUES (?)', name);
+      const result = await db.run('INSERT INTO business_lines (name, budget_owner_id) VALUES (?, ?)', [name, budget_owner_id]);
+      return result.lastID!;
     });
     revalidatePath('/business-lines');
     revalidatePath('/cost-centers');
@@ -97,7 +595,7 @@ export async function addBusinessLine(formData: FormData) {
     revalidatePath('/budgets'); // Budget forms might need updated BL list
     revalidatePath('/expenses'); // Expense forms might need updated BL list (NEW)
     revalidatePath('/charts'); // Charts might use BLs
-    return { success: true, message: 'Business line added successfully.' };
+    return { success: true, message: 'Business line added successfully.', id };
   } catch (error: any) {
      if (error instanceof z.ZodError) {
        return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
@@ -111,10 +609,17 @@ export async function addBusinessLine(formData: FormData) {
 }
 
 export async function getBusinessLines(): Promise<BusinessLine[]> {
+   const scope = await currentScope();
    try {
        return await runDbOperation(async (db) => {
-           // Select only id and name
-           return db.all('SELECT id, name FROM business_lines ORDER BY name');
+           // Select only id, name and the budget owner
+           return db.all(`
+               SELECT bl.id, bl.name, bl.budget_owner_id, u.name as budget_owner
+               FROM business_lines bl
+               LEFT JOIN users u ON bl.budget_owner_id = u.id
+               WHERE ${scopeCondition('bl.id', scope)}
+               ORDER BY bl.name
+           `);
        });
    } catch (error: any) {
         console.error('Failed to get business lines:', error);
@@ -123,12 +628,18 @@ export async function getBusinessLines(): Promise<BusinessLine[]> {
 }
 
 export async function updateBusinessLine(id: number, formData: FormData) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
     const name = formData.get('name') as string;
     try {
-        BusinessLineSchema.parse({ name });
-        await runDbOperation(async (db) => {
+        const { budget_owner_id } = BusinessLineSchema.parse({ name, budget_owner_id: formData.get('budget_owner_id') });
+        const ownerProblem = await describeBudgetOwnerProblem(budget_owner_id, id);
+        if (ownerProblem) {
+            return { success: false, message: ownerProblem };
+        }
+        await runAuditedOperation(async (db) => {
             // Trigger handles updated_at
-            const result = await db.run('UPDATE business_lines SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [name, id]);
+            const result = await db.run('UPDATE business_lines SET name = ?, budget_owner_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [name, budget_owner_id, id]);
             if (result.changes === 0) {
                  console.warn(`Attempted to update business line ID ${id}, but it was not found.`);
                  // Optionally throw an error or return a specific message
@@ -142,6 +653,7 @@ export async function updateBusinessLine(id: number, formData: FormData) {
         revalidatePath('/expenses'); // Expense list and forms use BL names/lists (NEW)
         revalidatePath('/'); // Dashboard might show BL count/info
         revalidatePath('/charts'); // Charts use BL names
+        revalidatePath('/budgets/review'); // Budget owners approve the review queue
         return { success: true, message: 'Business line updated successfully.' };
     } catch (error: any) {
         if (error instanceof z.ZodError) {
@@ -157,8 +669,10 @@ export async function updateBusinessLine(id: number, formData: FormData) {
 
 
 export async function deleteBusinessLine(id: number) {
+  const denied = await denyUnless('manage_master_data');
+  if (denied) return denied;
   try {
-    await runDbOperation(async (db) => {
+    await runAuditedOperation(async (db) => {
       // CASCADE on cost_center_business_lines handles removing associations
       // ON DELETE SET NULL on budgets handles budget links
       // ON DELETE SET NULL on expenses handles expense links (NEW)
@@ -188,19 +702,22 @@ export async function deleteBusinessLine(id: number) {
 // --- Cost Center Actions (Updated for M2M) ---
 
 export async function addCostCenter(formData: FormData) {
+  const denied = await denyUnless('manage_master_data');
+  if (denied) return denied;
   const name = formData.get('name') as string;
 
   try {
       const parsedData = CostCenterSchema.omit({id: true}).parse({ name });
-    await runDbOperation(async (db) => {
-      await db.run('INSERT INTO cost_centers (name) VALUES (?)', [parsedData.name]);
+    const id = await runAuditedOperation(async (db) => {
+      const result = await db.run('INSERT INTO cost_centers (name) VALUES (?)', [parsedData.name]);
+      return result.lastID!;
     });
     revalidatePath('/cost-centers');
     revalidatePath('/cost-center-associations');
     revalidatePath('/budgets'); // Budget forms need CC list
     revalidatePath('/expenses'); // Expense forms need CC list (NEW)
     revalidatePath('/');
-    return { success: true, message: 'Cost center added successfully.' };
+    return { success: true, message: 'Cost center added successfully.', id };
   } catch (error: any) {
       if (error instanceof z.ZodError) {
             return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
@@ -215,6 +732,7 @@ export async function addCostCenter(formData: FormData) {
 
 // Get Cost Centers *without* their associated business lines initially
 export async function getCostCentersSimple(): Promise<CostCenter[]> {
+   await requireUser();
    try {
        return await runDbOperation(async (db) => {
            return db.all<CostCenter[]>(`
@@ -231,6 +749,7 @@ export async function getCostCentersSimple(): Promise<CostCenter[]> {
 
 // Get Cost Centers *with* their associated business lines (more complex query)
 export async function getCostCentersWithBusinessLines(): Promise<CostCenterWithBusinessLines[]> {
+   const scope = await currentScope();
    try {
        return await runDbOperation(async (db) => {
            const costCenters = await db.all<CostCenter[]>(`
@@ -251,6 +770,7 @@ export async function getCostCentersWithBusinessLines(): Promise<CostCenterWithB
                bl.name as business_line_name
              FROM cost_center_business_lines ccbl
              JOIN business_lines bl ON ccbl.business_line_id = bl.id
+             WHERE ${scopeCondition('ccbl.business_line_id', scope)}
            `);
 
            // Create a map for efficient lookup
@@ -277,12 +797,14 @@ export async function getCostCentersWithBusinessLines(): Promise<CostCenterWithB
 
 
 export async function updateCostCenter(id: number, formData: FormData) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
     const name = formData.get('name') as string;
 
     try {
         // Validate only the name from the form data for update
         const parsedData = CostCenterSchema.pick({ name: true }).parse({ name });
-        await runDbOperation(async (db) => {
+        await runAuditedOperation(async (db) => {
              // Update only the name. Associations are handled separately.
              const result = await db.run('UPDATE cost_centers SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [parsedData.name, id]);
              if (result.changes === 0) {
@@ -310,8 +832,10 @@ export async function updateCostCenter(id: number, formData: FormData) {
 }
 
 export async function deleteCostCenter(id: number) {
+  const denied = await denyUnless('manage_master_data');
+  if (denied) return denied;
   try {
-    await runDbOperation(async (db) => {
+    await runAuditedOperation(async (db) => {
        // CASCADE on cost_center_business_lines handles associations
        // ON DELETE SET NULL on budgets handles budget links
        // ON DELETE SET NULL on expenses handles expense links (NEW)
@@ -340,9 +864,11 @@ export async function deleteCostCenter(id: number) {
 // --- Cost Center <-> Business Line Association Actions ---
 
 export async function associateBusinessLineToCostCenter(costCenterId: number, businessLineId: number) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
     try {
         AssociateBusinessLineSchema.parse({ cost_center_id: costCenterId, business_line_id: businessLineId });
-        await runDbOperation(async (db) => {
+        await runAuditedOperation(async (db) => {
             await db.run(
                 'INSERT OR IGNORE INTO cost_center_business_lines (cost_center_id, business_line_id) VALUES (?, ?)',
                 [costCenterId, businessLineId]
@@ -368,9 +894,11 @@ export async function associateBusinessLineToCostCenter(costCenterId: number, bu
 }
 
 export async function disassociateBusinessLineFromCostCenter(costCenterId: number, businessLineId: number) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
     try {
         AssociateBusinessLineSchema.parse({ cost_center_id: costCenterId, business_line_id: businessLineId });
-        await runDbOperation(async (db) => {
+        await runAuditedOperation(async (db) => {
             await db.run(
                 'DELETE FROM cost_center_business_lines WHERE cost_center_id = ? AND business_line_id = ?',
                 [costCenterId, businessLineId]
@@ -395,9 +923,11 @@ export async function disassociateBusinessLineFromCostCenter(costCenterId: numbe
 
 // Action to set *all* associations for a cost center at once
 export async function setCostCenterAssociations(costCenterId: number, businessLineIds: number[]) {
+     const denied = await denyUnless('manage_master_data');
+     if (denied) return denied;
      try {
         AssociateMultipleBusinessLinesSchema.parse({ cost_center_id: costCenterId, business_line_ids: businessLineIds });
-        await runDbOperation(async (db) => {
+        await runAuditedOperation(async (db) => {
              // Use a transaction for atomicity
             await db.run('BEGIN TRANSACTION');
             try {
@@ -445,19 +975,29 @@ export async function setCostCenterAssociations(costCenterId: number, businessLi
 // --- Budget Actions ---
 
 export async function addBudgetEntry(formData: FormData) {
+    const denied = await denyUnless('edit_budgets');
+    if (denied) return denied;
+    const user = await requireUser();
     const rawData = {
         description: formData.get('description') as string,
         amount: formData.get('amount') ? parseFloat(formData.get('amount') as string) : undefined,
         year: formData.get('year') ? parseInt(formData.get('year') as string, 10) : undefined,
         month: formData.get('month') ? parseInt(formData.get('month') as string, 10) : undefined,
         type: formData.get('type') as 'CAPEX' | 'OPEX' | undefined,
+        currency: formData.get('currency') as string | null,
         business_line_id: formData.get('business_line_id') as string | null, // Keep as string for validation
         cost_center_id: formData.get('cost_center_id') as string | null,     // Keep as string for validation
+        version_id: formData.get('version_id') as string | null,
     };
+    const submit = formData.get('submit') === 'true'; // Submit for approval right away instead of saving a draft
+    const scope = await currentScope();
 
     try {
         // Validate using the schema with preprocess steps
         const validatedData = BudgetSchema.omit({ id: true }).parse(rawData);
+        if (!isInScope(scope, validatedData.business_line_id)) {
+            return { success: false, message: describeOutOfScope(validatedData.business_line_id) };
+        }
 
         // Additional check: Ensure cost center is associated with the business line
          if (validatedData.business_line_id && validatedData.cost_center_id) {
@@ -473,17 +1013,22 @@ export async function addBudgetEntry(formData: FormData) {
                  return { success: false, message: 'Selected Cost Center is not associated with the selected Business Line.' };
              }
          }
+        if (validatedData.version_id && !(await runDbOperation(db => db.get('SELECT 1 FROM budget_versions WHERE id = ?', validatedData.version_id)))) {
+            return { success: false, message: 'Selected Budget Version does not exist.' };
+        }
 
-        await runDbOperation(async (db) => {
-            await db.run(
-                'INSERT INTO budgets (description, amount, year, month, type, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-                [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.business_line_id, validatedData.cost_center_id]
+        const id = await runAuditedOperation(async (db) => {
+            const result = await db.run(
+                `INSERT INTO budgets (description, amount, year, month, type, currency, business_line_id, cost_center_id, version_id, status, submitted_at, submitted_by_user_id)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT id FROM budget_versions WHERE is_default = 1)), ?, ${submit ? 'CURRENT_TIMESTAMP' : 'NULL'}, ?)`,
+                [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.currency, validatedData.business_line_id, validatedData.cost_center_id, validatedData.version_id ?? null, submit ? 'submitted' : 'draft', submit ? user.id : null]
             );
+            return result.lastID!;
         });
+        await notifyWebhooks('budget.created', await loadBudget(id));
         revalidatePath('/budgets');
-        revalidatePath('/');
-        revalidatePath('/charts'); // Revalidate charts page
-        return { success: true, message: 'Budget entry added successfully.' };
+        revalidatePath('/budgets/review');
+        return { success: true, message: submit ? 'Budget entry submitted for approval.' : 'Budget entry saved as a draft.', id };
     } catch (error: any) {
          if (error instanceof z.ZodError) {
             return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
@@ -505,44 +1050,139 @@ export async function addBudgetEntry(formData: FormData) {
 }
 
 
-export async function getBudgets(): Promise<Budget[]> {
+// Columns of a budget row with its review and pending change, read back with toBudget
+const BUDGET_REVIEW_COLUMNS = `
+    b.status, b.review_decision, b.reviewed_by, b.review_comment,
+    strftime('%Y-%m-%d %H:%M:%S', b.reviewed_at) as reviewed_at,
+    (SELECT c.id FROM budget_changes c WHERE c.budget_id = b.id AND c.status = 'submitted') as pending_change_id`;
+
+// Groups the review columns of a budget row or change into its review
+function toReview(row: Record<string, any>, decision: string | null): BudgetReview | null {
+    return decision === 'approved' || decision === 'rejected'
+        ? { decision, reviewer: row.reviewed_by, comment: row.review_comment ?? null, reviewed_at: row.reviewed_at }
+        : null;
+}
+
+// Columns and joins of the budget lists, pages and single entries
+const BUDGET_COLUMNS = `
+    b.id, b.description, b.amount, b.year, b.month, b.type, b.currency,
+    b.business_line_id, b.cost_center_id, b.version_id, ${BUDGET_REVIEW_COLUMNS},
+    bl.name as business_line_name,
+    cc.name as cost_center_name,
+    v.name as version_name,
+    strftime('%Y-%m-%d %H:%M:%S', b.created_at) as created_at,
+    strftime('%Y-%m-%d %H:%M:%S', b.updated_at) as updated_at
+  FROM budgets b
+  LEFT JOIN budget_versions v ON b.version_id = v.id
+  LEFT JOIN business_lines bl ON b.business_line_id = bl.id
+  LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id`;
+
+function toBudget({ review_decision, reviewed_by, review_comment, reviewed_at, ...row }: Record<string, any>): Budget {
+    return { ...row, review: toReview({ reviewed_by, review_comment, reviewed_at }, review_decision) } as Budget;
+}
+
+// A budget entry whatever the signed-in user's scope, as webhook payloads carry it
+async function loadBudget(id: number): Promise<Budget | null> {
+    const row = await runDbOperation(db => db.get<Record<string, any>>(`SELECT ${BUDGET_COLUMNS} WHERE b.id = ?`, id));
+    return row ? toBudget(row) : null;
+}
+
+// Budgets of one version (the default version for null), whatever their approval status
+export async function getBudgets(versionId: number | null = null): Promise<Budget[]> {
+   const scope = await currentScope();
    try {
-       return await runDbOperation(async (db) => {
-           return db.all(`
+       const rows = await runDbOperation(async (db) => {
+           return db.all<Record<string, any>[]>(`
              SELECT
-               b.id, b.description, b.amount, b.year, b.month, b.type,
-               b.business_line_id, b.cost_center_id,
-               bl.name as business_line_name,
-               cc.name as cost_center_name,
-               strftime('%Y-%m-%d %H:%M:%S', b.created_at) as created_at,
-               strftime('%Y-%m-%d %H:%M:%S', b.updated_at) as updated_at
-             FROM budgets b
-             LEFT JOIN business_lines bl ON b.business_line_id = bl.id
-             LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
+               ${BUDGET_COLUMNS}
+             WHERE ${versionId === null ? 'v.is_default = 1' : 'v.id = ?'} AND ${scopeCondition('b.business_line_id', scope)}
              ORDER BY b.year DESC, b.month DESC, b.id DESC
-           `);
+           `, versionId === null ? [] : [versionId]);
        });
+       return rows.map(toBudget);
     } catch (error: any) {
        console.error('Failed to get budgets:', error);
        return [];
     }
 }
 
+// SQL condition and parameters keeping the budget or expense rows (table alias `alias`) that match the filter
+function entryFilterCondition(alias: 'b' | 'e', filter: EntryListQuery): { condition: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    for (const column of ['year', 'month', 'type', 'business_line_id', 'cost_center_id'] as const) {
+        if (filter[column] === 'none') {
+            conditions.push(`${alias}.${column} IS NULL`);
+        } else if (filter[column] !== null) {
+            conditions.push(`${alias}.${column} = ?`);
+            params.push(filter[column]!);
+        }
+    }
+    if (alias === 'b' && filter.status !== null) {
+        conditions.push('b.status = ?');
+        params.push(filter.status);
+    }
+    return { condition: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', params };
+}
+
+// Columns sorted by for each sortable column of the budget and expense lists (joined as in BUDGET_COLUMNS and EXPENSE_COLUMNS)
+const ENTRY_SORT_EXPRESSIONS: Record<EntrySortColumn, (alias: 'b' | 'e', reportingCurrency: string) => string[]> = {
+    'description': alias => [`${alias}.description COLLATE NOCASE`],
+    // In the reporting currency, as the totals add up; entries without a rate are then ordered by currency
+    'amount': (alias, reportingCurrency) => [convertedAmountSql(alias, reportingCurrency), `${alias}.currency`, `${alias}.amount`],
+    'period': alias => [`${alias}.year`, `${alias}.month`],
+    'type': alias => [`${alias}.type`],
+    'business_line': () => ['bl.name COLLATE NOCASE'],
+    'cost_center': () => ['cc.name COLLATE NOCASE'],
+    'status': alias => alias === 'b' ? ['b.status'] : [`${alias}.year`, `${alias}.month`],
+};
+
+// ORDER BY of a list sorted as asked; ties stay newest first, so pages do not overlap. Amounts that cannot be
+// converted into the reporting currency come last either way.
+function entryOrderBy(alias: 'b' | 'e', { sort, direction }: EntryListQuery, reportingCurrency: string): string {
+    const dir = direction === 'asc' ? 'ASC' : 'DESC';
+    const columns = ENTRY_SORT_EXPRESSIONS[sort](alias, reportingCurrency).map(column => `${column} ${dir}${sort === 'amount' ? ' NULLS LAST' : ''}`);
+    return [...columns, `${alias}.year DESC`, `${alias}.month DESC`, `${alias}.id ${sort === 'period' ? dir : 'DESC'}`].join(', ');
+}
+
+// One page of the budgets of a version (the default version for null) matching the filter. The REST API passes an
+// EntryFilter, which lists newest first; the list page passes its whole query.
+export async function getBudgetPage(versionId: number | null, filter: EntryFilter | EntryListQuery, pageRequest: PageRequest): Promise<Page<Budget>> {
+    const scope = await currentScope();
+    const query = EntryListQuerySchema.parse(filter);
+    const { page, pageSize } = PageRequestSchema.parse(pageRequest);
+    const { condition, params } = entryFilterCondition('b', query);
+    const where = `${versionId === null ? 'v.is_default = 1' : 'v.id = ?'} AND ${condition} AND ${scopeCondition('b.business_line_id', scope)}`;
+    const whereParams = versionId === null ? params : [versionId, ...params];
+    try {
+        const reportingCurrency = await getReportingCurrency();
+        return await runDbOperation(async (db) => {
+            const count = await db.get<{ total: number }>(`
+              SELECT COUNT(*) as total FROM budgets b JOIN budget_versions v ON b.version_id = v.id WHERE ${where}
+            `, whereParams);
+            const rows = await db.all<Record<string, any>[]>(`
+              SELECT
+                ${BUDGET_COLUMNS}
+              WHERE ${where}
+              ORDER BY ${entryOrderBy('b', query, reportingCurrency)}
+              LIMIT ? OFFSET ?
+            `, [...whereParams, pageSize, (page - 1) * pageSize]);
+            return { items: rows.map(toBudget), total: count?.total ?? 0, page, pageSize };
+        });
+    } catch (error) {
+        console.error('Failed to get budget page:', error);
+        throw new Error('Failed to get budgets.');
+    }
+}
+
 export async function getBudgetById(id: number): Promise<Budget | null> {
+   const scope = await currentScope();
    try {
        const result = await runDbOperation(async (db) => {
-           return db.get<Budget>(`
+           return db.get<Record<string, any>>(`
                SELECT
-                   b.id, b.description, b.amount, b.year, b.month, b.type,
-                   b.business_line_id, b.cost_center_id,
-                   bl.name as business_line_name,
-                   cc.name as cost_center_name,
-                   strftime('%Y-%m-%d %H:%M:%S', b.created_at) as created_at,
-                   strftime('%Y-%m-%d %H:%M:%S', b.updated_at) as updated_at
-               FROM budgets b
-               LEFT JOIN business_lines bl ON b.business_line_id = bl.id
-               LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
-               WHERE b.id = ?
+                   ${BUDGET_COLUMNS}
+               WHERE b.id = ? AND ${scopeCondition('b.business_line_id', scope)}
            `, id);
        });
         if (!result) {
@@ -550,7 +1190,7 @@ export async function getBudgetById(id: number): Promise<Budget | null> {
              // notFound(); // Or return null depending on desired behavior in caller
              return null;
          }
-       return result;
+       return toBudget(result);
    } catch (error: any) {
        console.error(`Failed to get budget with ID ${id}:`, error);
        // notFound(); // Trigger 404 on error as well?
@@ -559,7 +1199,36 @@ export async function getBudgetById(id: number): Promise<Budget | null> {
 }
 
 
+// Puts a change of an approved budget row in the review queue, replacing the row's change that is waiting for review
+// if there is one. 'delete' changes take the row's current values. Runs in the caller's transaction.
+async function queueBudgetChange(
+    db: Database,
+    budgetId: number,
+    change: { action: 'update'; values: BudgetChangeValues } | { action: 'delete' },
+    submitterId: number,
+    importBatchId: number | null = null
+) {
+    await db.run(`DELETE FROM budget_changes WHERE budget_id = ? AND status = 'submitted'`, budgetId);
+    if (change.action === 'delete') {
+        await db.run(
+            `INSERT INTO budget_changes (budget_id, action, description, amount, year, month, type, currency, business_line_id, cost_center_id, submitted_by_user_id, import_batch_id)
+             SELECT id, 'delete', description, amount, year, month, type, currency, business_line_id, cost_center_id, ?, ? FROM budgets WHERE id = ?`,
+            [submitterId, importBatchId, budgetId]
+        );
+        return;
+    }
+    const { values } = change;
+    await db.run(
+        `INSERT INTO budget_changes (budget_id, description, amount, year, month, type, currency, business_line_id, cost_center_id, submitted_by_user_id, import_batch_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [budgetId, values.description, values.amount, values.year, values.month, values.type, values.currency, values.business_line_id, values.cost_center_id, submitterId, importBatchId]
+    );
+}
+
 export async function updateBudgetEntry(id: number, formData: FormData) {
+    const denied = await denyUnless('edit_budgets');
+    if (denied) return denied;
+    const user = await requireUser();
     const rawData = {
         id: id, // Include id for context
         description: formData.get('description') as string,
@@ -567,13 +1236,20 @@ export async function updateBudgetEntry(id: number, formData: FormData) {
         year: formData.get('year') ? parseInt(formData.get('year') as string, 10) : undefined,
         month: formData.get('month') ? parseInt(formData.get('month') as string, 10) : undefined,
         type: formData.get('type') as 'CAPEX' | 'OPEX' | undefined,
+        currency: formData.get('currency') as string | null,
         business_line_id: formData.get('business_line_id') as string | null, // Keep as string for validation
         cost_center_id: formData.get('cost_center_id') as string | null,     // Keep as string for validation
+        version_id: formData.get('version_id') as string | null,
     };
+    const submit = formData.get('submit') === 'true'; // Submit for approval instead of keeping a draft
+    const scope = await currentScope();
 
   try {
       // Validate using the schema with preprocess steps
       const validatedData = BudgetSchema.parse(rawData);
+      if (!isInScope(scope, validatedData.business_line_id)) {
+          return { success: false, message: describeOutOfScope(validatedData.business_line_id) };
+      }
 
       // Additional check: Ensure cost center is associated with the business line
        if (validatedData.business_line_id && validatedData.cost_center_id) {
@@ -589,24 +1265,57 @@ export async function updateBudgetEntry(id: number, formData: FormData) {
                return { success: false, message: 'Selected Cost Center is not associated with the selected Business Line.' };
            }
        }
+      if (validatedData.version_id && !(await runDbOperation(db => db.get('SELECT 1 FROM budget_versions WHERE id = ?', validatedData.version_id)))) {
+          return { success: false, message: 'Selected Budget Version does not exist.' };
+      }
 
 
-      await runDbOperation(async (db) => {
-         // Trigger handles updated_at
-         const result = await db.run(
-            'UPDATE budgets SET description = ?, amount = ?, year = ?, month = ?, type = ?, business_line_id = ?, cost_center_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-            [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.business_line_id, validatedData.cost_center_id, id]
+      const existing = await runDbOperation(db => db.get<Record<string, any>>('SELECT * FROM budgets WHERE id = ?', id));
+      if (!existing || !isInScope(scope, existing.business_line_id)) {
+          return { success: false, message: `Budget entry with ID ${id} not found.` };
+      }
+
+      // Approved rows keep counting with their approved values: the edit waits for review as a change,
+      // replacing an earlier change that has not been reviewed yet
+      if (existing.status === 'approved') {
+          if (validatedData.version_id && validatedData.version_id !== existing.version_id) {
+              return { success: false, message: 'Approved budget entries cannot be moved to another budget version. Copy the version instead.' };
+          }
+          const proposed = { ...validatedData, business_line_id: validatedData.business_line_id ?? null, cost_center_id: validatedData.cost_center_id ?? null, version_id: existing.version_id };
+          if (isSameEntry(existing, proposed)) {
+              return { success: false, message: 'Nothing changed, so there is nothing to submit for approval.' };
+          }
+          await runDbOperation(async (db) => {
+              await db.run('BEGIN TRANSACTION');
+              try {
+                  await queueBudgetChange(db, id, { action: 'update', values: proposed }, user.id);
+                  await db.run('COMMIT');
+              } catch (dbError) {
+                  await db.run('ROLLBACK');
+                  throw dbError;
+              }
+          });
+          revalidatePath('/budgets');
+          revalidatePath(`/budgets/${id}/edit`);
+          revalidatePath('/budgets/review');
+          return { success: true, message: 'Change submitted for approval. The approved values stay in effect until it is approved.' };
+      }
+
+      await runAuditedOperation(async (db) => {
+         // Trigger handles updated_at. Editing a draft, submitted or rejected row clears its last review.
+         await db.run(
+            `UPDATE budgets SET description = ?, amount = ?, year = ?, month = ?, type = ?, currency = ?, business_line_id = ?, cost_center_id = ?, version_id = COALESCE(?, version_id),
+               status = ?, submitted_at = ${submit ? 'CURRENT_TIMESTAMP' : 'NULL'}, submitted_by_user_id = ?, review_decision = NULL, reviewed_by = NULL, review_comment = NULL, reviewed_at = NULL,
+               updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.currency, validatedData.business_line_id, validatedData.cost_center_id, validatedData.version_id ?? null, submit ? 'submitted' : 'draft', submit ? user.id : null, id]
         );
-         if (result.changes === 0) {
-              console.warn(`Attempted to update budget entry ID ${id}, but it was not found.`);
-              throw new Error(`Budget entry with ID ${id} not found.`);
-         }
         });
+        await notifyWebhooks('budget.updated', await loadBudget(id));
         revalidatePath('/budgets');
         revalidatePath(`/budgets/${id}/edit`); // Revalidate specific edit page
-        revalidatePath('/');
-        revalidatePath('/charts'); // Revalidate charts page
-        return { success: true, message: 'Budget entry updated successfully.' };
+        revalidatePath('/budgets/review');
+        return { success: true, message: submit ? 'Budget entry submitted for approval.' : 'Budget entry saved as a draft.' };
     } catch (error: any) {
          if (error instanceof z.ZodError) {
             return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
@@ -627,15 +1336,44 @@ export async function updateBudgetEntry(id: number, formData: FormData) {
 }
 
 
+// Approved rows are not deleted right away: like edits, taking them out of the budget waits for approval in the review
+// queue as a 'delete' change, replacing an earlier change that has not been reviewed yet
 export async function deleteBudgetEntry(id: number) {
+  const denied = await denyUnless('edit_budgets');
+  if (denied) return denied;
+  const user = await requireUser();
+  if (!await isEntryInScope('budgets', id, await currentScope())) {
+    return { success: false, message: `Budget entry with ID ${id} not found.` };
+  }
   try {
-    await runDbOperation(async (db) => {
-       const result = await db.run('DELETE FROM budgets WHERE id = ?', id);
+    const budget = await loadBudget(id);
+    if (budget?.status === 'approved') {
+        await runDbOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                await queueBudgetChange(db, id, { action: 'delete' }, user.id);
+                await db.run('COMMIT');
+            } catch (dbError) {
+                await db.run('ROLLBACK');
+                throw dbError;
+            }
+        });
+        revalidatePath('/budgets');
+        revalidatePath('/budgets/review');
+        return { success: true, message: `'${budget.description}' is approved, so its deletion was submitted for approval. The entry stays in effect until the deletion is approved.` };
+    }
+    await runAuditedOperation(async (db) => {
+       // Only rows still being drafted or reviewed; approved ones go through review above
+       const result = await db.run(`DELETE FROM budgets WHERE id = ? AND status != 'approved'`, id);
        if (result.changes === 0) {
            console.warn(`Attempted to delete budget entry ID ${id}, but it was not found.`);
        }
     });
+    if (budget) {
+        await notifyWebhooks('budget.deleted', budget);
+    }
     revalidatePath('/budgets');
+    revalidatePath('/budgets/review');
     revalidatePath('/');
     revalidatePath('/charts'); // Revalidate charts page
     return { success: true, message: 'Budget entry deleted successfully.' };
@@ -645,73 +1383,562 @@ export async function deleteBudgetEntry(id: number) {
   }
 }
 
+// --- Budget Version Actions ---
 
-// --- Expense Actions (NEW) ---
+export async function getBudgetVersions(): Promise<BudgetVersion[]> {
+    const scope = await currentScope();
+    try {
+        const rows = await runDbOperation(db => db.all<any[]>(`
+            SELECT
+              v.id, v.name, v.kind, v.description, v.cloned_from_id, v.is_default,
+              source.name as cloned_from_name,
+              (SELECT COUNT(*) FROM budgets b WHERE b.version_id = v.id AND ${scopeCondition('b.business_line_id', scope)}) as budget_count,
+              strftime('%Y-%m-%d %H:%M:%S', v.created_at) as created_at,
+              strftime('%Y-%m-%d %H:%M:%S', v.updated_at) as updated_at
+            FROM budget_versions v
+            LEFT JOIN budget_versions source ON v.cloned_from_id = source.id
+            ORDER BY v.is_default DESC, v.created_at, v.id
+        `));
+        return rows.map(row => ({ ...row, is_default: row.is_default === 1 }));
+    } catch (error: any) {
+        console.error('Failed to get budget versions:', error);
+        return [];
+    }
+}
 
-export async function addExpenseEntry(formData: FormData) {
-    const rawData = {
-        description: formData.get('description') as string,
-        amount: formData.get('amount') ? parseFloat(formData.get('amount') as string) : undefined,
-        year: formData.get('year') ? parseInt(formData.get('year') as string, 10) : undefined,
-        month: formData.get('month') ? parseInt(formData.get('month') as string, 10) : undefined,
-        type: formData.get('type') as 'CAPEX' | 'OPEX' | undefined,
-        business_line_id: formData.get('business_line_id') as string | null,
-        cost_center_id: formData.get('cost_center_id') as string | null,
-    };
+// The version with the given ID, or the default version for null
+async function resolveBudgetVersion(versionId: number | null): Promise<Pick<BudgetVersion, 'id' | 'name'>> {
+    const version = await runDbOperation(db => versionId === null
+        ? db.get<Pick<BudgetVersion, 'id' | 'name'>>('SELECT id, name FROM budget_versions WHERE is_default = 1')
+        : db.get<Pick<BudgetVersion, 'id' | 'name'>>('SELECT id, name FROM budget_versions WHERE id = ?', versionId)
+    );
+    if (!version) {
+        throw new Error(versionId === null ? 'No default budget version is set.' : `Budget version with ID ${versionId} not found.`);
+    }
+    return version;
+}
 
-    try {
-        const validatedData = ExpenseSchema.omit({ id: true }).parse(rawData);
+// Version names are unique regardless of case
+async function isBudgetVersionNameTaken(name: string, exceptId: number | null): Promise<boolean> {
+    const existing = await runDbOperation(db =>
+        db.get('SELECT 1 FROM budget_versions WHERE name = ? AND id IS NOT ?', name, exceptId)
+    );
+    return !!existing;
+}
 
-        if (validatedData.business_line_id && validatedData.cost_center_id) {
-            const isAssociated = await runDbOperation(async (db) => {
-                const association = await db.get(
-                    'SELECT 1 FROM cost_center_business_lines WHERE cost_center_id = ? AND business_line_id = ?',
-                    validatedData.cost_center_id, validatedData.business_line_id
-                );
-                return !!association;
-            });
-            if (!isAssociated) {
-                return { success: false, message: 'Selected Cost Center is not associated with the selected Business Line.' };
-            }
-        }
+function revalidateBudgetVersionPaths() {
+    revalidatePath('/budgets');
+    revalidatePath('/budgets/versions');
+    revalidatePath('/');
+    revalidatePath('/charts');
+    revalidatePath('/variance');
+}
 
+export async function saveBudgetVersion(id: number | null, version: Pick<BudgetVersion, 'name' | 'kind' | 'description'>) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        const validated = BudgetVersionSchema.parse(version);
+        if (await isBudgetVersionNameTaken(validated.name, id)) {
+            return { success: false, message: `A budget version named '${validated.name}' already exists.` };
+        }
         await runDbOperation(async (db) => {
-            await db.run(
-                'INSERT INTO expenses (description, amount, year, month, type, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-                [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.business_line_id, validatedData.cost_center_id]
-            );
+            if (id === null) {
+                await db.run(
+                    'INSERT INTO budget_versions (name, kind, description) VALUES (?, ?, ?)',
+                    [validated.name, validated.kind, validated.description]
+                );
+            } else {
+                const result = await db.run(
+                    'UPDATE budget_versions SET name = ?, kind = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                    [validated.name, validated.kind, validated.description, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Budget version with ID ${id} not found.`);
+                }
+            }
         });
-        revalidatePath('/expenses');
-        revalidatePath('/');
-        revalidatePath('/charts');
-        return { success: true, message: 'Expense entry added successfully.' };
+        revalidateBudgetVersionPaths();
+        return { success: true, message: `Budget version ${id === null ? 'added' : 'updated'} successfully.` };
     } catch (error: any) {
-         if (error instanceof z.ZodError) {
-            return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
         }
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-             // More specific error checking could be added here like in budget actions
-             return { success: false, message: 'Invalid reference to Business Line or Cost Center.' };
-         }
-        console.error('Failed to add expense entry:', error);
-        return { success: false, message: `Failed to add expense entry. Reason: ${error.message || 'Unknown error'}.` };
+        console.error('Failed to save budget version:', error);
+        return { success: false, message: `Failed to save budget version. Reason: ${error.message || 'Unknown error'}.` };
     }
 }
 
+// Creates a new version holding a copy of every budget row of the source version. Copies keep their external IDs
+// (unique per version), so upsert imports into the new version update them; they are not part of any import batch.
+export async function cloneBudgetVersion(sourceId: number, version: Pick<BudgetVersion, 'name' | 'kind' | 'description'>) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        const validated = BudgetVersionSchema.parse(version);
+        if (await isBudgetVersionNameTaken(validated.name, null)) {
+            return { success: false, message: `A budget version named '${validated.name}' already exists.` };
+        }
+        const copied = await runAuditedOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                const source = await db.get('SELECT id FROM budget_versions WHERE id = ?', sourceId);
+                if (!source) {
+                    throw new Error(`Budget version with ID ${sourceId} not found.`);
+                }
+                const versionResult = await db.run(
+                    'INSERT INTO budget_versions (name, kind, description, cloned_from_id) VALUES (?, ?, ?, ?)',
+                    [validated.name, validated.kind, validated.description, sourceId]
+                );
+                const copyResult = await db.run(`
+                    INSERT INTO budgets (description, amount, year, month, type, currency, business_line_id, cost_center_id, external_id, status, submitted_at, submitted_by_user_id, version_id)
+                    SELECT description, amount, year, month, type, currency, business_line_id, cost_center_id, external_id, status, submitted_at, submitted_by_user_id, ?
+                    FROM budgets WHERE version_id = ?
+                    ORDER BY id
+                `, [versionResult.lastID, sourceId]);
+                await db.run('COMMIT');
+                return copyResult.changes ?? 0;
+            } catch (dbError) {
+                await db.run('ROLLBACK');
+                throw dbError;
+            }
+        });
+        revalidateBudgetVersionPaths();
+        return { success: true, message: `Budget version '${validated.name}' created with ${copied} budget entries.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error(`Failed to clone budget version ${sourceId}:`, error);
+        return { success: false, message: `Failed to clone budget version. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// The default version is the one compared with actuals unless another is picked (dashboard, alerts, reports)
+export async function setDefaultBudgetVersion(id: number) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                if (!(await db.get('SELECT 1 FROM budget_versions WHERE id = ?', id))) {
+                    throw new Error(`Budget version with ID ${id} not found.`);
+                }
+                await db.run('UPDATE budget_versions SET is_default = CASE WHEN id = ? THEN 1 ELSE 0 END', id);
+                await db.run('COMMIT');
+            } catch (dbError) {
+                await db.run('ROLLBACK');
+                throw dbError;
+            }
+        });
+        revalidateBudgetVersionPaths();
+        revalidatePath('/alerts');
+        return { success: true, message: 'Default budget version changed. Alerts are checked against it from now on.' };
+    } catch (error: any) {
+        console.error(`Failed to set default budget version ${id}:`, error);
+        return { success: false, message: `Failed to change the default budget version. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Budget rows of the version are deleted with it; the default version cannot be deleted
+export async function deleteBudgetVersion(id: number) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        const version = await runDbOperation(db =>
+            db.get<{ name: string; is_default: number }>('SELECT name, is_default FROM budget_versions WHERE id = ?', id)
+        );
+        if (!version) {
+            return { success: false, message: `Budget version with ID ${id} not found.` };
+        }
+        if (version.is_default === 1) {
+            return { success: false, message: `'${version.name}' is the default budget version. Make another version the default first.` };
+        }
+        await runAuditedOperation(db => db.run('DELETE FROM budget_versions WHERE id = ?', id));
+        revalidateBudgetVersionPaths();
+        return { success: true, message: `Budget version '${version.name}' and its budget entries deleted.` };
+    } catch (error: any) {
+        console.error(`Failed to delete budget version with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete budget version (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- Budget Approval Actions ---
+
+// Draft and rejected entries go into the review queue
+export async function submitBudgetEntries(ids: number[]) {
+    const denied = await denyUnless('edit_budgets');
+    if (denied) return denied;
+    const user = await requireUser();
+    if (ids.length === 0) {
+        return { success: false, message: 'Select at least one budget entry to submit.' };
+    }
+    const scope = await currentScope();
+    try {
+        const submittedIds = await runAuditedOperation(async (db) => {
+            const condition = `id IN (${ids.map(() => '?').join(', ')}) AND status IN ('draft', 'rejected') AND ${scopeCondition('business_line_id', scope)}`;
+            const rows = await db.all<{ id: number }[]>(`SELECT id FROM budgets WHERE ${condition}`, ids);
+            await db.run(
+                `UPDATE budgets SET status = 'submitted', submitted_at = CURRENT_TIMESTAMP, submitted_by_user_id = ?,
+                   review_decision = NULL, reviewed_by = NULL, review_comment = NULL, reviewed_at = NULL
+                 WHERE ${condition}`,
+                [user.id, ...ids]
+            );
+            return rows.map(row => row.id);
+        });
+        for (const id of submittedIds) {
+            await notifyWebhooks('budget.updated', await loadBudget(id));
+        }
+        const submitted = submittedIds.length;
+        revalidatePath('/budgets');
+        revalidatePath('/budgets/review');
+        return { success: true, message: `${submitted} budget ${submitted === 1 ? 'entry' : 'entries'} submitted for approval.` };
+    } catch (error: any) {
+        console.error('Failed to submit budget entries:', error);
+        return { success: false, message: `Failed to submit budget entries. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Takes back an edit of an approved entry before it is reviewed
+export async function withdrawBudgetChange(changeId: number) {
+    const denied = await denyUnless('edit_budgets');
+    if (denied) return denied;
+    const scope = await currentScope();
+    try {
+        const result = await runDbOperation(db => db.run(
+            `DELETE FROM budget_changes WHERE id = ? AND status = 'submitted' AND ${changeScopeCondition('budget_changes', scope)}`, changeId
+        ));
+        if (!result.changes) {
+            return { success: false, message: 'The change is no longer waiting for review.' };
+        }
+        revalidatePath('/budgets');
+        revalidatePath('/budgets/review');
+        return { success: true, message: 'Change withdrawn. The approved values are unchanged.' };
+    } catch (error: any) {
+        console.error(`Failed to withdraw budget change ${changeId}:`, error);
+        return { success: false, message: `Failed to withdraw the change. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Changes are in scope when both the row they change and the business line they assign it to are
+function changeScopeCondition(alias: string, scope: BusinessLineScope): string {
+    return `${scopeCondition(`${alias}.business_line_id`, scope)}
+        AND ${scopeCondition(`(SELECT business_line_id FROM budgets WHERE id = ${alias}.budget_id)`, scope)}`;
+}
+
+function toBudgetChange({ status, reviewed_by, review_comment, reviewed_at, ...row }: Record<string, any>): BudgetChange {
+    return { ...row, status, review: toReview({ reviewed_by, review_comment, reviewed_at }, status) } as BudgetChange;
+}
+
+// Budget rows with their version and the budget owner of their business line, who approves them
+async function selectReviewBudgets(db: Database, where: string, params: any[]): Promise<Record<string, any>[]> {
+    return db.all<Record<string, any>[]>(`
+        SELECT
+          b.id, b.description, b.amount, b.year, b.month, b.type, b.currency,
+          b.business_line_id, b.cost_center_id, b.version_id, ${BUDGET_REVIEW_COLUMNS},
+          bl.name as business_line_name,
+          cc.name as cost_center_name,
+          v.name as version_name,
+          bl.budget_owner_id as approver_id,
+          owner.name as approver,
+          strftime('%Y-%m-%d %H:%M:%S', b.submitted_at) as submitted_at,
+          b.submitted_by_user_id as submitted_by_id
+        FROM budgets b
+        JOIN budget_versions v ON b.version_id = v.id
+        LEFT JOIN business_lines bl ON b.business_line_id = bl.id
+        LEFT JOIN users owner ON bl.budget_owner_id = owner.id
+        LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
+        WHERE ${where}
+    `, params);
+}
+
+// Which review items loadBudgetReviewItems returns: the ones waiting for review (oldest first) or the latest reviewed
+// ones (newest first), at most limit of them, and only the entries and changes with the given IDs when those are set
+interface BudgetReviewItemQuery {
+    reviewed: boolean;
+    limit?: number;
+    entryIds?: number[];
+    changeIds?: number[];
+}
+
+// The queue shows the oldest entries and changes waiting for review; later ones appear as these are reviewed
+const REVIEW_QUEUE_LIMIT = 1000;
+
+// SQL condition keeping the rows with the given IDs, or every row without them. The IDs are validated numbers.
+function idCondition(column: string, ids: number[] | undefined): string {
+    if (ids === undefined) return '1 = 1';
+    if (ids.length === 0) return '0 = 1';
+    return `${column} IN (${ids.map(Number).join(', ')})`;
+}
+
+// Entries and changes of the review queue or the review history, see BudgetReviewItemQuery.
+// A change is approved by the budget owner of the business line it assigns the row to.
+async function loadBudgetReviewItems(db: Database, scope: BusinessLineScope, query: BudgetReviewItemQuery): Promise<BudgetReviewItem[]> {
+    const { reviewed } = query;
+    const limit = query.limit === undefined ? '' : `LIMIT ${Number(query.limit)}`;
+    const entryRows = await selectReviewBudgets(
+        db,
+        `${scopeCondition('b.business_line_id', scope)} AND ${idCondition('b.id', query.entryIds)} AND ${reviewed
+            ? `b.review_decision IS NOT NULL ORDER BY b.reviewed_at DESC, b.id DESC ${limit}`
+            : `b.status = 'submitted' ORDER BY b.submitted_at, b.id ${limit}`}`,
+        []
+    );
+    const changeRows = await db.all<Record<string, any>[]>(`
+        SELECT
+          c.id, c.budget_id, c.action, c.description, c.amount, c.year, c.month, c.type, c.currency,
+          c.business_line_id, c.cost_center_id, c.status, c.reviewed_by, c.review_comment,
+          strftime('%Y-%m-%d %H:%M:%S', c.submitted_at) as submitted_at,
+          strftime('%Y-%m-%d %H:%M:%S', c.reviewed_at) as reviewed_at,
+          bl.name as business_line_name,
+          cc.name as cost_center_name,
+          bl.budget_owner_id as approver_id,
+          owner.name as approver,
+          c.submitted_by_user_id as submitted_by_id
+        FROM budget_changes c
+        LEFT JOIN business_lines bl ON c.business_line_id = bl.id
+        LEFT JOIN users owner ON bl.budget_owner_id = owner.id
+        LEFT JOIN cost_centers cc ON c.cost_center_id = cc.id
+        WHERE ${changeScopeCondition('c', scope)} AND ${idCondition('c.id', query.changeIds)}
+          AND ${reviewed ? `c.status != 'submitted' ORDER BY c.reviewed_at DESC, c.id DESC` : `c.status = 'submitted' ORDER BY c.submitted_at, c.id`}
+        ${limit}
+    `);
+    const changedBudgetIds = Array.from(new Set(changeRows.map(row => row.budget_id)));
+    const changedBudgets = changedBudgetIds.length === 0
+        ? []
+        : await selectReviewBudgets(db, `b.id IN (${changedBudgetIds.map(() => '?').join(', ')})`, changedBudgetIds);
+    const budgetsById = new Map(changedBudgets.map(row => [row.id as number, row]));
+
+    const toItem = (kind: BudgetReviewItem['kind'], budgetRow: Record<string, any>, changeRow: Record<string, any> | null): BudgetReviewItem => {
+        const { version_name, approver_id, approver, submitted_at, submitted_by_id, ...budget } = budgetRow;
+        const approvedBy = changeRow ?? { approver_id, approver };
+        return {
+            kind,
+            id: changeRow?.id ?? budget.id,
+            budget: toBudget({ ...budget, version_name }),
+            change: changeRow ? toBudgetChange((({ approver_id, approver, submitted_by_id, ...change }) => change)(changeRow)) : null,
+            version_name,
+            approver_id: approvedBy.approver_id ?? null,
+            approver: approvedBy.approver ?? null,
+            submitted_at: changeRow ? changeRow.submitted_at : submitted_at,
+            submitted_by_id: (changeRow ? changeRow.submitted_by_id : submitted_by_id) ?? null,
+        };
+    };
+    const items = [
+        ...entryRows.map(row => toItem('entry', row, null)),
+        ...changeRows.filter(row => budgetsById.has(row.budget_id)).map(row => toItem('change', budgetsById.get(row.budget_id)!, row)),
+    ];
+    const sortKey = (item: BudgetReviewItem) => reviewed ? (item.change?.review ?? item.budget.review)?.reviewed_at ?? '' : item.submitted_at;
+    items.sort((a, b) => reviewed ? sortKey(b).localeCompare(sortKey(a)) : sortKey(a).localeCompare(sortKey(b)));
+    return query.limit === undefined ? items : items.slice(0, query.limit);
+}
+
+export async function getBudgetReviewQueue(): Promise<BudgetReviewItem[]> {
+    const scope = await currentScope();
+    try {
+        return await runDbOperation(db => loadBudgetReviewItems(db, scope, { reviewed: false, limit: REVIEW_QUEUE_LIMIT }));
+    } catch (error: any) {
+        console.error('Failed to get the budget review queue:', error);
+        return [];
+    }
+}
+
+export async function getRecentBudgetReviews(limit = 25): Promise<BudgetReviewItem[]> {
+    const scope = await currentScope();
+    try {
+        return await runDbOperation(db => loadBudgetReviewItems(db, scope, { reviewed: true, limit }));
+    } catch (error: any) {
+        console.error('Failed to get recent budget reviews:', error);
+        return [];
+    }
+}
+
+// Approves or rejects entries and changes of the review queue. Approving a change writes its values into the row, or
+// deletes the row for a 'delete' change.
+// Reviews as the signed-in user, who must be the budget owner of the entries' business lines where they have one.
+// Entries outside the user's scope are not in their queue.
+export async function reviewBudgetItems(items: { kind: BudgetReviewItem['kind']; id: number }[], decision: BudgetReviewDecision, comment: string) {
+    const denied = await denyUnless('review_budgets');
+    if (denied) return denied;
+    const reviewer = await requireUser();
+    try {
+        const validated = { ...BudgetReviewSchema.parse({ items, decision, comment }), reviewer: reviewer.name };
+        const scope = await getBusinessLineScope(reviewer);
+        const queue = await runDbOperation(db => loadBudgetReviewItems(db, scope, {
+            reviewed: false,
+            entryIds: validated.items.filter(item => item.kind === 'entry').map(item => item.id),
+            changeIds: validated.items.filter(item => item.kind === 'change').map(item => item.id),
+        }));
+        const reviewedItems: BudgetReviewItem[] = [];
+        for (const requested of validated.items) {
+            const item = queue.find(queued => queued.kind === requested.kind && queued.id === requested.id);
+            if (!item) {
+                return { success: false, message: 'An entry is no longer waiting for review. Reload the page and try again.' };
+            }
+            reviewedItems.push(item);
+            if (!canReviewBudget(item, reviewer)) {
+                const businessLine = item.change ? item.change.business_line_name : item.budget.business_line_name;
+                const description = (item.change ?? item.budget).description;
+                return {
+                    success: false,
+                    message: item.approver_id !== null
+                        ? `Only ${item.approver}, the budget owner of ${businessLine}, can review '${description}'.`
+                        : `You submitted '${description}', so another reviewer has to review it.`,
+                };
+            }
+        }
+        // Approved deletions are sent to webhooks with the rows as they were
+        const isDeletion = (item: BudgetReviewItem) => validated.decision === 'approved' && item.change?.action === 'delete';
+        const deletedBudgets = await Promise.all(reviewedItems.filter(isDeletion).map(item => loadBudget(item.budget.id)));
+
+        await runAuditedOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                for (const item of reviewedItems) {
+                    const { kind, id } = item;
+                    if (kind === 'entry') {
+                        await db.run(
+                            `UPDATE budgets SET status = ?, review_decision = ?, reviewed_by = ?, review_comment = ?, reviewed_at = CURRENT_TIMESTAMP
+                             WHERE id = ? AND status = 'submitted'`,
+                            [validated.decision, validated.decision, validated.reviewer, validated.comment, id]
+                        );
+                        continue;
+                    }
+                    if (isDeletion(item)) {
+                        await db.run('DELETE FROM budgets WHERE id = ?', item.budget.id); // Deletes the change as well
+                        continue;
+                    }
+                    if (validated.decision === 'approved') {
+                        await db.run(`
+                            UPDATE budgets SET (description, amount, year, month, type, currency, business_line_id, cost_center_id) = (
+                              SELECT description, amount, year, month, type, currency, business_line_id, cost_center_id FROM budget_changes WHERE id = ?
+                            ), updated_at = CURRENT_TIMESTAMP
+                            WHERE id = (SELECT budget_id FROM budget_changes WHERE id = ?)
+                        `, [id, id]);
+                    }
+                    await db.run(
+                        `UPDATE budget_changes SET status = ?, reviewed_by = ?, review_comment = ?, reviewed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                        [validated.decision, validated.reviewer, validated.comment, id]
+                    );
+                }
+                await db.run('COMMIT');
+            } catch (dbError) {
+                await db.run('ROLLBACK');
+                throw dbError;
+            }
+        });
+        for (const id of new Set(reviewedItems.filter(item => !isDeletion(item)).map(item => item.budget.id))) {
+            await notifyWebhooks('budget.updated', await loadBudget(id));
+        }
+        for (const budget of deletedBudgets) {
+            if (budget) await notifyWebhooks('budget.deleted', budget);
+        }
+        revalidatePath('/budgets');
+        revalidatePath('/budgets/review');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        revalidatePath('/variance');
+        const count = validated.items.length;
+        return { success: true, message: `${validated.decision === 'approved' ? 'Approved' : 'Rejected'} ${count} ${count === 1 ? 'entry' : 'entries'} of the review queue.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to review budget entries:', error);
+        return { success: false, message: `Failed to review budget entries. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- Expense Actions (NEW) ---
+
+export async function addExpenseEntry(formData: FormData) {
+    const denied = await denyUnless('edit_expenses');
+    if (denied) return denied;
+    const rawData = {
+        description: formData.get('description') as string,
+        amount: formData.get('amount') ? parseFloat(formData.get('amount') as string) : undefined,
+        year: formData.get('year') ? parseInt(formData.get('year') as string, 10) : undefined,
+        month: formData.get('month') ? parseInt(formData.get('month') as string, 10) : undefined,
+        type: formData.get('type') as 'CAPEX' | 'OPEX' | undefined,
+        currency: formData.get('currency') as string | null,
+        business_line_id: formData.get('business_line_id') as string | null,
+        cost_center_id: formData.get('cost_center_id') as string | null,
+    };
+    const scope = await currentScope();
+
+    try {
+        const validatedData = ExpenseSchema.omit({ id: true }).parse(rawData);
+        if (!isInScope(scope, validatedData.business_line_id)) {
+            return { success: false, message: describeOutOfScope(validatedData.business_line_id) };
+        }
+
+        if (validatedData.business_line_id && validatedData.cost_center_id) {
+            const isAssociated = await runDbOperation(async (db) => {
+                const association = await db.get(
+                    'SELECT 1 FROM cost_center_business_lines WHERE cost_center_id = ? AND business_line_id = ?',
+                    validatedData.cost_center_id, validatedData.business_line_id
+                );
+                return !!association;
+            });
+            if (!isAssociated) {
+                return { success: false, message: 'Selected Cost Center is not associated with the selected Business Line.' };
+            }
+        }
+
+        const id = await runAuditedOperation(async (db) => {
+            const result = await db.run(
+                'INSERT INTO expenses (description, amount, year, month, type, currency, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.currency, validatedData.business_line_id, validatedData.cost_center_id]
+            );
+            return result.lastID!;
+        });
+        await notifyWebhooks('expense.created', await loadExpense(id));
+        await evaluateAlertRules([{ year: validatedData.year, month: validatedData.month }]);
+        revalidatePath('/expenses');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: 'Expense entry added successfully.', id };
+    } catch (error: any) {
+         if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
+        }
+        if (error.message?.includes('FOREIGN KEY constraint failed')) {
+             // More specific error checking could be added here like in budget actions
+             return { success: false, message: 'Invalid reference to Business Line or Cost Center.' };
+         }
+        console.error('Failed to add expense entry:', error);
+        return { success: false, message: `Failed to add expense entry. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Columns and joins of the expense lists, pages and single entries
+const EXPENSE_COLUMNS = `
+    e.id, e.description, e.amount, e.year, e.month, e.type, e.currency,
+    e.business_line_id, e.cost_center_id,
+    bl.name as business_line_name,
+    cc.name as cost_center_name,
+    strftime('%Y-%m-%d %H:%M:%S', e.created_at) as created_at,
+    strftime('%Y-%m-%d %H:%M:%S', e.updated_at) as updated_at
+  FROM expenses e
+  LEFT JOIN business_lines bl ON e.business_line_id = bl.id
+  LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id`;
+
+// An expense entry whatever the signed-in user's scope, as webhook payloads carry it
+async function loadExpense(id: number): Promise<Expense | null> {
+    const row = await runDbOperation(db => db.get<Expense>(`SELECT ${EXPENSE_COLUMNS} WHERE e.id = ?`, id));
+    return row ?? null;
+}
+
 export async function getExpenses(): Promise<Expense[]> {
+   const scope = await currentScope();
    try {
        return await runDbOperation(async (db) => {
            return db.all(`
              SELECT
-               e.id, e.description, e.amount, e.year, e.month, e.type,
-               e.business_line_id, e.cost_center_id,
-               bl.name as business_line_name,
-               cc.name as cost_center_name,
-               strftime('%Y-%m-%d %H:%M:%S', e.created_at) as created_at,
-               strftime('%Y-%m-%d %H:%M:%S', e.updated_at) as updated_at
-             FROM expenses e
-             LEFT JOIN business_lines bl ON e.business_line_id = bl.id
-             LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
+               ${EXPENSE_COLUMNS}
+             WHERE ${scopeCondition('e.business_line_id', scope)}
              ORDER BY e.year DESC, e.month DESC, e.id DESC
            `);
        });
@@ -721,21 +1948,40 @@ export async function getExpenses(): Promise<Expense[]> {
     }
 }
 
+// One page of the expenses matching the filter; see getBudgetPage
+export async function getExpensePage(filter: EntryFilter | EntryListQuery, pageRequest: PageRequest): Promise<Page<Expense>> {
+    const scope = await currentScope();
+    const query = EntryListQuerySchema.parse(filter);
+    const { page, pageSize } = PageRequestSchema.parse(pageRequest);
+    const { condition, params } = entryFilterCondition('e', query);
+    const where = `${condition} AND ${scopeCondition('e.business_line_id', scope)}`;
+    try {
+        const reportingCurrency = await getReportingCurrency();
+        return await runDbOperation(async (db) => {
+            const count = await db.get<{ total: number }>(`SELECT COUNT(*) as total FROM expenses e WHERE ${where}`, params);
+            const items = await db.all<Expense[]>(`
+              SELECT
+                ${EXPENSE_COLUMNS}
+              WHERE ${where}
+              ORDER BY ${entryOrderBy('e', query, reportingCurrency)}
+              LIMIT ? OFFSET ?
+            `, [...params, pageSize, (page - 1) * pageSize]);
+            return { items, total: count?.total ?? 0, page, pageSize };
+        });
+    } catch (error) {
+        console.error('Failed to get expense page:', error);
+        throw new Error('Failed to get expenses.');
+    }
+}
+
 export async function getExpenseById(id: number): Promise<Expense | null> {
+   const scope = await currentScope();
    try {
        const result = await runDbOperation(async (db) => {
            return db.get<Expense>(`
                SELECT
-                   e.id, e.description, e.amount, e.year, e.month, e.type,
-                   e.business_line_id, e.cost_center_id,
-                   bl.name as business_line_name,
-                   cc.name as cost_center_name,
-                   strftime('%Y-%m-%d %H:%M:%S', e.created_at) as created_at,
-                   strftime('%Y-%m-%d %H:%M:%S', e.updated_at) as updated_at
-               FROM expenses e
-               LEFT JOIN business_lines bl ON e.business_line_id = bl.id
-               LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
-               WHERE e.id = ?
+                   ${EXPENSE_COLUMNS}
+               WHERE e.id = ? AND ${scopeCondition('e.business_line_id', scope)}
            `, id);
        });
         if (!result) {
@@ -749,6 +1995,8 @@ export async function getExpenseById(id: number): Promise<Expense | null> {
 }
 
 export async function updateExpenseEntry(id: number, formData: FormData) {
+    const denied = await denyUnless('edit_expenses');
+    if (denied) return denied;
     const rawData = {
         id: id,
         description: formData.get('description') as string,
@@ -756,12 +2004,20 @@ export async function updateExpenseEntry(id: number, formData: FormData) {
         year: formData.get('year') ? parseInt(formData.get('year') as string, 10) : undefined,
         month: formData.get('month') ? parseInt(formData.get('month') as string, 10) : undefined,
         type: formData.get('type') as 'CAPEX' | 'OPEX' | undefined,
+        currency: formData.get('currency') as string | null,
         business_line_id: formData.get('business_line_id') as string | null,
         cost_center_id: formData.get('cost_center_id') as string | null,
     };
+    const scope = await currentScope();
 
   try {
       const validatedData = ExpenseSchema.parse(rawData);
+      if (!isInScope(scope, validatedData.business_line_id)) {
+          return { success: false, message: describeOutOfScope(validatedData.business_line_id) };
+      }
+      if (!await isEntryInScope('expenses', id, scope)) {
+          return { success: false, message: `Expense entry with ID ${id} not found.` };
+      }
 
        if (validatedData.business_line_id && validatedData.cost_center_id) {
            const isAssociated = await runDbOperation(async (db) => {
@@ -776,364 +2032,2799 @@ export async function updateExpenseEntry(id: number, formData: FormData) {
            }
        }
 
-      await runDbOperation(async (db) => {
+      // Spend changes in the period the expense was in as well as the one it is in now, so both are checked
+      const previousMonth = await runAuditedOperation(async (db) => {
+         const previous = await db.get<{ year: number; month: number }>('SELECT year, month FROM expenses WHERE id = ?', id);
          const result = await db.run(
-            'UPDATE expenses SET description = ?, amount = ?, year = ?, month = ?, type = ?, business_line_id = ?, cost_center_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-            [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.business_line_id, validatedData.cost_center_id, id]
+            'UPDATE expenses SET description = ?, amount = ?, year = ?, month = ?, type = ?, currency = ?, business_line_id = ?, cost_center_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [validatedData.description, validatedData.amount, validatedData.year, validatedData.month, validatedData.type, validatedData.currency, validatedData.business_line_id, validatedData.cost_center_id, id]
         );
-         if (result.changes === 0) {
+         if (!previous || result.changes === 0) {
               throw new Error(`Expense entry with ID ${id} not found.`);
          }
+         return previous;
+        });
+        await notifyWebhooks('expense.updated', await loadExpense(id));
+        await evaluateAlertRules([previousMonth, { year: validatedData.year, month: validatedData.month }]);
+        revalidatePath('/expenses');
+        revalidatePath(`/expenses/${id}/edit`);
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: 'Expense entry updated successfully.' };
+    } catch (error: any) {
+         if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
+        }
+        if (error.message?.includes('FOREIGN KEY constraint failed')) {
+             // Specific error checking like in budget actions
+             return { success: false, message: 'Invalid reference to Business Line or Cost Center.' };
+         }
+        console.error(`Failed to update expense entry with ID ${id}:`, error);
+        return { success: false, message: `Failed to update expense entry (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteExpenseEntry(id: number) {
+  const denied = await denyUnless('edit_expenses');
+  if (denied) return denied;
+  if (!await isEntryInScope('expenses', id, await currentScope())) {
+    return { success: false, message: `Expense entry with ID ${id} not found.` };
+  }
+  try {
+    const expense = await loadExpense(id);
+    await runAuditedOperation(async (db) => {
+       const result = await db.run('DELETE FROM expenses WHERE id = ?', id);
+       if (result.changes === 0) {
+           console.warn(`Attempted to delete expense entry ID ${id}, but it was not found.`);
+       }
+    });
+    if (expense) {
+        await notifyWebhooks('expense.deleted', expense);
+    }
+    revalidatePath('/expenses');
+    revalidatePath('/');
+    revalidatePath('/charts');
+    return { success: true, message: 'Expense entry deleted successfully.' };
+  } catch (error: any) {
+    console.error(`Failed to delete expense entry with ID ${id}:`, error);
+    return { success: false, message: `Failed to delete expense entry (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+  }
+}
+
+
+// --- Import Mapping Profile Actions ---
+
+function rowToMappingProfile(row: { id: number; name: string; mapping: string; created_at?: string; updated_at?: string }): ImportMappingProfile {
+    return { ...row, mapping: JSON.parse(row.mapping) as ColumnMapping };
+}
+
+export async function getImportMappingProfiles(): Promise<ImportMappingProfile[]> {
+    await requireUser();
+    try {
+        const rows = await runDbOperation(async (db) => {
+            return db.all(`
+                SELECT id, name, mapping,
+                    strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+                    strftime('%Y-%m-%d %H:%M:%S', updated_at) as updated_at
+                FROM import_mapping_profiles
+                ORDER BY name
+            `);
+        });
+        return rows.map(rowToMappingProfile);
+    } catch (error: any) {
+        console.error('Failed to get import mapping profiles:', error);
+        return [];
+    }
+}
+
+export async function getImportMappingProfileById(id: number): Promise<ImportMappingProfile | null> {
+    await requireUser();
+    try {
+        const row = await runDbOperation(async (db) => {
+            return db.get('SELECT id, name, mapping FROM import_mapping_profiles WHERE id = ?', id);
+        });
+        return row ? rowToMappingProfile(row) : null;
+    } catch (error: any) {
+        console.error(`Failed to get import mapping profile with ID ${id}:`, error);
+        return null;
+    }
+}
+
+// Creates a profile when id is null, otherwise updates the existing one
+export async function saveImportMappingProfile(id: number | null, profile: { name: string; mapping: ColumnMapping }) {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    try {
+        const validatedData = ImportMappingProfileSchema.parse(profile);
+        const mappingJson = JSON.stringify(validatedData.mapping);
+        await runDbOperation(async (db) => {
+            if (id === null) {
+                await db.run('INSERT INTO import_mapping_profiles (name, mapping) VALUES (?, ?)', [validatedData.name, mappingJson]);
+            } else {
+                const result = await db.run(
+                    'UPDATE import_mapping_profiles SET name = ?, mapping = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                    [validatedData.name, mappingJson, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Mapping profile with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/upload');
+        revalidatePath('/upload/mappings');
+        return { success: true, message: id === null ? 'Mapping profile added successfully.' : 'Mapping profile updated successfully.' };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
+        }
+        if (error.message?.includes('UNIQUE constraint failed')) {
+            return { success: false, message: `Mapping profile "${profile.name}" already exists.` };
+        }
+        console.error('Failed to save import mapping profile:', error);
+        return { success: false, message: `Failed to save mapping profile. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteImportMappingProfile(id: number) {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM import_mapping_profiles WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete mapping profile ID ${id}, but it was not found.`);
+            }
+        });
+        revalidatePath('/upload');
+        revalidatePath('/upload/mappings');
+        return { success: true, message: 'Mapping profile deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete mapping profile with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete mapping profile (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- Spreadsheet Upload Actions ---
+
+// Lookup tables used to resolve names to IDs and to check associations for staged rows
+interface ImportLookups {
+    businessLinesByName: Map<string, BusinessLine>;
+    businessLinesById: Map<number, BusinessLine>;
+    costCentersByName: Map<string, CostCenter>;
+    costCentersById: Map<number, CostCenter>;
+    associationSet: Set<string>;
+    // Month and business line of each existing row with an external_id, keyed 'Source:external_id'
+    externalIds: Map<string, { year: number; month: number; business_line_id: number | null }>;
+    scope: BusinessLineScope; // Business lines the importing user may write rows for
+    // Lower-cased names of what the import's master-data sheets would create; associations keyed 'cost center|business line'
+    plannedBusinessLines: Set<string>;
+    plannedCostCenters: Set<string>;
+    plannedAssociations: Set<string>;
+}
+
+// External IDs of budgets are only looked up in the budget version the import writes to. Rows may also refer to what
+// the master-data rows would create, which is only written when the import is committed.
+async function loadImportLookups(budgetVersionId: number, masterDataRows: MasterDataRow[] = []): Promise<ImportLookups> {
+    const scope = await currentScope();
+    return runDbOperation(async (db) => {
+        const businessLines = await db.all<BusinessLine[]>('SELECT id, name FROM business_lines');
+        const costCenters = await db.all<CostCenter[]>('SELECT id, name FROM cost_centers');
+        const associations = await db.all<{ cost_center_id: number; business_line_id: number }[]>(
+            'SELECT cost_center_id, business_line_id FROM cost_center_business_lines'
+        );
+        const externalIds = await db.all<{ source: ImportSource; external_id: string; year: number; month: number; business_line_id: number | null }[]>(`
+            SELECT 'Budget' as source, external_id, year, month, business_line_id FROM budgets WHERE external_id IS NOT NULL AND version_id = ?
+            UNION ALL
+            SELECT 'Expense' as source, external_id, year, month, business_line_id FROM expenses WHERE external_id IS NOT NULL
+        `, budgetVersionId);
+        const lookups: ImportLookups = {
+            businessLinesByName: new Map(businessLines.map(bl => [bl.name.toLowerCase().trim(), bl])),
+            businessLinesById: new Map(businessLines.map(bl => [bl.id, bl])),
+            costCentersByName: new Map(costCenters.map(cc => [cc.name.toLowerCase().trim(), cc])),
+            costCentersById: new Map(costCenters.map(cc => [cc.id, cc])),
+            associationSet: new Set(associations.map(a => `${a.cost_center_id}-${a.business_line_id}`)),
+            externalIds: new Map(externalIds.map(e => [`${e.source}:${e.external_id}`, { year: e.year, month: e.month, business_line_id: e.business_line_id }])),
+            scope,
+            plannedBusinessLines: new Set(),
+            plannedCostCenters: new Set(),
+            plannedAssociations: new Set(),
+        };
+        for (const row of masterDataRows) {
+            const businessLineName = row.businessLine.toLowerCase();
+            const costCenterName = row.costCenter.toLowerCase();
+            const businessLine = lookups.businessLinesByName.get(businessLineName);
+            const costCenter = lookups.costCentersByName.get(costCenterName);
+            if (businessLineName && !businessLine) lookups.plannedBusinessLines.add(businessLineName);
+            if (costCenterName && !costCenter) lookups.plannedCostCenters.add(costCenterName);
+            if (businessLineName && costCenterName && !(businessLine && costCenter && lookups.associationSet.has(`${costCenter.id}-${businessLine.id}`))) {
+                lookups.plannedAssociations.add(`${costCenterName}|${businessLineName}`);
+            }
+        }
+        return lookups;
+    });
+}
+
+// What committing the master-data rows the lookups were loaded with would create
+function plannedMasterDataCounts(lookups: ImportLookups): MasterDataCounts {
+    return {
+        businessLines: lookups.plannedBusinessLines.size,
+        costCenters: lookups.plannedCostCenters.size,
+        associations: lookups.plannedAssociations.size,
+    };
+}
+
+// Checks the file against the configured upload size limit (CLOUDWISE_MAX_UPLOAD_MB). Returns an error message, or null.
+function checkUploadSize(file: File): string | null {
+    const { maxUploadMb } = getConfig();
+    if (file.size > maxUploadMb * 1024 * 1024) {
+        return `The file is larger than the upload limit of ${maxUploadMb} MB.`;
+    }
+    return null;
+}
+
+// Checks the uploaded file's presence, size and extension. Returns an error message, or null if it can be parsed.
+function checkUploadedFile(file: File | null): string | null {
+    if (!file || file.size === 0) {
+        return 'No file uploaded or file is empty.';
+    }
+    const sizeError = checkUploadSize(file);
+    if (sizeError) {
+        return sizeError;
+    }
+    const fileName = file.name.toLowerCase();
+    if (!fileName.endsWith('.xlsx') && !fileName.endsWith('.csv')) {
+        return 'Invalid file type. Please upload an Excel (.xlsx) or CSV (.csv) file.';
+    }
+    return null;
+}
+
+function normalizeUploadRow(row: Record<string, any>): Record<string, any> {
+    const normalizedRow: Record<string, any> = {};
+    for (const key in row) {
+        if (Object.prototype.hasOwnProperty.call(row, key) && key.trim()) {
+            normalizedRow[normalizeHeader(key)] = row[key];
+        }
+    }
+    return normalizedRow;
+}
+
+function cellText(row: Record<string, any>, column: string): string {
+    const value = row[column];
+    if (value === null || value === undefined) return '';
+    const text = String(value).trim();
+    return text === 'undefined' || text === 'null' ? '' : text;
+}
+
+// Turns a row already mapped onto the standard import fields into a staged row. Values that cannot be parsed become null;
+// validateStagedRow reports them as errors. Amounts and dates are read according to the chosen locale.
+function stageUploadRow(row: Record<string, any>, rowNumber: number, locale: ImportLocale): StagedImportRow {
+    const parseIssues: StagedImportRow['parseIssues'] = {};
+    const { amount, issue: amountIssue } = parseLocaleAmount(row['amount'] instanceof Date ? '' : row['amount'], locale);
+    if (amountIssue) parseIssues.amount = amountIssue;
+
+    // Separate year/month columns win; a single date column is used when both are empty
+    let year = parseInt(cellText(row, 'year'), 10);
+    let month = parseInt(cellText(row, 'month'), 10);
+    const date = row['date'] instanceof Date ? row['date'] : cellText(row, 'date');
+    if (cellText(row, 'year') === '' && cellText(row, 'month') === '' && date !== '') {
+        const yearMonth = parseLocaleYearMonth(date, locale);
+        if (yearMonth) {
+            ({ year, month } = yearMonth);
+        } else {
+            parseIssues.date = `Date '${cellText(row, 'date')}' is not a recognised ${locale} date (e.g. 2025-03, 03/2025 or a full date).`;
+        }
+    }
+    const type = cellText(row, 'type').toUpperCase();
+    const source = cellText(row, 'source').toLowerCase();
+    const currency = cellText(row, 'currency');
+
+    return {
+        rowNumber,
+        sheet: null,
+        // Source defaults to Budget when the column is missing or empty
+        source: source === '' || source === 'budget' ? 'Budget' : source === 'expense' ? 'Expense' : null,
+        description: cellText(row, 'description'),
+        amount,
+        year: isNaN(year) ? null : year,
+        month: isNaN(month) ? null : month,
+        type: type === 'CAPEX' || type === 'OPEX' ? type : null,
+        // Currency defaults to USD when the column is missing or empty
+        currency: currency === '' ? DEFAULT_CURRENCY : normalizeCurrencyCode(currency),
+        external_id: cellText(row, 'external id') || null,
+        business_line_name: cellText(row, 'business line') || null,
+        cost_center_name: cellText(row, 'cost center') || null,
+        business_line_id: null,
+        cost_center_id: null,
+        parseIssues,
+        errors: [],
+        excluded: false,
+    };
+}
+
+// Resolves business line / cost center names to IDs and collects every problem with the row.
+// Used both for the preview and again right before committing, so edited rows are re-checked.
+function validateStagedRow(row: StagedImportRow, lookups: ImportLookups): StagedImportRow {
+    const errors: string[] = [];
+
+    if (!row.source) errors.push(`Invalid Source. Must be 'Budget' or 'Expense' (case-insensitive).`);
+    if (!row.description || row.description.trim() === '') errors.push('Invalid or missing Description.');
+    if (row.amount === null && row.parseIssues.amount) {
+        errors.push(row.parseIssues.amount);
+    } else if (row.amount === null || row.amount <= 0) {
+        errors.push(`Invalid or missing positive Amount (value: '${row.amount ?? ''}').`);
+    }
+    if (row.year === null && row.month === null && row.parseIssues.date) {
+        errors.push(row.parseIssues.date);
+    } else {
+        if (row.year === null || row.year < 1900 || row.year > 2100) errors.push(`Invalid or missing Year (1900-2100, value: '${row.year ?? ''}').`);
+        if (row.month === null || row.month < 1 || row.month > 12) errors.push(`Invalid or missing Month (1-12, value: '${row.month ?? ''}').`);
+    }
+    if (!row.type) errors.push(`Invalid or missing Type (must be 'CAPEX' or 'OPEX').`);
+    if (!row.currency) errors.push(`Invalid Currency (must be a 3-letter ISO 4217 code such as 'USD').`);
+
+    // --- Lookup IDs (an explicit ID picked in the preview wins over the name read from the file) ---
+    // Names the master-data sheets would create are valid too; such rows keep a null ID until the import is committed
+    let businessLine: BusinessLine | undefined;
+    let isPlannedBusinessLine = false;
+    const businessLineName = row.business_line_name?.toLowerCase().trim() ?? '';
+    if (row.business_line_id !== null) {
+        businessLine = lookups.businessLinesById.get(row.business_line_id);
+        if (!businessLine) errors.push(`Business Line with ID ${row.business_line_id} not found.`);
+    } else if (businessLineName) {
+        businessLine = lookups.businessLinesByName.get(businessLineName);
+        isPlannedBusinessLine = !businessLine && lookups.plannedBusinessLines.has(businessLineName);
+        if (!businessLine && !isPlannedBusinessLine) errors.push(`Business Line "${row.business_line_name}" not found.`);
+    }
+
+    let costCenter: CostCenter | undefined;
+    let isPlannedCostCenter = false;
+    const costCenterName = row.cost_center_name?.toLowerCase().trim() ?? '';
+    if (row.cost_center_id !== null) {
+        costCenter = lookups.costCentersById.get(row.cost_center_id);
+        if (!costCenter) errors.push(`Cost Center with ID ${row.cost_center_id} not found.`);
+    } else if (costCenterName) {
+        costCenter = lookups.costCentersByName.get(costCenterName);
+        isPlannedCostCenter = !costCenter && lookups.plannedCostCenters.has(costCenterName);
+        if (!costCenter && !isPlannedCostCenter) errors.push(`Cost Center "${row.cost_center_name}" not found.`);
+    }
+
+    if (businessLine && !isInScope(lookups.scope, businessLine.id)) {
+        errors.push(`Business Line "${businessLine.name}" is outside your access.`);
+    } else if (!businessLine && row.business_line_id === null && !row.business_line_name && !isInScope(lookups.scope, null)) {
+        errors.push('Missing Business Line. Your access is limited to some business lines, so every row needs one of them.');
+    }
+
+    // --- Association Validation ---
+    if (businessLine && costCenter && !lookups.associationSet.has(`${costCenter.id}-${businessLine.id}`)
+        && !lookups.plannedAssociations.has(`${costCenter.name.toLowerCase().trim()}|${businessLine.name.toLowerCase().trim()}`)) {
+        errors.push(`Cost Center "${costCenter.name}" is not associated with Business Line "${businessLine.name}".`);
+    } else if ((isPlannedBusinessLine || isPlannedCostCenter) && (businessLine || isPlannedBusinessLine) && (costCenter || isPlannedCostCenter)
+        && !lookups.plannedAssociations.has(`${costCenter?.name.toLowerCase().trim() ?? costCenterName}|${businessLine?.name.toLowerCase().trim() ?? businessLineName}`)) {
+        errors.push(`Cost Center "${costCenter?.name ?? row.cost_center_name}" is not associated with Business Line "${businessLine?.name ?? row.business_line_name}".`);
+    }
+
+    const validatedRow: StagedImportRow = {
+        ...row,
+        description: row.description.trim(),
+        business_line_id: businessLine?.id ?? null,
+        business_line_name: businessLine?.name ?? row.business_line_name,
+        cost_center_id: costCenter?.id ?? null,
+        cost_center_name: costCenter?.name ?? row.cost_center_name,
+        errors,
+    };
+
+    // Final check against the same schema the budget/expense forms use
+    if (errors.length === 0) {
+        const schema = validatedRow.source === 'Expense' ? ExpenseSchema : BudgetSchema;
+        const result = schema.omit({ id: true }).safeParse(stagedRowToEntry(validatedRow));
+        if (!result.success) {
+            errors.push(...result.error.errors.map(e => `Validation Error - ${e.path.join('.')}: ${e.message}`));
+        }
+    }
+
+    return validatedRow;
+}
+
+// Only call for rows without errors: all required fields are known to be set
+function stagedRowToEntry(row: StagedImportRow): BudgetEntry | ExpenseEntry {
+    return {
+        description: row.description,
+        amount: row.amount!,
+        year: row.year!,
+        month: row.month!,
+        type: row.type!,
+        currency: row.currency!,
+        business_line_id: row.business_line_id,
+        cost_center_id: row.cost_center_id,
+        external_id: row.external_id,
+    };
+}
+
+function periodLabel(year: number, month: number): string {
+    return `${String(month).padStart(2, '0')}/${year}`;
+}
+
+// Validates every row, then checks external IDs across the whole file, which depends on the import mode: an ID may
+// appear once per source, and must not exist yet unless the row upserts it or replaces the month it is in.
+function validateStagedRows(rows: StagedImportRow[], lookups: ImportLookups, mode: ImportMode): StagedImportRow[] {
+    const validatedRows = rows.map(row => validateStagedRow(row, lookups));
+    const included = validatedRows.filter(r => !r.excluded && r.source);
+
+    const occurrences = new Map<string, number>();
+    included.forEach(r => {
+        if (r.external_id) {
+            const key = `${r.source}:${r.external_id}`;
+            occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+        }
+    });
+    // Months whose existing rows a replace import deletes, keyed 'Source:year-month'
+    const replacedPeriods = new Set(
+        mode === 'replace' ? included.filter(r => r.errors.length === 0).map(r => `${r.source}:${r.year}-${r.month}`) : []
+    );
+
+    return validatedRows.map(row => {
+        if (row.excluded || !row.source || !row.external_id) return row;
+        const key = `${row.source}:${row.external_id}`;
+        const errors = [...row.errors];
+        if ((occurrences.get(key) ?? 0) > 1) {
+            errors.push(`External ID '${row.external_id}' appears in more than one ${row.source.toLowerCase()} row of this file.`);
+        }
+        const existing = lookups.externalIds.get(key);
+        if (existing && mode !== 'insert' && !isInScope(lookups.scope, existing.business_line_id)) {
+            errors.push(`${row.source} with External ID '${row.external_id}' belongs to a business line outside your access.`);
+        } else if (existing && mode === 'insert') {
+            errors.push(`${row.source} with External ID '${row.external_id}' already exists. Choose the upsert mode to update it.`);
+        } else if (existing && mode === 'replace' && !replacedPeriods.has(`${row.source}:${existing.year}-${existing.month}`)) {
+            errors.push(`${row.source} with External ID '${row.external_id}' already exists in ${periodLabel(existing.year, existing.month)}, a month this file does not replace.`);
+        }
+        return errors.length === row.errors.length ? row : { ...row, errors };
+    });
+}
+
+// Reads an uploaded file into a workbook. CSV cells are kept as text so amounts and dates can be read in the
+// chosen locale; XLSX cells keep their real numbers and dates.
+function readUploadWorkbook(bytes: ArrayBuffer, isXlsx: boolean): XLSX.WorkBook {
+    return isXlsx
+        ? XLSX.read(bytes, { type: 'buffer', cellDates: true })
+        : XLSX.read(Buffer.from(bytes).toString('utf8'), { type: 'string', raw: true });
+}
+
+// Rows of one sheet, keyed by normalized header
+function readSheetRows(workbook: XLSX.WorkBook, sheetName: string): Record<string, any>[] {
+    const data = XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets[sheetName], { defval: '' });
+    return data.map(normalizeUploadRow);
+}
+
+function isEmptyUploadRow(row: Record<string, any>): boolean {
+    return Object.values(row).every(v => v === null || v === undefined || String(v).trim() === '');
+}
+
+// The business line and cost center of every master-data sheet row that names at least one of them
+function readMasterDataRows(rows: Record<string, any>[]): MasterDataRow[] {
+    return rows
+        .map(row => ({ businessLine: cellText(row, 'business line'), costCenter: cellText(row, 'cost center') }))
+        .filter(row => row.businessLine || row.costCenter);
+}
+
+// Creates the business lines, cost centers and associations listed in master-data rows, within the transaction of
+// the import they belong to, and records them against its batch so reverting it removes them. Names match existing
+// ones case-insensitively; nothing is renamed or removed. Returns the IDs of the business lines and cost centers
+// named, keyed by lower-cased name, so rows referring to new ones can be resolved.
+async function writeMasterDataRows(db: Database, batchId: number, rows: MasterDataRow[]): Promise<{
+    counts: MasterDataCounts;
+    businessLineIds: Map<string, number>;
+    costCenterIds: Map<string, number>;
+}> {
+    const businessLineIds = new Map((await db.all<BusinessLine[]>('SELECT id, name FROM business_lines')).map(bl => [bl.name.toLowerCase().trim(), bl.id]));
+    const costCenterIds = new Map((await db.all<CostCenter[]>('SELECT id, name FROM cost_centers')).map(cc => [cc.name.toLowerCase().trim(), cc.id]));
+    const associations = new Set((await db.all<{ cost_center_id: number; business_line_id: number }[]>(
+        'SELECT cost_center_id, business_line_id FROM cost_center_business_lines'
+    )).map(a => `${a.cost_center_id}-${a.business_line_id}`));
+    const counts: MasterDataCounts = { businessLines: 0, costCenters: 0, associations: 0 };
+    const record = (kind: 'business_line' | 'cost_center' | 'association', businessLineId: number | null, costCenterId: number | null) =>
+        db.run('INSERT INTO import_batch_master_data (batch_id, kind, business_line_id, cost_center_id) VALUES (?, ?, ?, ?)', [batchId, kind, businessLineId, costCenterId]);
+
+    for (const row of rows) {
+        let businessLineId = businessLineIds.get(row.businessLine.toLowerCase());
+        if (row.businessLine && businessLineId === undefined) {
+            businessLineId = (await db.run('INSERT INTO business_lines (name) VALUES (?)', row.businessLine)).lastID!;
+            businessLineIds.set(row.businessLine.toLowerCase(), businessLineId);
+            await record('business_line', businessLineId, null);
+            counts.businessLines++;
+        }
+        let costCenterId = costCenterIds.get(row.costCenter.toLowerCase());
+        if (row.costCenter && costCenterId === undefined) {
+            costCenterId = (await db.run('INSERT INTO cost_centers (name) VALUES (?)', row.costCenter)).lastID!;
+            costCenterIds.set(row.costCenter.toLowerCase(), costCenterId);
+            await record('cost_center', null, costCenterId);
+            counts.costCenters++;
+        }
+        if (businessLineId !== undefined && costCenterId !== undefined && !associations.has(`${costCenterId}-${businessLineId}`)) {
+            await db.run('INSERT INTO cost_center_business_lines (cost_center_id, business_line_id) VALUES (?, ?)', costCenterId, businessLineId);
+            associations.add(`${costCenterId}-${businessLineId}`);
+            await record('association', businessLineId, costCenterId);
+            counts.associations++;
+        }
+    }
+    return { counts, businessLineIds, costCenterIds };
+}
+
+function hasMasterDataChanges(counts: MasterDataCounts): boolean {
+    return counts.businessLines + counts.costCenters + counts.associations > 0;
+}
+
+function describeMasterDataCounts(counts: MasterDataCounts): string {
+    return `${counts.businessLines} business lines, ${counts.costCenters} cost centers and ${counts.associations} associations`;
+}
+
+// Parses an uploaded file into staged rows and validates them. Without a sheet selection (and always for CSV) only
+// the first sheet is read, with the Source column deciding where rows go. With one, every chosen sheet is read
+// according to its role; the entry sheets may refer to what the master-data sheets would create. Nothing is written:
+// master data is saved when the import is committed, together with its rows.
+async function stageUploadedFile(
+    file: File,
+    mapping: ColumnMapping,
+    locale: ImportLocale,
+    mode: ImportMode,
+    sheetRoles: Record<string, WorkbookSheetRole> | null,
+    budgetVersionId: number | null
+): Promise<{ success: boolean; message: string; preview?: Omit<ImportPreview, 'id'> }> {
+    const fileError = checkUploadedFile(file);
+    if (fileError) {
+        return { success: false, message: fileError };
+    }
+    const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+
+    try {
+        const bytes = await file.arrayBuffer();
+        const checksum = createHash('sha256').update(Buffer.from(bytes)).digest('hex');
+        const workbook = readUploadWorkbook(bytes, isXlsx);
+
+        const useSheetRoles = isXlsx && sheetRoles !== null;
+        const sheets: [string, WorkbookSheetRole][] = useSheetRoles ? Object.entries(sheetRoles) : [[workbook.SheetNames[0], 'entries']];
+        if (sheets.length === 0) {
+            return { success: false, message: 'Choose at least one sheet to import.' };
+        }
+        const missingSheets = sheets.filter(([name]) => !workbook.Sheets[name]).map(([name]) => `'${name}'`);
+        if (missingSheets.length > 0) {
+            return { success: false, message: `Sheet(s) not found in the workbook: ${missingSheets.join(', ')}.` };
+        }
+
+        const entrySheets: { name: string; role: WorkbookSheetRole; rows: Record<string, any>[] }[] = [];
+        for (const [name, role] of sheets) {
+            if (role === 'master_data') continue;
+            const rows = readSheetRows(workbook, name);
+            const headers = new Set(rows.flatMap(row => Object.keys(row)));
+            const unmappedFields = findUnmappedRequiredFields(mapping, headers);
+            if (rows.length > 0 && unmappedFields.length > 0) {
+                return {
+                    success: false,
+                    message: `${useSheetRoles ? `Sheet '${name}': m` : 'M'}issing required column(s): ${unmappedFields.join(', ')}. Expected columns: ${IMPORT_FIELDS.join(', ')}, or choose a column mapping profile that matches this file.`,
+                };
+            }
+            entrySheets.push({ name, role, rows });
+        }
+
+        const masterDataSheets = sheets.filter(([, role]) => role === 'master_data');
+        if (masterDataSheets.length > 0 && await currentScope() !== null) {
+            return { success: false, message: `${describeScopedPermission('manage_master_data')} Leave the master-data sheets out of the import.` };
+        }
+        const masterDataRows = readMasterDataRows(masterDataSheets.flatMap(([name]) => readSheetRows(workbook, name)));
+
+        const budgetVersion = await resolveBudgetVersion(budgetVersionId);
+        const lookups = await loadImportLookups(budgetVersion.id, masterDataRows);
+        const masterData: MasterDataPlan | null = masterDataSheets.length > 0 ? { rows: masterDataRows, counts: plannedMasterDataCounts(lookups) } : null;
+        let masterDataMessage = '';
+        if (masterData) {
+            masterDataMessage = hasMasterDataChanges(masterData.counts)
+                ? ` Master data: ${describeMasterDataCounts(masterData.counts)} will be created with the import.`
+                : ' Master data: everything listed already exists.';
+        }
+        const stagedRows: StagedImportRow[] = [];
+        for (const sheet of entrySheets) {
+            // A sheet named after a business line (one sheet per business line) fills in rows that name none
+            const sheetBusinessLine = useSheetRoles ? lookups.businessLinesByName.get(sheet.name.toLowerCase().trim()) : undefined;
+            sheet.rows.forEach((row, i) => {
+                const rowNumber = i + 2; // Assuming header is row 1
+                if (isEmptyUploadRow(row)) {
+                    return; // Skip empty rows
+                }
+                const mapped = applyColumnMapping(row, mapping, locale);
+                if (sheet.role === 'budgets') mapped['source'] = 'Budget';
+                if (sheet.role === 'expenses') mapped['source'] = 'Expense';
+                if (sheetBusinessLine && cellText(mapped, 'business line') === '') mapped['business line'] = sheetBusinessLine.name;
+                stagedRows.push({ ...stageUploadRow(mapped, rowNumber, locale), sheet: useSheetRoles ? sheet.name : null });
+            });
+        }
+        const rows = validateStagedRows(stagedRows, lookups, mode);
+
+        if (rows.length === 0 && !(masterData && hasMasterDataChanges(masterData.counts))) {
+            return masterData
+                ? { success: true, message: `The selected sheets contain no budget or expense rows.${masterDataMessage}` }
+                : { success: false, message: 'File is empty or contains no processable data rows.' };
+        }
+
+        // Re-importing a file in replace mode just replaces the same months again, so it is not a duplicate
+        const duplicateBatches = mode === 'replace' ? [] : await findCommittedBatchesByChecksum(checksum);
+        const invalidCount = rows.filter(r => r.errors.length > 0).length;
+        let message = rows.length === 0
+            ? 'The selected sheets contain no budget or expense rows.'
+            : invalidCount > 0
+            ? `Parsed ${rows.length} rows; ${invalidCount} need attention before they can be imported.`
+            : `Parsed ${rows.length} rows; all rows are valid.`;
+        if (duplicateBatches.length > 0) {
+            message += ` This file was already imported on ${duplicateBatches[0].created_at}.`;
+        }
+        message += masterDataMessage;
+        return { success: true, message, preview: { fileName: file.name, checksum, duplicateBatches, mode, budgetVersion, masterData, rows } };
+    } catch (error: any) {
+        console.error('Error processing file:', error);
+        if (error.message?.includes('File is not a zip file') && isXlsx) {
+            return { success: false, message: 'Failed to process spreadsheet: The file is corrupted or not a valid XLSX format.' };
+        }
+        return { success: false, message: `Failed to process ${isXlsx ? 'spreadsheet' : 'CSV'} file. Reason: ${error.message || 'Unknown error'}. Ensure it is a valid ${isXlsx ? 'Excel (.xlsx)' : 'CSV (.csv)'} file with correct structure.` };
+    }
+}
+
+// Identifies the uploaded file for the import_batches record. Previewed uploads keep it in staged_imports.
+interface ImportBatchInfo {
+    fileName: string;
+    checksum: string;
+    mode: ImportMode;
+    budgetVersionId: number; // Version budget rows are written to
+    masterDataRows: MasterDataRow[]; // From the master-data sheets, written with the rows; empty without them
+}
+
+const MasterDataRowsSchema = z.array(z.object({ businessLine: z.string().trim(), costCenter: z.string().trim() }));
+
+// Staged imports are dropped when committed; ones never committed are cleared after a day
+const STAGED_IMPORT_RETENTION = '-1 day';
+
+// Keeps what a previewed upload is committed with, for the user who uploaded it. Returns the staged import's ID.
+async function saveStagedImport(userId: number, batch: ImportBatchInfo): Promise<number> {
+    return runDbOperation(async (db) => {
+        await db.run(`DELETE FROM staged_imports WHERE created_at < datetime('now', ?)`, STAGED_IMPORT_RETENTION);
+        const result = await db.run(
+            'INSERT INTO staged_imports (user_id, file_name, checksum, import_mode, budget_version_id, master_data_rows) VALUES (?, ?, ?, ?, ?, ?)',
+            [userId, batch.fileName, batch.checksum, batch.mode, batch.budgetVersionId, JSON.stringify(batch.masterDataRows)]
+        );
+        return result.lastID!;
+    });
+}
+
+// The user's staged import, or null if it does not exist, belongs to someone else or was committed already
+async function loadStagedImport(id: number, userId: number): Promise<ImportBatchInfo | null> {
+    const staged = await runDbOperation(db => db.get<{ file_name: string; checksum: string; import_mode: string; budget_version_id: number; master_data_rows: string }>(
+        'SELECT file_name, checksum, import_mode, budget_version_id, master_data_rows FROM staged_imports WHERE id = ? AND user_id = ?', id, userId
+    ));
+    if (!staged || !isImportMode(staged.import_mode)) return null;
+    return {
+        fileName: staged.file_name,
+        checksum: staged.checksum,
+        mode: staged.import_mode,
+        budgetVersionId: staged.budget_version_id,
+        masterDataRows: MasterDataRowsSchema.parse(JSON.parse(staged.master_data_rows)),
+    };
+}
+
+const STAGED_IMPORT_MISSING_MESSAGE = 'This import preview has expired or was already imported. Upload the file again.';
+
+// What committing an import did; budgets/expenses count inserted rows, submittedChanges the updates and deletions of
+// approved budget rows that wait for review
+interface ImportCounts {
+    batchId: number;
+    budgets: number;
+    expenses: number;
+    updated: number;
+    unchanged: number;
+    deleted: number;
+    submittedChanges: number;
+    masterData: MasterDataCounts;
+}
+
+// Columns copied into import_batch_changes.previous_values, so a reverted import can put rows back as they were
+const RESTORABLE_ENTRY_COLUMNS = [
+    'description', 'amount', 'year', 'month', 'type', 'currency', 'business_line_id', 'cost_center_id',
+    'import_batch_id', 'external_id', 'created_at', 'updated_at',
+] as const;
+const RESTORABLE_BUDGET_COLUMNS = [...RESTORABLE_ENTRY_COLUMNS, 'version_id', 'status', 'submitted_by_user_id'] as const;
+
+function restorableColumns(source: ImportSource): readonly typeof RESTORABLE_BUDGET_COLUMNS[number][] {
+    return source === 'Budget' ? RESTORABLE_BUDGET_COLUMNS : RESTORABLE_ENTRY_COLUMNS;
+}
+
+// SQL value for a restored column: references to rows deleted since the import become NULL, as ON DELETE SET NULL would have made them.
+// Budgets go back into their version, or into the default version if it was deleted (or not recorded by older imports).
+function restoredColumnValue(column: typeof RESTORABLE_BUDGET_COLUMNS[number]): string {
+    switch (column) {
+        case 'business_line_id': return '(SELECT id FROM business_lines WHERE id = ?)';
+        case 'cost_center_id': return '(SELECT id FROM cost_centers WHERE id = ?)';
+        case 'import_batch_id': return '(SELECT id FROM import_batches WHERE id = ?)';
+        case 'submitted_by_user_id': return '(SELECT id FROM users WHERE id = ?)';
+        case 'version_id': return 'COALESCE((SELECT id FROM budget_versions WHERE id = ?), (SELECT id FROM budget_versions WHERE is_default = 1))';
+        case 'status': return "COALESCE(?, 'approved')"; // Imports from before the approval workflow did not record it
+        default: return '?';
+    }
+}
+
+// Upserted rows count as unchanged when every imported field already has the same value
+function isSameEntry(existing: Record<string, any>, entry: BudgetEntry | ExpenseEntry): boolean {
+    return existing.description === entry.description
+        && existing.amount === entry.amount
+        && existing.year === entry.year
+        && existing.month === entry.month
+        && existing.type === entry.type
+        && existing.currency === entry.currency
+        && existing.business_line_id === entry.business_line_id
+        && existing.cost_center_id === entry.cost_center_id;
+}
+
+// Writes the given (already validated) rows into budgets/expenses in a single transaction, together with the
+// import_batches row they are tagged with. Depending on the mode, rows are inserted, matched on external_id and
+// updated, or replace every existing row of their source in the months the file covers. Rows that are updated or
+// deleted are recorded in import_batch_changes first. Approved budget rows are not written: their updates and
+// deletions go to the review queue as changes of the batch, and the rows stay in effect until those are approved. Master data is written before the rows, which may refer to it by name.
+// uploadedBy is the signed-in user, whose name is recorded in the import history and who submits the imported budgets.
+// Replacing only deletes rows in their scope.
+async function insertStagedRows(
+    rows: StagedImportRow[],
+    batch: ImportBatchInfo & { uploadedBy: Pick<SessionUser, 'id' | 'name'>; scope: BusinessLineScope },
+    skippedCount: number
+): Promise<ImportCounts> {
+    const counts = await runAuditedOperation(async (db) => {
+        await db.run('BEGIN TRANSACTION');
+        try {
+            const batchResult = await db.run(
+                'INSERT INTO import_batches (file_name, checksum, uploaded_by, skipped_count, import_mode) VALUES (?, ?, ?, ?, ?)',
+                [batch.fileName, batch.checksum, batch.uploadedBy.name, skippedCount, batch.mode]
+            );
+            const batchId = batchResult.lastID!;
+            const masterData = await writeMasterDataRows(db, batchId, batch.masterDataRows);
+            const counts: ImportCounts = { batchId, budgets: 0, expenses: 0, updated: 0, unchanged: 0, deleted: 0, submittedChanges: 0, masterData: masterData.counts };
+            // Rows naming a business line or cost center the master data just created were validated without its ID
+            const resolvedRows = rows.map(row => ({
+                ...row,
+                business_line_id: row.business_line_id ?? (row.business_line_name ? masterData.businessLineIds.get(row.business_line_name.toLowerCase().trim()) ?? null : null),
+                cost_center_id: row.cost_center_id ?? (row.cost_center_name ? masterData.costCenterIds.get(row.cost_center_name.toLowerCase().trim()) ?? null : null),
+            }));
+
+            const changeStmt = await db.prepare(
+                'INSERT INTO import_batch_changes (batch_id, source, entry_id, action, previous_values) VALUES (?, ?, ?, ?, ?)'
+            );
+            const recordChange = async (source: ImportSource, existing: Record<string, any>, action: 'updated' | 'deleted') => {
+                const previousValues = Object.fromEntries(restorableColumns(source).map(column => [column, existing[column] ?? null]));
+                await changeStmt.run(batchId, source, existing.id, action, JSON.stringify(previousValues));
+            };
+
+            const isApprovedBudget = (existing: Record<string, any>) => existing.status === 'approved'; // Expenses have no status
+
+            for (const source of ['Budget', 'Expense'] as const) {
+                const table = source === 'Budget' ? 'budgets' : 'expenses';
+                const entries = resolvedRows.filter(r => r.source === source).map(stagedRowToEntry);
+                if (entries.length === 0) continue;
+
+                // Budgets are only matched and replaced within the version the import writes to
+                const versionCondition = source === 'Budget' ? ` AND version_id = ${Number(batch.budgetVersionId)}` : '';
+                const replaceCondition = `${versionCondition} AND ${scopeCondition('business_line_id', batch.scope)}`;
+                // Imported budget values need approval; approved rows are handled above
+                const budgetStatusUpdate = source === 'Budget'
+                    ? `, status = 'submitted', submitted_at = CURRENT_TIMESTAMP, submitted_by_user_id = ${Number(batch.uploadedBy.id)}, review_decision = NULL, reviewed_by = NULL, review_comment = NULL, reviewed_at = NULL`
+                    : '';
+
+                if (batch.mode === 'replace') {
+                    const periods = new Map(entries.map(entry => [`${entry.year}-${entry.month}`, entry]));
+                    for (const { year, month } of Array.from(periods.values())) {
+                        const existingRows = await db.all<Record<string, any>[]>(`SELECT * FROM ${table} WHERE year = ? AND month = ?${replaceCondition}`, year, month);
+                        for (const existing of existingRows) {
+                            if (isApprovedBudget(existing)) {
+                                await queueBudgetChange(db, existing.id, { action: 'delete' }, batch.uploadedBy.id, batchId);
+                                counts.submittedChanges++;
+                                continue;
+                            }
+                            await recordChange(source, existing, 'deleted');
+                            await db.run(`DELETE FROM ${table} WHERE id = ?`, existing.id);
+                            counts.deleted++;
+                        }
+                    }
+                }
+
+                const insertStmt = await db.prepare(source === 'Budget'
+                    ? `INSERT INTO budgets (description, amount, year, month, type, currency, business_line_id, cost_center_id, external_id, import_batch_id, version_id, status, submitted_at, submitted_by_user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${Number(batch.budgetVersionId)}, 'submitted', CURRENT_TIMESTAMP, ${Number(batch.uploadedBy.id)})`
+                    : `INSERT INTO expenses (description, amount, year, month, type, currency, business_line_id, cost_center_id, external_id, import_batch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                );
+                for (const entry of entries) {
+                    if (batch.mode === 'upsert' && entry.external_id) {
+                        const existing = await db.get<Record<string, any>>(`SELECT * FROM ${table} WHERE external_id = ?${versionCondition}`, entry.external_id);
+                        if (existing && isSameEntry(existing, entry)) {
+                            counts.unchanged++;
+                            continue;
+                        }
+                        if (existing && isApprovedBudget(existing)) {
+                            await queueBudgetChange(db, existing.id, { action: 'update', values: entry }, batch.uploadedBy.id, batchId);
+                            counts.submittedChanges++;
+                            continue;
+                        }
+                        if (existing) {
+                            await recordChange(source, existing, 'updated');
+                            await db.run(
+                                `UPDATE ${table} SET description = ?, amount = ?, year = ?, month = ?, type = ?, currency = ?, business_line_id = ?, cost_center_id = ?, import_batch_id = ?${budgetStatusUpdate} WHERE id = ?`,
+                                [entry.description, entry.amount, entry.year, entry.month, entry.type, entry.currency, entry.business_line_id, entry.cost_center_id, batchId, existing.id]
+                            );
+                            counts.updated++;
+                            continue;
+                        }
+                    }
+                    await insertStmt.run(entry.description, entry.amount, entry.year, entry.month, entry.type, entry.currency, entry.business_line_id, entry.cost_center_id, entry.external_id ?? null, batchId);
+                    counts[source === 'Budget' ? 'budgets' : 'expenses']++;
+                }
+                await insertStmt.finalize();
+            }
+            await changeStmt.finalize();
+
+            await db.run(
+                'UPDATE import_batches SET budget_count = ?, expense_count = ?, updated_count = ?, unchanged_count = ?, deleted_count = ? WHERE id = ?',
+                [counts.budgets, counts.expenses, counts.updated, counts.unchanged, counts.deleted, batchId]
+            );
+            await db.run('COMMIT');
+            return counts;
+        } catch (dbError: any) {
+            await db.run('ROLLBACK');
+            console.error('Database insertion error during file upload:', dbError);
+            throw dbError;
+        }
+    });
+
+    const importBatch = await runDbOperation(db => db.get<ImportBatch>(`SELECT ${IMPORT_BATCH_COLUMNS} FROM import_batches ib WHERE ib.id = ?`, counts.batchId));
+    await notifyWebhooks('import.committed', importBatch);
+    if (hasMasterDataChanges(counts.masterData)) {
+        revalidatePath('/business-lines');
+        revalidatePath('/cost-centers');
+        revalidatePath('/cost-center-associations');
+    }
+    revalidatePath('/budgets');
+    revalidatePath('/expenses');
+    revalidatePath('/');
+    revalidatePath('/charts');
+    revalidatePath('/imports');
+    return counts;
+}
+
+// Success message listing what the import did, e.g. 'inserted 3 budget and 2 expense entries, updated 1, ...'
+function describeImportCounts(counts: ImportCounts, mode: ImportMode): string {
+    const parts = [`inserted ${counts.budgets} budget and ${counts.expenses} expense entries`];
+    if (mode === 'upsert') {
+        parts.push(`updated ${counts.updated}`, `left ${counts.unchanged} unchanged`);
+    }
+    if (mode === 'replace') {
+        parts.push(`deleted ${counts.deleted} existing entries in the replaced months`);
+    }
+    if (counts.submittedChanges > 0) {
+        parts.push(`submitted ${counts.submittedChanges} ${mode === 'replace' ? 'deletions' : 'changes'} of approved budget entries for review`);
+    }
+    if (hasMasterDataChanges(counts.masterData)) {
+        parts.push(`created ${describeMasterDataCounts(counts.masterData)}`);
+    }
+    return parts.join(', ');
+}
+
+// Message shown when a file with the same checksum was imported before and the user has not confirmed
+function duplicateUploadMessage(duplicates: ImportBatch[]): string {
+    const latest = duplicates[0];
+    return `This file was already imported on ${latest.created_at} (batch #${latest.id}, ${latest.budget_count} budget and ${latest.expense_count} expense entries). Importing it again will create duplicate entries. Confirm to import anyway.`;
+}
+
+// Picks the mapping for an upload: the profile named by 'mapping_profile_id', or the standard headers.
+// Returns null if the requested profile does not exist.
+async function resolveUploadMapping(formData: FormData): Promise<ColumnMapping | null> {
+    const profileId = parseInt(String(formData.get('mapping_profile_id') ?? ''), 10);
+    if (isNaN(profileId)) {
+        return DEFAULT_COLUMN_MAPPING;
+    }
+    const profile = await getImportMappingProfileById(profileId);
+    return profile ? profile.mapping : null;
+}
+
+// Locale the uploaded file is written in; unknown values fall back to en-US
+function resolveUploadLocale(formData: FormData): ImportLocale {
+    const locale = formData.get('locale');
+    return isImportLocale(locale) ? locale : DEFAULT_IMPORT_LOCALE;
+}
+
+// Import mode picked in the upload form ('import_mode'); unknown values fall back to insert only
+function resolveUploadMode(formData: FormData): ImportMode {
+    const mode = formData.get('import_mode');
+    return isImportMode(mode) ? mode : DEFAULT_IMPORT_MODE;
+}
+
+// Step 1 of the two-step import: parse and validate the file, returning every row for review
+export async function previewSpreadsheet(formData: FormData): Promise<{ success: boolean; message: string; preview?: ImportPreview }> {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const user = await requireUser();
+    const mapping = await resolveUploadMapping(formData);
+    if (!mapping) {
+        return { success: false, message: 'The selected column mapping profile no longer exists.' };
+    }
+    const staged = await stageUploadedFile(
+        formData.get('spreadsheet') as File,
+        mapping,
+        resolveUploadLocale(formData),
+        resolveUploadMode(formData),
+        parseSheetRoles(formData.get('sheet_roles')),
+        parseBudgetVersionId(formData.get('budget_version_id'))
+    );
+    if (!staged.success || !staged.preview) {
+        return { success: staged.success, message: staged.message };
+    }
+    try {
+        const { fileName, checksum, mode, budgetVersion, masterData } = staged.preview;
+        const id = await saveStagedImport(user.id, { fileName, checksum, mode, budgetVersionId: budgetVersion.id, masterDataRows: masterData?.rows ?? [] });
+        return { success: true, message: staged.message, preview: { ...staged.preview, id } };
+    } catch (error: any) {
+        console.error('Failed to save staged import:', error);
+        return { success: false, message: `Failed to prepare the import preview. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Lists the sheets of an uploaded workbook with a guess of what each holds (using the chosen mapping profile),
+// so the user can pick the sheets to import before the preview
+export async function inspectWorkbook(formData: FormData): Promise<{ success: boolean; message: string; sheets?: WorkbookSheet[] }> {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const file = formData.get('spreadsheet') as File;
+    const fileError = checkUploadedFile(file);
+    if (fileError) {
+        return { success: false, message: fileError };
+    }
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+        return { success: false, message: 'Only Excel (.xlsx) workbooks have sheets to choose from.' };
+    }
+    const mapping = await resolveUploadMapping(formData);
+    if (!mapping) {
+        return { success: false, message: 'The selected column mapping profile no longer exists.' };
+    }
+
+    try {
+        const workbook = readUploadWorkbook(await file.arrayBuffer(), true);
+        const sheets = workbook.SheetNames.map((name): WorkbookSheet => {
+            const rows = readSheetRows(workbook, name).filter(row => !isEmptyUploadRow(row));
+            const headers = new Set(rows.flatMap(row => Object.keys(row)));
+            return { name, rowCount: rows.length, suggestedRole: rows.length > 0 ? suggestSheetRole(name, headers, mapping) : null };
+        });
+        return { success: true, message: `The workbook has ${sheets.length} sheet(s).`, sheets };
+    } catch (error: any) {
+        console.error('Error reading workbook sheets:', error);
+        if (error.message?.includes('File is not a zip file')) {
+            return { success: false, message: 'Failed to process spreadsheet: The file is corrupted or not a valid XLSX format.' };
+        }
+        return { success: false, message: `Failed to read workbook. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Re-checks the rows of a staged import after they were edited in the preview. Pass every row of the file: external
+// IDs are checked across rows. Rows may refer to what the file's master-data rows would create.
+export async function revalidateImportRows(stagedImportId: number, rows: StagedImportRow[]): Promise<StagedImportRow[]> {
+    const user = await requirePermission('import_data');
+    try {
+        const batch = await loadStagedImport(stagedImportId, user.id);
+        if (!batch) {
+            return rows.map(row => ({ ...row, errors: [STAGED_IMPORT_MISSING_MESSAGE] }));
+        }
+        const lookups = await loadImportLookups(batch.budgetVersionId, batch.masterDataRows);
+        return validateStagedRows(rows, lookups, batch.mode);
+    } catch (error: any) {
+        console.error('Failed to revalidate import rows:', error);
+        return rows.map(row => ({ ...row, errors: ['Could not validate row. Please check server logs.'] }));
+    }
+}
+
+// Step 2 of the two-step import: re-validates the rows of the staged import and writes only the valid, non-excluded
+// ones, with the file, mode and budget version of the preview. Refuses to re-import a file that was already committed
+// unless allowDuplicate is set (or the mode is replace).
+export async function commitImportRows(
+    stagedImportId: number,
+    rows: StagedImportRow[],
+    allowDuplicate = false
+): Promise<{ success: boolean; message: string; rows?: StagedImportRow[]; duplicateBatches?: ImportBatch[] }> {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const user = await requireUser();
+    try {
+        const batch = await loadStagedImport(stagedImportId, user.id);
+        if (!batch) {
+            return { success: false, message: STAGED_IMPORT_MISSING_MESSAGE };
+        }
+        if (!allowDuplicate && batch.mode !== 'replace') {
+            const duplicates = await findCommittedBatchesByChecksum(batch.checksum);
+            if (duplicates.length > 0) {
+                return { success: false, message: duplicateUploadMessage(duplicates), duplicateBatches: duplicates };
+            }
+        }
+
+        const lookups = await loadImportLookups(batch.budgetVersionId, batch.masterDataRows);
+        if (batch.masterDataRows.length > 0 && lookups.scope !== null) {
+            return { success: false, message: `${describeScopedPermission('manage_master_data')} Leave the master-data sheets out of the import.` };
+        }
+        const validatedRows = validateStagedRows(rows, lookups, batch.mode);
+        const rowsToInsert = validatedRows.filter(r => !r.excluded && r.errors.length === 0);
+
+        if (rowsToInsert.length === 0 && !hasMasterDataChanges(plannedMasterDataCounts(lookups))) {
+            return { success: false, message: 'No valid rows selected for import. Fix or include at least one row.', rows: validatedRows };
+        }
+
+        const excludedCount = validatedRows.filter(r => r.excluded).length;
+        const invalidCount = validatedRows.filter(r => !r.excluded && r.errors.length > 0).length;
+        const counts = await insertStagedRows(rowsToInsert, { ...batch, uploadedBy: user, scope: lookups.scope }, excludedCount + invalidCount);
+        await runDbOperation(db => db.run('DELETE FROM staged_imports WHERE id = ?', stagedImportId));
+        await evaluateAlertRules(expenseMonthsOf(rowsToInsert));
+        const skipped = excludedCount + invalidCount > 0
+            ? ` Skipped ${excludedCount} excluded and ${invalidCount} invalid rows.`
+            : '';
+        return {
+            success: true,
+            message: `Import successful (batch #${counts.batchId}): ${describeImportCounts(counts, batch.mode)}.${skipped}`,
+            rows: validatedRows,
+        };
+    } catch (error: any) {
+        console.error('Failed to commit import rows:', error);
+        return { success: false, message: `Failed to import rows. Reason: ${error.message || 'Unknown error'}. Please check server logs.` };
+    }
+}
+
+// One-step upload: imports the whole file in the 'import_mode' given, or nothing if any row has errors.
+// A file that was already imported is refused unless 'allow_duplicate' is 'true'.
+export async function uploadSpreadsheet(formData: FormData): Promise<{ success: boolean; message: string }> {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const user = await requireUser();
+    const file = formData.get('spreadsheet') as File;
+    const mapping = await resolveUploadMapping(formData);
+    if (!mapping) {
+        return { success: false, message: 'The selected column mapping profile no longer exists.' };
+    }
+    const mode = resolveUploadMode(formData);
+    const staged = await stageUploadedFile(
+        file,
+        mapping,
+        resolveUploadLocale(formData),
+        mode,
+        parseSheetRoles(formData.get('sheet_roles')),
+        parseBudgetVersionId(formData.get('budget_version_id'))
+    );
+    if (!staged.success || !staged.preview) {
+        return { success: staged.success, message: staged.message };
+    }
+
+    const errors = staged.preview.rows
+        .filter(r => r.errors.length > 0)
+        .map(r => `${r.sheet ? `Sheet '${r.sheet}' row` : 'Row'} ${r.rowNumber}${r.source ? ` (${r.source})` : ''}: ${r.errors.join('; ')}`);
+    if (errors.length > 0) {
+        console.error("Spreadsheet/CSV Errors:", errors);
+        const MAX_ERRORS_TO_SHOW = 10;
+        const limitedErrors = errors.slice(0, MAX_ERRORS_TO_SHOW);
+        const moreErrorsMessage = errors.length > MAX_ERRORS_TO_SHOW ? `\n... and ${errors.length - MAX_ERRORS_TO_SHOW} more errors.` : '';
+        return { success: false, message: `File contains errors:\n- ${limitedErrors.join('\n- ')}${moreErrorsMessage}\nPlease fix and re-upload.` };
+    }
+
+    const { fileName, checksum, duplicateBatches, budgetVersion, masterData } = staged.preview;
+    if (duplicateBatches.length > 0 && formData.get('allow_duplicate') !== 'true') {
+        return { success: false, message: duplicateUploadMessage(duplicateBatches) };
+    }
+
+    try {
+        const scope = await getBusinessLineScope(user);
+        const counts = await insertStagedRows(
+            staged.preview.rows,
+            { fileName, checksum, uploadedBy: user, scope, mode, budgetVersionId: budgetVersion.id, masterDataRows: masterData?.rows ?? [] },
+            0
+        );
+        await evaluateAlertRules(expenseMonthsOf(staged.preview.rows));
+        const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+        return { success: true, message: `Successfully imported ${isXlsx ? 'spreadsheet' : 'CSV'} (batch #${counts.batchId}): ${describeImportCounts(counts, mode)}.` };
+    } catch (error: any) {
+        return { success: false, message: `Failed to import file. Reason: ${error.message || 'Unknown error'}. Please check server logs.` };
+    }
+}
+
+
+// --- Cloud Cost Report Import Actions ---
+
+const CloudCostImportOptionsSchema = z.object({
+    provider: z.enum(['aws', 'azure', 'gcp', 'focus']),
+    groupBy: z.enum(['tag', 'resource_group', 'service_category', 'none']),
+    tagKey: z.string().trim(),
+    costMetric: z.enum(['unblended', 'net_unblended', 'blended', 'cost', 'cost_after_credits', 'effective_cost']),
+}).superRefine((options, ctx) => {
+    const provider = CLOUD_PROVIDERS[options.provider];
+    if (!provider.groupings.includes(options.groupBy)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groupBy'], message: `${provider.label} exports cannot be grouped by ${options.groupBy}` });
+    }
+    if (!provider.costMetrics.some(metric => metric.value === options.costMetric)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['costMetric'], message: `${provider.label} exports have no '${options.costMetric}' cost` });
+    }
+    if (options.groupBy === 'tag' && !options.tagKey) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tagKey'], message: `Enter the ${provider.tagLabel.toLowerCase()} key to group spend by` });
+    }
+});
+
+function createCloudCostReader(headers: string[], options: CloudCostImportOptions): CloudCostReader {
+    switch (options.provider) {
+        case 'aws': return createAwsCurReader(headers, options);
+        case 'azure': return createAzureCostReader(headers, options);
+        case 'gcp': return createGcpBillingReader(headers, options);
+        case 'focus': return createFocusReader(headers, options);
+    }
+}
+
+// Reads a billing export that may be gzip-compressed: CSV, or JSON lines (BigQuery exports) when the name says so
+function readCostReport(bytes: Buffer, fileName: string): Record<string, any>[] {
+    const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+    const text = (isGzip ? gunzipSync(bytes) : bytes).toString('utf8');
+    const baseName = fileName.toLowerCase().replace(/\.gz$/, '');
+    if (baseName.endsWith('.jsonl') || baseName.endsWith('.json')) {
+        return text.split(/\r?\n/).filter(line => line.trim()).map(line => flattenRecord(JSON.parse(line)));
+    }
+    // raw keeps every cell as text, so 12-digit account IDs keep their leading zeros
+    const workbook = XLSX.read(text, { type: 'string', raw: true });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    return XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, { defval: '' });
+}
+
+// Parses an AWS, Azure, GCP or FOCUS billing export into one staged expense per month, account/subscription/project
+// and (optionally) tag value or resource group. Groups are assigned to business lines / cost centers by the
+// allocation rules. Nothing is written; the rows are committed with commitImportRows like a spreadsheet upload,
+// so they go through the same validation and association checks.
+export async function previewCloudCostReport(formData: FormData): Promise<{ success: boolean; message: string; preview?: ImportPreview }> {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const user = await requireUser();
+    const file = formData.get('report') as File | null;
+    if (!file || file.size === 0) {
+        return { success: false, message: 'No file uploaded or file is empty.' };
+    }
+    const sizeError = checkUploadSize(file);
+    if (sizeError) {
+        return { success: false, message: sizeError };
+    }
+    if (!/\.(csv|json|jsonl)(\.gz)?$/i.test(file.name)) {
+        return { success: false, message: 'Invalid file type. Please upload a billing export as .csv or .jsonl, optionally gzipped.' };
+    }
+
+    let options: CloudCostImportOptions;
+    try {
+        options = CloudCostImportOptionsSchema.parse({
+            provider: formData.get('provider'),
+            groupBy: formData.get('group_by'),
+            tagKey: formData.get('tag_key') ?? '',
+            costMetric: formData.get('cost_metric'),
+        });
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        throw error;
+    }
+    const provider = CLOUD_PROVIDERS[options.provider];
+
+    try {
+        const bytes = Buffer.from(await file.arrayBuffer());
+        const checksum = createHash('sha256').update(bytes).digest('hex');
+        const data = readCostReport(bytes, file.name);
+        if (data.length === 0) {
+            return { success: false, message: 'The report contains no line items.' };
+        }
+
+        const headers = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+        const reader = createCloudCostReader(headers, options);
+        if (reader.missingColumns.length > 0) {
+            return { success: false, message: `Missing column(s): ${reader.missingColumns.join(', ')}. Make sure the file is a ${provider.label} ${provider.exportName}.` };
+        }
+
+        const aggregation = aggregateCloudCostRows(data, reader);
+        // Billing exports only hold expenses; budgets go into the default version
+        const budgetVersion = await resolveBudgetVersion(null);
+        const [rules, lookups] = await Promise.all([getCostAllocationRules(), loadImportLookups(budgetVersion.id)]);
+        const rows = aggregation.groups.map((group, i): StagedImportRow => {
+            const rule = findAllocationRule(rules, group, options);
+            return validateStagedRow({
+                rowNumber: i + 1,
+                sheet: null,
+                source: 'Expense',
+                description: describeCloudCostGroup(group, options),
+                amount: group.amount,
+                year: group.year,
+                month: group.month,
+                type: 'OPEX', // Cloud usage is operating spend
+                currency: group.currency ? normalizeCurrencyCode(group.currency) : DEFAULT_CURRENCY,
+                external_id: null,
+                business_line_name: null,
+                cost_center_name: null,
+                business_line_id: rule?.business_line_id ?? null,
+                cost_center_id: rule?.cost_center_id ?? null,
+                parseIssues: {},
+                errors: [],
+                excluded: false,
+            }, lookups);
+        });
+
+        const duplicateBatches = await findCommittedBatchesByChecksum(checksum);
+        const unmatchedCount = rows.filter(r => r.business_line_id === null && r.cost_center_id === null).length;
+        let message = `Aggregated ${aggregation.lineItemCount} line items into ${rows.length} expense rows; ${unmatchedCount} have no matching allocation rule.`;
+        if (aggregation.unreadableCostCount > 0) {
+            message += ` ${aggregation.unreadableCostCount} line items without a numeric cost were ignored.`;
+        }
+        if (duplicateBatches.length > 0) {
+            message += ` This file was already imported on ${duplicateBatches[0].created_at}.`;
+        }
+        const id = await saveStagedImport(user.id, { fileName: file.name, checksum, mode: DEFAULT_IMPORT_MODE, budgetVersionId: budgetVersion.id, masterDataRows: [] });
+        return { success: true, message, preview: { id, fileName: file.name, checksum, duplicateBatches, mode: DEFAULT_IMPORT_MODE, budgetVersion, masterData: null, rows } };
+    } catch (error: any) {
+        console.error('Error processing cost report:', error);
+        if (error.code === 'Z_DATA_ERROR' || error.code === 'Z_BUF_ERROR') {
+            return { success: false, message: 'Failed to process cost report: the file is not a valid gzip archive.' };
+        }
+        if (error instanceof SyntaxError) {
+            return { success: false, message: `Failed to process cost report: a line is not valid JSON (${error.message}).` };
+        }
+        return { success: false, message: `Failed to process cost report. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// --- Cost Allocation Rule Actions ---
+
+export async function getCostAllocationRules(): Promise<CostAllocationRule[]> {
+    await requireUser();
+    try {
+        return await runDbOperation(async (db) => {
+            return db.all<CostAllocationRule[]>(`
+                SELECT
+                    r.id, r.dimension, r.tag_key, r.value, r.business_line_id, r.cost_center_id,
+                    bl.name as business_line_name,
+                    cc.name as cost_center_name,
+                    strftime('%Y-%m-%d %H:%M:%S', r.created_at) as created_at
+                FROM cost_allocation_rules r
+                LEFT JOIN business_lines bl ON r.business_line_id = bl.id
+                LEFT JOIN cost_centers cc ON r.cost_center_id = cc.id
+                ORDER BY r.dimension, r.tag_key, r.value
+            `);
+        });
+    } catch (error: any) {
+        console.error('Failed to get cost allocation rules:', error);
+        return [];
+    }
+}
+
+// Rules are used by every import, so users limited to some business lines only change rules that allocate to one of them
+async function isAllocationRuleInScope(id: number, scope: BusinessLineScope): Promise<boolean> {
+    if (scope === null) return true;
+    const rule = await runDbOperation(db => db.get<{ business_line_id: number | null }>('SELECT business_line_id FROM cost_allocation_rules WHERE id = ?', id));
+    return !rule || isInScope(scope, rule.business_line_id);
+}
+
+// Creates a rule when id is null, otherwise updates the existing one
+export async function saveCostAllocationRule(
+    id: number | null,
+    rule: { dimension: CostDimension; tag_key: string; value: string; business_line_id: number | null; cost_center_id: number | null }
+) {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    const scope = await currentScope();
+    try {
+        const validatedData = CostAllocationRuleSchema.parse(rule);
+        const tagKey = validatedData.dimension === 'tag' ? validatedData.tag_key : '';
+        if (!isInScope(scope, validatedData.business_line_id) || (id !== null && !await isAllocationRuleInScope(id, scope))) {
+            return { success: false, message: describeOutOfScope(validatedData.business_line_id) };
+        }
+
+        // Checked up front: runDbOperation hides the UNIQUE constraint error behind a generic message
+        const existing = await runDbOperation(async (db) => {
+            return db.get(
+                'SELECT id FROM cost_allocation_rules WHERE dimension = ? AND tag_key = ? AND value = ? AND id IS NOT ?',
+                [validatedData.dimension, tagKey, validatedData.value, id]
+            );
+        });
+        if (existing) {
+            return { success: false, message: `A rule for ${COST_DIMENSION_LABELS[validatedData.dimension]}${tagKey ? ` ${tagKey}` : ''} = "${validatedData.value}" already exists.` };
+        }
+
+        // Same association check the budget and expense forms rely on
+        if (validatedData.business_line_id !== null && validatedData.cost_center_id !== null) {
+            const association = await runDbOperation(async (db) => {
+                return db.get(
+                    'SELECT 1 FROM cost_center_business_lines WHERE cost_center_id = ? AND business_line_id = ?',
+                    [validatedData.cost_center_id, validatedData.business_line_id]
+                );
+            });
+            if (!association) {
+                return { success: false, message: 'The selected cost center is not associated with the selected business line.' };
+            }
+        }
+
+        await runDbOperation(async (db) => {
+            const values = [validatedData.dimension, tagKey, validatedData.value, validatedData.business_line_id, validatedData.cost_center_id];
+            if (id === null) {
+                await db.run('INSERT INTO cost_allocation_rules (dimension, tag_key, value, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?)', values);
+            } else {
+                const result = await db.run(
+                    'UPDATE cost_allocation_rules SET dimension = ?, tag_key = ?, value = ?, business_line_id = ?, cost_center_id = ? WHERE id = ?',
+                    [...values, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Allocation rule with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/upload/allocation-rules');
+        return { success: true, message: id === null ? 'Allocation rule added successfully.' : 'Allocation rule updated successfully.' };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save cost allocation rule:', error);
+        return { success: false, message: `Failed to save allocation rule. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteCostAllocationRule(id: number) {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    if (!await isAllocationRuleInScope(id, await currentScope())) {
+        return { success: false, message: 'You do not have access to the business line of this rule.' };
+    }
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM cost_allocation_rules WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete allocation rule ID ${id}, but it was not found.`);
+            }
+        });
+        revalidatePath('/upload/allocation-rules');
+        return { success: true, message: 'Allocation rule deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete allocation rule with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete allocation rule (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- Import Batch Actions ---
+
+const IMPORT_BATCH_COLUMNS = `
+    ib.id, ib.file_name, ib.checksum, ib.uploaded_by,
+    ib.budget_count, ib.expense_count, ib.skipped_count, ib.status,
+    ib.import_mode, ib.updated_count, ib.unchanged_count, ib.deleted_count,
+    strftime('%Y-%m-%d %H:%M:%S', ib.created_at) as created_at,
+    strftime('%Y-%m-%d %H:%M:%S', ib.reverted_at) as reverted_at,
+    (SELECT COUNT(*) FROM budgets b WHERE b.import_batch_id = ib.id) as remaining_budget_count,
+    (SELECT COUNT(*) FROM expenses e WHERE e.import_batch_id = ib.id) as remaining_expense_count
+`;
+
+// Committed (not reverted) batches that imported a file with the given checksum, newest first
+async function findCommittedBatchesByChecksum(checksum: string): Promise<ImportBatch[]> {
+    return runDbOperation(async (db) => {
+        return db.all<ImportBatch[]>(`
+            SELECT ${IMPORT_BATCH_COLUMNS}
+            FROM import_batches ib
+            WHERE ib.checksum = ? AND ib.status = 'committed'
+            ORDER BY ib.created_at DESC, ib.id DESC
+        `, checksum);
+    });
+}
+
+// SQL condition on import_batches ib keeping the batches whose rows, the rows they changed and the changes they submitted
+// for review are all in the scope.
+// Master data is not scoped, so a batch that created any is only in scope for users with access to every business line.
+function importBatchScopeCondition(scope: BusinessLineScope): string {
+    if (scope === null) return '1 = 1';
+    const outside = (column: string) => `(${column} IS NULL OR NOT ${scopeCondition(column, scope)})`;
+    return `(
+        NOT EXISTS (SELECT 1 FROM import_batch_master_data m WHERE m.batch_id = ib.id)
+        AND NOT EXISTS (SELECT 1 FROM budgets b WHERE b.import_batch_id = ib.id AND ${outside('b.business_line_id')})
+        AND NOT EXISTS (SELECT 1 FROM expenses e WHERE e.import_batch_id = ib.id AND ${outside('e.business_line_id')})
+        AND NOT EXISTS (SELECT 1 FROM import_batch_changes c WHERE c.batch_id = ib.id AND ${outside("CAST(json_extract(c.previous_values, '$.business_line_id') AS INTEGER)")})
+        AND NOT EXISTS (
+            SELECT 1 FROM budget_changes bc WHERE bc.import_batch_id = ib.id AND bc.status = 'submitted'
+              AND (${outside('bc.business_line_id')} OR ${outside('(SELECT business_line_id FROM budgets WHERE id = bc.budget_id)')})
+        )
+    )`;
+}
+
+// Users limited to some business lines only see the batches that stayed within them (see importBatchScopeCondition),
+// and not the ones left with no rows in their business lines, such as reverted batches that only inserted rows
+function visibleImportBatchCondition(scope: BusinessLineScope): string {
+    if (scope === null) return '1 = 1';
+    return `(${importBatchScopeCondition(scope)} AND (
+        EXISTS (SELECT 1 FROM budgets b WHERE b.import_batch_id = ib.id)
+        OR EXISTS (SELECT 1 FROM expenses e WHERE e.import_batch_id = ib.id)
+        OR EXISTS (SELECT 1 FROM import_batch_changes c WHERE c.batch_id = ib.id)
+        OR EXISTS (SELECT 1 FROM budget_changes bc WHERE bc.import_batch_id = ib.id AND bc.status = 'submitted')
+    ))`;
+}
+
+export async function getImportBatches(): Promise<ImportBatch[]> {
+    const scope = await currentScope();
+    try {
+        return await runDbOperation(async (db) => {
+            return db.all<ImportBatch[]>(`
+                SELECT ${IMPORT_BATCH_COLUMNS}
+                FROM import_batches ib
+                WHERE ${visibleImportBatchCondition(scope)}
+                ORDER BY ib.created_at DESC, ib.id DESC
+            `);
+        });
+    } catch (error: any) {
+        console.error('Failed to get import batches:', error);
+        return [];
+    }
+}
+
+export async function getImportBatchById(id: number): Promise<ImportBatch | null> {
+    const scope = await currentScope();
+    try {
+        const result = await runDbOperation(async (db) => {
+            return db.get<ImportBatch>(`
+                SELECT ${IMPORT_BATCH_COLUMNS}
+                FROM import_batches ib
+                WHERE ib.id = ? AND ${visibleImportBatchCondition(scope)}
+            `, id);
+        });
+        return result ?? null;
+    } catch (error: any) {
+        console.error(`Failed to get import batch with ID ${id}:`, error);
+        return null;
+    }
+}
+
+// Rows still tagged with the batch (rows deleted by hand since the import are gone)
+export async function getImportBatchEntries(id: number): Promise<{ budgets: Budget[]; expenses: Expense[] }> {
+    const scope = await currentScope();
+    try {
+        return await runDbOperation(async (db) => {
+            const budgets = await db.all<Budget[]>(`
+                SELECT
+                  b.id, b.description, b.amount, b.year, b.month, b.type, b.currency,
+                  b.business_line_id, b.cost_center_id, b.import_batch_id,
+                  bl.name as business_line_name,
+                  cc.name as cost_center_name,
+                  strftime('%Y-%m-%d %H:%M:%S', b.created_at) as created_at,
+                  strftime('%Y-%m-%d %H:%M:%S', b.updated_at) as updated_at
+                FROM budgets b
+                LEFT JOIN business_lines bl ON b.business_line_id = bl.id
+                LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
+                WHERE b.import_batch_id = ? AND ${scopeCondition('b.business_line_id', scope)}
+                ORDER BY b.year DESC, b.month DESC, b.id DESC
+            `, id);
+            const expenses = await db.all<Expense[]>(`
+                SELECT
+                  e.id, e.description, e.amount, e.year, e.month, e.type, e.currency,
+                  e.business_line_id, e.cost_center_id, e.import_batch_id,
+                  bl.name as business_line_name,
+                  cc.name as cost_center_name,
+                  strftime('%Y-%m-%d %H:%M:%S', e.created_at) as created_at,
+                  strftime('%Y-%m-%d %H:%M:%S', e.updated_at) as updated_at
+                FROM expenses e
+                LEFT JOIN business_lines bl ON e.business_line_id = bl.id
+                LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
+                WHERE e.import_batch_id = ? AND ${scopeCondition('e.business_line_id', scope)}
+                ORDER BY e.year DESC, e.month DESC, e.id DESC
+            `, id);
+            return { budgets, expenses };
+        });
+    } catch (error: any) {
+        console.error(`Failed to get entries for import batch ${id}:`, error);
+        return { budgets: [], expenses: [] };
+    }
+}
+
+// Tables whose rows keep a business line or cost center an import created from being removed when it is reverted
+const BUSINESS_LINE_REFERENCES = ['budgets', 'expenses', 'budget_changes', 'cost_center_business_lines', 'alert_rules', 'cost_allocation_rules', 'user_business_lines', 'api_key_business_lines'];
+const COST_CENTER_REFERENCES = ['budgets', 'expenses', 'budget_changes', 'cost_center_business_lines', 'alert_rules', 'cost_allocation_rules'];
+
+// Removes the master data the batch created, within the revert's transaction: its associations, then its business
+// lines and cost centers unless something still refers to them. Returns what was removed and how many were kept.
+async function removeImportedMasterData(db: Database, batchId: number): Promise<{ removed: MasterDataCounts; kept: number }> {
+    const created = await db.all<{ kind: 'business_line' | 'cost_center' | 'association'; business_line_id: number | null; cost_center_id: number | null }[]>(
+        'SELECT kind, business_line_id, cost_center_id FROM import_batch_master_data WHERE batch_id = ? ORDER BY id', batchId
+    );
+    const removed: MasterDataCounts = { businessLines: 0, costCenters: 0, associations: 0 };
+    let kept = 0;
+    for (const item of created.filter(c => c.kind === 'association')) {
+        const result = await db.run('DELETE FROM cost_center_business_lines WHERE cost_center_id = ? AND business_line_id = ?', item.cost_center_id, item.business_line_id);
+        removed.associations += result.changes ?? 0;
+    }
+    const removeUnreferenced = async (table: 'business_lines' | 'cost_centers', column: string, references: string[], id: number) => {
+        const referenced = await db.get(references.map(ref => `SELECT 1 FROM ${ref} WHERE ${column} = ?`).join(' UNION ALL ') + ' LIMIT 1', references.map(() => id));
+        if (referenced) {
+            kept++;
+            return false;
+        }
+        return ((await db.run(`DELETE FROM ${table} WHERE id = ?`, id)).changes ?? 0) > 0;
+    };
+    for (const item of created.filter(c => c.kind === 'business_line')) {
+        if (await removeUnreferenced('business_lines', 'business_line_id', BUSINESS_LINE_REFERENCES, item.business_line_id!)) removed.businessLines++;
+    }
+    for (const item of created.filter(c => c.kind === 'cost_center')) {
+        if (await removeUnreferenced('cost_centers', 'cost_center_id', COST_CENTER_REFERENCES, item.cost_center_id!)) removed.costCenters++;
+    }
+    return { removed, kept };
+}
+
+// Whether reverting the batch only deletes and restores rows in the scope
+async function isImportBatchInScope(id: number, scope: BusinessLineScope): Promise<boolean> {
+    if (scope === null) return true;
+    return runDbOperation(async (db) => {
+        return !!await db.get(`SELECT 1 FROM import_batches ib WHERE ib.id = ? AND ${importBatchScopeCondition(scope)}`, id);
+    });
+}
+
+// Deletes every budget/expense still tagged with the batch, withdraws its changes still waiting for review, removes the
+// master data it created and marks it reverted, all in one transaction
+export async function revertImportBatch(id: number) {
+    const denied = await denyUnless('import_data');
+    if (denied) return denied;
+    try {
+        const batch = await getImportBatchById(id);
+        if (!batch) {
+            return { success: false, message: `Import batch with ID ${id} not found.` };
+        }
+        if (batch.status === 'reverted') {
+            return { success: false, message: `Import batch #${id} has already been reverted.` };
+        }
+        if (!await isImportBatchInScope(id, await currentScope())) {
+            return { success: false, message: `Import batch #${id} touched business lines outside your access, so only a user with access to all of them can revert it.` };
+        }
+
+        // Rows the import updated or deleted are put back as they were before it, even if a later import changed them again
+        const counts = await runAuditedOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                const changes = await db.all<{ source: ImportSource; entry_id: number; action: 'updated' | 'deleted'; previous_values: string }[]>(
+                    'SELECT source, entry_id, action, previous_values FROM import_batch_changes WHERE batch_id = ? ORDER BY id', id
+                );
+                // Restore updated rows first: they then no longer carry this batch's ID and survive the delete below
+                for (const change of changes.filter(c => c.action === 'updated')) {
+                    const previous = JSON.parse(change.previous_values);
+                    const columns = restorableColumns(change.source);
+                    await db.run(
+                        `UPDATE ${change.source === 'Budget' ? 'budgets' : 'expenses'} SET ${columns.map(column => `${column} = ${restoredColumnValue(column)}`).join(', ')} WHERE id = ?`,
+                        [...columns.map(column => previous[column] ?? null), change.entry_id]
+                    );
+                }
+                // Changes of approved rows the import submitted are withdrawn unless they were reviewed already
+                await db.run(`DELETE FROM budget_changes WHERE import_batch_id = ? AND status = 'submitted'`, id);
+                const budgetResult = await db.run('DELETE FROM budgets WHERE import_batch_id = ?', id);
+                const expenseResult = await db.run('DELETE FROM expenses WHERE import_batch_id = ?', id);
+                // Deleted rows come back with their original IDs, after this batch's rows (which may reuse their external IDs) are gone
+                for (const change of changes.filter(c => c.action === 'deleted')) {
+                    const previous = JSON.parse(change.previous_values);
+                    const columns = restorableColumns(change.source);
+                    await db.run(
+                        `INSERT INTO ${change.source === 'Budget' ? 'budgets' : 'expenses'} (id, ${columns.join(', ')}) VALUES (?, ${columns.map(restoredColumnValue).join(', ')})`,
+                        [change.entry_id, ...columns.map(column => previous[column] ?? null)]
+                    );
+                }
+                const masterData = await removeImportedMasterData(db, id);
+                await db.run("UPDATE import_batches SET status = 'reverted', reverted_at = CURRENT_TIMESTAMP WHERE id = ?", id);
+                await db.run('COMMIT');
+                return { budgets: budgetResult.changes ?? 0, expenses: expenseResult.changes ?? 0, restored: changes.length, masterData };
+            } catch (innerError: any) {
+                await db.run('ROLLBACK');
+                throw innerError;
+            }
+        });
+        revalidatePath('/imports');
+        revalidatePath(`/imports/${id}`);
+        revalidatePath('/budgets');
+        revalidatePath('/expenses');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        const restored = counts.restored > 0 ? ` Restored ${counts.restored} entries the import had updated or deleted.` : '';
+        let masterData = '';
+        if (hasMasterDataChanges(counts.masterData.removed)) {
+            revalidatePath('/business-lines');
+            revalidatePath('/cost-centers');
+            revalidatePath('/cost-center-associations');
+            masterData = ` Removed ${describeMasterDataCounts(counts.masterData.removed)} it had created.`;
+        }
+        if (counts.masterData.kept > 0) {
+            masterData += ` Kept ${counts.masterData.kept} business lines or cost centers it had created that are now in use elsewhere.`;
+        }
+        return { success: true, message: `Import batch #${id} reverted: deleted ${counts.budgets} budget entries and ${counts.expenses} expense entries.${restored}${masterData}` };
+    } catch (error: any) {
+        console.error(`Failed to revert import batch ${id}:`, error);
+        return { success: false, message: `Failed to revert import batch (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+
+// --- Currency Actions ---
+
+const REPORTING_CURRENCY_SETTING = 'reporting_currency';
+
+export async function getReportingCurrency(): Promise<string> {
+    await requireUser();
+    try {
+        const row = await runDbOperation(db =>
+            db.get<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', REPORTING_CURRENCY_SETTING)
+        );
+        return row?.value ?? getConfig().reportingCurrency;
+    } catch (error: any) {
+        console.error('Failed to get reporting currency:', error);
+        return getConfig().reportingCurrency;
+    }
+}
+
+export async function setReportingCurrency(currency: string) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    const code = normalizeCurrencyCode(currency);
+    if (!code) {
+        return { success: false, message: 'Validation failed: Currency must be a 3-letter ISO 4217 code.' };
+    }
+    try {
+        await runDbOperation(db => db.run(
+            `INSERT INTO app_settings (key, value) VALUES (?, ?)
+             ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+            [REPORTING_CURRENCY_SETTING, code]
+        ));
+        revalidatePath('/currencies');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: `Reporting currency set to ${code}.` };
+    } catch (error: any) {
+        console.error('Failed to set reporting currency:', error);
+        return { success: false, message: `Failed to set reporting currency. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+    await requireUser();
+    try {
+        return await runDbOperation(db => db.all<ExchangeRate[]>(`
+            SELECT id, year, month, from_currency, to_currency, rate,
+                   strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+                   strftime('%Y-%m-%d %H:%M:%S', updated_at) as updated_at
+            FROM exchange_rates
+            ORDER BY year DESC, month DESC, from_currency, to_currency
+        `));
+    } catch (error: any) {
+        console.error('Failed to get exchange rates:', error);
+        return [];
+    }
+}
+
+// Converter into the current reporting currency, built from the whole exchange-rate table
+async function loadCurrencyConverter(): Promise<{ reportingCurrency: string; convert: CurrencyConverter }> {
+    const [reportingCurrency, rates] = await Promise.all([getReportingCurrency(), getExchangeRates()]);
+    return { reportingCurrency, convert: createCurrencyConverter(rates, reportingCurrency) };
+}
+
+export async function saveExchangeRate(
+    id: number | null,
+    rate: { year: number; month: number; from_currency: string; to_currency: string; rate: number }
+) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        const validated = ExchangeRateSchema.parse(rate);
+
+        // Checked up front: runDbOperation hides the UNIQUE constraint error behind a generic message
+        const existing = await runDbOperation(db => db.get<{ id: number }>(
+            'SELECT id FROM exchange_rates WHERE year = ? AND month = ? AND from_currency = ? AND to_currency = ? AND id IS NOT ?',
+            [validated.year, validated.month, validated.from_currency, validated.to_currency, id]
+        ));
+        if (existing) {
+            return { success: false, message: `A ${validated.from_currency} to ${validated.to_currency} rate for ${String(validated.month).padStart(2, '0')}/${validated.year} already exists.` };
+        }
+
+        await runDbOperation(async (db) => {
+            if (id === null) {
+                await db.run(
+                    'INSERT INTO exchange_rates (year, month, from_currency, to_currency, rate) VALUES (?, ?, ?, ?, ?)',
+                    [validated.year, validated.month, validated.from_currency, validated.to_currency, validated.rate]
+                );
+            } else {
+                const result = await db.run(
+                    'UPDATE exchange_rates SET year = ?, month = ?, from_currency = ?, to_currency = ?, rate = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                    [validated.year, validated.month, validated.from_currency, validated.to_currency, validated.rate, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Exchange rate with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/currencies');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: `Exchange rate ${id === null ? 'added' : 'updated'} successfully.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save exchange rate:', error);
+        return { success: false, message: `Failed to save exchange rate. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteExchangeRate(id: number) {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM exchange_rates WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete exchange rate ID ${id}, but it was not found.`);
+            }
+        });
+        revalidatePath('/currencies');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: 'Exchange rate deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete exchange rate with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete exchange rate (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Imports rates from a CSV with the columns Year, Month, From, To and Rate. Rates that already exist for the
+// same month and currency pair are overwritten. Nothing is written if any row is invalid.
+export async function importExchangeRates(formData: FormData): Promise<{ success: boolean; message: string }> {
+    const denied = await denyUnless('manage_master_data');
+    if (denied) return denied;
+    const file = formData.get('file') as File | null;
+    if (!file || file.size === 0) {
+        return { success: false, message: 'No file uploaded or file is empty.' };
+    }
+    const sizeError = checkUploadSize(file);
+    if (sizeError) {
+        return { success: false, message: sizeError };
+    }
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+        return { success: false, message: 'Invalid file type. Please upload a CSV (.csv) file.' };
+    }
+
+    try {
+        const workbook = XLSX.read(await file.text(), { type: 'string', raw: true });
+        const data = XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets[workbook.SheetNames[0]], { defval: '' })
+            .map(normalizeUploadRow);
+        if (data.length === 0) {
+            return { success: false, message: 'File is empty or contains no processable data rows.' };
+        }
+
+        const rates: z.infer<typeof ExchangeRateSchema>[] = [];
+        const errors: string[] = [];
+        data.forEach((row, i) => {
+            const result = ExchangeRateSchema.safeParse({
+                year: parseInt(cellText(row, 'year'), 10),
+                month: parseInt(cellText(row, 'month'), 10),
+                from_currency: cellText(row, 'from') || cellText(row, 'from currency') || cellText(row, 'from_currency'),
+                to_currency: cellText(row, 'to') || cellText(row, 'to currency') || cellText(row, 'to_currency'),
+                rate: parseFloat(cellText(row, 'rate')),
+            });
+            if (result.success) {
+                rates.push(result.data);
+            } else {
+                errors.push(`Row ${i + 2}: ${result.error.errors.map(e => e.message).join(', ')}`);
+            }
+        });
+        if (errors.length > 0) {
+            const shown = errors.slice(0, 5).join('; ');
+            return { success: false, message: `No rates imported. ${errors.length} row(s) are invalid: ${shown}${errors.length > 5 ? '; ...' : ''}. Expected columns: Year, Month, From, To, Rate.` };
+        }
+
+        await runDbOperation(async (db) => {
+            await db.run('BEGIN TRANSACTION');
+            try {
+                const stmt = await db.prepare(`
+                    INSERT INTO exchange_rates (year, month, from_currency, to_currency, rate) VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT(year, month, from_currency, to_currency) DO UPDATE SET rate = excluded.rate, updated_at = CURRENT_TIMESTAMP
+                `);
+                for (const rate of rates) {
+                    await stmt.run(rate.year, rate.month, rate.from_currency, rate.to_currency, rate.rate);
+                }
+                await stmt.finalize();
+                await db.run('COMMIT');
+            } catch (dbError: any) {
+                await db.run('ROLLBACK');
+                throw dbError;
+            }
+        });
+        revalidatePath('/currencies');
+        revalidatePath('/');
+        revalidatePath('/charts');
+        return { success: true, message: `Imported ${rates.length} exchange rate(s).` };
+    } catch (error: any) {
+        console.error('Failed to import exchange rates:', error);
+        return { success: false, message: `Failed to import exchange rates. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Currencies used by at least one budget or expense
+export async function getCurrenciesInUse(): Promise<string[]> {
+    const scope = await currentScope();
+    try {
+        const rows = await runDbOperation(db => db.all<{ currency: string }[]>(`
+            SELECT currency FROM budgets WHERE ${scopeCondition('business_line_id', scope)}
+            UNION SELECT currency FROM expenses WHERE ${scopeCondition('business_line_id', scope)}
+            ORDER BY currency
+        `));
+        return rows.map(row => row.currency);
+    } catch (error: any) {
+        console.error('Failed to get currencies in use:', error);
+        return [];
+    }
+}
+
+// Lists the currency/month combinations of budgets and expenses that cannot be converted to the reporting currency
+export async function getMissingExchangeRates(): Promise<MissingExchangeRate[]> {
+    const scope = await currentScope();
+    try {
+        const { reportingCurrency, convert } = await loadCurrencyConverter();
+        const combinations = await runDbOperation(db => db.all<MissingExchangeRate[]>(`
+            SELECT currency, year, month, COUNT(*) as "entryCount" FROM (
+                SELECT currency, year, month FROM budgets WHERE currency != ? AND ${scopeCondition('business_line_id', scope)}
+                UNION ALL
+                SELECT currency, year, month FROM expenses WHERE currency != ? AND ${scopeCondition('business_line_id', scope)}
+            ) entries
+            GROUP BY currency, year, month
+            ORDER BY currency, year, month
+        `, [reportingCurrency, reportingCurrency]));
+        return combinations.filter(c => convert(1, c.currency, c.year, c.month) === null);
+    } catch (error: any) {
+        console.error('Failed to check exchange rates:', error);
+        return [];
+    }
+}
+
+
+// --- Chart Data Actions ---
+
+// Fetch data specifically for charts, including year and month: the approved budgets of one version (the default
+// version for null; unapproved ones too if asked for) and, unless left out (e.g. for a second version to compare
+// with), every expense.
+// Amounts are converted to the reporting currency; entries without a usable exchange rate are left out
+// (getMissingExchangeRates lists them). Only entries in the user's scope are included.
+export async function getChartData(versionId: number | null = null, includeExpenses = true, includeUnapproved = false): Promise<ChartItem[]> {
+   const scope = await currentScope();
+   try {
+       const { convert } = await loadCurrencyConverter();
+       const combinedData: ChartItem[] = await runDbOperation(async (db) => {
+            // Fetch budgets
+            const budgets = await db.all(`
+                 SELECT
+                   b.amount, b.currency, b.type, b.year, b.month, b.business_line_id, b.cost_center_id,
+                   COALESCE(bl.name, 'Unassigned') as business_line_name,
+                   COALESCE(cc.name, 'Unassigned') as cost_center_name
+                 FROM budgets b
+                 JOIN budget_versions v ON b.version_id = v.id
+                 LEFT JOIN business_lines bl ON b.business_line_id = bl.id
+                 LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
+                 WHERE ${versionId === null ? 'v.is_default = 1' : 'v.id = ?'}${includeUnapproved ? '' : ` AND b.status = 'approved'`}
+                   AND ${scopeCondition('b.business_line_id', scope)}
+               `, versionId === null ? [] : [versionId]);
+
+             // Fetch expenses (NEW)
+            const expenses = !includeExpenses ? [] : await db.all(`
+                 SELECT
+                   e.amount, e.currency, e.type, e.year, e.month, e.business_line_id, e.cost_center_id,
+                   COALESCE(bl.name, 'Unassigned') as business_line_name,
+                   COALESCE(cc.name, 'Unassigned') as cost_center_name
+                 FROM expenses e
+                 LEFT JOIN business_lines bl ON e.business_line_id = bl.id
+                 LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
+                 WHERE ${scopeCondition('e.business_line_id', scope)}
+               `);
+
+            // Combine, add source indicator and convert to the reporting currency
+            const toChartItems = (rows: any[], source: ImportSource): ChartItem[] => rows.flatMap(({ currency, ...row }) => {
+                const amount = convert(row.amount, currency, row.year, row.month);
+                return amount === null ? [] : [{ ...row, amount, source }];
+            });
+            const chartItems: ChartItem[] = [
+                ...toChartItems(budgets, 'Budget'),
+                ...toChartItems(expenses, 'Expense')
+            ];
+            return chartItems;
+       });
+        return combinedData;
+    } catch (error: any) {
+       console.error('Failed to get chart data:', error);
+       return [];
+    }
+}
+
+
+// --- Variance Report Actions ---
+
+const FISCAL_YEAR_START_SETTING = 'fiscal_year_start_month';
+
+const VarianceQuerySchema = z.object({
+    dimension: z.enum(['business_line', 'cost_center', 'month']),
+    period: z.enum(['month', 'quarter', 'fytd']),
+    year: z.number().int().min(1900).max(2100),
+    month: z.number().int().min(1).max(12),
+    forecast: z.enum(['run_rate', 'linear_trend', 'seasonal_average']),
+    versionId: z.number().int().positive().nullable(),
+    compareVersionId: z.number().int().positive().nullable(),
+});
+
+export async function getFiscalYearStartMonth(): Promise<number> {
+    await requireUser();
+    try {
+        const row = await runDbOperation(db =>
+            db.get<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', FISCAL_YEAR_START_SETTING)
+        );
+        const month = parseInt(row?.value ?? '', 10);
+        return month >= 1 && month <= 12 ? month : getConfig().fiscalYearStartMonth;
+    } catch (error: any) {
+        console.error('Failed to get fiscal year start month:', error);
+        return getConfig().fiscalYearStartMonth;
+    }
+}
+
+export async function setFiscalYearStartMonth(month: number) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+        return { success: false, message: 'Validation failed: The fiscal year must start in a month from 1 to 12.' };
+    }
+    try {
+        await runDbOperation(db => db.run(
+            `INSERT INTO app_settings (key, value) VALUES (?, ?)
+             ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+            [FISCAL_YEAR_START_SETTING, String(month)]
+        ));
+        revalidatePath('/variance');
+        return { success: true, message: 'Fiscal year start saved.' };
+    } catch (error: any) {
+        console.error('Failed to set fiscal year start month:', error);
+        return { success: false, message: `Failed to save fiscal year start. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Approved budgets of one version and expenses of the given months, converted into the reporting currency. Entries without
+// an exchange rate for their month are left out, as in the charts. When a second version is compared, its budgets
+// take the place of the expenses (with source 'Expense').
+async function loadVarianceEntries(
+    range: MonthRange,
+    versionId: number,
+    compareVersionId: number | null = null,
+    scope: BusinessLineScope = null
+): Promise<{ currency: string; entries: VarianceEntry[] }> {
+    const { reportingCurrency, convert } = await loadCurrencyConverter();
+    const rows = await runDbOperation(async (db) => {
+        const select = (table: string, source: ImportSource, condition: string) => `
+            SELECT
+              t.id, '${source}' as source, t.description, t.year, t.month, t.type, t.amount, t.currency,
+              bl.name as business_line_name,
+              cc.name as cost_center_name
+            FROM ${table} t
+            LEFT JOIN business_lines bl ON t.business_line_id = bl.id
+            LEFT JOIN cost_centers cc ON t.cost_center_id = cc.id
+            WHERE (t.year * 100 + t.month) BETWEEN ? AND ? AND ${scopeCondition('t.business_line_id', scope)} AND ${condition}
+        `;
+        const from = range.start.year * 100 + range.start.month;
+        const to = range.end.year * 100 + range.end.month;
+        return db.all<Omit<VarianceEntry, 'convertedAmount'>[]>(
+            compareVersionId === null
+                ? `${select('budgets', 'Budget', `t.version_id = ? AND t.status = 'approved'`)} UNION ALL ${select('expenses', 'Expense', '1 = 1')}`
+                : `${select('budgets', 'Budget', `t.version_id = ? AND t.status = 'approved'`)} UNION ALL ${select('budgets', 'Expense', `t.version_id = ? AND t.status = 'approved'`)}`,
+            compareVersionId === null ? [from, to, versionId, from, to] : [from, to, versionId, from, to, compareVersionId]
+        );
+    });
+    const entries = rows.flatMap(row => {
+        const convertedAmount = convert(row.amount, row.currency, row.year, row.month);
+        return convertedAmount === null ? [] : [{ ...row, convertedAmount }];
+    });
+    return { currency: reportingCurrency, entries };
+}
+
+// Expenses as forecast history, in the reporting currency
+function toForecastHistory(entries: VarianceEntry[]): ForecastEntry[] {
+    return entries
+        .filter(entry => entry.source === 'Expense')
+        .map(({ year, month, type, business_line_name, cost_center_name, convertedAmount }) => (
+            { year, month, type, business_line_name, cost_center_name, amount: convertedAmount }
+        ));
+}
+
+// Budget versus actual per business line, cost center or month for the period ending with the chosen month,
+// plus how much of each group's fiscal-year budget is consumed and where it is projected to end the fiscal year.
+// With a compare version, its budgets are reported in place of the actuals, for the whole fiscal year and without
+// a forecast.
+export async function getVarianceReport(query: VarianceQuery): Promise<VarianceReport | null> {
+    const scope = await currentScope();
+    try {
+        const validated = VarianceQuerySchema.parse(query);
+        const fiscalYearStartMonth = await getFiscalYearStartMonth();
+        const fiscalYear = fiscalYearOf(validated.year, validated.month, fiscalYearStartMonth);
+        const version = await resolveBudgetVersion(validated.versionId);
+        const compareVersion = validated.compareVersionId !== null ? await resolveBudgetVersion(validated.compareVersionId) : null;
+        if (compareVersion) {
+            const { currency, entries } = await loadVarianceEntries(fiscalYear, version.id, compareVersion.id, scope);
+            return buildVarianceReport(entries, [], validated, fiscalYearStartMonth, currency, version, compareVersion);
+        }
+        // The forecast history reaches further back than the fiscal year
+        const asOf = { year: validated.year, month: validated.month };
+        const { currency, entries } = await loadVarianceEntries({ start: forecastHistoryRange(asOf).start, end: fiscalYear.end }, version.id, null, scope);
+        const remaining = remainingFiscalYear(asOf, fiscalYearStartMonth);
+        const forecast = remaining
+            ? forecastSpend(toForecastHistory(entries), asOf, remaining, validated.forecast)
+            : [];
+        return buildVarianceReport(entries, forecast, validated, fiscalYearStartMonth, currency, version, null);
+    } catch (error: any) {
+        console.error('Failed to build variance report:', error);
+        return null;
+    }
+}
+
+// The budgets and/or expenses behind one cell of the variance report (groupKey 'total' for the totals row)
+export async function getVarianceDrillDown(query: VarianceQuery, groupKey: string, cell: VarianceCell): Promise<VarianceEntry[]> {
+    const scope = await currentScope();
+    try {
+        const validated = VarianceQuerySchema.parse(query);
+        const fiscalYearStartMonth = await getFiscalYearStartMonth();
+        const version = await resolveBudgetVersion(validated.versionId);
+        const { entries } = await loadVarianceEntries(
+            fiscalYearOf(validated.year, validated.month, fiscalYearStartMonth),
+            version.id,
+            validated.compareVersionId,
+            scope
+        );
+        return selectVarianceEntries(entries, validated, fiscalYearStartMonth, groupKey, cell);
+    } catch (error: any) {
+        console.error('Failed to load variance drill-down:', error);
+        return [];
+    }
+}
+
+
+// --- Alert Actions ---
+
+// Rules (aliased r) users limited to some business lines see: those watching one of their business lines.
+// Rules over cost centers or expense types add up spend of every business line.
+function alertRuleScopeCondition(scope: BusinessLineScope): string {
+    return scope === null ? '1 = 1' : `r.scope = 'business_line' AND ${scopeCondition('r.business_line_id', scope)}`;
+}
+
+// Alert rules (aliased r) matching the condition, with the name of what they watch
+async function selectAlertRules(condition: string): Promise<AlertRule[]> {
+    const rows = await runDbOperation(db => db.all<any[]>(`
+        SELECT
+          r.id, r.name, r.scope, r.business_line_id, r.cost_center_id, r.expense_type,
+          r.threshold_kind, r.threshold_value, r.period, r.is_active,
+          CASE r.scope WHEN 'business_line' THEN bl.name WHEN 'cost_center' THEN cc.name ELSE r.expense_type END as scope_name,
+          strftime('%Y-%m-%d %H:%M:%S', r.created_at) as created_at,
+          strftime('%Y-%m-%d %H:%M:%S', r.updated_at) as updated_at
+        FROM alert_rules r
+        LEFT JOIN business_lines bl ON r.business_line_id = bl.id
+        LEFT JOIN cost_centers cc ON r.cost_center_id = cc.id
+        WHERE ${condition}
+        ORDER BY r.name COLLATE NOCASE, r.id
+    `));
+    return rows.map(row => ({ ...row, is_active: row.is_active === 1 }));
+}
+
+// The rules the signed-in user sees, for the alert pages and the REST API
+export async function getAlertRules(): Promise<AlertRule[]> {
+    const scope = await currentScope();
+    try {
+        return await selectAlertRules(alertRuleScopeCondition(scope));
+    } catch (error: any) {
+        console.error('Failed to get alert rules:', error);
+        return [];
+    }
+}
+
+// Every active rule, whoever wrote the expenses being checked: a user limited to some business lines still
+// moves the totals of rules over cost centers, expense types and other business lines
+async function loadActiveAlertRules(): Promise<AlertRule[]> {
+    return selectAlertRules('r.is_active = 1');
+}
+
+export async function saveAlertRule(
+    id: number | null,
+    rule: Omit<AlertRule, 'id' | 'scope_name' | 'created_at' | 'updated_at'>
+) {
+    const denied = await denyUnless('manage_alerts');
+    if (denied) return denied;
+    try {
+        const validated = AlertRuleSchema.parse(rule);
+        // Only the field of the chosen scope is kept
+        const values = [
+            validated.name,
+            validated.scope,
+            validated.scope === 'business_line' ? validated.business_line_id : null,
+            validated.scope === 'cost_center' ? validated.cost_center_id : null,
+            validated.scope === 'type' ? validated.expense_type : null,
+            validated.threshold_kind,
+            validated.threshold_value,
+            validated.period,
+            validated.is_active ? 1 : 0,
+        ];
+        await runDbOperation(async (db) => {
+            if (id === null) {
+                await db.run(
+                    `INSERT INTO alert_rules (name, scope, business_line_id, cost_center_id, expense_type, threshold_kind, threshold_value, period, is_active)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    values
+                );
+            } else {
+                const result = await db.run(
+                    `UPDATE alert_rules SET name = ?, scope = ?, business_line_id = ?, cost_center_id = ?, expense_type = ?,
+                       threshold_kind = ?, threshold_value = ?, period = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+                     WHERE id = ?`,
+                    [...values, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Alert rule with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/alerts');
+        return { success: true, message: `Alert rule ${id === null ? 'added' : 'updated'} successfully. It is checked the next time expenses are saved.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save alert rule:', error);
+        return { success: false, message: `Failed to save alert rule. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Alerts the rule triggered are deleted with it
+export async function deleteAlertRule(id: number) {
+    const denied = await denyUnless('manage_alerts');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM alert_rules WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete alert rule ID ${id}, but it was not found.`);
+            }
         });
-        revalidatePath('/expenses');
-        revalidatePath(`/expenses/${id}/edit`);
+        revalidatePath('/alerts');
         revalidatePath('/');
-        revalidatePath('/charts');
-        return { success: true, message: 'Expense entry updated successfully.' };
+        return { success: true, message: 'Alert rule deleted successfully.' };
     } catch (error: any) {
-         if (error instanceof z.ZodError) {
-            return { success: false, message: `Validation failed: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
-        }
-        if (error.message?.includes('FOREIGN KEY constraint failed')) {
-             // Specific error checking like in budget actions
-             return { success: false, message: 'Invalid reference to Business Line or Cost Center.' };
-         }
-        console.error(`Failed to update expense entry with ID ${id}:`, error);
-        return { success: false, message: `Failed to update expense entry (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+        console.error(`Failed to delete alert rule with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete alert rule (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
     }
 }
 
-export async function deleteExpenseEntry(id: number) {
-  try {
-    await runDbOperation(async (db) => {
-       const result = await db.run('DELETE FROM expenses WHERE id = ?', id);
-       if (result.changes === 0) {
-           console.warn(`Attempted to delete expense entry ID ${id}, but it was not found.`);
-       }
+// Channels with their stored secrets; only used on the server
+async function loadAlertChannels(): Promise<AlertChannel[]> {
+    const rows = await runDbOperation(db => db.all<any[]>(`
+        SELECT id, name, kind, config, is_active,
+               strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+               strftime('%Y-%m-%d %H:%M:%S', updated_at) as updated_at
+        FROM alert_channels
+        ORDER BY name COLLATE NOCASE, id
+    `));
+    return rows.map(({ kind, config, is_active, ...row }) => {
+        const parsed: AlertChannelConfig = { ...JSON.parse(config), kind };
+        const has_secret = (parsed.kind === 'webhook' && parsed.secret !== '') || (parsed.kind === 'email' && parsed.password !== '');
+        return { ...row, config: parsed, has_secret, is_active: is_active === 1 };
     });
-    revalidatePath('/expenses');
-    revalidatePath('/');
-    revalidatePath('/charts');
-    return { success: true, message: 'Expense entry deleted successfully.' };
-  } catch (error: any) {
-    console.error(`Failed to delete expense entry with ID ${id}:`, error);
-    return { success: false, message: `Failed to delete expense entry (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
-  }
 }
 
+// Secrets are blanked: see AlertChannelConfig
+function withoutSecrets(config: AlertChannelConfig): AlertChannelConfig {
+    switch (config.kind) {
+        case 'webhook': return { ...config, secret: '' };
+        case 'email': return { ...config, password: '' };
+        default: return config;
+    }
+}
+
+export async function getAlertChannels(): Promise<AlertChannel[]> {
+    await requireUser();
+    try {
+        const channels = await loadAlertChannels();
+        return channels.map(channel => ({ ...channel, config: withoutSecrets(channel.config) }));
+    } catch (error: any) {
+        console.error('Failed to get alert channels:', error);
+        return [];
+    }
+}
 
-// --- Spreadsheet Upload Action ---
+// A webhook secret or SMTP password left empty keeps the stored one
+export async function saveAlertChannel(
+    id: number | null,
+    channel: { name: string; is_active: boolean; config: AlertChannelConfig }
+) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        const validated = AlertChannelSchema.parse(channel);
+        const config = validated.config;
+        if (id !== null) {
+            const existing = (await loadAlertChannels()).find(c => c.id === id);
+            if (existing?.config.kind === 'webhook' && config.kind === 'webhook' && config.secret === '') {
+                config.secret = existing.config.secret;
+            }
+            if (existing?.config.kind === 'email' && config.kind === 'email' && config.password === '') {
+                config.password = existing.config.password;
+            }
+        }
+        const { kind, ...settings } = config;
 
-export async function uploadSpreadsheet(formData: FormData): Promise<{ success: boolean; message: string }> {
-    const file = formData.get('spreadsheet') as File;
+        await runDbOperation(async (db) => {
+            if (id === null) {
+                await db.run(
+                    'INSERT INTO alert_channels (name, kind, config, is_active) VALUES (?, ?, ?, ?)',
+                    [validated.name, kind, JSON.stringify(settings), validated.is_active ? 1 : 0]
+                );
+            } else {
+                const result = await db.run(
+                    'UPDATE alert_channels SET name = ?, kind = ?, config = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                    [validated.name, kind, JSON.stringify(settings), validated.is_active ? 1 : 0, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Alert channel with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/alerts');
+        return { success: true, message: `Alert channel ${id === null ? 'added' : 'updated'} successfully.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save alert channel:', error);
+        return { success: false, message: `Failed to save alert channel. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
 
-    if (!file || file.size === 0) {
-        return { success: false, message: 'No file uploaded or file is empty.' };
+export async function deleteAlertChannel(id: number) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM alert_channels WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete alert channel ID ${id}, but it was not found.`);
+            }
+        });
+        revalidatePath('/alerts');
+        return { success: true, message: 'Alert channel deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete alert channel with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete alert channel (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
     }
+}
 
-    const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
-    const isCsv = file.name.toLowerCase().endsWith('.csv');
+function createAlertChannelSender(config: AlertChannelConfig): AlertChannelSender {
+    switch (config.kind) {
+        case 'webhook': return createWebhookChannel(config);
+        case 'slack': return createSlackChannel(config);
+        case 'email': return createEmailChannel(config);
+    }
+}
 
-    if (!isXlsx && !isCsv) {
-        return { success: false, message: 'Invalid file type. Please upload an Excel (.xlsx) or CSV (.csv) file.' };
+// Sends a sample alert through a saved channel, whether or not it is active
+export async function testAlertChannel(id: number): Promise<{ success: boolean; message: string }> {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        const channel = (await loadAlertChannels()).find(c => c.id === id);
+        if (!channel) {
+            return { success: false, message: `Alert channel with ID ${id} not found.` };
+        }
+        const currency = await getReportingCurrency();
+        await createAlertChannelSender(channel.config).send({
+            ruleName: 'Test alert',
+            scope: 'Test',
+            period: 'Test',
+            budget: 1000,
+            actual: 900,
+            threshold: 900,
+            currency,
+            message: `This is a test of the '${channel.name}' alert channel. No budget threshold was crossed.`,
+            triggeredAt: new Date().toISOString(),
+        });
+        return { success: true, message: `Test alert sent through '${channel.name}'.` };
+    } catch (error: any) {
+        console.error(`Failed to send test alert through channel ${id}:`, error);
+        return { success: false, message: `Test alert could not be sent. Reason: ${error.message || 'Unknown error'}.` };
     }
+}
 
+// Triggered alerts, newest first; only the unacknowledged ones with openOnly
+export async function getTriggeredAlerts(openOnly = false): Promise<TriggeredAlert[]> {
+    const scope = await currentScope();
     try {
-        const bytes = await file.arrayBuffer();
-        const workbook = XLSX.read(bytes, { type: 'buffer', cellDates: true });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json<any>(worksheet, { defval: '', rawNumbers: false });
-
-        const { businessLines, costCenters, associations } = await runDbOperation(async (db) => {
-           const businessLines = await db.all('SELECT id, lower(name) as name FROM business_lines');
-           const costCenters = await db.all('SELECT id, lower(name) as name FROM cost_centers');
-           const associations = await db.all<{cost_center_id: number, business_line_id: number}>(
-               'SELECT cost_center_id, business_line_id FROM cost_center_business_lines'
-           );
-           return { businessLines, costCenters, associations };
+        return await runDbOperation(db => db.all<TriggeredAlert[]>(`
+            SELECT
+              a.id, a.rule_id, r.name as rule_name, a.period_key, a.period_label,
+              a.budget, a.actual, a.threshold, a.currency, a.message,
+              strftime('%Y-%m-%d %H:%M:%S', a.triggered_at) as triggered_at,
+              strftime('%Y-%m-%d %H:%M:%S', a.acknowledged_at) as acknowledged_at,
+              (SELECT COUNT(*) FROM alert_deliveries d WHERE d.alert_id = a.id AND d.status = 'sent') as sent_count,
+              (SELECT COUNT(*) FROM alert_deliveries d WHERE d.alert_id = a.id AND d.status = 'failed') as failed_count,
+              (SELECT GROUP_CONCAT(d.error, char(10)) FROM alert_deliveries d WHERE d.alert_id = a.id AND d.status = 'failed') as delivery_errors
+            FROM alerts a
+            JOIN alert_rules r ON a.rule_id = r.id
+            WHERE ${alertRuleScopeCondition(scope)}${openOnly ? ' AND a.acknowledged_at IS NULL' : ''}
+            ORDER BY a.triggered_at DESC, a.id DESC
+        `));
+    } catch (error: any) {
+        console.error('Failed to get triggered alerts:', error);
+        return [];
+    }
+}
+
+export async function acknowledgeAlert(id: number) {
+    const denied = await denyUnless('manage_alerts');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('UPDATE alerts SET acknowledged_at = CURRENT_TIMESTAMP WHERE id = ? AND acknowledged_at IS NULL', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to acknowledge alert ID ${id}, but it was not found or already acknowledged.`);
+            }
         });
+        revalidatePath('/alerts');
+        revalidatePath('/');
+        return { success: true, message: 'Alert acknowledged.' };
+    } catch (error: any) {
+        console.error(`Failed to acknowledge alert with ID ${id}:`, error);
+        return { success: false, message: `Failed to acknowledge alert (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
 
-        const businessLineMap = new Map(businessLines.map(bl => [bl.name, bl.id]));
-        const costCenterMap = new Map(costCenters.map(cc => [cc.name, cc.id]));
-        const associationSet = new Set(associations.map(a => `${a.cost_center_id}-${a.business_line_id}`));
+// Months of the expense rows an import wrote
+function expenseMonthsOf(rows: StagedImportRow[]): { year: number; month: number }[] {
+    return rows.flatMap(row => row.source === 'Expense' && row.year !== null && row.month !== null ? [{ year: row.year, month: row.month }] : []);
+}
 
-        const budgetEntries: BudgetEntry[] = [];
-        const expenseEntries: ExpenseEntry[] = []; // NEW: Array for expense entries
-        const errors: string[] = [];
-        const processedRows: any[] = [];
-
-        for (let i = 0; i < data.length; i++) {
-            const row = data[i];
-            const rowNum = i + 2; // Assuming header is row 1
-            const rowErrors: string[] = [];
-
-            const normalizedRow: { [key: string]: any } = {};
-            for (const key in row) {
-                 if (Object.prototype.hasOwnProperty.call(row, key) && typeof key === 'string' && key.trim()) {
-                     const normKey = key.toLowerCase().trim().replace(/\s+/g, ' ');
-                     normalizedRow[normKey] = row[key];
-                 } else if (Object.prototype.hasOwnProperty.call(row, key) && key) {
-                     normalizedRow[String(key)] = row[key];
-                 }
-             }
+// Checks every active rule against the periods the given expense months fall in, records the alerts that
+// trigger (once per rule and period) and sends them to every active channel. Called after expenses are written;
+// failures are logged and never fail the write.
+async function evaluateAlertRules(expenseMonths: { year: number; month: number }[]): Promise<void> {
+    try {
+        const rules = await loadActiveAlertRules();
+        if (rules.length === 0 || expenseMonths.length === 0) return;
 
-            if (Object.values(normalizedRow).every(v => v === null || v === undefined || String(v).trim() === '')) {
-                 console.log(`Skipping empty row ${rowNum}`);
-                 continue;
+        const fiscalYearStartMonth = await getFiscalYearStartMonth();
+        const checks = new Map<string, { rule: AlertRule; period: ReturnType<typeof alertPeriodOf> }>();
+        for (const rule of rules) {
+            for (const { year, month } of expenseMonths) {
+                const period = alertPeriodOf(year, month, rule.period, fiscalYearStartMonth);
+                checks.set(`${rule.id}|${period.key}`, { rule, period });
             }
+        }
 
-            processedRows.push(normalizedRow);
+        const triggered = await runDbOperation(db => db.all<{ rule_id: number; period_key: string }[]>('SELECT rule_id, period_key FROM alerts'));
+        const alreadyTriggered = new Set(triggered.map(alert => `${alert.rule_id}|${alert.period_key}`));
+        const pending = Array.from(checks.entries()).filter(([key]) => !alreadyTriggered.has(key)).map(([, check]) => check);
+        if (pending.length === 0) return;
 
-            // Define columns
-            const requiredColumns = ['description', 'amount', 'year', 'month', 'type'];
-            const optionalColumns = ['business line', 'cost center', 'source']; // Added 'source'
-            const actualColumns = Object.keys(normalizedRow);
+        // One load covering every period to check
+        const range: MonthRange = {
+            start: fromMonthIndex(Math.min(...pending.map(({ period }) => monthIndex(period.start.year, period.start.month)))),
+            end: fromMonthIndex(Math.max(...pending.map(({ period }) => monthIndex(period.end.year, period.end.month)))),
+        };
+        // Spend is checked against the default budget version
+        const { currency, entries } = await loadVarianceEntries(range, (await resolveBudgetVersion(null)).id);
+        const channels = (await loadAlertChannels()).filter(channel => channel.is_active);
 
-            requiredColumns.forEach(col => {
-                const originalKeyExists = Object.keys(row).some(k => k.toLowerCase().trim().replace(/\s+/g, ' ') === col);
-                 if (!originalKeyExists || String(normalizedRow[col]).trim() === '') {
-                    rowErrors.push(`Missing or empty required column: '${col}'.`);
-                 }
-             });
+        let triggeredCount = 0;
+        for (const { rule, period } of pending) {
+            const evaluation = evaluateAlertRule(rule, entries, period);
+            if (!evaluation.triggered) continue;
 
-            // Extract and validate data
-            const description = normalizedRow['description'];
-            const amountStr = normalizedRow['amount'];
-            const yearStr = normalizedRow['year'];
-            const monthStr = normalizedRow['month'];
-            const type = (typeof normalizedRow['type'] === 'string' ? normalizedRow['type'] : String(normalizedRow['type']))?.toUpperCase().trim();
-            const budgetBusinessLineNameRaw = normalizedRow['business line'];
-            const budgetCostCenterNameRaw = normalizedRow['cost center'];
-            const sourceRaw = normalizedRow['source']; // NEW: Get source
-
-            const budgetBusinessLineName = (typeof budgetBusinessLineNameRaw === 'string' ? budgetBusinessLineNameRaw : String(budgetBusinessLineNameRaw))?.toLowerCase().trim();
-            const budgetCostCenterName = (typeof budgetCostCenterNameRaw === 'string' ? budgetCostCenterNameRaw : String(budgetCostCenterNameRaw))?.toLowerCase().trim();
-            // NEW: Validate source (default to Budget if missing or invalid)
-            let source: 'Budget' | 'Expense' = 'Budget';
-            if (sourceRaw && typeof sourceRaw === 'string') {
-                 const normalizedSource = sourceRaw.trim().toLowerCase();
-                 if (normalizedSource === 'expense') {
-                     source = 'Expense';
-                 } else if (normalizedSource !== 'budget') {
-                     // Only error if a value is provided but it's neither 'budget' nor 'expense'
-                     if(normalizedSource !== '') {
-                        rowErrors.push(`Invalid Source: "${sourceRaw}". Must be 'Budget' or 'Expense' (case-insensitive). Defaulting to Budget.`);
-                     }
-                     source = 'Budget'; // Default to budget on invalid or empty value
-                 }
-            } else if (sourceRaw !== undefined && sourceRaw !== null && String(sourceRaw).trim() !== '') {
-                 // If source is present but not a string, consider it an error
-                 rowErrors.push(`Invalid Source format: "${sourceRaw}". Must be text 'Budget' or 'Expense'. Defaulting to Budget.`);
-                 source = 'Budget';
-            }
-             // Default to Budget if source column is completely missing or empty
-
-
-            // --- Basic Validation ---
-            if (!description || typeof description !== 'string' || description.trim() === '') rowErrors.push(`Invalid or missing Description.`);
-            const amount = parseFloat(String(amountStr).replace(/[^0-9.-]+/g,""));
-            if (isNaN(amount) || amount <= 0) rowErrors.push(`Invalid or missing positive Amount (value read: '${amountStr}', parsed as: ${amount}).`);
-            const year = parseInt(String(yearStr), 10);
-            if (isNaN(year) || year < 1900 || year > 2100) rowErrors.push(`Invalid or missing Year (1900-2100, value: '${yearStr}').`);
-            const month = parseInt(String(monthStr), 10);
-            if (isNaN(month) || month < 1 || month > 12) rowErrors.push(`Invalid or missing Month (1-12, value: '${monthStr}').`);
-            if (!type || (type !== 'CAPEX' && type !== 'OPEX')) rowErrors.push(`Invalid or missing Type (must be 'CAPEX' or 'OPEX', value: '${normalizedRow['type']}').`);
-
-            // --- Lookup IDs ---
-            let entryBusinessLineId: number | null = null;
-            if (actualColumns.includes('business line') && budgetBusinessLineName && budgetBusinessLineName !== 'undefined' && budgetBusinessLineName !== 'null') {
-                if (businessLineMap.has(budgetBusinessLineName)) {
-                    entryBusinessLineId = businessLineMap.get(budgetBusinessLineName)!;
-                } else {
-                    rowErrors.push(`Business Line "${budgetBusinessLineNameRaw}" not found.`);
-                }
-            }
+            const message = describeAlert(rule, period.label, evaluation, currency);
+            const alertId = await runDbOperation(async (db) => {
+                const result = await db.run(
+                    `INSERT OR IGNORE INTO alerts (rule_id, period_key, period_label, budget, actual, threshold, currency, message)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [rule.id, period.key, period.label, evaluation.budget, evaluation.actual, evaluation.threshold, currency, message]
+                );
+                return result.changes === 1 ? result.lastID ?? null : null; // Another write triggered it first
+            });
+            if (alertId === null) continue;
+            triggeredCount++;
 
-            let entryCostCenterId: number | null = null;
-            if (actualColumns.includes('cost center') && budgetCostCenterName && budgetCostCenterName !== 'undefined' && budgetCostCenterName !== 'null') {
-                if (costCenterMap.has(budgetCostCenterName)) {
-                    entryCostCenterId = costCenterMap.get(budgetCostCenterName)!;
-                } else {
-                    rowErrors.push(`Cost Center "${budgetCostCenterNameRaw}" not found.`);
+            const notification: AlertNotification = {
+                ruleName: rule.name,
+                scope: describeAlertScope(rule),
+                period: period.label,
+                budget: evaluation.budget,
+                actual: evaluation.actual,
+                threshold: evaluation.threshold,
+                currency,
+                message,
+                triggeredAt: new Date().toISOString(),
+            };
+            await notifyWebhooks('threshold.breached', { alert_id: alertId, rule_id: rule.id, period_key: period.key, ...notification });
+            const results = await Promise.allSettled(channels.map(channel => createAlertChannelSender(channel.config).send(notification)));
+            await runDbOperation(async (db) => {
+                for (const [i, result] of results.entries()) {
+                    await db.run(
+                        'INSERT INTO alert_deliveries (alert_id, channel_id, status, error) VALUES (?, ?, ?, ?)',
+                        [alertId, channels[i].id, result.status === 'fulfilled' ? 'sent' : 'failed', result.status === 'rejected' ? `${channels[i].name}: ${result.reason?.message ?? result.reason}` : null]
+                    );
                 }
-            }
+            });
+        }
+        if (triggeredCount > 0) {
+            revalidatePath('/alerts');
+        }
+    } catch (error: any) {
+        console.error('Failed to evaluate alert rules:', error);
+    }
+}
 
-            // --- Association Validation ---
-            if (entryBusinessLineId && entryCostCenterId) {
-                 if (!associationSet.has(`${entryCostCenterId}-${entryBusinessLineId}`)) {
-                     rowErrors.push(`Cost Center "${budgetCostCenterNameRaw}" is not associated with Business Line "${budgetBusinessLineNameRaw}".`);
-                 }
-             }
 
-            if (rowErrors.length > 0) {
-                errors.push(`Row ${rowNum}: ${rowErrors.join('; ')}`);
+// --- Webhook Actions ---
+
+// Subscriptions with their stored secrets; only used on the server
+async function loadWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    const rows = await runDbOperation(db => db.all<any[]>(`
+        SELECT id, name, url, secret, events, is_active,
+               strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at,
+               strftime('%Y-%m-%d %H:%M:%S', updated_at) as updated_at
+        FROM webhook_subscriptions
+        ORDER BY name COLLATE NOCASE, id
+    `));
+    return rows.map(row => ({ ...row, events: String(row.events).split(',').filter(isWebhookEvent), is_active: row.is_active === 1 }));
+}
+
+// Secrets are blanked: see WebhookSubscription
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    await requirePermission('manage_settings');
+    try {
+        return (await loadWebhookSubscriptions()).map(subscription => ({ ...subscription, secret: '' }));
+    } catch (error: any) {
+        console.error('Failed to get webhook subscriptions:', error);
+        return [];
+    }
+}
+
+// A secret left empty keeps the stored one
+export async function saveWebhookSubscription(
+    id: number | null,
+    subscription: Omit<WebhookSubscription, 'id' | 'created_at' | 'updated_at'>
+) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        const validated = WebhookSubscriptionSchema.parse(subscription);
+        if (validated.secret && validated.secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+            return { success: false, message: `Validation failed: The secret needs at least ${MIN_WEBHOOK_SECRET_LENGTH} characters` };
+        }
+        if (id === null && !validated.secret) {
+            return { success: false, message: 'Validation failed: Enter a secret to sign the payloads with' };
+        }
+        await runDbOperation(async (db) => {
+            if (id === null) {
+                await db.run(
+                    'INSERT INTO webhook_subscriptions (name, url, secret, events, is_active) VALUES (?, ?, ?, ?, ?)',
+                    [validated.name, validated.url, validated.secret, validated.events.join(','), validated.is_active ? 1 : 0]
+                );
             } else {
-                try {
-                    const entryData = {
-                         description: description.trim(),
-                         amount: amount,
-                         year: year,
-                         month: month,
-                         type: type as 'CAPEX' | 'OPEX',
-                         business_line_id: entryBusinessLineId,
-                         cost_center_id: entryCostCenterId,
-                     };
-
-                    if (source === 'Budget') {
-                        const budgetEntry: BudgetEntry = entryData;
-                        BudgetSchema.omit({ id: true }).parse(budgetEntry); // Validate against Budget schema
-                        budgetEntries.push(budgetEntry);
-                    } else { // source === 'Expense'
-                         const expenseEntry: ExpenseEntry = entryData;
-                         ExpenseSchema.omit({ id: true }).parse(expenseEntry); // Validate against Expense schema
-                         expenseEntries.push(expenseEntry);
-                    }
+                const result = await db.run(
+                    `UPDATE webhook_subscriptions SET name = ?, url = ?, secret = COALESCE(NULLIF(?, ''), secret), events = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+                     WHERE id = ?`,
+                    [validated.name, validated.url, validated.secret, validated.events.join(','), validated.is_active ? 1 : 0, id]
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Webhook with ID ${id} not found.`);
+                }
+            }
+        });
+        revalidatePath('/webhooks');
+        return { success: true, message: `Webhook ${id === null ? 'added' : 'updated'} successfully.` };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save webhook subscription:', error);
+        return { success: false, message: `Failed to save webhook. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
 
-                 } catch (zodError: any) {
-                      if (zodError instanceof z.ZodError) {
-                         errors.push(`Row ${rowNum} (${source}): Validation Error - ${zodError.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
-                     } else {
-                         errors.push(`Row ${rowNum} (${source}): Unexpected error creating entry - ${zodError.message}`);
-                     }
-                 }
+// Its delivery log is deleted with it, including deliveries still waiting for a retry
+export async function deleteWebhookSubscription(id: number) {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        await runDbOperation(async (db) => {
+            const result = await db.run('DELETE FROM webhook_subscriptions WHERE id = ?', id);
+            if (result.changes === 0) {
+                console.warn(`Attempted to delete webhook subscription ID ${id}, but it was not found.`);
             }
-        } // End row loop
+        });
+        revalidatePath('/webhooks');
+        return { success: true, message: 'Webhook deleted successfully.' };
+    } catch (error: any) {
+        console.error(`Failed to delete webhook subscription with ID ${id}:`, error);
+        return { success: false, message: `Failed to delete webhook (ID: ${id}). Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
 
-        if (errors.length > 0) {
-            console.error("Spreadsheet/CSV Errors:", errors);
-            const MAX_ERRORS_TO_SHOW = 10;
-            const limitedErrors = errors.slice(0, MAX_ERRORS_TO_SHOW);
-            const moreErrorsMessage = errors.length > MAX_ERRORS_TO_SHOW ? `\n... and ${errors.length - MAX_ERRORS_TO_SHOW} more errors.` : '';
-            return { success: false, message: `File contains errors:\n- ${limitedErrors.join('\n- ')}${moreErrorsMessage}\nPlease fix and re-upload.` };
-        }
-
-        if (budgetEntries.length === 0 && expenseEntries.length === 0) { // Check both arrays
-             if (processedRows.length === 0) {
-                 return { success: false, message: 'File is empty or contains no processable data rows.' };
-             } else {
-                 return { success: false, message: 'No valid budget or expense entries found in the file after validation. Please check column headers and data formats.' };
-             }
+// The latest deliveries of every subscription, newest first
+export async function getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    await requirePermission('manage_settings');
+    try {
+        return await runDbOperation(db => listWebhookDeliveries(db));
+    } catch (error: any) {
+        console.error('Failed to get webhook deliveries:', error);
+        return [];
+    }
+}
+
+// Sends a test event to a saved subscription, whether or not it is active; it shows up in the delivery log
+export async function testWebhookSubscription(id: number): Promise<{ success: boolean; message: string }> {
+    const denied = await denyUnless('manage_settings');
+    if (denied) return denied;
+    try {
+        const user = await requireUser();
+        const delivery = await sendTestWebhook(id, user.name);
+        if (!delivery) {
+            return { success: false, message: `Webhook with ID ${id} not found.` };
         }
+        revalidatePath('/webhooks');
+        return delivery.status === 'delivered'
+            ? { success: true, message: `Test event delivered to '${delivery.subscription_name}' (HTTP ${delivery.response_status}).` }
+            : { success: false, message: `Test event could not be delivered to '${delivery.subscription_name}'. ${delivery.error ?? ''}`.trim() };
+    } catch (error: any) {
+        console.error(`Failed to send test event to webhook ${id}:`, error);
+        return { success: false, message: `Test event could not be sent. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
 
-        // --- Database Insertion (Transaction) ---
-        await runDbOperation(async (db) => {
-             await db.run('BEGIN TRANSACTION');
-             try {
-                 // Insert Budgets
-                 if (budgetEntries.length > 0) {
-                     const budgetStmt = await db.prepare(
-                         'INSERT INTO budgets (description, amount, year, month, type, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
-                     );
-                     for (const entry of budgetEntries) {
-                         await budgetStmt.run(entry.description, entry.amount, entry.year, entry.month, entry.type, entry.business_line_id, entry.cost_center_id);
-                     }
-                     await budgetStmt.finalize();
-                 }
-
-                  // Insert Expenses (NEW)
-                  if (expenseEntries.length > 0) {
-                     const expenseStmt = await db.prepare(
-                         'INSERT INTO expenses (description, amount, year, month, type, business_line_id, cost_center_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
-                     );
-                     for (const entry of expenseEntries) {
-                         await expenseStmt.run(entry.description, entry.amount, entry.year, entry.month, entry.type, entry.business_line_id, entry.cost_center_id);
-                     }
-                     await expenseStmt.finalize();
-                 }
-
-                 await db.run('COMMIT');
-             } catch (dbError: any) {
-                 await db.run('ROLLBACK');
-                 console.error('Database insertion error during file upload:', dbError);
-                 if (dbError.message?.includes('UNIQUE constraint failed')) {
-                    throw new Error('Database error: Duplicate entry detected during insertion.');
-                 } else if (dbError.message?.includes('FOREIGN KEY constraint failed')) {
-                     throw new Error('Database error: Invalid Business Line or Cost Center ID encountered during insertion.');
-                 }
-                 throw dbError;
-             }
-         });
 
-        revalidatePath('/budgets');
-        revalidatePath('/expenses'); // Revalidate expenses page (NEW)
-        revalidatePath('/');
-        revalidatePath('/charts'); // Revalidate charts page
-        const message = `Successfully imported ${budgetEntries.length} budget entries and ${expenseEntries.length} expense entries from ${isXlsx ? 'spreadsheet' : 'CSV'}.`;
-        return { success: true, message };
+// --- Audit Trail Actions ---
+
+const AUDIT_LOG_LIMIT = 1000; // Events shown on the audit log page; the CSV export has them all
+
+const AuditLogFilterSchema = z.object({
+    table: z.string().nullable().transform(table => isAuditTable(table) ? table : null),
+    action: z.string().nullable().transform(action => isAuditAction(action) ? action : null),
+    actor: z.string().trim(),
+    recordId: z.number().int().positive().nullable(),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().catch(null),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().catch(null),
+});
+
+function toAuditEvent({ old_values, new_values, ...row }: Record<string, any>): AuditEvent {
+    return { ...row, changes: diffAuditValues(old_values ? JSON.parse(old_values) : null, new_values ? JSON.parse(new_values) : null) } as AuditEvent;
+}
+
+// Users limited to some business lines see the events of budgets and expenses that were or are in their scope
+function auditScopeCondition(scope: BusinessLineScope): string {
+    if (scope === null) return '1 = 1';
+    return `table_name IN ('budgets', 'expenses') AND (
+        ${scopeCondition(`CAST(json_extract(old_values, '$.business_line_id') AS INTEGER)`, scope)} OR ${scopeCondition(`CAST(json_extract(new_values, '$.business_line_id') AS INTEGER)`, scope)}
+    )`;
+}
+
+async function loadAuditEvents(filter: AuditLogFilter, scope: BusinessLineScope, limit: number | null): Promise<AuditEvent[]> {
+    const validated = AuditLogFilterSchema.parse(filter);
+    const conditions = [auditScopeCondition(scope)];
+    const params: any[] = [];
+    if (validated.table) { conditions.push('table_name = ?'); params.push(validated.table); }
+    if (validated.action) { conditions.push('action = ?'); params.push(validated.action); }
+    if (validated.actor) { conditions.push(`COALESCE(actor_name, '') LIKE ?`); params.push(`%${validated.actor}%`); }
+    if (validated.recordId !== null) { conditions.push('record_id = ?'); params.push(validated.recordId); }
+    if (validated.from) { conditions.push('date(created_at) >= ?'); params.push(validated.from); }
+    if (validated.to) { conditions.push('date(created_at) <= ?'); params.push(validated.to); }
+    const rows = await runDbOperation(db => db.all<Record<string, any>[]>(`
+        SELECT id, table_name, record_id, action, actor_user_id, actor_name, old_values, new_values,
+          strftime('%Y-%m-%d %H:%M:%S', created_at) as created_at
+        FROM audit_events
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY id DESC
+        ${limit === null ? '' : `LIMIT ${Number(limit)}`}
+    `, params));
+    return rows.map(toAuditEvent);
+}
 
+// Every recorded change of one budget or expense entry, newest first
+export async function getRecordHistory(table: 'budgets' | 'expenses', id: number): Promise<AuditEvent[]> {
+    const scope = await currentScope();
+    try {
+        if (!await isEntryInScope(table, id, scope)) {
+            return [];
+        }
+        // The entry's current business line is in scope; its history is shown whole, including earlier business lines
+        return await loadAuditEvents({ table, action: null, actor: '', recordId: id, from: null, to: null }, null, null);
     } catch (error: any) {
-        console.error('Error processing file:', error);
-         if (error.message?.includes('File is not a zip file') && isXlsx) {
-            return { success: false, message: 'Failed to process spreadsheet: The file is corrupted or not a valid XLSX format.' };
-         }
-        let userMessage = `Failed to process ${isXlsx ? 'spreadsheet' : 'CSV'} file.`;
-         if (error.message?.startsWith('Database error:')) {
-              userMessage = error.message;
-          } else {
-             userMessage += ` Reason: ${error.message || 'Unknown error'}. Ensure it is a valid ${isXlsx ? 'Excel (.xlsx)' : 'CSV (.csv)'} file with correct structure.`;
-          }
+        console.error(`Failed to get the history of ${table} ${id}:`, error);
+        return [];
+    }
+}
 
-        return { success: false, message: userMessage };
+// The latest audit events matching the filter, newest first
+export async function getAuditLog(filter: AuditLogFilter): Promise<{ events: AuditEvent[]; limit: number }> {
+    const scope = await currentScope();
+    try {
+        return { events: await loadAuditEvents(filter, scope, AUDIT_LOG_LIMIT), limit: AUDIT_LOG_LIMIT };
+    } catch (error: any) {
+        console.error('Failed to get the audit log:', error);
+        return { events: [], limit: AUDIT_LOG_LIMIT };
     }
 }
 
+// Every audit event matching the filter, one row per changed field, for CSV conversion on the client
+export async function prepareAuditLogCsvData(filter: AuditLogFilter): Promise<{ success: boolean; data: Record<string, any>[] | null; message?: string }> {
+    const scope = await currentScope();
+    try {
+        const events = await loadAuditEvents(filter, scope, null);
+        if (events.length === 0) {
+            return { success: true, data: [], message: 'No audit events to export.' };
+        }
+        const data = events.flatMap(event => {
+            const changes = event.changes.length > 0 ? event.changes : [{ field: '', before: null, after: null }];
+            return changes.map(change => ({
+                'Event ID': event.id,
+                'Time': event.created_at,
+                'Actor': event.actor_name ?? 'System',
+                'Record Type': AUDIT_TABLES[event.table_name],
+                'Record ID': event.record_id,
+                'Action': AUDIT_ACTIONS[event.action],
+                'Field': change.field,
+                'Before': change.before ?? '',
+                'After': change.after ?? '',
+            }));
+        });
+        return { success: true, data };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, data: null, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to prepare the audit log for CSV:', error);
+        return { success: false, data: null, message: `Failed to get the audit log for export. Reason: ${error.message || 'Unknown error'}` };
+    }
+}
 
-// --- Chart Data Actions ---
 
-// Fetch data specifically for charts, including year and month
-export async function getChartData(): Promise<ChartItem[]> {
-   try {
-       const combinedData: ChartItem[] = await runDbOperation(async (db) => {
-            // Fetch budgets
-            const budgets = await db.all(`
-                 SELECT
-                   b.amount, b.type, b.year, b.month,
-                   COALESCE(bl.name, 'Unassigned') as business_line_name,
-                   COALESCE(cc.name, 'Unassigned') as cost_center_name
-                 FROM budgets b
-                 LEFT JOIN business_lines bl ON b.business_line_id = bl.id
-                 LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
-               `);
+// --- Backup Actions ---
 
-             // Fetch expenses (NEW)
-            const expenses = await db.all(`
-                 SELECT
-                   e.amount, e.type, e.year, e.month,
-                   COALESCE(bl.name, 'Unassigned') as business_line_name,
-                   COALESCE(cc.name, 'Unassigned') as cost_center_name
-                 FROM expenses e
-                 LEFT JOIN business_lines bl ON e.business_line_id = bl.id
-                 LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
-               `);
+const BackupScheduleSchema = z.object({
+    intervalHours: z.number().int().refine(hours => Object.prototype.hasOwnProperty.call(BACKUP_INTERVALS, hours), { message: 'Pick one of the offered intervals' }),
+    retention: z.number().int().min(1, { message: 'Keep at least one scheduled snapshot' }).max(MAX_BACKUP_RETENTION, { message: `Keep at most ${MAX_BACKUP_RETENTION} scheduled snapshots` }),
+});
 
-            // Combine and add source indicator
-            const chartItems: ChartItem[] = [
-                ...budgets.map(b => ({ ...b, source: 'Budget' as const })),
-                ...expenses.map(e => ({ ...e, source: 'Expense' as const }))
-            ];
-            return chartItems;
-       });
-        return combinedData;
+// Newest first
+export async function getDatabaseSnapshots(): Promise<DatabaseSnapshot[]> {
+    await requirePermission('manage_backups');
+    try {
+        return await listSnapshots();
+    } catch (error) {
+        console.error('Failed to list database snapshots:', error);
+        throw new Error('Failed to list database snapshots.');
+    }
+}
+
+export async function createDatabaseSnapshot() {
+    const denied = await denyUnless('manage_backups');
+    if (denied) return denied;
+    try {
+        const snapshot = await createSnapshot('manual');
+        revalidatePath('/backups');
+        return { success: true, message: `Snapshot ${snapshot.name} created.` };
     } catch (error: any) {
-       console.error('Failed to get chart data:', error);
-       return [];
+        console.error('Failed to create database snapshot:', error);
+        return { success: false, message: `Failed to create the snapshot. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function deleteDatabaseSnapshot(name: string) {
+    const denied = await denyUnless('manage_backups');
+    if (denied) return denied;
+    if (!isSnapshotName(name) || !(await listSnapshots()).some(snapshot => snapshot.name === name)) {
+        return { success: false, message: `Snapshot ${name} not found.` };
+    }
+    try {
+        await deleteSnapshot(name);
+        revalidatePath('/backups');
+        return { success: true, message: `Snapshot ${name} deleted.` };
+    } catch (error: any) {
+        console.error(`Failed to delete database snapshot ${name}:`, error);
+        return { success: false, message: `Failed to delete the snapshot. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+// Replaces the whole database with the snapshot. The database as it was is snapshotted first, and put back
+// when the snapshot cannot be opened by the app.
+export async function restoreDatabaseSnapshot(name: string) {
+    const denied = await denyUnless('manage_backups');
+    if (denied) return denied;
+    const snapshot = isSnapshotName(name) ? (await listSnapshots()).find(s => s.name === name) : undefined;
+    if (!snapshot) {
+        return { success: false, message: `Snapshot ${name} not found.` };
+    }
+    try {
+        const problem = await checkSnapshot(name);
+        if (problem) {
+            return { success: false, message: problem };
+        }
+        const previous = await createSnapshot('pre_restore');
+        try {
+            await replaceDatabase(snapshotPath(name));
+        } catch (error) {
+            console.error(`Failed to open restored snapshot ${name}, putting back ${previous.name}:`, error);
+            await replaceDatabase(snapshotPath(previous.name));
+            throw error;
+        }
+        console.log(`Database restored from snapshot ${name}.`);
+        revalidatePath('/', 'layout');
+        return { success: true, message: `Restored the snapshot of ${snapshot.created_at} UTC. The data as it was before is kept in snapshot ${previous.name}.` };
+    } catch (error: any) {
+        console.error(`Failed to restore database snapshot ${name}:`, error);
+        return { success: false, message: `Failed to restore the snapshot. Reason: ${error.message || 'Unknown error'}.` };
+    }
+}
+
+export async function getBackupSchedule(): Promise<BackupSchedule> {
+    await requirePermission('manage_backups');
+    return runDbOperation(readBackupSchedule);
+}
+
+export async function saveBackupSchedule(schedule: BackupSchedule) {
+    const denied = await denyUnless('manage_backups');
+    if (denied) return denied;
+    try {
+        const validated = BackupScheduleSchema.parse(schedule);
+        await runDbOperation(async (db) => {
+            for (const [key, value] of [[BACKUP_INTERVAL_SETTING, validated.intervalHours], [BACKUP_RETENTION_SETTING, validated.retention]] as const) {
+                await db.run(
+                    `INSERT INTO app_settings (key, value) VALUES (?, ?)
+                     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+                    [key, String(value)]
+                );
+            }
+        });
+        const pruned = validated.intervalHours > 0 ? await pruneScheduledSnapshots(validated.retention) : [];
+        revalidatePath('/backups');
+        return {
+            success: true,
+            message: validated.intervalHours === 0
+                ? 'Scheduled snapshots turned off.'
+                : `Snapshots are taken ${BACKUP_INTERVALS[validated.intervalHours].toLowerCase()}, keeping the latest ${validated.retention}.${pruned.length > 0 ? ` Deleted ${pruned.length} older scheduled snapshot(s).` : ''}`,
+        };
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        console.error('Failed to save backup schedule:', error);
+        return { success: false, message: `Failed to save the backup schedule. Reason: ${error.message || 'Unknown error'}.` };
     }
 }
 
 
 // --- CSV Export Action ---
 
-// Fetches budget data and returns it as an array of objects suitable for CSV conversion on the client-side.
+// Adds the amount converted to the reporting currency after the 'Currency' column of exported rows.
+// Left empty when no exchange rate is available for the row's month.
+async function addReportingAmounts(rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    const { reportingCurrency, convert } = await loadCurrencyConverter();
+    return rows.map(row => Object.fromEntries(Object.entries(row).flatMap(([key, value]) => {
+        if (key !== 'Currency') return [[key, value]];
+        const converted = convert(row['Amount'], row['Currency'], row['Year'], row['Month']);
+        return [[key, value], [`Amount (${reportingCurrency})`, converted ?? '']];
+    })));
+}
+
+// Fetches budget data of every version and returns it as an array of objects suitable for CSV conversion on the client-side.
 export async function prepareBudgetsCsvData(): Promise<{ success: boolean; data: Record<string, any>[] | null; message?: string }> {
+    const scope = await currentScope();
     try {
         const budgets = await runDbOperation(async (db) => {
             // Fetch all necessary columns, including related names
             return db.all(`
                 SELECT
                     b.id as "Budget ID",
+                    COALESCE(b.external_id, '') as "External ID",
+                    v.name as "Version",
+                    b.status as "Status",
                     b.description as "Description",
                     b.amount as "Amount",
+                    b.currency as "Currency",
                     b.year as "Year",
                     b.month as "Month",
                     b.type as "Type",
@@ -1142,9 +4833,11 @@ export async function prepareBudgetsCsvData(): Promise<{ success: boolean; data:
                     strftime('%Y-%m-%d %H:%M:%S', b.created_at) as "Created At",
                     strftime('%Y-%m-%d %H:%M:%S', b.updated_at) as "Updated At"
                 FROM budgets b
+                JOIN budget_versions v ON b.version_id = v.id
                 LEFT JOIN business_lines bl ON b.business_line_id = bl.id
                 LEFT JOIN cost_centers cc ON b.cost_center_id = cc.id
-                ORDER BY b.year DESC, b.month DESC, b.id DESC
+                WHERE ${scopeCondition('b.business_line_id', scope)}
+                ORDER BY v.is_default DESC, v.name, b.year DESC, b.month DESC, b.id DESC
             `);
         });
 
@@ -1152,7 +4845,7 @@ export async function prepareBudgetsCsvData(): Promise<{ success: boolean; data:
             return { success: true, data: [], message: 'No budget data to export.' };
         }
 
-        return { success: true, data: budgets };
+        return { success: true, data: await addReportingAmounts(budgets) };
 
     } catch (error: any) {
         console.error('Failed to prepare budget data for CSV:', error);
@@ -1163,14 +4856,17 @@ export async function prepareBudgetsCsvData(): Promise<{ success: boolean; data:
 
 // Fetches expense data and returns it as an array of objects suitable for CSV conversion.
 export async function prepareExpensesCsvData(): Promise<{ success: boolean; data: Record<string, any>[] | null; message?: string }> {
+    const scope = await currentScope();
     try {
         const expenses = await runDbOperation(async (db) => {
             // Fetch all necessary columns, including related names
             return db.all(`
                 SELECT
                     e.id as "Expense ID",
+                    COALESCE(e.external_id, '') as "External ID",
                     e.description as "Description",
                     e.amount as "Amount",
+                    e.currency as "Currency",
                     e.year as "Year",
                     e.month as "Month",
                     e.type as "Type",
@@ -1181,6 +4877,7 @@ export async function prepareExpensesCsvData(): Promise<{ success: boolean; data
                 FROM expenses e
                 LEFT JOIN business_lines bl ON e.business_line_id = bl.id
                 LEFT JOIN cost_centers cc ON e.cost_center_id = cc.id
+                WHERE ${scopeCondition('e.business_line_id', scope)}
                 ORDER BY e.year DESC, e.month DESC, e.id DESC
             `);
         });
@@ -1189,7 +4886,7 @@ export async function prepareExpensesCsvData(): Promise<{ success: boolean; data
             return { success: true, data: [], message: 'No expense data to export.' };
         }
 
-        return { success: true, data: expenses };
+        return { success: true, data: await addReportingAmounts(expenses) };
 
     } catch (error: any) {
         console.error('Failed to prepare expense data for CSV:', error);
@@ -1197,3 +4894,41 @@ export async function prepareExpensesCsvData(): Promise<{ success: boolean; data
     }
 }
 
+
+// Fetches expenses or budgets (the approved ones of the default version) as rows in FinOps FOCUS columns, so they can be loaded into other FinOps tools.
+export async function prepareFocusCsvData(source: ImportSource): Promise<{ success: boolean; data: Record<string, any>[] | null; message?: string }> {
+    await requireUser();
+    try {
+        const entries = source === 'Budget' ? (await getBudgets()).filter(budget => budget.status === 'approved') : await getExpenses();
+        if (entries.length === 0) {
+            return { success: true, data: [], message: `No ${source.toLowerCase()} data to export.` };
+        }
+        return { success: true, data: entries.map(entry => toFocusRow(entry, source)) };
+    } catch (error: any) {
+        console.error(`Failed to prepare ${source.toLowerCase()} data for FOCUS export:`, error);
+        return { success: false, data: null, message: `Failed to get ${source.toLowerCase()} data for export. Reason: ${error.message || 'Unknown error'}` };
+    }
+}
+
+
+// --- Configuration Actions ---
+
+// The settings read from the environment and config file, with the in-app choices that replace their defaults
+export async function getEffectiveSettings(): Promise<EffectiveSettings> {
+    await requirePermission('manage_settings');
+    try {
+        const rows = await runDbOperation(db => db.all<{ key: string; value: string }[]>(
+            'SELECT key, value FROM app_settings WHERE key IN (?, ?)', REPORTING_CURRENCY_SETTING, FISCAL_YEAR_START_SETTING
+        ));
+        const setting = (key: string) => rows.find(row => row.key === key)?.value ?? null;
+        const month = parseInt(setting(FISCAL_YEAR_START_SETTING) ?? '', 10);
+        return {
+            ...describeConfig(),
+            reportingCurrency: setting(REPORTING_CURRENCY_SETTING),
+            fiscalYearStartMonth: month >= 1 && month <= 12 ? month : null,
+        };
+    } catch (error) {
+        console.error('Failed to get effective settings:', error);
+        throw new Error('Failed to get effective settings.');
+    }
+}
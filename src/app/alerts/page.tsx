@@ -0,0 +1,25 @@
+import { getAlertChannels, getAlertRules, getBusinessLines, getCostCentersSimple, getReportingCurrency, getTriggeredAlerts } from '@/app/actions';
+import { AlertRuleManager } from '@/components/alerts/alert-rule-manager';
+import { AlertChannelManager } from '@/components/alerts/alert-channel-manager';
+import { AlertCenter } from '@/components/alerts/alert-center';
+
+export default async function AlertsPage() {
+    const [rules, channels, alerts, businessLines, costCenters, reportingCurrency] = await Promise.all([
+        getAlertRules(),
+        getAlertChannels(),
+        getTriggeredAlerts(),
+        getBusinessLines(),
+        getCostCentersSimple(),
+        getReportingCurrency(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6 space-y-6">
+            <AlertRuleManager rules={rules} businessLines={businessLines} costCenters={costCenters} reportingCurrency={reportingCurrency} />
+            <AlertChannelManager channels={channels} />
+            <AlertCenter alerts={alerts} showLink={false} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
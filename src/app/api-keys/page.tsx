@@ -0,0 +1,17 @@
+import { getApiKeys, getBusinessLines } from '@/app/actions';
+import { ApiKeyManager } from '@/components/api-keys/api-key-manager';
+
+export default async function ApiKeysPage() {
+    const [apiKeys, businessLines] = await Promise.all([
+        getApiKeys(),
+        getBusinessLines(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <ApiKeyManager apiKeys={apiKeys} businessLines={businessLines} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createSession, resolveOidcUser } from '@/lib/auth';
+import { getOidcProvider, OIDC_LOGIN_COOKIE, readOidcSettings, type OidcLoginState } from '@/lib/oidc';
+
+function readLoginState(value: string | undefined): OidcLoginState | null {
+    try {
+        return value ? JSON.parse(value) as OidcLoginState : null;
+    } catch {
+        return null;
+    }
+}
+
+// Where the OIDC provider sends the user back: turns the code into an identity and signs its user in
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const login = readLoginState(request.cookies.get(OIDC_LOGIN_COOKIE)?.value);
+    const finish = (url: URL) => {
+        const response = NextResponse.redirect(url);
+        response.cookies.set(OIDC_LOGIN_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+        return response;
+    };
+    const fail = (message: string) => {
+        const loginUrl = new URL('/login', request.url);
+        loginUrl.searchParams.set('error', message);
+        return finish(loginUrl);
+    };
+
+    const settings = readOidcSettings();
+    if (!settings) {
+        return fail('Single sign-on is not configured.');
+    }
+    if (params.get('error')) {
+        return fail(`${settings.providerName} did not sign you in: ${params.get('error_description') || params.get('error')}`);
+    }
+    if (!login || params.get('state') !== login.state) {
+        return fail('The sign-in expired or was started in another browser. Please try again.');
+    }
+
+    try {
+        const identity = await getOidcProvider(settings).exchangeCode(params.get('code') ?? '', login);
+        const resolved = await resolveOidcUser(identity, settings);
+        if ('error' in resolved) {
+            return fail(resolved.error);
+        }
+        await createSession(resolved.userId);
+        return finish(new URL(login.next, request.url));
+    } catch (error: any) {
+        console.error('Failed to complete OIDC sign-in:', error);
+        return fail(`Signing in with ${settings.providerName} failed. Reason: ${error.message || 'Unknown error'}.`);
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { safeRedirectPath, secureCookies } from '@/lib/auth';
+import { createOidcLoginState, getOidcProvider, OIDC_LOGIN_COOKIE, readOidcSettings } from '@/lib/oidc';
+
+// Sends the user to the OIDC provider, remembering the state, nonce and PKCE verifier the callback checks
+export async function GET(request: NextRequest) {
+    const settings = readOidcSettings();
+    const loginUrl = new URL('/login', request.url);
+    if (!settings) {
+        loginUrl.searchParams.set('error', 'Single sign-on is not configured.');
+        return NextResponse.redirect(loginUrl);
+    }
+
+    const login = createOidcLoginState(safeRedirectPath(request.nextUrl.searchParams.get('next')));
+    try {
+        const response = NextResponse.redirect(await getOidcProvider(settings).authorizationUrl(login));
+        response.cookies.set(OIDC_LOGIN_COOKIE, JSON.stringify(login), {
+            httpOnly: true,
+            sameSite: 'lax', // Sent along when the provider redirects back
+            secure: secureCookies(),
+            path: '/api/auth/oidc',
+            maxAge: 10 * 60,
+        });
+        return response;
+    } catch (error: any) {
+        console.error('Failed to start OIDC sign-in:', error);
+        loginUrl.searchParams.set('error', `${settings.providerName} could not be reached. Please check server logs.`);
+        return NextResponse.redirect(loginUrl);
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,52 @@
+import { associateBusinessLineToCostCenter, disassociateBusinessLineFromCostCenter, getCostCentersWithBusinessLines } from '@/app/actions';
+import { actionResult, ApiError, apiHandler, dataResponse, pageResponse, paginate, readJsonBody, readPageRequest, readQuery, requireApiPermission } from '@/lib/api';
+import { AssociateBusinessLineSchema, EntryFilterSchema } from '@/lib/schemas';
+import type { CostCenterAssociation } from '@/types';
+
+const AssociationQuerySchema = EntryFilterSchema.pick({ business_line_id: true, cost_center_id: true });
+
+// Which cost centers may be booked on which business lines, in the caller's scope
+async function getAssociations(): Promise<CostCenterAssociation[]> {
+    return (await getCostCentersWithBusinessLines()).flatMap(costCenter => costCenter.businessLines.map(businessLine => ({
+        cost_center_id: costCenter.id,
+        cost_center_name: costCenter.name,
+        business_line_id: businessLine.id,
+        business_line_name: businessLine.name,
+    })));
+}
+
+export const GET = apiHandler(async (request) => {
+    const pageRequest = readPageRequest(request);
+    const { business_line_id, cost_center_id } = readQuery(request, AssociationQuerySchema);
+    const associations = (await getAssociations()).filter(association =>
+        (business_line_id === null || association.business_line_id === business_line_id) &&
+        (cost_center_id === null || association.cost_center_id === cost_center_id)
+    );
+    return pageResponse(paginate(associations, pageRequest));
+});
+
+// Associating a pair that is already associated changes nothing
+export const POST = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { cost_center_id, business_line_id } = await readJsonBody(request, AssociateBusinessLineSchema);
+    const { message } = actionResult(await associateBusinessLineToCostCenter(cost_center_id, business_line_id));
+    const association = (await getAssociations())
+        .find(candidate => candidate.cost_center_id === cost_center_id && candidate.business_line_id === business_line_id);
+    return dataResponse(association, message, 201);
+});
+
+// Takes the pair from the cost_center_id and business_line_id parameters
+export const DELETE = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { cost_center_id, business_line_id } = readQuery(request, AssociationQuerySchema);
+    const pair = AssociateBusinessLineSchema.parse({ cost_center_id, business_line_id });
+    const exists = (await getAssociations())
+        .some(candidate => candidate.cost_center_id === pair.cost_center_id && candidate.business_line_id === pair.business_line_id);
+    if (!exists) {
+        throw new ApiError(404, 'not_found', `Cost center ${pair.cost_center_id} is not associated with business line ${pair.business_line_id}.`);
+    }
+    actionResult(await disassociateBusinessLineFromCostCenter(pair.cost_center_id, pair.business_line_id));
+    return new Response(null, { status: 204 });
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,39 @@
+import { deleteBudgetEntry, getBudgetById, updateBudgetEntry } from '@/app/actions';
+import { actionResult, ApiError, apiHandler, dataResponse, parseIdParam, readJsonBody, requireApiPermission, toFormData } from '@/lib/api';
+import { BudgetBodySchema } from '@/lib/schemas';
+
+async function findBudget(value: string | undefined) {
+    const id = parseIdParam(value, 'Budget entry');
+    const budget = await getBudgetById(id);
+    if (!budget) {
+        throw new ApiError(404, 'not_found', `Budget entry with ID ${id} not found.`);
+    }
+    return budget;
+}
+
+export const GET = apiHandler(async (_request, { params }) => {
+    return dataResponse(await findBudget(params.id));
+});
+
+// Replaces the entry's fields. Changes to an approved entry wait for review as its pending change (see
+// pending_change_id); until then the approved values stay in effect.
+export const PUT = apiHandler(async (request, { user, params }) => {
+    await requireApiPermission(user, 'edit_budgets');
+    const { id } = await findBudget(params.id);
+    const body = await readJsonBody(request, BudgetBodySchema);
+    const { message } = actionResult(await updateBudgetEntry(id, toFormData(body)));
+    return dataResponse(await findBudget(params.id), message);
+});
+
+// Deleting an approved entry waits for review as its pending change (202, with the entry); until then it stays in effect
+export const DELETE = apiHandler(async (_request, { user, params }) => {
+    await requireApiPermission(user, 'edit_budgets');
+    const { id, status } = await findBudget(params.id);
+    const { message } = actionResult(await deleteBudgetEntry(id));
+    if (status === 'approved') {
+        return dataResponse(await findBudget(params.id), message, 202);
+    }
+    return new Response(null, { status: 204 });
+});
+
+export const dynamic = 'force-dynamic';
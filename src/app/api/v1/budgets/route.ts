@@ -0,0 +1,20 @@
+import { addBudgetEntry, getBudgetById, getBudgetPage } from '@/app/actions';
+import { actionResult, apiHandler, dataResponse, pageResponse, readJsonBody, readPageRequest, readQuery, requireApiPermission, toFormData } from '@/lib/api';
+import { BudgetBodySchema, BudgetListQuerySchema } from '@/lib/schemas';
+
+// The budgets of a version in the caller's scope, whatever their approval status, newest first
+export const GET = apiHandler(async (request) => {
+    const pageRequest = readPageRequest(request);
+    const { version_id, ...filter } = readQuery(request, BudgetListQuerySchema);
+    return pageResponse(await getBudgetPage(version_id, filter, pageRequest));
+});
+
+// Saves a draft, or submits the entry for approval with "submit": true
+export const POST = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'edit_budgets');
+    const body = await readJsonBody(request, BudgetBodySchema);
+    const { id, message } = actionResult(await addBudgetEntry(toFormData(body)));
+    return dataResponse(await getBudgetById(id!), message, 201);
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,34 @@
+import { deleteBusinessLine, getBusinessLines, updateBusinessLine } from '@/app/actions';
+import { actionResult, ApiError, apiHandler, dataResponse, parseIdParam, readJsonBody, requireApiPermission, toFormData } from '@/lib/api';
+import { BusinessLineSchema } from '@/lib/schemas';
+
+async function findBusinessLine(value: string | undefined) {
+    const id = parseIdParam(value, 'Business line');
+    const businessLine = (await getBusinessLines()).find(candidate => candidate.id === id);
+    if (!businessLine) {
+        throw new ApiError(404, 'not_found', `Business line with ID ${id} not found.`);
+    }
+    return businessLine;
+}
+
+export const GET = apiHandler(async (_request, { params }) => {
+    return dataResponse(await findBusinessLine(params.id));
+});
+
+export const PUT = apiHandler(async (request, { user, params }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { id } = await findBusinessLine(params.id);
+    const body = await readJsonBody(request, BusinessLineSchema);
+    const { message } = actionResult(await updateBusinessLine(id, toFormData(body)));
+    return dataResponse(await findBusinessLine(params.id), message);
+});
+
+// Budgets and expenses of the business line are kept, without a business line
+export const DELETE = apiHandler(async (_request, { user, params }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { id } = await findBusinessLine(params.id);
+    actionResult(await deleteBusinessLine(id));
+    return new Response(null, { status: 204 });
+});
+
+export const dynamic = 'force-dynamic';
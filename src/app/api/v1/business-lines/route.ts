@@ -0,0 +1,19 @@
+import { addBusinessLine, getBusinessLines } from '@/app/actions';
+import { actionResult, apiHandler, dataResponse, pageResponse, paginate, readJsonBody, readPageRequest, requireApiPermission, toFormData } from '@/lib/api';
+import { BusinessLineSchema } from '@/lib/schemas';
+
+// The business lines in the caller's scope, by name
+export const GET = apiHandler(async (request) => {
+    const pageRequest = readPageRequest(request);
+    return pageResponse(paginate(await getBusinessLines(), pageRequest));
+});
+
+export const POST = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const body = await readJsonBody(request, BusinessLineSchema);
+    const { id, message } = actionResult(await addBusinessLine(toFormData(body)));
+    const created = (await getBusinessLines()).find(businessLine => businessLine.id === id);
+    return dataResponse(created, message, 201);
+});
+
+export const dynamic = 'force-dynamic';
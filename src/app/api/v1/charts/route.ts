@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getChartData, getReportingCurrency } from '@/app/actions';
+import { apiHandler, readQuery } from '@/lib/api';
+import { aggregateChartItems, CHART_GROUPS, filterChartItems } from '@/lib/chart-aggregates';
+import { BudgetListQuerySchema } from '@/lib/schemas';
+import type { ChartGroup } from '@/types';
+
+const QueryFlagSchema = z.enum(['true', 'false']).default('false').transform(flag => flag === 'true');
+
+const ChartQuerySchema = BudgetListQuerySchema.extend({
+    group_by: z.enum(Object.keys(CHART_GROUPS) as [ChartGroup, ...ChartGroup[]]).default('business_line'),
+    include_unapproved: QueryFlagSchema, // Budgets not approved yet count too
+});
+
+// Budget and expense totals in the reporting currency, as on the Charts page: the approved budgets of a version
+// and every expense in the caller's scope, grouped by business line, cost center, month or type
+export const GET = apiHandler(async (request) => {
+    const { group_by, include_unapproved, version_id, ...filter } = readQuery(request, ChartQuerySchema);
+    const [items, currency] = await Promise.all([
+        getChartData(version_id, true, include_unapproved),
+        getReportingCurrency(),
+    ]);
+    return NextResponse.json({ data: aggregateChartItems(filterChartItems(items, filter), group_by), currency });
+});
+
+export const dynamic = 'force-dynamic';
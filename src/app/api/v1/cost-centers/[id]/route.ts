@@ -0,0 +1,35 @@
+import { deleteCostCenter, getCostCentersWithBusinessLines, updateCostCenter } from '@/app/actions';
+import { actionResult, ApiError, apiHandler, dataResponse, parseIdParam, readJsonBody, requireApiPermission, toFormData } from '@/lib/api';
+import { CostCenterBodySchema } from '@/lib/schemas';
+
+async function findCostCenter(value: string | undefined) {
+    const id = parseIdParam(value, 'Cost center');
+    const costCenter = (await getCostCentersWithBusinessLines()).find(candidate => candidate.id === id);
+    if (!costCenter) {
+        throw new ApiError(404, 'not_found', `Cost center with ID ${id} not found.`);
+    }
+    return costCenter;
+}
+
+export const GET = apiHandler(async (_request, { params }) => {
+    return dataResponse(await findCostCenter(params.id));
+});
+
+// Renames the cost center; its business lines are changed through /api/v1/associations
+export const PUT = apiHandler(async (request, { user, params }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { id } = await findCostCenter(params.id);
+    const body = await readJsonBody(request, CostCenterBodySchema);
+    const { message } = actionResult(await updateCostCenter(id, toFormData(body)));
+    return dataResponse(await findCostCenter(params.id), message);
+});
+
+// Budgets and expenses of the cost center are kept, without a cost center
+export const DELETE = apiHandler(async (_request, { user, params }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const { id } = await findCostCenter(params.id);
+    actionResult(await deleteCostCenter(id));
+    return new Response(null, { status: 204 });
+});
+
+export const dynamic = 'force-dynamic';
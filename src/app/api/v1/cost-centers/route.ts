@@ -0,0 +1,25 @@
+import { addCostCenter, getCostCentersWithBusinessLines } from '@/app/actions';
+import { actionResult, apiHandler, dataResponse, pageResponse, paginate, readJsonBody, readPageRequest, readQuery, requireApiPermission, toFormData } from '@/lib/api';
+import { CostCenterBodySchema, EntryFilterSchema } from '@/lib/schemas';
+
+const CostCenterQuerySchema = EntryFilterSchema.pick({ business_line_id: true });
+
+// The cost centers by name, each with the business lines in the caller's scope it is associated with;
+// business_line_id keeps those associated with that business line
+export const GET = apiHandler(async (request) => {
+    const pageRequest = readPageRequest(request);
+    const { business_line_id } = readQuery(request, CostCenterQuerySchema);
+    const costCenters = (await getCostCentersWithBusinessLines())
+        .filter(costCenter => business_line_id === null || costCenter.businessLines.some(businessLine => businessLine.id === business_line_id));
+    return pageResponse(paginate(costCenters, pageRequest));
+});
+
+export const POST = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'manage_master_data');
+    const body = await readJsonBody(request, CostCenterBodySchema);
+    const { id, message } = actionResult(await addCostCenter(toFormData(body)));
+    const created = (await getCostCentersWithBusinessLines()).find(costCenter => costCenter.id === id);
+    return dataResponse(created, message, 201);
+});
+
+export const dynamic = 'force-dynamic';
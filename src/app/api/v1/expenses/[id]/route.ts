@@ -0,0 +1,34 @@
+import { deleteExpenseEntry, getExpenseById, updateExpenseEntry } from '@/app/actions';
+import { actionResult, ApiError, apiHandler, dataResponse, parseIdParam, readJsonBody, requireApiPermission, toFormData } from '@/lib/api';
+import { ExpenseBodySchema } from '@/lib/schemas';
+
+async function findExpense(value: string | undefined) {
+    const id = parseIdParam(value, 'Expense entry');
+    const expense = await getExpenseById(id);
+    if (!expense) {
+        throw new ApiError(404, 'not_found', `Expense entry with ID ${id} not found.`);
+    }
+    return expense;
+}
+
+export const GET = apiHandler(async (_request, { params }) => {
+    return dataResponse(await findExpense(params.id));
+});
+
+// Replaces the entry's fields
+export const PUT = apiHandler(async (request, { user, params }) => {
+    await requireApiPermission(user, 'edit_expenses');
+    const { id } = await findExpense(params.id);
+    const body = await readJsonBody(request, ExpenseBodySchema);
+    const { message } = actionResult(await updateExpenseEntry(id, toFormData(body)));
+    return dataResponse(await findExpense(params.id), message);
+});
+
+export const DELETE = apiHandler(async (_request, { user, params }) => {
+    await requireApiPermission(user, 'edit_expenses');
+    const { id } = await findExpense(params.id);
+    actionResult(await deleteExpenseEntry(id));
+    return new Response(null, { status: 204 });
+});
+
+export const dynamic = 'force-dynamic';
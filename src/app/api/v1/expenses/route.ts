@@ -0,0 +1,19 @@
+import { addExpenseEntry, getExpenseById, getExpensePage } from '@/app/actions';
+import { actionResult, apiHandler, dataResponse, pageResponse, readJsonBody, readPageRequest, readQuery, requireApiPermission, toFormData } from '@/lib/api';
+import { EntryFilterSchema, ExpenseBodySchema } from '@/lib/schemas';
+
+// The expenses in the caller's scope, newest first
+export const GET = apiHandler(async (request) => {
+    const pageRequest = readPageRequest(request);
+    return pageResponse(await getExpensePage(readQuery(request, EntryFilterSchema), pageRequest));
+});
+
+// Budget alerts are evaluated for the expense's month, as for expenses entered in the app
+export const POST = apiHandler(async (request, { user }) => {
+    await requireApiPermission(user, 'edit_expenses');
+    const body = await readJsonBody(request, ExpenseBodySchema);
+    const { id, message } = actionResult(await addExpenseEntry(toFormData(body)));
+    return dataResponse(await getExpenseById(id!), message, 201);
+});
+
+export const dynamic = 'force-dynamic';
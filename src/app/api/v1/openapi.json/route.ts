@@ -0,0 +1,9 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// The API's OpenAPI document; public, like the login page, so client generators can fetch it without a session
+export async function GET(request: NextRequest) {
+    return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,57 @@
+import { getAuditLog, getBudgetVersions, getBusinessLines, getCostCentersSimple } from '@/app/actions';
+import type { AuditLogFilter } from '@/types';
+import { buildAuditNameLookup, isAuditAction, isAuditTable } from '@/lib/audit';
+import { AuditLogView } from '@/components/audit/audit-log';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface AuditPageProps {
+    searchParams: {
+        table?: string;
+        action?: string;
+        actor?: string;
+        record?: string;
+        from?: string;
+        to?: string;
+    };
+}
+
+const isDate = (value: string | undefined): value is string => /^\d{4}-\d{2}-\d{2}$/.test(value ?? '');
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+    const recordId = parseInt(searchParams.record ?? '', 10);
+    const filter: AuditLogFilter = {
+        table: isAuditTable(searchParams.table) ? searchParams.table : null,
+        action: isAuditAction(searchParams.action) ? searchParams.action : null,
+        actor: searchParams.actor?.trim() ?? '',
+        recordId: recordId > 0 ? recordId : null,
+        from: isDate(searchParams.from) ? searchParams.from : null,
+        to: isDate(searchParams.to) ? searchParams.to : null,
+    };
+
+    const [{ events, limit }, businessLines, costCenters, versions] = await Promise.all([
+        getAuditLog(filter),
+        getBusinessLines(),
+        getCostCentersSimple(),
+        getBudgetVersions(),
+    ]);
+    const names = buildAuditNameLookup({ business_line_id: businessLines, cost_center_id: costCenters, version_id: versions });
+
+    return (
+        <div className="container mx-auto py-6 space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Audit Log</CardTitle>
+                    <CardDescription>
+                        Every change to budget and expense entries, business lines, cost centers, their associations and API keys: who made it,
+                        when, and the values before and after. Changes made by imports, reverts and deletions of related records are included.
+                        Changes made through the REST API with an API key are shown as made by the key. Changes without a signed-in user,
+                        such as those made by scripts, are shown as made by System.
+                    </CardDescription>
+                </CardHeader>
+            </Card>
+            <AuditLogView filter={filter} events={events} limit={limit} names={names} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+import { getBackupSchedule, getDatabaseSnapshots } from '@/app/actions';
+import { BackupManager } from '@/components/backups/backup-manager';
+
+export default async function BackupsPage() {
+    const [snapshots, schedule] = await Promise.all([
+        getDatabaseSnapshots(),
+        getBackupSchedule(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <BackupManager snapshots={snapshots} schedule={schedule} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
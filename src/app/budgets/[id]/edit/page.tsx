@@ -1,6 +1,9 @@
 
-import { getBusinessLines, getCostCentersWithBusinessLines, getBudgetById, updateBudgetEntry } from '@/app/actions'; // Fetch CostCentersWithBusinessLines
+import { getBusinessLines, getCostCentersWithBusinessLines, getBudgetById, updateBudgetEntry, getBudgetVersions, getRecordHistory } from '@/app/actions'; // Fetch CostCentersWithBusinessLines
 import { BudgetForm } from '@/components/budget/budget-form';
+import { RecordHistory } from '@/components/audit/record-history';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { buildAuditNameLookup } from '@/lib/audit';
 import { notFound } from 'next/navigation';
 
 interface EditBudgetPageProps {
@@ -15,10 +18,12 @@ export default async function EditBudgetPage({ params }: EditBudgetPageProps) {
         notFound(); // Invalid ID format
     }
 
-    const [budget, businessLines, costCenters] = await Promise.all([
+    const [budget, businessLines, costCenters, versions, history] = await Promise.all([
         getBudgetById(budgetId),
         getBusinessLines(),
         getCostCentersWithBusinessLines(), // Use the action that fetches associations
+        getBudgetVersions(),
+        getRecordHistory('budgets', budgetId),
     ]);
 
     // If getBudgetById returns null (meaning not found or error), trigger 404
@@ -29,17 +34,30 @@ export default async function EditBudgetPage({ params }: EditBudgetPageProps) {
     // Server action needs to accept ID as first arg
     // Bind the ID to the updateBudgetEntry action
     const updateActionWithId = updateBudgetEntry.bind(null, budgetId);
+    const names = buildAuditNameLookup({ business_line_id: businessLines, cost_center_id: costCenters, version_id: versions });
 
 
     return (
          <div className="container mx-auto py-6">
-             <BudgetForm
-                initialData={budget}
-                businessLines={businessLines}
-                costCenters={costCenters} // Pass the CostCentersWithBusinessLines
-                onSubmit={updateActionWithId} // Pass the bound action
-                formType="edit"
-            />
+            <Tabs defaultValue="edit">
+                <TabsList className="mb-4">
+                    <TabsTrigger value="edit">Edit</TabsTrigger>
+                    <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="edit">
+                    <BudgetForm
+                        initialData={budget}
+                        businessLines={businessLines}
+                        costCenters={costCenters} // Pass the CostCentersWithBusinessLines
+                        onSubmit={updateActionWithId} // Pass the bound action
+                        formType="edit"
+                        versions={versions}
+                    />
+                </TabsContent>
+                <TabsContent value="history">
+                    <RecordHistory events={history} names={names} />
+                </TabsContent>
+            </Tabs>
         </div>
     );
 }
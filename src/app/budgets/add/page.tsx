@@ -1,11 +1,20 @@
 
-import { getBusinessLines, getCostCentersWithBusinessLines, addBudgetEntry } from '@/app/actions'; // Fetch CostCentersWithBusinessLines
+import { getBusinessLines, getCostCentersWithBusinessLines, getReportingCurrency, addBudgetEntry, getBudgetVersions } from '@/app/actions'; // Fetch CostCentersWithBusinessLines
 import { BudgetForm } from '@/components/budget/budget-form';
+import { parseBudgetVersionId } from '@/lib/budget-versions';
 
-export default async function AddBudgetPage() {
-    const [businessLines, costCenters] = await Promise.all([
+interface AddBudgetPageProps {
+    searchParams: {
+        version?: string; // Version the budget list was showing
+    };
+}
+
+export default async function AddBudgetPage({ searchParams }: AddBudgetPageProps) {
+    const [businessLines, costCenters, reportingCurrency, versions] = await Promise.all([
         getBusinessLines(),
         getCostCentersWithBusinessLines(), // Use the action that fetches associations
+        getReportingCurrency(),
+        getBudgetVersions(),
     ]);
 
     return (
@@ -15,6 +24,9 @@ export default async function AddBudgetPage() {
                 costCenters={costCenters} // Pass the CostCentersWithBusinessLines
                 onSubmit={addBudgetEntry}
                 formType="add"
+                defaultCurrency={reportingCurrency}
+                versions={versions}
+                defaultVersionId={parseBudgetVersionId(searchParams.version)}
             />
         </div>
     );
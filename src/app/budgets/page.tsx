@@ -1,17 +1,34 @@
-import { getBudgets, getBusinessLines, getCostCentersSimple } from '@/app/actions';
+import { getBudgetPage, getBudgetVersions, getBusinessLines, getCostCentersSimple } from '@/app/actions';
 import { BudgetFilterWrapper } from '@/components/budget/budget-filter-wrapper'; // Import the new wrapper
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { PlusCircle } from 'lucide-react';
+import { parseBudgetVersionId } from '@/lib/budget-versions';
+import { parseEntryListSearchParams } from '@/lib/entry-lists';
+import { GitBranch, PlusCircle } from 'lucide-react';
 import Link from 'next/link';
 
-export default async function BudgetsPage() {
+interface BudgetsPageProps {
+    searchParams: {
+        version?: string; // Budget version to list, the default version if missing
+    } & Record<string, string | string[] | undefined>; // Filters, order and page, see '@/lib/entry-lists'
+}
+
+export default async function BudgetsPage({ searchParams }: BudgetsPageProps) {
     // Fetch all necessary data: budgets, business lines, and cost centers for filters
-    const [budgets, businessLines, costCenters] = await Promise.all([
-        getBudgets(),
+    const [versions, businessLines, costCenters] = await Promise.all([
+        getBudgetVersions(),
         getBusinessLines(),
         getCostCentersSimple(), // Fetch simple cost centers for filtering
     ]);
+    const requestedVersionId = parseBudgetVersionId(searchParams.version);
+    const version = versions.find(v => v.id === requestedVersionId) ?? versions.find(v => v.is_default) ?? versions[0];
+    const { query, pageRequest } = parseEntryListSearchParams(searchParams);
+    const requestedPage = version ? await getBudgetPage(version.id, query, pageRequest) : null;
+    // Past the last page, e.g. after its entries were deleted, the last page is shown
+    const lastPage = requestedPage ? Math.max(1, Math.ceil(requestedPage.total / requestedPage.pageSize)) : 1;
+    const budgets = version && requestedPage && requestedPage.page > lastPage
+        ? await getBudgetPage(version.id, query, { ...pageRequest, page: lastPage })
+        : requestedPage;
 
     return (
         <div className="container mx-auto py-6">
@@ -19,21 +36,33 @@ export default async function BudgetsPage() {
                  <CardHeader className="flex flex-row items-center justify-between">
                      <div>
                         <CardTitle>Budget Entries</CardTitle>
-                        <CardDescription>View, manage, and filter your budget line items.</CardDescription> {/* Updated description */}
+                        <CardDescription>View, manage, and filter your budget line items. Each budget version (original plan, reforecast or scenario) has its own entries.</CardDescription> {/* Updated description */}
+                     </div>
+                     <div className="flex gap-2">
+                          <Link href="/budgets/versions" passHref>
+                               <Button variant="outline">
+                                 <GitBranch className="mr-2 h-4 w-4" /> Manage Versions
+                               </Button>
+                          </Link>
+                          <Link href={version ? `/budgets/add?version=${version.id}` : '/budgets/add'} passHref>
+                               <Button>
+                                 <PlusCircle className="mr-2 h-4 w-4" /> Add New Entry
+                               </Button>
+                          </Link>
                      </div>
-                      <Link href="/budgets/add" passHref>
-                           <Button>
-                             <PlusCircle className="mr-2 h-4 w-4" /> Add New Entry
-                           </Button>
-                      </Link>
                  </CardHeader>
                  <CardContent>
                     {/* Pass data to the filter wrapper */}
-                     <BudgetFilterWrapper
-                        initialBudgets={budgets}
-                        businessLines={businessLines}
-                        costCenters={costCenters}
-                     />
+                     {version && budgets && (
+                         <BudgetFilterWrapper
+                            budgets={budgets}
+                            query={query}
+                            businessLines={businessLines}
+                            costCenters={costCenters}
+                            versions={versions}
+                            versionId={version.id}
+                         />
+                     )}
                  </CardContent>
              </Card>
         </div>
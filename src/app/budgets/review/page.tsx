@@ -0,0 +1,19 @@
+import { getBudgetReviewQueue, getRecentBudgetReviews } from '@/app/actions';
+import { requireUser } from '@/lib/auth';
+import { BudgetReviewQueue } from '@/components/budget/budget-review-queue';
+
+export default async function BudgetReviewPage() {
+    const [queue, recent, reviewer] = await Promise.all([
+        getBudgetReviewQueue(),
+        getRecentBudgetReviews(),
+        requireUser(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <BudgetReviewQueue queue={queue} recent={recent} reviewer={reviewer} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
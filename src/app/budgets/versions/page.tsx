@@ -0,0 +1,14 @@
+import { getBudgetVersions } from '@/app/actions';
+import { BudgetVersionManager } from '@/components/budget/budget-version-manager';
+
+export default async function BudgetVersionsPage() {
+    const versions = await getBudgetVersions();
+
+    return (
+        <div className="container mx-auto py-6">
+            <BudgetVersionManager versions={versions} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,11 +1,11 @@
-import { getBusinessLines, addBusinessLine } from '@/app/actions';
+import { getBusinessLines, addBusinessLine, getBudgetOwnerOptions } from '@/app/actions';
 import { BusinessLineForm } from '@/components/business-lines/business-line-form';
 import { BusinessLineList } from '@/components/business-lines/business-line-list';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 
 export default async function BusinessLinesPage() {
-    const businessLines = await getBusinessLines();
+    const [businessLines, budgetOwners] = await Promise.all([getBusinessLines(), getBudgetOwnerOptions()]);
 
     return (
         <div className="container mx-auto py-6 space-y-6">
@@ -15,13 +15,13 @@ export default async function BusinessLinesPage() {
                      <CardDescription>Create a new category for your budget entries.</CardDescription>
                 </CardHeader>
                 <CardContent>
-                     <BusinessLineForm onSubmit={addBusinessLine} />
+                     <BusinessLineForm budgetOwners={budgetOwners} onSubmit={addBusinessLine} />
                 </CardContent>
             </Card>
 
             <Separator />
 
-            <BusinessLineList businessLines={businessLines} />
+            <BusinessLineList businessLines={businessLines} budgetOwners={budgetOwners} />
         </div>
     );
 }
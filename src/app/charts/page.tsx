@@ -1,21 +1,62 @@
 
-import { getChartData } from '@/app/actions'; // Changed action to getChartData
+import { getBudgetVersions, getChartData, getFiscalYearStartMonth, getMissingExchangeRates, getReportingCurrency } from '@/app/actions'; // Changed action to getChartData
 import { BudgetCharts } from '@/components/charts/budget-charts';
+import { ChartVersionPicker } from '@/components/charts/chart-version-picker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MissingRatesAlert } from '@/components/currency/missing-rates-alert';
+import { parseBudgetVersionId } from '@/lib/budget-versions';
 
-export default async function ChartsPage() {
-    const chartData = await getChartData(); // Use the new action to get combined data
+interface ChartsPageProps {
+    searchParams: {
+        version?: string; // Budget version charted against expenses, the default version if missing
+        compare?: string; // Budget version drawn next to it
+        unapproved?: string; // '1' to include budgets that are not approved yet
+    };
+}
+
+export default async function ChartsPage({ searchParams }: ChartsPageProps) {
+    const [versions, reportingCurrency, missingRates, fiscalYearStartMonth] = await Promise.all([
+        getBudgetVersions(),
+        getReportingCurrency(),
+        getMissingExchangeRates(),
+        getFiscalYearStartMonth(),
+    ]);
+    const requestedVersionId = parseBudgetVersionId(searchParams.version);
+    const version = versions.find(v => v.id === requestedVersionId) ?? versions.find(v => v.is_default) ?? versions[0];
+    const compareVersion = versions.find(v => v.id === parseBudgetVersionId(searchParams.compare) && v.id !== version?.id) ?? null;
+    const includeUnapproved = searchParams.unapproved === '1';
+    const [chartData, comparisonData] = await Promise.all([
+        getChartData(version?.id ?? null, true, includeUnapproved), // Use the new action to get combined data
+        compareVersion ? getChartData(compareVersion.id, false, includeUnapproved) : Promise.resolve([]),
+    ]);
 
     return (
         <div className="container mx-auto py-6">
              <Card className="mb-6">
                  <CardHeader>
                      <CardTitle>Budget & Expense Visualization</CardTitle>
-                     <CardDescription>Charts showing budget and actual expenses breakdown by different categories.</CardDescription>
+                     <CardDescription>
+                         Charts showing budget and actual expenses breakdown by different categories. Amounts are in {reportingCurrency}.
+                         {includeUnapproved ? ' Budgets include entries not approved yet.' : ' Only approved budget entries are shown.'}
+                     </CardDescription>
                  </CardHeader>
+                 {version && (
+                     <CardContent>
+                         <ChartVersionPicker versions={versions} versionId={version.id} compareVersionId={compareVersion?.id ?? null} includeUnapproved={includeUnapproved} />
+                     </CardContent>
+                 )}
              </Card>
+             <div className="mb-6 empty:hidden">
+                 <MissingRatesAlert missingRates={missingRates} reportingCurrency={reportingCurrency} />
+             </div>
              {/* Pass the combined ChartItem[] data */}
-             <BudgetCharts chartData={chartData} />
+             <BudgetCharts
+                chartData={chartData}
+                currency={reportingCurrency}
+                fiscalYearStartMonth={fiscalYearStartMonth}
+                comparisonData={comparisonData}
+                comparisonName={compareVersion?.name}
+             />
         </div>
     );
 }
@@ -0,0 +1,21 @@
+import { getCurrenciesInUse, getExchangeRates, getMissingExchangeRates, getReportingCurrency } from '@/app/actions';
+import { ExchangeRateManager } from '@/components/currency/exchange-rate-manager';
+import { MissingRatesAlert } from '@/components/currency/missing-rates-alert';
+
+export default async function CurrenciesPage() {
+    const [rates, reportingCurrency, currenciesInUse, missingRates] = await Promise.all([
+        getExchangeRates(),
+        getReportingCurrency(),
+        getCurrenciesInUse(),
+        getMissingExchangeRates(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6 space-y-6">
+            <MissingRatesAlert missingRates={missingRates} reportingCurrency={reportingCurrency} showLink={false} />
+            <ExchangeRateManager rates={rates} reportingCurrency={reportingCurrency} currenciesInUse={currenciesInUse} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic'; // Ensure data is fetched on every request
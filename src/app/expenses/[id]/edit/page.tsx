@@ -1,6 +1,9 @@
 
-import { getBusinessLines, getCostCentersWithBusinessLines, getExpenseById, updateExpenseEntry } from '@/app/actions';
+import { getBusinessLines, getCostCentersWithBusinessLines, getExpenseById, updateExpenseEntry, getRecordHistory } from '@/app/actions';
 import { ExpenseForm } from '@/components/expenses/expense-form'; // Use ExpenseForm
+import { RecordHistory } from '@/components/audit/record-history';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { buildAuditNameLookup } from '@/lib/audit';
 import { notFound } from 'next/navigation';
 
 interface EditExpensePageProps {
@@ -15,10 +18,11 @@ export default async function EditExpensePage({ params }: EditExpensePageProps)
         notFound(); // Invalid ID format
     }
 
-    const [expense, businessLines, costCenters] = await Promise.all([
+    const [expense, businessLines, costCenters, history] = await Promise.all([
         getExpenseById(expenseId), // Fetch expense by ID
         getBusinessLines(),
         getCostCentersWithBusinessLines(),
+        getRecordHistory('expenses', expenseId),
     ]);
 
     // If getExpenseById returns null, trigger 404
@@ -28,16 +32,28 @@ export default async function EditExpensePage({ params }: EditExpensePageProps)
 
     // Bind the ID to the updateExpenseEntry action
     const updateActionWithId = updateExpenseEntry.bind(null, expenseId);
+    const names = buildAuditNameLookup({ business_line_id: businessLines, cost_center_id: costCenters });
 
     return (
          <div className="container mx-auto py-6">
-             <ExpenseForm
-                initialData={expense} // Pass expense data
-                businessLines={businessLines}
-                costCenters={costCenters}
-                onSubmit={updateActionWithId} // Pass the bound update action
-                formType="edit"
-            />
+            <Tabs defaultValue="edit">
+                <TabsList className="mb-4">
+                    <TabsTrigger value="edit">Edit</TabsTrigger>
+                    <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="edit">
+                    <ExpenseForm
+                        initialData={expense} // Pass expense data
+                        businessLines={businessLines}
+                        costCenters={costCenters}
+                        onSubmit={updateActionWithId} // Pass the bound update action
+                        formType="edit"
+                    />
+                </TabsContent>
+                <TabsContent value="history">
+                    <RecordHistory events={history} names={names} />
+                </TabsContent>
+            </Tabs>
         </div>
     );
 }
@@ -1,11 +1,12 @@
 
-import { getBusinessLines, getCostCentersWithBusinessLines, addExpenseEntry } from '@/app/actions';
+import { getBusinessLines, getCostCentersWithBusinessLines, getReportingCurrency, addExpenseEntry } from '@/app/actions';
 import { ExpenseForm } from '@/components/expenses/expense-form'; // Use ExpenseForm
 
 export default async function AddExpensePage() {
-    const [businessLines, costCenters] = await Promise.all([
+    const [businessLines, costCenters, reportingCurrency] = await Promise.all([
         getBusinessLines(),
         getCostCentersWithBusinessLines(),
+        getReportingCurrency(),
     ]);
 
     return (
@@ -16,6 +17,7 @@ export default async function AddExpensePage() {
                 costCenters={costCenters}
                 onSubmit={addExpenseEntry} // Use the addExpenseEntry action
                 formType="add"
+                defaultCurrency={reportingCurrency}
             />
         </div>
     );
@@ -1,18 +1,27 @@
 
-import { getExpenses, getBusinessLines, getCostCentersSimple } from '@/app/actions'; // Import actions to fetch filter data
+import { getExpensePage, getBusinessLines, getCostCentersSimple } from '@/app/actions'; // Import actions to fetch filter data
 import { ExpenseFilterWrapper } from '@/components/expenses/expense-filter-wrapper'; // Import the new wrapper
+import { parseEntryListSearchParams } from '@/lib/entry-lists';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PlusCircle } from 'lucide-react';
 import Link from 'next/link';
 
-export default async function ExpensesPage() {
-    // Fetch expenses and data needed for filters
-    const [expenses, businessLines, costCenters] = await Promise.all([
-        getExpenses(),
+interface ExpensesPageProps {
+    searchParams: Record<string, string | string[] | undefined>; // Filters, order and page, see '@/lib/entry-lists'
+}
+
+export default async function ExpensesPage({ searchParams }: ExpensesPageProps) {
+    const { query, pageRequest } = parseEntryListSearchParams(searchParams);
+    // Fetch one page of expenses and data needed for filters
+    const [requestedPage, businessLines, costCenters] = await Promise.all([
+        getExpensePage(query, pageRequest),
         getBusinessLines(),
         getCostCentersSimple(), // Fetch simple cost centers for filtering
     ]);
+    // Past the last page, e.g. after its entries were deleted, the last page is shown
+    const lastPage = Math.max(1, Math.ceil(requestedPage.total / requestedPage.pageSize));
+    const expenses = requestedPage.page > lastPage ? await getExpensePage(query, { ...pageRequest, page: lastPage }) : requestedPage;
 
     return (
         <div className="container mx-auto py-6">
@@ -31,7 +40,8 @@ export default async function ExpensesPage() {
                  <CardContent>
                      {/* Use the ExpenseFilterWrapper component */}
                      <ExpenseFilterWrapper
-                        initialExpenses={expenses}
+                        expenses={expenses}
+                        query={query}
                         businessLines={businessLines}
                         costCenters={costCenters}
                      />
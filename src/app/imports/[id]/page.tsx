@@ -0,0 +1,76 @@
+import { getImportBatchById, getImportBatchEntries } from '@/app/actions';
+import { BudgetTable } from '@/components/budget/budget-table';
+import { ExpenseTable } from '@/components/expenses/expense-table';
+import { RevertImportButton } from '@/components/imports/revert-import-button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { notFound } from 'next/navigation';
+
+interface ImportBatchPageProps {
+    params: {
+        id: string;
+    };
+}
+
+export default async function ImportBatchPage({ params }: ImportBatchPageProps) {
+    const batchId = parseInt(params.id, 10);
+    if (isNaN(batchId)) {
+        notFound(); // Invalid ID format
+    }
+
+    const [batch, entries] = await Promise.all([
+        getImportBatchById(batchId),
+        getImportBatchEntries(batchId),
+    ]);
+
+    if (!batch) {
+        notFound();
+    }
+
+    return (
+        <div className="container mx-auto py-6 space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between">
+                    <div className="space-y-1">
+                        <CardTitle>Import Batch #{batch.id}: {batch.file_name}</CardTitle>
+                        <CardDescription>
+                            Imported {batch.created_at}{batch.uploaded_by ? ` by ${batch.uploaded_by}` : ''}.
+                            {' '}{batch.budget_count} budget and {batch.expense_count} expense entries created, {batch.skipped_count} rows skipped.
+                            {batch.import_mode === 'upsert' && ` ${batch.updated_count} existing entries updated, ${batch.unchanged_count} unchanged.`}
+                            {batch.import_mode === 'replace' && ` ${batch.deleted_count} existing entries deleted from the replaced months.`}
+                        </CardDescription>
+                        <p className="text-xs text-muted-foreground break-all">SHA-256: {batch.checksum}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Badge variant={batch.status === 'committed' ? 'secondary' : 'outline'}>
+                            {batch.status === 'committed' ? 'Committed' : `Reverted ${batch.reverted_at ?? ''}`}
+                        </Badge>
+                        <RevertImportButton batch={batch} size="default" />
+                    </div>
+                </CardHeader>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Budget Entries ({entries.budgets.length})</CardTitle>
+                    <CardDescription>Budget entries still linked to this batch.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <BudgetTable budgets={entries.budgets} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Expense Entries ({entries.expenses.length})</CardTitle>
+                    <CardDescription>Expense entries still linked to this batch.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ExpenseTable expenses={entries.expenses} />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
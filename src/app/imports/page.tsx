@@ -0,0 +1,33 @@
+import { getImportBatches } from '@/app/actions';
+import { ImportBatchTable } from '@/components/imports/import-batch-table';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Upload } from 'lucide-react';
+import Link from 'next/link';
+
+export default async function ImportHistoryPage() {
+    const batches = await getImportBatches();
+
+    return (
+        <div className="container mx-auto py-6">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                        <CardTitle>Import History</CardTitle>
+                        <CardDescription>Every committed upload, with the entries it created. Revert a batch to remove all of its entries at once.</CardDescription>
+                    </div>
+                    <Link href="/upload" passHref>
+                        <Button>
+                            <Upload className="mr-2 h-4 w-4" /> Upload Data
+                        </Button>
+                    </Link>
+                </CardHeader>
+                <CardContent>
+                    <ImportBatchTable batches={batches} />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic'; // Ensure data is fetched on every request
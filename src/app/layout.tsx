@@ -4,6 +4,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from '@/components/app-sidebar';
 import { AppHeader } from '@/components/app-header';
+import { getCurrentUser } from '@/lib/auth';
 
 
 export const metadata: Metadata = {
@@ -11,16 +12,32 @@ export const metadata: Metadata = {
   description: 'Manage your cloud budget effectively.',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const user = await getCurrentUser();
+
+  // Signed-out visitors only ever see the login page
+  if (!user) {
+    return (
+      <html lang="en">
+        <body className={`antialiased`}>
+          <main className="p-4 md:p-6">
+            {children}
+          </main>
+          <Toaster />
+        </body>
+      </html>
+    );
+  }
+
   return (
     <html lang="en">
       <body className={`antialiased`}>
         <SidebarProvider>
-          <AppSidebar />
+          <AppSidebar user={user} />
           <div className="flex flex-col flex-1">
              <AppHeader />
             <main className="flex-1 p-4 md:p-6">
@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation';
+import { needsFirstAdmin } from '@/app/actions';
+import { getCurrentUser, safeRedirectPath } from '@/lib/auth';
+import { readOidcSettings } from '@/lib/oidc';
+import { LoginForm } from '@/components/auth/login-form';
+
+interface LoginPageProps {
+    searchParams: {
+        next?: string; // Page to return to after signing in
+        error?: string; // Why an OIDC sign-in failed
+    };
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+    const next = safeRedirectPath(searchParams.next);
+    if (await getCurrentUser()) {
+        redirect(next);
+    }
+    const firstAdmin = await needsFirstAdmin();
+
+    return (
+        <div className="flex min-h-[70vh] items-center justify-center">
+            <LoginForm
+                next={next}
+                firstAdmin={firstAdmin}
+                oidcProviderName={readOidcSettings()?.providerName ?? null}
+                error={searchParams.error ?? null}
+            />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -2,16 +2,20 @@
 
 'use client'; // Add 'use client' directive for client-side interactions
 
-import { getBudgets, getBusinessLines, getCostCentersSimple, getChartData, prepareBudgetsCsvData, getExpenses, prepareExpensesCsvData } from '@/app/actions'; // Added getExpenses, getChartData, prepareExpensesCsvData
+import { getBudgets, getBusinessLines, getCostCentersSimple, getChartData, prepareBudgetsCsvData, getExpenses, prepareExpensesCsvData, prepareFocusCsvData, getReportingCurrency, getMissingExchangeRates, getFiscalYearStartMonth, getTriggeredAlerts } from '@/app/actions'; // Added getExpenses, getChartData, prepareExpensesCsvData
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Sheet, Building2, Target, ArrowUpRight, DollarSign, TrendingUp, Upload, BarChart3, PlusCircle, Link2, Download, Receipt } from 'lucide-react'; // Added Download, Receipt icons
 import Link from 'next/link';
 // Re-add BudgetCharts import as it might be used again
 import { BudgetCharts } from '@/components/charts/budget-charts';
-import type { ChartItem } from '@/types'; // Keep ChartItem type if needed for data processing
+import type { ChartItem, ImportSource, MissingExchangeRate, TriggeredAlert } from '@/types'; // Keep ChartItem type if needed for data processing
 import { useEffect, useState } from 'react'; // Import useEffect and useState
 import { useToast } from '@/hooks/use-toast'; // Import useToast for notifications
+import { formatCurrency } from '@/lib/currency';
+import { downloadCsv } from '@/lib/csv';
+import { MissingRatesAlert } from '@/components/currency/missing-rates-alert';
+import { AlertCenter } from '@/components/alerts/alert-center';
 
 interface DashboardData {
     totalBudget: number;
@@ -19,25 +23,36 @@ interface DashboardData {
     totalCapex: number; // This will now be combined budget+expense
     totalOpex: number; // This will now be combined budget+expense
     budgetEntryCount: number;
+    approvedBudgetCount: number; // Entries counted in the budget totals
+    pendingReviewCount: number; // Entries and changes waiting for approval
     expenseEntryCount: number; // Added expense count
     businessLineCount: number;
     costCenterCount: number;
     // Keep chartData for display
     chartData: ChartItem[];
+    reportingCurrency: string; // Totals and chart amounts are converted to it
+    missingRates: MissingExchangeRate[]; // Entries left out of the totals for lack of an exchange rate
+    fiscalYearStartMonth: number;
+    openAlerts: TriggeredAlert[]; // Budget alerts not acknowledged yet
 }
 
 async function getDashboardData(): Promise<DashboardData> {
     // Fetch budgets, expenses, BLs, CCs, and combined chart data for calculations
-    const [budgets, expenses, businessLines, costCenters, chartRawData] = await Promise.all([
+    const [budgets, expenses, businessLines, costCenters, chartRawData, reportingCurrency, missingRates, fiscalYearStartMonth, openAlerts] = await Promise.all([
         getBudgets(),
         getExpenses(), // Fetch expenses
         getBusinessLines(),
         getCostCentersSimple(),
-        getChartData(), // Still fetch chart data for CAPEX/OPEX calculation
+        getChartData(), // Amounts already converted to the reporting currency
+        getReportingCurrency(),
+        getMissingExchangeRates(),
+        getFiscalYearStartMonth(),
+        getTriggeredAlerts(true),
     ]);
 
-    const totalBudget = budgets.reduce((sum, budget) => sum + budget.amount, 0);
-    const totalExpense = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    // Totals come from chart data so rows in other currencies are converted
+    const totalBudget = chartRawData.filter(item => item.source === 'Budget').reduce((sum, item) => sum + item.amount, 0);
+    const totalExpense = chartRawData.filter(item => item.source === 'Expense').reduce((sum, item) => sum + item.amount, 0);
 
     // Calculate combined CAPEX/OPEX from chart data
     const totalCapex = chartRawData.filter(b => b.type === 'CAPEX').reduce((sum, b) => sum + b.amount, 0);
@@ -49,10 +64,16 @@ async function getDashboardData(): Promise<DashboardData> {
         totalCapex, // Combined CAPEX
         totalOpex, // Combined OPEX
         budgetEntryCount: budgets.length,
+        approvedBudgetCount: budgets.filter(b => b.status === 'approved').length,
+        pendingReviewCount: budgets.filter(b => b.status === 'submitted' || b.pending_change_id).length,
         expenseEntryCount: expenses.length, // Add expense count
         businessLineCount: businessLines.length,
         costCenterCount: costCenters.length,
         chartData: chartRawData, // Include chart data in the return object
+        reportingCurrency,
+        missingRates,
+        fiscalYearStartMonth,
+        openAlerts,
     };
 }
 
@@ -61,6 +82,7 @@ export default function DashboardPage() {
     const [loading, setLoading] = useState(true);
     const [downloadingBudget, setDownloadingBudget] = useState(false);
     const [downloadingExpenses, setDownloadingExpenses] = useState(false); // State for expense download
+    const [downloadingFocus, setDownloadingFocus] = useState<ImportSource | null>(null); // Which FOCUS export is being prepared
     const { toast } = useToast();
 
     useEffect(() => {
@@ -83,10 +105,6 @@ export default function DashboardPage() {
         loadData();
     }, [toast]);
 
-     const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-    };
-
     // Generic function to handle CSV data generation and download
     const generateAndDownloadCsv = (data: Record<string, any>[], filename: string) => {
         if (data.length === 0) {
@@ -97,34 +115,7 @@ export default function DashboardPage() {
             return;
         }
 
-        const headers = Object.keys(data[0]);
-        const csvContent = [
-            headers.join(','),
-            ...data.map(row =>
-                headers.map(header => {
-                    let cell = row[header];
-                    if (cell === null || cell === undefined) {
-                        cell = '';
-                    } else {
-                        cell = String(cell);
-                        if (cell.includes(',') || cell.includes('"') || cell.includes('\n')) {
-                            cell = `"${cell.replace(/"/g, '""')}"`;
-                        }
-                    }
-                    return cell;
-                }).join(',')
-            )
-        ].join('\n');
-
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        link.setAttribute('download', filename);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadCsv(data, filename);
 
         toast({
             title: 'Download Started',
@@ -172,6 +163,27 @@ export default function DashboardPage() {
         }
    };
 
+    // Same data in FinOps FOCUS columns, for other FinOps tools
+    const handleDownloadFocusCsv = async (source: ImportSource) => {
+        setDownloadingFocus(source);
+        try {
+            const result = await prepareFocusCsvData(source);
+            if (!result.success || !result.data) {
+                throw new Error(result.message || 'Failed to fetch data for FOCUS export.');
+            }
+            generateAndDownloadCsv(result.data, source === 'Budget' ? 'cloudwise_budgets_focus.csv' : 'cloudwise_expenses_focus.csv');
+        } catch (error: any) {
+             console.error(`Failed to download FOCUS ${source} CSV:`, error);
+             toast({
+                 title: 'Download Failed',
+                 description: error.message || 'Could not prepare FOCUS data for download.',
+                 variant: 'destructive',
+             });
+        } finally {
+            setDownloadingFocus(null);
+        }
+   };
+
 
     if (loading || !data) {
         return <div className="text-center p-10">Loading dashboard...</div>;
@@ -179,6 +191,8 @@ export default function DashboardPage() {
 
     return (
         <div className="flex flex-col gap-6">
+            <MissingRatesAlert missingRates={data.missingRates} reportingCurrency={data.reportingCurrency} />
+            <AlertCenter alerts={data.openAlerts} openOnly />
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4"> {/* Adjusted grid columns */}
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -186,8 +200,13 @@ export default function DashboardPage() {
                         <DollarSign className="h-4 w-4 text-muted-foreground" />
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{formatCurrency(data.totalBudget)}</div>
-                         <p className="text-xs text-muted-foreground">Across {data.budgetEntryCount} entries</p>
+                        <div className="text-2xl font-bold">{formatCurrency(data.totalBudget, data.reportingCurrency)}</div>
+                         <p className="text-xs text-muted-foreground">Across {data.approvedBudgetCount} approved entries</p>
+                         {data.pendingReviewCount > 0 && (
+                             <Link href="/budgets/review" className="text-xs text-muted-foreground flex items-center hover:text-primary">
+                                 {data.pendingReviewCount} waiting for review <ArrowUpRight className="h-3 w-3 ml-1" />
+                             </Link>
+                         )}
                     </CardContent>
                 </Card>
                  {/* New Total Expense Card */}
@@ -197,7 +216,7 @@ export default function DashboardPage() {
                         <DollarSign className="h-4 w-4 text-muted-foreground" />
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{formatCurrency(data.totalExpense)}</div>
+                        <div className="text-2xl font-bold">{formatCurrency(data.totalExpense, data.reportingCurrency)}</div>
                         <p className="text-xs text-muted-foreground">Across {data.expenseEntryCount} entries</p>
                     </CardContent>
                 </Card>
@@ -207,7 +226,7 @@ export default function DashboardPage() {
                          <TrendingUp className="h-4 w-4 text-muted-foreground" />
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{formatCurrency(data.totalCapex)}</div>
+                        <div className="text-2xl font-bold">{formatCurrency(data.totalCapex, data.reportingCurrency)}</div>
                         <p className="text-xs text-muted-foreground">(Budget + Expenses)</p>
                     </CardContent>
                 </Card>
@@ -217,7 +236,7 @@ export default function DashboardPage() {
                         <TrendingUp className="h-4 w-4 text-muted-foreground" />
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{formatCurrency(data.totalOpex)}</div>
+                        <div className="text-2xl font-bold">{formatCurrency(data.totalOpex, data.reportingCurrency)}</div>
                         <p className="text-xs text-muted-foreground">(Budget + Expenses)</p>
                     </CardContent>
                 </Card>
@@ -312,6 +331,14 @@ export default function DashboardPage() {
                            <Download className="mr-2 h-4 w-4" />
                            {downloadingExpenses ? 'Preparing Expenses...' : 'Download Expenses CSV'}
                        </Button>
+                       <Button variant="outline" onClick={() => handleDownloadFocusCsv('Expense')} disabled={downloadingFocus !== null}>
+                           <Download className="mr-2 h-4 w-4" />
+                           {downloadingFocus === 'Expense' ? 'Preparing Expenses...' : 'Expenses (FOCUS)'}
+                       </Button>
+                       <Button variant="outline" onClick={() => handleDownloadFocusCsv('Budget')} disabled={downloadingFocus !== null}>
+                           <Download className="mr-2 h-4 w-4" />
+                           {downloadingFocus === 'Budget' ? 'Preparing Budget...' : 'Budget (FOCUS)'}
+                       </Button>
                  </CardContent>
              </Card>
 
@@ -324,7 +351,7 @@ export default function DashboardPage() {
                      </CardHeader>
                      <CardContent>
                          {/* Only render charts client-side to avoid hydration issues */}
-                         <BudgetCharts chartData={data.chartData} />
+                         <BudgetCharts chartData={data.chartData} currency={data.reportingCurrency} fiscalYearStartMonth={data.fiscalYearStartMonth} />
                      </CardContent>
                  </Card>
               ) : (
@@ -0,0 +1,14 @@
+import { getEffectiveSettings } from '@/app/actions';
+import { EffectiveSettingsView } from '@/components/settings/effective-settings';
+
+export default async function SettingsPage() {
+    const effective = await getEffectiveSettings();
+
+    return (
+        <div className="container mx-auto py-6">
+            <EffectiveSettingsView effective={effective} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,18 @@
+import { getBusinessLines, getCostAllocationRules, getCostCentersWithBusinessLines } from '@/app/actions';
+import { AllocationRuleManager } from '@/components/upload/allocation-rule-manager';
+
+export default async function AllocationRulesPage() {
+    const [rules, businessLines, costCenters] = await Promise.all([
+        getCostAllocationRules(),
+        getBusinessLines(),
+        getCostCentersWithBusinessLines(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <AllocationRuleManager rules={rules} businessLines={businessLines} costCenters={costCenters} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic'; // Ensure data is fetched on every request
@@ -0,0 +1,18 @@
+import { getBusinessLines, getCostCentersWithBusinessLines } from '@/app/actions';
+import { CloudCostUploadForm } from '@/components/upload/cloud-cost-upload-form';
+
+export default async function CloudCostUploadPage() {
+    // Business lines and cost centers are needed to assign rows in the import preview
+    const [businessLines, costCenters] = await Promise.all([
+        getBusinessLines(),
+        getCostCentersWithBusinessLines(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <CloudCostUploadForm businessLines={businessLines} costCenters={costCenters} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic'; // Ensure lookups are fresh on every request
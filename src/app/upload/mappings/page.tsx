@@ -0,0 +1,14 @@
+import { getImportMappingProfiles } from '@/app/actions';
+import { MappingProfileManager } from '@/components/upload/mapping-profile-manager';
+
+export default async function MappingProfilesPage() {
+    const profiles = await getImportMappingProfiles();
+
+    return (
+        <div className="container mx-auto py-6">
+            <MappingProfileManager profiles={profiles} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic'; // Ensure data is fetched on every request
@@ -1,13 +1,23 @@
-
+import { getBudgetVersions, getBusinessLines, getCostCentersWithBusinessLines, getImportMappingProfiles } from '@/app/actions';
 import { UploadForm } from '@/components/upload/upload-form';
 
-export default function UploadPage() {
+export default async function UploadPage() {
     // Optional: Add metadata for the page title
     // export const metadata = { title: 'Upload Budget & Expense Data' };
 
+    // Business lines and cost centers are needed to fix rows in the import preview
+    const [businessLines, costCenters, mappingProfiles, budgetVersions] = await Promise.all([
+        getBusinessLines(),
+        getCostCentersWithBusinessLines(),
+        getImportMappingProfiles(),
+        getBudgetVersions(),
+    ]);
+
     return (
         <div className="container mx-auto py-6">
-            <UploadForm />
+            <UploadForm businessLines={businessLines} costCenters={costCenters} mappingProfiles={mappingProfiles} budgetVersions={budgetVersions} />
         </div>
     );
 }
+
+export const dynamic = 'force-dynamic'; // Ensure lookups are fresh on every request
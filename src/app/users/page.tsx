@@ -0,0 +1,20 @@
+import { getBusinessLines, getUsers } from '@/app/actions';
+import { requireUser } from '@/lib/auth';
+import { readOidcSettings } from '@/lib/oidc';
+import { UserManager } from '@/components/users/user-manager';
+
+export default async function UsersPage() {
+    const [users, businessLines, currentUser] = await Promise.all([
+        getUsers(),
+        getBusinessLines(),
+        requireUser(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <UserManager users={users} businessLines={businessLines} currentUserId={currentUser.id} oidcProviderName={readOidcSettings()?.providerName ?? null} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,65 @@
+import { getBudgetVersions, getFiscalYearStartMonth, getMissingExchangeRates, getReportingCurrency, getVarianceReport } from '@/app/actions';
+import type { VarianceQuery } from '@/types';
+import { isVarianceDimension, isVariancePeriodKind } from '@/lib/variance';
+import { DEFAULT_FORECAST_METHOD, isForecastMethod } from '@/lib/forecast';
+import { parseBudgetVersionId } from '@/lib/budget-versions';
+import { VarianceReportView } from '@/components/variance/variance-report';
+import { MissingRatesAlert } from '@/components/currency/missing-rates-alert';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface VariancePageProps {
+    searchParams: {
+        dimension?: string;
+        period?: string;
+        year?: string;
+        month?: string;
+        forecast?: string;
+        version?: string;
+        compare?: string;
+    };
+}
+
+export default async function VariancePage({ searchParams }: VariancePageProps) {
+    // Without parameters: this month's variance per business line
+    const today = new Date();
+    const year = parseInt(searchParams.year ?? '', 10);
+    const month = parseInt(searchParams.month ?? '', 10);
+    const query: VarianceQuery = {
+        dimension: isVarianceDimension(searchParams.dimension) ? searchParams.dimension : 'business_line',
+        period: isVariancePeriodKind(searchParams.period) ? searchParams.period : 'month',
+        year: year >= 1900 && year <= 2100 ? year : today.getFullYear(),
+        month: month >= 1 && month <= 12 ? month : today.getMonth() + 1,
+        forecast: isForecastMethod(searchParams.forecast) ? searchParams.forecast : DEFAULT_FORECAST_METHOD,
+        versionId: parseBudgetVersionId(searchParams.version),
+        compareVersionId: parseBudgetVersionId(searchParams.compare),
+    };
+
+    const [report, fiscalYearStartMonth, reportingCurrency, missingRates, versions] = await Promise.all([
+        getVarianceReport(query),
+        getFiscalYearStartMonth(),
+        getReportingCurrency(),
+        getMissingExchangeRates(),
+        getBudgetVersions(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6 space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Budget vs. Actual Variance</CardTitle>
+                    <CardDescription>
+                        How actual expenses compare with the budget for a month, fiscal quarter or fiscal year to date,
+                        how much of the fiscal year&apos;s budget is left, and where spend is projected to land by the end of the fiscal year.
+                        Pick a budget version to report on, or compare it with another version instead of with actuals.
+                    </CardDescription>
+                </CardHeader>
+            </Card>
+            <div className="empty:hidden">
+                <MissingRatesAlert missingRates={missingRates} reportingCurrency={reportingCurrency} />
+            </div>
+            <VarianceReportView query={query} report={report} fiscalYearStartMonth={fiscalYearStartMonth} versions={versions} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+import { getWebhookDeliveries, getWebhookSubscriptions } from '@/app/actions';
+import { WebhookManager } from '@/components/webhooks/webhook-manager';
+
+export default async function WebhooksPage() {
+    const [subscriptions, deliveries] = await Promise.all([
+        getWebhookSubscriptions(),
+        getWebhookDeliveries(),
+    ]);
+
+    return (
+        <div className="container mx-auto py-6">
+            <WebhookManager subscriptions={subscriptions} deliveries={deliveries} />
+        </div>
+    );
+}
+
+export const dynamic = 'force-dynamic';
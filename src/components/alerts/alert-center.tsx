@@ -0,0 +1,129 @@
+"use client";
+
+import * as React from 'react';
+import type { TriggeredAlert } from '@/types';
+import { acknowledgeAlert } from '@/app/actions';
+import { formatCurrency } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { BellRing, Check } from 'lucide-react';
+import Link from 'next/link';
+
+interface AlertCenterProps {
+    alerts: TriggeredAlert[];
+    openOnly?: boolean; // Hide alerts once acknowledged (the dashboard); otherwise they stay listed as acknowledged
+    showLink?: boolean; // Link to the alert rules page (not needed on the page itself)
+}
+
+// Budget alerts triggered by alert rules, with their delivery status
+export function AlertCenter({ alerts, openOnly = false, showLink = true }: AlertCenterProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    // Acknowledged here, before the page data is reloaded (the dashboard loads its data once)
+    const [acknowledged, setAcknowledged] = React.useState<Record<number, string>>({});
+
+    const shown = alerts
+        .map(alert => acknowledged[alert.id] ? { ...alert, acknowledged_at: acknowledged[alert.id] } : alert)
+        .filter(alert => !openOnly || alert.acknowledged_at === null);
+
+    const handleAcknowledge = async (id: number) => {
+        const result = await acknowledgeAlert(id);
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            setAcknowledged(current => ({ ...current, [id]: 'just now' }));
+            router.refresh();
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <BellRing className="h-5 w-5" />
+                        {openOnly ? 'Alert Center' : 'Triggered Alerts'}
+                    </CardTitle>
+                    <CardDescription>
+                        {openOnly
+                            ? 'Budget thresholds crossed and not acknowledged yet. Amounts are in the reporting currency at the time of the alert.'
+                            : 'Every alert rule triggers at most once per period. Newest first.'}
+                    </CardDescription>
+                </div>
+                {showLink && (
+                    <Link href="/alerts" className="text-sm underline whitespace-nowrap">Manage alert rules</Link>
+                )}
+            </CardHeader>
+            <CardContent>
+                <div className="overflow-x-auto">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Rule</TableHead>
+                                <TableHead>Period</TableHead>
+                                <TableHead>Alert</TableHead>
+                                <TableHead className="text-right">Spent</TableHead>
+                                <TableHead className="text-right">Budget</TableHead>
+                                <TableHead>Delivery</TableHead>
+                                <TableHead>Triggered</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {shown.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={8} className="text-center h-16 text-muted-foreground">
+                                        {openOnly ? 'No open alerts.' : 'No alerts have been triggered yet.'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {shown.map(alert => (
+                                <TableRow key={alert.id} className={alert.acknowledged_at ? 'text-muted-foreground' : undefined}>
+                                    <TableCell className="font-medium">{alert.rule_name}</TableCell>
+                                    <TableCell>{alert.period_label}</TableCell>
+                                    <TableCell className="max-w-md">{alert.message}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(alert.actual, alert.currency)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(alert.budget, alert.currency)}</TableCell>
+                                    <TableCell>
+                                        {alert.sent_count + alert.failed_count === 0
+                                            ? <span className="text-xs text-muted-foreground italic">No channels</span>
+                                            : (
+                                                <div className="flex gap-1" title={alert.delivery_errors ?? undefined}>
+                                                    {alert.sent_count > 0 && <Badge variant="secondary">{alert.sent_count} sent</Badge>}
+                                                    {alert.failed_count > 0 && <Badge variant="destructive">{alert.failed_count} failed</Badge>}
+                                                </div>
+                                            )}
+                                    </TableCell>
+                                    <TableCell className="whitespace-nowrap">{alert.triggered_at}</TableCell>
+                                    <TableCell className="text-right">
+                                        {alert.acknowledged_at
+                                            ? <span className="text-xs whitespace-nowrap">Acknowledged {alert.acknowledged_at}</span>
+                                            : (
+                                                <Button variant="outline" size="sm" onClick={() => handleAcknowledge(alert.id)}>
+                                                    <Check className="mr-1 h-4 w-4" /> Acknowledge
+                                                </Button>
+                                            )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import * as React from 'react';
+import type { AlertChannel, AlertChannelConfig, AlertChannelKind } from '@/types';
+import { ALERT_CHANNEL_KINDS } from '@/lib/alerts';
+import { deleteAlertChannel, saveAlertChannel, testAlertChannel } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, Send, Trash2 } from 'lucide-react';
+
+interface AlertChannelManagerProps {
+    channels: AlertChannel[];
+}
+
+// Where a channel sends to, for the table
+function describeTarget(config: AlertChannelConfig): string {
+    switch (config.kind) {
+        case 'webhook':
+        case 'slack':
+            return config.url;
+        case 'email':
+            return `${config.to} via ${config.host}:${config.port}`;
+    }
+}
+
+export function AlertChannelManager({ channels }: AlertChannelManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [hasSecret, setHasSecret] = React.useState(false); // The edited channel has a stored secret/password
+    const [name, setName] = React.useState('');
+    const [kind, setKind] = React.useState<AlertChannelKind>('webhook');
+    const [isActive, setIsActive] = React.useState(true);
+    const [url, setUrl] = React.useState('');
+    const [secret, setSecret] = React.useState(''); // Webhook secret or SMTP password
+    const [host, setHost] = React.useState('');
+    const [port, setPort] = React.useState('587');
+    const [secure, setSecure] = React.useState(false);
+    const [username, setUsername] = React.useState('');
+    const [from, setFrom] = React.useState('');
+    const [to, setTo] = React.useState('');
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [testingId, setTestingId] = React.useState<number | null>(null);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        setHasSecret(false);
+        setName('');
+        setIsActive(true);
+        setUrl('');
+        setSecret('');
+        setHost('');
+        setPort('587');
+        setSecure(false);
+        setUsername('');
+        setFrom('');
+        setTo('');
+    };
+
+    const startEdit = (channel: AlertChannel) => {
+        startNew();
+        setEditingId(channel.id);
+        setHasSecret(channel.has_secret);
+        setName(channel.name);
+        setKind(channel.config.kind);
+        setIsActive(channel.is_active);
+        const config = channel.config;
+        if (config.kind === 'webhook' || config.kind === 'slack') {
+            setUrl(config.url);
+        } else {
+            setHost(config.host);
+            setPort(String(config.port));
+            setSecure(config.secure);
+            setUsername(config.username);
+            setFrom(config.from);
+            setTo(config.to);
+        }
+    };
+
+    const buildConfig = (): AlertChannelConfig => {
+        switch (kind) {
+            case 'webhook': return { kind, url, secret };
+            case 'slack': return { kind, url };
+            case 'email': return { kind, host, port: parseInt(port, 10), secure, username, password: secret, from, to };
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveAlertChannel(editingId, { name, is_active: isActive, config: buildConfig() });
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteAlertChannel(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    const handleTest = async (id: number) => {
+        setTestingId(id);
+        showResult(await testAlertChannel(id));
+        setTestingId(null);
+    };
+
+    const secretPlaceholder = editingId !== null && hasSecret ? 'Leave empty to keep the stored one' : undefined;
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Alert Channel' : 'Edit Alert Channel'}</CardTitle>
+                    <CardDescription>
+                        Every active channel receives every triggered alert. {ALERT_CHANNEL_KINDS[kind].description}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="channel-name">Name</Label>
+                            <Input id="channel-name" placeholder="e.g., FinOps Slack" value={name} onChange={(e) => setName(e.target.value)} />
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="channel-kind">Kind</Label>
+                            <Select value={kind} onValueChange={(value: AlertChannelKind) => setKind(value)} disabled={editingId !== null}>
+                                <SelectTrigger id="channel-kind">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(ALERT_CHANNEL_KINDS) as AlertChannelKind[]).map(key => (
+                                        <SelectItem key={key} value={key}>{ALERT_CHANNEL_KINDS[key].label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    {(kind === 'webhook' || kind === 'slack') && (
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="channel-url">{kind === 'slack' ? 'Incoming Webhook URL' : 'URL'}</Label>
+                            <Input id="channel-url" placeholder="https://" value={url} onChange={(e) => setUrl(e.target.value)} />
+                        </div>
+                    )}
+                    {kind === 'webhook' && (
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="channel-secret">Signing Secret (optional)</Label>
+                            <Input id="channel-secret" type="password" autoComplete="off" placeholder={secretPlaceholder} value={secret} onChange={(e) => setSecret(e.target.value)} />
+                        </div>
+                    )}
+                    {kind === 'email' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-host">SMTP Host</Label>
+                                <Input id="channel-host" placeholder="e.g., smtp.example.com" value={host} onChange={(e) => setHost(e.target.value)} />
+                            </div>
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-port">Port</Label>
+                                <Input id="channel-port" inputMode="numeric" value={port} onChange={(e) => setPort(e.target.value)} />
+                            </div>
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-username">Username (optional)</Label>
+                                <Input id="channel-username" autoComplete="off" value={username} onChange={(e) => setUsername(e.target.value)} />
+                            </div>
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-password">Password</Label>
+                                <Input id="channel-password" type="password" autoComplete="off" placeholder={secretPlaceholder} value={secret} onChange={(e) => setSecret(e.target.value)} />
+                            </div>
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-from">From</Label>
+                                <Input id="channel-from" placeholder="alerts@example.com" value={from} onChange={(e) => setFrom(e.target.value)} />
+                            </div>
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="channel-to">To (comma-separated)</Label>
+                                <Input id="channel-to" placeholder="finops@example.com" value={to} onChange={(e) => setTo(e.target.value)} />
+                            </div>
+                            <div className="flex items-center gap-2 col-span-2">
+                                <Switch id="channel-secure" checked={secure} onCheckedChange={setSecure} />
+                                <Label htmlFor="channel-secure">TLS from the start (port 465)</Label>
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                        <Switch id="channel-active" checked={isActive} onCheckedChange={setIsActive} />
+                        <Label htmlFor="channel-active">Active</Label>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Channel' : 'Update Channel')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader>
+                    <CardTitle>Alert Channels</CardTitle>
+                    <CardDescription>Send a test alert to check a channel, e.g. against a local request bin or mail catcher.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Kind</TableHead>
+                                    <TableHead>Sends To</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {channels.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
+                                            No alert channels yet. Triggered alerts are only shown in the app.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {channels.map(channel => (
+                                    <TableRow key={channel.id}>
+                                        <TableCell className="font-medium">{channel.name}</TableCell>
+                                        <TableCell>{ALERT_CHANNEL_KINDS[channel.config.kind].label}</TableCell>
+                                        <TableCell className="max-w-xs truncate" title={describeTarget(channel.config)}>{describeTarget(channel.config)}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={channel.is_active ? 'secondary' : 'outline'}>{channel.is_active ? 'Active' : 'Paused'}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right space-x-1">
+                                            <Button variant="ghost" size="icon" aria-label="Send Test Alert" onClick={() => handleTest(channel.id)} disabled={testingId !== null}>
+                                                <Send className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" aria-label="Edit Alert Channel" onClick={() => startEdit(channel)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <ConfirmDialog
+                                                trigger={
+                                                    <Button variant="ghost" size="icon" aria-label="Delete Alert Channel" className="text-destructive hover:text-destructive/80">
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                }
+                                                title={`Delete the alert channel '${channel.name}'?`}
+                                                description="Alerts are no longer sent to it. Past deliveries stay listed with their alerts."
+                                                confirmText="Delete"
+                                                onConfirm={() => handleDelete(channel.id)}
+                                                confirmVariant='destructive'
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
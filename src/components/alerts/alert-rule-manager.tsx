@@ -0,0 +1,290 @@
+"use client";
+
+import * as React from 'react';
+import type { AlertPeriod, AlertRule, AlertScope, AlertThresholdKind, BusinessLine, CostCenter } from '@/types';
+import { ALERT_PERIODS, ALERT_SCOPES, ALERT_THRESHOLD_KINDS, describeAlertScope, describeAlertThreshold } from '@/lib/alerts';
+import { deleteAlertRule, saveAlertRule } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, Trash2 } from 'lucide-react';
+
+interface AlertRuleManagerProps {
+    rules: AlertRule[];
+    businessLines: BusinessLine[];
+    costCenters: CostCenter[];
+    reportingCurrency: string;
+}
+
+export function AlertRuleManager({ rules, businessLines, costCenters, reportingCurrency }: AlertRuleManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [name, setName] = React.useState('');
+    const [scope, setScope] = React.useState<AlertScope>('business_line');
+    const [businessLineId, setBusinessLineId] = React.useState('');
+    const [costCenterId, setCostCenterId] = React.useState('');
+    const [expenseType, setExpenseType] = React.useState<'CAPEX' | 'OPEX'>('OPEX');
+    const [thresholdKind, setThresholdKind] = React.useState<AlertThresholdKind>('percent');
+    const [thresholdValue, setThresholdValue] = React.useState('90');
+    const [period, setPeriod] = React.useState<AlertPeriod>('month');
+    const [isActive, setIsActive] = React.useState(true);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        setName('');
+        setThresholdValue(thresholdKind === 'percent' ? '90' : '');
+        setIsActive(true);
+    };
+
+    const startEdit = (rule: AlertRule) => {
+        setEditingId(rule.id);
+        setName(rule.name);
+        setScope(rule.scope);
+        setBusinessLineId(rule.business_line_id ? String(rule.business_line_id) : '');
+        setCostCenterId(rule.cost_center_id ? String(rule.cost_center_id) : '');
+        setExpenseType(rule.expense_type ?? 'OPEX');
+        setThresholdKind(rule.threshold_kind);
+        setThresholdValue(String(rule.threshold_value));
+        setPeriod(rule.period);
+        setIsActive(rule.is_active);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveAlertRule(editingId, {
+            name,
+            scope,
+            business_line_id: businessLineId ? parseInt(businessLineId, 10) : null,
+            cost_center_id: costCenterId ? parseInt(costCenterId, 10) : null,
+            expense_type: scope === 'type' ? expenseType : null,
+            threshold_kind: thresholdKind,
+            threshold_value: parseFloat(thresholdValue.replace(/,/g, '')),
+            period,
+            is_active: isActive,
+        });
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteAlertRule(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Alert Rule' : 'Edit Alert Rule'}</CardTitle>
+                    <CardDescription>
+                        Rules are checked whenever expenses are added, edited or uploaded, against the whole month, fiscal quarter
+                        or fiscal year the expenses fall in. Amounts are in {reportingCurrency}.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="rule-name">Name</Label>
+                        <Input id="rule-name" placeholder="e.g., Cloud Platform at 90%" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rule-scope">Watches</Label>
+                            <Select value={scope} onValueChange={(value: AlertScope) => setScope(value)}>
+                                <SelectTrigger id="rule-scope">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(ALERT_SCOPES) as AlertScope[]).map(key => (
+                                        <SelectItem key={key} value={key}>{ALERT_SCOPES[key]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rule-scope-value">{scope === 'type' ? 'Type' : ALERT_SCOPES[scope]}</Label>
+                            {scope === 'business_line' && (
+                                <Select value={businessLineId} onValueChange={setBusinessLineId}>
+                                    <SelectTrigger id="rule-scope-value">
+                                        <SelectValue placeholder="Select business line" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {businessLines.map(bl => (
+                                            <SelectItem key={bl.id} value={String(bl.id)}>{bl.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            {scope === 'cost_center' && (
+                                <Select value={costCenterId} onValueChange={setCostCenterId}>
+                                    <SelectTrigger id="rule-scope-value">
+                                        <SelectValue placeholder="Select cost center" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {costCenters.map(cc => (
+                                            <SelectItem key={cc.id} value={String(cc.id)}>{cc.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            {scope === 'type' && (
+                                <Select value={expenseType} onValueChange={(value: 'CAPEX' | 'OPEX') => setExpenseType(value)}>
+                                    <SelectTrigger id="rule-scope-value">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="CAPEX">CAPEX</SelectItem>
+                                        <SelectItem value="OPEX">OPEX</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            )}
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rule-threshold-kind">Threshold</Label>
+                            <Select value={thresholdKind} onValueChange={(value: AlertThresholdKind) => setThresholdKind(value)}>
+                                <SelectTrigger id="rule-threshold-kind">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(ALERT_THRESHOLD_KINDS) as AlertThresholdKind[]).map(key => (
+                                        <SelectItem key={key} value={key}>{ALERT_THRESHOLD_KINDS[key]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rule-threshold-value">{thresholdKind === 'percent' ? 'Percent' : `Amount (${reportingCurrency})`}</Label>
+                            <Input
+                                id="rule-threshold-value"
+                                inputMode="decimal"
+                                placeholder={thresholdKind === 'percent' ? 'e.g., 90' : 'e.g., 50000'}
+                                value={thresholdValue}
+                                onChange={(e) => setThresholdValue(e.target.value)}
+                            />
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rule-period">Period</Label>
+                            <Select value={period} onValueChange={(value: AlertPeriod) => setPeriod(value)}>
+                                <SelectTrigger id="rule-period">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(ALERT_PERIODS) as AlertPeriod[]).map(key => (
+                                        <SelectItem key={key} value={key}>{ALERT_PERIODS[key]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center gap-2 pt-6">
+                            <Switch id="rule-active" checked={isActive} onCheckedChange={setIsActive} />
+                            <Label htmlFor="rule-active">Active</Label>
+                        </div>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Rule' : 'Update Rule')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader>
+                    <CardTitle>Alert Rules</CardTitle>
+                    <CardDescription>A rule triggers once per period, the first time spend reaches its threshold.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Watches</TableHead>
+                                    <TableHead>Threshold</TableHead>
+                                    <TableHead>Period</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rules.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                                            No alert rules yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {rules.map(rule => (
+                                    <TableRow key={rule.id}>
+                                        <TableCell className="font-medium">{rule.name}</TableCell>
+                                        <TableCell>{describeAlertScope(rule)}</TableCell>
+                                        <TableCell>{describeAlertThreshold(rule, reportingCurrency)}</TableCell>
+                                        <TableCell>{ALERT_PERIODS[rule.period]}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={rule.is_active ? 'secondary' : 'outline'}>{rule.is_active ? 'Active' : 'Paused'}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right space-x-1">
+                                            <Button variant="ghost" size="icon" aria-label="Edit Alert Rule" onClick={() => startEdit(rule)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <ConfirmDialog
+                                                trigger={
+                                                    <Button variant="ghost" size="icon" aria-label="Delete Alert Rule" className="text-destructive hover:text-destructive/80">
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                }
+                                                title={`Delete the alert rule '${rule.name}'?`}
+                                                description="Alerts it already triggered are deleted with it."
+                                                confirmText="Delete"
+                                                onConfirm={() => handleDelete(rule.id)}
+                                                confirmVariant='destructive'
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
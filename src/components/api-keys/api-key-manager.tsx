@@ -0,0 +1,252 @@
+"use client";
+
+import * as React from 'react';
+import type { ApiKey, ApiKeyScope, BusinessLine } from '@/types';
+import { API_KEY_SCOPES } from '@/lib/api-keys';
+import { createApiKey, revokeApiKey } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Ban, Copy, KeyRound, Loader2 } from 'lucide-react';
+
+interface ApiKeyManagerProps {
+    apiKeys: ApiKey[]; // Active keys first
+    businessLines: BusinessLine[];
+}
+
+export function ApiKeyManager({ apiKeys, businessLines }: ApiKeyManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [name, setName] = React.useState('');
+    const [scopes, setScopes] = React.useState<ApiKeyScope[]>(['read']);
+    const [businessLineIds, setBusinessLineIds] = React.useState<number[]>([]);
+    const [isCreating, setIsCreating] = React.useState(false);
+    const [createdKey, setCreatedKey] = React.useState<{ name: string; key: string } | null>(null);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+        setScopes(prev => checked ? [...prev, scope] : prev.filter(other => other !== scope));
+    };
+
+    const toggleBusinessLine = (id: number, checked: boolean) => {
+        setBusinessLineIds(prev => checked ? [...prev, id] : prev.filter(other => other !== id));
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        const result = await createApiKey({ name, scopes, business_line_ids: businessLineIds });
+        showResult(result);
+        if (result.success && result.key) {
+            setCreatedKey({ name: name.trim(), key: result.key });
+            setName('');
+            setScopes(['read']);
+            setBusinessLineIds([]);
+            router.refresh();
+        }
+        setIsCreating(false);
+    };
+
+    const handleCopy = async () => {
+        if (!createdKey) return;
+        try {
+            await navigator.clipboard.writeText(createdKey.key);
+            toast({ title: 'Copied', description: `The API key '${createdKey.name}' is on the clipboard.` });
+        } catch {
+            toast({ title: 'Error', description: 'Could not copy the key; select and copy it instead.', variant: 'destructive' });
+        }
+    };
+
+    const handleRevoke = async (id: number) => {
+        const result = await revokeApiKey(id);
+        showResult(result);
+        if (result.success) router.refresh();
+    };
+
+    // Mirrors getBusinessLineScope on the server
+    const describeAccess = (ids: number[] | null) => {
+        if (ids === null) return 'All business lines';
+        if (ids.length === 0) return 'No business lines';
+        return businessLines.filter(bl => ids.includes(bl.id)).map(bl => bl.name).join(', ');
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>New API Key</CardTitle>
+                    <CardDescription>
+                        Keys let scripts and other systems use the REST API without a user&apos;s sign-in. Send a key as
+                        Authorization: Bearer &lt;key&gt;.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="api-key-name">Name</Label>
+                        <Input id="api-key-name" placeholder="e.g., Nightly expense sync" value={name} onChange={(e) => setName(e.target.value)} />
+                        <p className="text-xs text-muted-foreground">Changes made with the key are shown under this name in the audit log.</p>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label>Scopes</Label>
+                        <div className="grid gap-3 rounded-md border p-3">
+                            {(Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).map(scope => (
+                                <div key={scope} className="flex items-start gap-2">
+                                    <Checkbox
+                                        id={`api-key-scope-${scope}`}
+                                        checked={scopes.includes(scope)}
+                                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                                    />
+                                    <div className="grid gap-0.5">
+                                        <Label htmlFor={`api-key-scope-${scope}`} className="cursor-pointer">{API_KEY_SCOPES[scope].label}</Label>
+                                        <p className="text-xs text-muted-foreground">{API_KEY_SCOPES[scope].description}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">Every scope includes reading.</p>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label>Business Lines</Label>
+                        <div className="grid gap-2 max-h-40 overflow-y-auto rounded-md border p-3">
+                            {businessLines.length === 0 && <p className="text-sm text-muted-foreground">No business lines yet.</p>}
+                            {businessLines.map(bl => (
+                                <div key={bl.id} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`api-key-bl-${bl.id}`}
+                                        checked={businessLineIds.includes(bl.id)}
+                                        onCheckedChange={(checked) => toggleBusinessLine(bl.id, checked === true)}
+                                    />
+                                    <Label htmlFor={`api-key-bl-${bl.id}`} className="cursor-pointer font-normal">{bl.name}</Label>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Tick business lines to limit the key to their budgets and expenses; leave all unticked for every business line.
+                            Limited keys cannot manage master data, even with the Admin scope.
+                        </p>
+                    </div>
+                </CardContent>
+                <CardFooter>
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                        Create Key
+                    </Button>
+                </CardFooter>
+            </Card>
+
+            <div className="grid gap-6 lg:col-span-2 content-start">
+                {createdKey && (
+                    <Alert>
+                        <KeyRound className="h-4 w-4" />
+                        <AlertTitle>API key &apos;{createdKey.name}&apos;</AlertTitle>
+                        <AlertDescription className="grid gap-2">
+                            <span>Copy the key now. Only a hash of it is stored, so it cannot be shown again.</span>
+                            <div className="flex items-center gap-2">
+                                <Input readOnly value={createdKey.key} className="font-mono" onFocus={(e) => e.target.select()} />
+                                <Button variant="outline" size="icon" aria-label="Copy API Key" onClick={handleCopy}>
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" onClick={() => setCreatedKey(null)}>Done</Button>
+                            </div>
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>API Keys</CardTitle>
+                        <CardDescription>
+                            Requests made with a key are refused as soon as it is revoked. Revoked keys stay listed, so the audit log
+                            can still be traced to them.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Name</TableHead>
+                                        <TableHead>Scopes</TableHead>
+                                        <TableHead>Access</TableHead>
+                                        <TableHead>Created (UTC)</TableHead>
+                                        <TableHead>Last Used (UTC)</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {apiKeys.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                                                No API keys yet.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {apiKeys.map(apiKey => (
+                                        <TableRow key={apiKey.id} className={apiKey.revoked_at ? 'text-muted-foreground' : undefined}>
+                                            <TableCell className="font-medium">
+                                                {apiKey.name}
+                                                {apiKey.revoked_at && <Badge variant="outline" className="ml-2">Revoked {apiKey.revoked_at}</Badge>}
+                                                <div className="text-xs text-muted-foreground font-mono">{apiKey.key_prefix}…</div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {apiKey.scopes.map(scope => (
+                                                        <Badge key={scope} variant={scope === 'admin' ? 'default' : 'secondary'}>{API_KEY_SCOPES[scope].label}</Badge>
+                                                    ))}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>{describeAccess(apiKey.business_line_ids)}</TableCell>
+                                            <TableCell className="whitespace-nowrap">
+                                                {apiKey.created_at}
+                                                {apiKey.created_by && <div className="text-xs text-muted-foreground">by {apiKey.created_by}</div>}
+                                            </TableCell>
+                                            <TableCell className="whitespace-nowrap">{apiKey.last_used_at ?? <span className="text-muted-foreground">Never</span>}</TableCell>
+                                            <TableCell className="text-right">
+                                                {!apiKey.revoked_at && (
+                                                    <ConfirmDialog
+                                                        trigger={
+                                                            <Button variant="ghost" size="icon" aria-label="Revoke API Key" className="text-destructive hover:text-destructive/80">
+                                                                <Ban className="h-4 w-4" />
+                                                            </Button>
+                                                        }
+                                                        title={`Revoke the API key '${apiKey.name}'?`}
+                                                        description="Requests made with the key are refused from now on. A revoked key cannot be reactivated; create a new one instead."
+                                                        confirmText="Revoke"
+                                                        onConfirm={() => handleRevoke(apiKey.id)}
+                                                        confirmVariant="destructive"
+                                                    />
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
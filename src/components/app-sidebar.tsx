@@ -2,7 +2,7 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   Coins,
   LayoutDashboard,
@@ -13,32 +13,75 @@ import {
   BarChart3,
   Link2, // Icon for associations
   Receipt, // Icon for expenses
+  History, // Icon for import history
+  Cloud, // Icon for cloud cost import
+  Banknote, // Icon for currencies
+  Scale, // Icon for variance report
+  Bell, // Icon for budget alerts
+  GitBranch, // Icon for budget versions
+  ClipboardCheck, // Icon for the budget review queue
+  Users, // Icon for user management
+  KeyRound, // Icon for API keys
+  Webhook, // Icon for outbound webhooks
+  ScrollText, // Icon for the audit log
+  DatabaseBackup, // Icon for database backups
+  Settings, // Icon for the effective settings
+  LogOut,
 } from "lucide-react";
+import type { Permission, SessionUser } from "@/types";
+import { hasPermission, USER_ROLES } from "@/lib/user-roles";
+import { signOut } from "@/app/actions";
 
 import { cn } from "@/lib/utils";
 import {
   Sidebar,
   SidebarHeader,
   SidebarContent,
+  SidebarFooter,
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
 } from "@/components/ui/sidebar";
 
 
-const menuItems = [
+// Items with a permission are only listed for roles that have it; the actions behind them check it regardless
+const menuItems: { href: string; label: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
   { href: "/", label: "Dashboard", icon: LayoutDashboard },
   { href: "/budgets", label: "Budgets", icon: Sheet },
+  { href: "/budgets/versions", label: "Budget Versions", icon: GitBranch },
+  { href: "/budgets/review", label: "Budget Review", icon: ClipboardCheck, permission: "review_budgets" },
   { href: "/expenses", label: "Expenses", icon: Receipt }, // New Expense Item
   { href: "/business-lines", label: "Business Lines", icon: Building2 },
   { href: "/cost-centers", label: "Cost Centers", icon: Target },
   { href: "/cost-center-associations", label: "Associations", icon: Link2 },
-  { href: "/upload", label: "Upload Data", icon: Upload }, // Updated label
+  { href: "/upload", label: "Upload Data", icon: Upload, permission: "import_data" }, // Updated label
+  { href: "/upload/cloud-costs", label: "Cloud Costs", icon: Cloud, permission: "import_data" },
+  { href: "/imports", label: "Import History", icon: History },
   { href: "/charts", label: "Charts", icon: BarChart3 },
+  { href: "/variance", label: "Variance", icon: Scale },
+  { href: "/alerts", label: "Alerts", icon: Bell },
+  { href: "/currencies", label: "Currencies", icon: Banknote },
+  { href: "/audit", label: "Audit Log", icon: ScrollText },
+  { href: "/users", label: "Users", icon: Users, permission: "manage_users" },
+  { href: "/api-keys", label: "API Keys", icon: KeyRound, permission: "manage_api_keys" },
+  { href: "/webhooks", label: "Webhooks", icon: Webhook, permission: "manage_settings" },
+  { href: "/backups", label: "Backups", icon: DatabaseBackup, permission: "manage_backups" },
+  { href: "/settings", label: "Settings", icon: Settings, permission: "manage_settings" },
 ];
 
-export function AppSidebar() {
+interface AppSidebarProps {
+  user: SessionUser;
+}
+
+export function AppSidebar({ user }: AppSidebarProps) {
   const pathname = usePathname();
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/login");
+    router.refresh();
+  };
 
   const isActive = (href: string) => {
     // Handle exact match for root, otherwise check startsWith
@@ -56,7 +99,7 @@ export function AppSidebar() {
         </SidebarHeader>
       <SidebarContent>
         <SidebarMenu>
-          {menuItems.map((item) => (
+          {menuItems.filter((item) => !item.permission || hasPermission(user.role, item.permission)).map((item) => (
             <SidebarMenuItem key={item.href}>
               <Link href={item.href} legacyBehavior passHref>
                 <SidebarMenuButton
@@ -78,7 +121,20 @@ export function AppSidebar() {
           ))}
         </SidebarMenu>
       </SidebarContent>
-      {/* <SidebarFooter>Footer Content</SidebarFooter> */}
+      <SidebarFooter className="border-t">
+        <div className="px-2 text-sm group-data-[collapsible=icon]:hidden">
+          <div className="font-medium truncate" title={user.email}>{user.name}</div>
+          <div className="text-xs text-muted-foreground">{USER_ROLES[user.role].label}</div>
+        </div>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton tooltip="Sign Out" className="justify-start" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4" />
+              <span className="group-data-[collapsible=icon]:hidden">Sign Out</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
     </Sidebar>
   );
 }
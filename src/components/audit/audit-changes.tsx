@@ -0,0 +1,30 @@
+import type { AuditEvent } from '@/types';
+import { describeAuditField, formatAuditValue, type AuditNameLookup } from '@/lib/audit';
+
+interface AuditChangesProps {
+    event: AuditEvent;
+    names: AuditNameLookup;
+}
+
+// The changed fields of an audit event: before and after for changes, the set fields for inserts and deletes
+export function AuditChanges({ event, names }: AuditChangesProps) {
+    if (event.changes.length === 0) {
+        return <span className="text-muted-foreground">No field changes</span>;
+    }
+    return (
+        <ul className="space-y-0.5 text-sm">
+            {event.changes.map(change => (
+                <li key={change.field}>
+                    <span className="font-medium">{describeAuditField(change.field)}:</span>{' '}
+                    {event.action === 'update' && (
+                        <>
+                            <span className="text-muted-foreground line-through">{formatAuditValue(change.field, change.before, names)}</span>
+                            {' → '}
+                        </>
+                    )}
+                    {formatAuditValue(change.field, event.action === 'delete' ? change.before : change.after, names)}
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import type { AuditAction, AuditEvent, AuditLogFilter, AuditTable } from '@/types';
+import { AUDIT_ACTIONS, AUDIT_TABLES, type AuditNameLookup } from '@/lib/audit';
+import { downloadCsv } from '@/lib/csv';
+import { prepareAuditLogCsvData } from '@/app/actions';
+import { AuditChanges } from '@/components/audit/audit-changes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Download, Loader2 } from 'lucide-react';
+
+// Select value for not filtering by record type or action
+const ALL = "__ALL__";
+
+// Entries with an edit page, where their history is shown
+const EDIT_PATHS: Partial<Record<AuditTable, string>> = {
+    'budgets': '/budgets',
+    'expenses': '/expenses',
+};
+
+interface AuditLogViewProps {
+    filter: AuditLogFilter;
+    events: AuditEvent[]; // Newest first, at most limit of them
+    limit: number;
+    names: AuditNameLookup;
+}
+
+export function AuditLogView({ filter, events, limit, names }: AuditLogViewProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    const [actor, setActor] = React.useState(filter.actor);
+    const [recordId, setRecordId] = React.useState(filter.recordId !== null ? String(filter.recordId) : '');
+    const [isExporting, setIsExporting] = React.useState(false);
+
+    React.useEffect(() => {
+        setActor(filter.actor);
+        setRecordId(filter.recordId !== null ? String(filter.recordId) : '');
+    }, [filter.actor, filter.recordId]);
+
+    const navigate = (changes: Partial<AuditLogFilter>) => {
+        const next = { ...filter, ...changes };
+        const params = new URLSearchParams();
+        if (next.table) params.set('table', next.table);
+        if (next.action) params.set('action', next.action);
+        if (next.actor) params.set('actor', next.actor);
+        if (next.recordId !== null) params.set('record', String(next.recordId));
+        if (next.from) params.set('from', next.from);
+        if (next.to) params.set('to', next.to);
+        router.push(`/audit?${params.toString()}`);
+    };
+
+    const applyTextFilters = () => {
+        const parsed = parseInt(recordId, 10);
+        const nextRecordId = parsed > 0 ? parsed : null;
+        if (actor.trim() !== filter.actor || nextRecordId !== filter.recordId) {
+            navigate({ actor: actor.trim(), recordId: nextRecordId });
+        } else {
+            setRecordId(filter.recordId !== null ? String(filter.recordId) : '');
+        }
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const result = await prepareAuditLogCsvData(filter);
+            if (!result.success || !result.data) {
+                throw new Error(result.message || 'Failed to fetch the audit log for CSV.');
+            }
+            if (result.data.length === 0) {
+                toast({ title: 'No Data', description: 'There are no audit events to export for this filter.' });
+                return;
+            }
+            downloadCsv(result.data, 'cloudwise_audit_log.csv');
+            toast({ title: 'Download Started', description: 'Your cloudwise_audit_log.csv file is downloading.' });
+        } catch (error: any) {
+            console.error("Failed to download the audit log CSV:", error);
+            toast({
+                title: 'Download Failed',
+                description: error.message || 'Could not prepare the audit log for download.',
+                variant: 'destructive',
+            });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+                    <div className="grid items-center gap-1.5 w-52">
+                        <Label htmlFor="audit-table">Record Type</Label>
+                        <Select value={filter.table ?? ALL} onValueChange={(value) => navigate({ table: value === ALL ? null : value as AuditTable })}>
+                            <SelectTrigger id="audit-table">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>All records</SelectItem>
+                                {(Object.keys(AUDIT_TABLES) as AuditTable[]).map(key => (
+                                    <SelectItem key={key} value={key}>{AUDIT_TABLES[key]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-36">
+                        <Label htmlFor="audit-action">Action</Label>
+                        <Select value={filter.action ?? ALL} onValueChange={(value) => navigate({ action: value === ALL ? null : value as AuditAction })}>
+                            <SelectTrigger id="audit-action">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>All actions</SelectItem>
+                                {(Object.keys(AUDIT_ACTIONS) as AuditAction[]).map(key => (
+                                    <SelectItem key={key} value={key}>{AUDIT_ACTIONS[key]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-44">
+                        <Label htmlFor="audit-actor">Who</Label>
+                        <Input
+                            id="audit-actor"
+                            placeholder="Name contains"
+                            value={actor}
+                            onChange={(e) => setActor(e.target.value)}
+                            onBlur={applyTextFilters}
+                            onKeyDown={(e) => { if (e.key === 'Enter') applyTextFilters(); }}
+                        />
+                    </div>
+                    <div className="grid items-center gap-1.5 w-28">
+                        <Label htmlFor="audit-record">Record ID</Label>
+                        <Input
+                            id="audit-record"
+                            inputMode="numeric"
+                            value={recordId}
+                            onChange={(e) => setRecordId(e.target.value)}
+                            onBlur={applyTextFilters}
+                            onKeyDown={(e) => { if (e.key === 'Enter') applyTextFilters(); }}
+                        />
+                    </div>
+                    <div className="grid items-center gap-1.5 w-40">
+                        <Label htmlFor="audit-from">From</Label>
+                        <Input id="audit-from" type="date" value={filter.from ?? ''} onChange={(e) => navigate({ from: e.target.value || null })} />
+                    </div>
+                    <div className="grid items-center gap-1.5 w-40">
+                        <Label htmlFor="audit-to">To</Label>
+                        <Input id="audit-to" type="date" value={filter.to ?? ''} onChange={(e) => navigate({ to: e.target.value || null })} />
+                    </div>
+                    <Button variant="outline" className="ml-auto" onClick={handleExport} disabled={isExporting}>
+                        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                        Export CSV
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Changes</CardTitle>
+                    <CardDescription>
+                        {events.length >= limit
+                            ? `The latest ${limit} changes matching the filter. Narrow the filter to see older ones, or export them all to CSV.`
+                            : `${events.length} change${events.length === 1 ? '' : 's'} matching the filter, newest first.`}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-44">When</TableHead>
+                                    <TableHead className="w-40">Who</TableHead>
+                                    <TableHead className="w-52">Record</TableHead>
+                                    <TableHead className="w-28">Action</TableHead>
+                                    <TableHead>Changes</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {events.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
+                                            No changes match the filter.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {events.map(event => {
+                                    const editPath = EDIT_PATHS[event.table_name];
+                                    const label = `${AUDIT_TABLES[event.table_name]} #${event.record_id}`;
+                                    return (
+                                        <TableRow key={event.id}>
+                                            <TableCell className="align-top whitespace-nowrap">{event.created_at}</TableCell>
+                                            <TableCell className="align-top">{event.actor_name ?? 'System'}</TableCell>
+                                            <TableCell className="align-top">
+                                                {editPath && event.action !== 'delete'
+                                                    ? <Link href={`${editPath}/${event.record_id}/edit`} className="underline-offset-4 hover:underline">{label}</Link>
+                                                    : label}
+                                            </TableCell>
+                                            <TableCell className="align-top">
+                                                <Badge variant={event.action === 'delete' ? 'destructive' : 'secondary'}>{AUDIT_ACTIONS[event.action]}</Badge>
+                                            </TableCell>
+                                            <TableCell className="align-top"><AuditChanges event={event} names={names} /></TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
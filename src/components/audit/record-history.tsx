@@ -0,0 +1,61 @@
+import type { AuditEvent } from '@/types';
+import { AUDIT_ACTIONS, type AuditNameLookup } from '@/lib/audit';
+import { AuditChanges } from '@/components/audit/audit-changes';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+
+interface RecordHistoryProps {
+    events: AuditEvent[]; // Newest first
+    names: AuditNameLookup;
+}
+
+// Every recorded change of one budget or expense entry
+export function RecordHistory({ events, names }: RecordHistoryProps) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>History</CardTitle>
+                <CardDescription>Who created and changed this entry, and what they changed, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-44">When</TableHead>
+                            <TableHead className="w-44">Who</TableHead>
+                            <TableHead className="w-28">Action</TableHead>
+                            <TableHead>Changes</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {events.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={4} className="text-center h-24 text-muted-foreground">
+                                    No changes have been recorded for this entry.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {events.map(event => (
+                            <TableRow key={event.id}>
+                                <TableCell className="align-top whitespace-nowrap">{event.created_at}</TableCell>
+                                <TableCell className="align-top">{event.actor_name ?? 'System'}</TableCell>
+                                <TableCell className="align-top">
+                                    <Badge variant={event.action === 'delete' ? 'destructive' : 'secondary'}>{AUDIT_ACTIONS[event.action]}</Badge>
+                                </TableCell>
+                                <TableCell className="align-top"><AuditChanges event={event} names={names} /></TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import * as React from 'react';
+import { createFirstAdmin, signIn } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRouter } from 'next/navigation';
+import { KeyRound, LogIn } from 'lucide-react';
+
+interface LoginFormProps {
+    next: string;
+    firstAdmin: boolean; // No account exists yet: create the first one, an admin
+    oidcProviderName: string | null; // Set when single sign-on is configured
+    error: string | null;
+}
+
+export function LoginForm({ next, firstAdmin, oidcProviderName, error }: LoginFormProps) {
+    const router = useRouter();
+    const [message, setMessage] = React.useState<string | null>(error);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        setIsSubmitting(true);
+        const formData = new FormData(event.currentTarget);
+        const result = firstAdmin ? await createFirstAdmin(formData) : await signIn(formData);
+        if (result.success) {
+            router.replace(next);
+            router.refresh(); // The layout shows the sidebar once signed in
+            return;
+        }
+        setMessage(result.message);
+        setIsSubmitting(false);
+    };
+
+    return (
+        <Card className="w-full max-w-sm">
+            <CardHeader>
+                <CardTitle>{firstAdmin ? 'Create the Admin Account' : 'Sign In'}</CardTitle>
+                <CardDescription>
+                    {firstAdmin
+                        ? 'No accounts exist yet. The first account administers users and settings.'
+                        : 'Sign in to manage budgets, expenses and reports.'}
+                </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit}>
+                <CardContent className="grid gap-4">
+                    {message && (
+                        <Alert variant="destructive">
+                            <AlertDescription>{message}</AlertDescription>
+                        </Alert>
+                    )}
+                    {firstAdmin && (
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="login-name">Name</Label>
+                            <Input id="login-name" name="name" autoComplete="name" required disabled={isSubmitting} />
+                        </div>
+                    )}
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="login-email">Email</Label>
+                        <Input id="login-email" name="email" type="email" autoComplete="email" required disabled={isSubmitting} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="login-password">Password</Label>
+                        <Input
+                            id="login-password"
+                            name="password"
+                            type="password"
+                            autoComplete={firstAdmin ? 'new-password' : 'current-password'}
+                            required
+                            disabled={isSubmitting}
+                        />
+                    </div>
+                </CardContent>
+                <CardFooter className="flex flex-col gap-2">
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        <LogIn className="mr-2 h-4 w-4" />
+                        {isSubmitting ? 'Signing in...' : (firstAdmin ? 'Create Account' : 'Sign In')}
+                    </Button>
+                    {oidcProviderName && (
+                        <Button variant="outline" className="w-full" asChild>
+                            <a href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}>
+                                <KeyRound className="mr-2 h-4 w-4" /> Sign in with {oidcProviderName}
+                            </a>
+                        </Button>
+                    )}
+                </CardFooter>
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import * as React from 'react';
+import type { BackupSchedule, DatabaseSnapshot } from '@/types';
+import { BACKUP_INTERVALS, formatSnapshotSize, MAX_BACKUP_RETENTION, SNAPSHOT_KINDS } from '@/lib/snapshots';
+import { createDatabaseSnapshot, deleteDatabaseSnapshot, restoreDatabaseSnapshot, saveBackupSchedule } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { DatabaseBackup, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+interface BackupManagerProps {
+    snapshots: DatabaseSnapshot[]; // Newest first
+    schedule: BackupSchedule;
+}
+
+export function BackupManager({ snapshots, schedule }: BackupManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [intervalHours, setIntervalHours] = React.useState(String(schedule.intervalHours));
+    const [retention, setRetention] = React.useState(String(schedule.retention));
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [isCreating, setIsCreating] = React.useState(false);
+    const [restoringName, setRestoringName] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        setIntervalHours(String(schedule.intervalHours));
+        setRetention(String(schedule.retention));
+    }, [schedule.intervalHours, schedule.retention]);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const handleSaveSchedule = async () => {
+        setIsSaving(true);
+        const result = await saveBackupSchedule({ intervalHours: parseInt(intervalHours, 10), retention: parseInt(retention, 10) });
+        showResult(result);
+        if (result.success) router.refresh();
+        setIsSaving(false);
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        const result = await createDatabaseSnapshot();
+        showResult(result);
+        if (result.success) router.refresh();
+        setIsCreating(false);
+    };
+
+    const handleRestore = async (name: string) => {
+        setRestoringName(name);
+        const result = await restoreDatabaseSnapshot(name);
+        showResult(result);
+        // Users and sessions are restored too, so the page may now send the user to sign in again
+        if (result.success) router.refresh();
+        setRestoringName(null);
+    };
+
+    const handleDelete = async (name: string) => {
+        const result = await deleteDatabaseSnapshot(name);
+        showResult(result);
+        if (result.success) router.refresh();
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Scheduled Snapshots</CardTitle>
+                    <CardDescription>
+                        While the app runs, it snapshots the database on this schedule and keeps the latest scheduled snapshots.
+                        Manual snapshots and those taken before a restore are kept until you delete them.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="backup-interval">Take a Snapshot</Label>
+                        <Select value={intervalHours} onValueChange={setIntervalHours}>
+                            <SelectTrigger id="backup-interval">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {Object.entries(BACKUP_INTERVALS).map(([hours, label]) => (
+                                    <SelectItem key={hours} value={hours}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="backup-retention">Scheduled Snapshots to Keep</Label>
+                        <Input
+                            id="backup-retention"
+                            type="number"
+                            min={1}
+                            max={MAX_BACKUP_RETENTION}
+                            value={retention}
+                            onChange={(e) => setRetention(e.target.value)}
+                            disabled={intervalHours === '0'}
+                        />
+                    </div>
+                </CardContent>
+                <CardFooter>
+                    <Button onClick={handleSaveSchedule} disabled={isSaving}>
+                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Schedule
+                    </Button>
+                </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                        <CardTitle>Database Snapshots</CardTitle>
+                        <CardDescription>
+                            Consistent copies of the whole database, taken while the app keeps running. Restoring one replaces all data,
+                            including users and sessions, with the snapshot&apos;s; the current data is snapshotted first.
+                        </CardDescription>
+                    </div>
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <DatabaseBackup className="mr-2 h-4 w-4" />}
+                        Create Snapshot
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Taken (UTC)</TableHead>
+                                <TableHead>Kind</TableHead>
+                                <TableHead className="text-right">Size</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {snapshots.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="text-center h-24 text-muted-foreground">
+                                        No snapshots yet.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {snapshots.map(snapshot => (
+                                <TableRow key={snapshot.name}>
+                                    <TableCell>
+                                        <div className="font-medium">{snapshot.created_at}</div>
+                                        <div className="text-xs text-muted-foreground">{snapshot.name}</div>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant={snapshot.kind === 'manual' ? 'default' : 'secondary'}>{SNAPSHOT_KINDS[snapshot.kind]}</Badge>
+                                    </TableCell>
+                                    <TableCell className="text-right">{formatSnapshotSize(snapshot.size)}</TableCell>
+                                    <TableCell className="text-right whitespace-nowrap">
+                                        <ConfirmDialog
+                                            trigger={
+                                                <Button variant="ghost" size="icon" aria-label="Restore Snapshot" disabled={restoringName !== null}>
+                                                    {restoringName === snapshot.name ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                                                </Button>
+                                            }
+                                            title={`Restore the snapshot of ${snapshot.created_at} UTC?`}
+                                            description="All budgets, expenses, master data, settings, users and the audit log are replaced with the snapshot's. Changes made since are lost, except in the snapshot taken right before the restore. Anyone signed in since may have to sign in again."
+                                            confirmText="Restore"
+                                            onConfirm={() => handleRestore(snapshot.name)}
+                                            confirmVariant="destructive"
+                                        />
+                                        <ConfirmDialog
+                                            trigger={
+                                                <Button variant="ghost" size="icon" aria-label="Delete Snapshot" className="text-destructive hover:text-destructive/80">
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            }
+                                            title={`Delete the snapshot of ${snapshot.created_at} UTC?`}
+                                            description="The snapshot file is deleted and cannot be restored anymore."
+                                            confirmText="Delete"
+                                            onConfirm={() => handleDelete(snapshot.name)}
+                                            confirmVariant="destructive"
+                                        />
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
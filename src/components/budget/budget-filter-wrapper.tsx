@@ -1,51 +1,63 @@
 
 "use client";
 
-import type { Budget, BusinessLine, CostCenter } from '@/types';
-import { useState, useMemo } from 'react';
+import type { Budget, BudgetStatus, BudgetVersion, BusinessLine, CostCenter, EntryListQuery, EntrySortColumn, Page, PageRequest } from '@/types';
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
 import { BudgetTable } from './budget-table';
+import { EntryListPagination } from '@/components/entry-list-controls';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { FilterX, X } from 'lucide-react';
+import { FilterX } from 'lucide-react';
+import { BUDGET_STATUSES } from '@/lib/budget-approval';
+import { nextEntrySort, toEntryListSearchParams } from '@/lib/entry-lists';
+import { cn } from '@/lib/utils';
 
 interface BudgetFilterWrapperProps {
-    initialBudgets: Budget[];
+    budgets: Page<Budget>; // Filtered, sorted and paged on the server
+    query: EntryListQuery; // From the query string, see '@/lib/entry-lists'
     businessLines: BusinessLine[];
     costCenters: CostCenter[];
+    versions: BudgetVersion[];
+    versionId: number; // Version the budgets belong to; picking another one loads its budgets
 }
 
 const ALL_VALUE = "__ALL__";
 
-export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters }: BudgetFilterWrapperProps) {
-    const [yearFilter, setYearFilter] = useState<string>('');
-    const [monthFilter, setMonthFilter] = useState<string>(ALL_VALUE);
-    const [typeFilter, setTypeFilter] = useState<'ALL' | 'CAPEX' | 'OPEX'>(ALL_VALUE as 'ALL'); // Initialize with 'ALL'
-    const [blFilter, setBlFilter] = useState<string>(ALL_VALUE);
-    const [ccFilter, setCcFilter] = useState<string>(ALL_VALUE);
-
-    const filteredBudgets = useMemo(() => {
-        return initialBudgets.filter(budget => {
-            const yearMatch = !yearFilter || budget.year.toString() === yearFilter;
-            const monthMatch = monthFilter === ALL_VALUE || budget.month.toString() === monthFilter;
-            const typeMatch = typeFilter === ALL_VALUE || budget.type === typeFilter;
-            const blMatch = blFilter === ALL_VALUE || (budget.business_line_id ? budget.business_line_id.toString() === blFilter : blFilter === '__NONE__');
-            const ccMatch = ccFilter === ALL_VALUE || (budget.cost_center_id ? budget.cost_center_id.toString() === ccFilter : ccFilter === '__NONE__');
-
-            return yearMatch && monthMatch && typeMatch && blMatch && ccMatch;
-        });
-    }, [initialBudgets, yearFilter, monthFilter, typeFilter, blFilter, ccFilter]);
+export function BudgetFilterWrapper({ budgets, query, businessLines, costCenters, versions, versionId }: BudgetFilterWrapperProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = React.useTransition();
+    const [yearFilter, setYearFilter] = React.useState(query.year !== null ? String(query.year) : '');
 
-    const resetFilters = () => {
-        setYearFilter('');
-        setMonthFilter(ALL_VALUE);
-        setTypeFilter(ALL_VALUE as 'ALL');
-        setBlFilter(ALL_VALUE);
-        setCcFilter(ALL_VALUE);
+    React.useEffect(() => {
+        setYearFilter(query.year !== null ? String(query.year) : '');
+    }, [query.year]);
+
+    // Changing the version, filters or order goes back to the first page
+    const navigate = (changes: Partial<EntryListQuery>, pageChanges: Partial<PageRequest> = { page: 1 }, nextVersionId = versionId) => {
+        const params = toEntryListSearchParams({ ...query, ...changes }, { page: budgets.page, pageSize: budgets.pageSize, ...pageChanges });
+        startTransition(() => router.push(`/budgets?version=${nextVersionId}${params.size > 0 ? `&${params.toString()}` : ''}`));
+    };
+
+    const applyYearFilter = () => {
+        const year = parseInt(yearFilter, 10);
+        const nextYear = year >= 1900 && year <= 2100 ? year : null;
+        if (nextYear !== query.year) {
+            navigate({ year: nextYear });
+        } else {
+            setYearFilter(query.year !== null ? String(query.year) : '');
+        }
+    };
+
+    const handleSort = (column: EntrySortColumn) => {
+        navigate(nextEntrySort(query, column));
     };
 
-    const currentYear = new Date().getFullYear();
-    const years = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i); // Example: last 5 + next 4 years
+    // Keeps the version, order and page size
+    const resetFilters = () => {
+        navigate({ year: null, month: null, type: null, business_line_id: null, cost_center_id: null, status: null });
+    };
 
     const months = Array.from({ length: 12 }, (_, i) => ({ value: (i + 1).toString(), label: new Date(0, i).toLocaleString('default', { month: 'long' }) }));
 
@@ -53,6 +65,23 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
         <div className="space-y-4">
             {/* Filter Section */}
             <div className="flex flex-wrap gap-2 p-4 border rounded-md bg-muted/50">
+                {/* Budget Version */}
+                <div className="flex-grow min-w-[150px]">
+                    <label htmlFor="version-filter" className="text-xs font-medium text-muted-foreground">Budget Version</label>
+                    <Select value={String(versionId)} onValueChange={(value) => navigate({}, { page: 1 }, Number(value))}>
+                        <SelectTrigger id="version-filter" className="h-8 text-sm">
+                            <SelectValue placeholder="Budget Version" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {versions.map(version => (
+                                <SelectItem key={version.id} value={String(version.id)}>
+                                    {version.name}{version.is_default ? ' (default)' : ''}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
                 {/* Year Filter */}
                 <div className="flex-grow min-w-[100px]">
                     <label htmlFor="year-filter" className="text-xs font-medium text-muted-foreground">Year</label>
@@ -62,6 +91,8 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                         placeholder="YYYY"
                         value={yearFilter}
                         onChange={(e) => setYearFilter(e.target.value)}
+                        onBlur={applyYearFilter}
+                        onKeyDown={(e) => { if (e.key === 'Enter') applyYearFilter(); }}
                         className="h-8 text-sm"
                     />
                 </div>
@@ -69,7 +100,7 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                 {/* Month Filter */}
                 <div className="flex-grow min-w-[120px]">
                      <label htmlFor="month-filter" className="text-xs font-medium text-muted-foreground">Month</label>
-                     <Select value={monthFilter} onValueChange={setMonthFilter}>
+                     <Select value={query.month !== null ? String(query.month) : ALL_VALUE} onValueChange={(v) => navigate({ month: v === ALL_VALUE ? null : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Month" />
                         </SelectTrigger>
@@ -85,7 +116,7 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                 {/* Type Filter */}
                  <div className="flex-grow min-w-[120px]">
                      <label htmlFor="type-filter" className="text-xs font-medium text-muted-foreground">Type</label>
-                     <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as 'ALL' | 'CAPEX' | 'OPEX')}>
+                     <Select value={query.type ?? ALL_VALUE} onValueChange={(v) => navigate({ type: v === ALL_VALUE ? null : v as 'CAPEX' | 'OPEX' })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Type" />
                         </SelectTrigger>
@@ -100,13 +131,13 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                 {/* Business Line Filter */}
                 <div className="flex-grow min-w-[150px]">
                      <label htmlFor="bl-filter" className="text-xs font-medium text-muted-foreground">Business Line</label>
-                     <Select value={blFilter} onValueChange={setBlFilter}>
+                     <Select value={query.business_line_id !== null ? String(query.business_line_id) : ALL_VALUE} onValueChange={(v) => navigate({ business_line_id: v === ALL_VALUE ? null : v === 'none' ? 'none' : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Business Line" />
                         </SelectTrigger>
                         <SelectContent>
                             <SelectItem value={ALL_VALUE}>All Business Lines</SelectItem>
-                            <SelectItem value="__NONE__">-- Unassigned --</SelectItem>
+                            <SelectItem value="none">-- Unassigned --</SelectItem>
                             {businessLines.map(bl => (
                                 <SelectItem key={bl.id} value={bl.id.toString()}>{bl.name}</SelectItem>
                             ))}
@@ -117,13 +148,13 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                 {/* Cost Center Filter */}
                 <div className="flex-grow min-w-[150px]">
                     <label htmlFor="cc-filter" className="text-xs font-medium text-muted-foreground">Cost Center</label>
-                    <Select value={ccFilter} onValueChange={setCcFilter}>
+                    <Select value={query.cost_center_id !== null ? String(query.cost_center_id) : ALL_VALUE} onValueChange={(v) => navigate({ cost_center_id: v === ALL_VALUE ? null : v === 'none' ? 'none' : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Cost Center" />
                         </SelectTrigger>
                         <SelectContent>
                             <SelectItem value={ALL_VALUE}>All Cost Centers</SelectItem>
-                             <SelectItem value="__NONE__">-- Unassigned --</SelectItem>
+                             <SelectItem value="none">-- Unassigned --</SelectItem>
                             {costCenters.map(cc => (
                                 <SelectItem key={cc.id} value={cc.id.toString()}>{cc.name}</SelectItem>
                             ))}
@@ -131,6 +162,22 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
                      </Select>
                 </div>
 
+                {/* Status Filter */}
+                <div className="flex-grow min-w-[120px]">
+                    <label htmlFor="status-filter" className="text-xs font-medium text-muted-foreground">Status</label>
+                    <Select value={query.status ?? ALL_VALUE} onValueChange={(v) => navigate({ status: v === ALL_VALUE ? null : v as BudgetStatus })}>
+                        <SelectTrigger id="status-filter" className="h-8 text-sm">
+                            <SelectValue placeholder="Status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_VALUE}>All Statuses</SelectItem>
+                            {(Object.keys(BUDGET_STATUSES) as BudgetStatus[]).map(status => (
+                                <SelectItem key={status} value={status}>{BUDGET_STATUSES[status]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
                 {/* Reset Button */}
                 <div className="flex items-end">
                      <Button variant="ghost" size="sm" onClick={resetFilters} className="h-8">
@@ -140,7 +187,16 @@ export function BudgetFilterWrapper({ initialBudgets, businessLines, costCenters
             </div>
 
             {/* Budget Table */}
-            <BudgetTable budgets={filteredBudgets} />
+            <div className={cn('space-y-4 transition-opacity', isPending && 'opacity-60')}>
+                <BudgetTable budgets={budgets.items} sort={{ column: query.sort, direction: query.direction, onSort: handleSort }} />
+                <EntryListPagination
+                    page={budgets.page}
+                    pageSize={budgets.pageSize}
+                    total={budgets.total}
+                    onPageChange={(page) => navigate({}, { page })}
+                    onPageSizeChange={(pageSize) => navigate({}, { page: 1, pageSize })}
+                />
+            </div>
         </div>
     );
 }
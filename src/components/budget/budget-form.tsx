@@ -1,7 +1,7 @@
 
 "use client";
 
-import type { Budget, BusinessLine, CostCenter, BudgetFormData, CostCenterWithBusinessLines } from '@/types'; // Import CostCenterWithBusinessLines
+import type { Budget, BudgetVersion, BusinessLine, CostCenter, BudgetFormData, CostCenterWithBusinessLines } from '@/types'; // Import CostCenterWithBusinessLines
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -13,6 +13,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription }
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
+import { currencyOptions, DEFAULT_CURRENCY } from '@/lib/currency';
+import { BUDGET_STATUSES } from '@/lib/budget-approval';
 import { useMemo, useEffect } from 'react'; // Import useMemo and useEffect
 
 const budgetFormSchema = z.object({
@@ -31,9 +33,11 @@ const budgetFormSchema = z.object({
         z.number({ required_error: "Month is required", invalid_type_error: "Month must be a number" }).int().min(1, 'Enter a valid month (1-12)').max(12, 'Enter a valid month (1-12)')
     ),
     type: z.enum(['CAPEX', 'OPEX'], { required_error: "Type is required" }),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Select a currency'),
     // Use string for select value, server action will parse/validate __NONE__
     business_line_id: z.string().nullable().optional(),
     cost_center_id: z.string().nullable().optional(),
+    version_id: z.string().min(1, 'Select a budget version'),
 });
 
 // Special value for representing null in Select dropdowns
@@ -46,9 +50,14 @@ interface BudgetFormProps {
     costCenters: CostCenterWithBusinessLines[]; // Expect CostCenters with associated business lines
     onSubmit: (formData: FormData) => Promise<{ success: boolean; message: string }>;
     formType: 'add' | 'edit';
+    defaultCurrency?: string; // Preselected for new entries, usually the reporting currency
+    versions: BudgetVersion[];
+    defaultVersionId?: number | null; // Preselected for new entries; falls back to the default version
 }
 
-export function BudgetForm({ initialData, businessLines, costCenters, onSubmit, formType }: BudgetFormProps) {
+export function BudgetForm({ initialData, businessLines, costCenters, onSubmit, formType, defaultCurrency = DEFAULT_CURRENCY, versions, defaultVersionId = null }: BudgetFormProps) {
+    const initialVersionId = initialData?.version_id ?? defaultVersionId ?? versions.find(version => version.is_default)?.id;
+
     const { toast } = useToast();
     const router = useRouter();
 
@@ -61,8 +70,10 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
             year: initialData?.year !== undefined ? String(initialData.year) : '',
             month: initialData?.month !== undefined ? String(initialData.month) : '',
             type: initialData?.type || undefined,
+            currency: initialData?.currency || defaultCurrency,
             business_line_id: initialData?.business_line_id ? String(initialData.business_line_id) : NONE_VALUE,
             cost_center_id: initialData?.cost_center_id ? String(initialData.cost_center_id) : NONE_VALUE,
+            version_id: initialVersionId ? String(initialVersionId) : '',
         },
     });
 
@@ -77,10 +88,12 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
              year: initialData?.year !== undefined ? String(initialData.year) : '',
              month: initialData?.month !== undefined ? String(initialData.month) : '',
              type: initialData?.type || undefined,
+             currency: initialData?.currency || defaultCurrency,
              business_line_id: initialData?.business_line_id ? String(initialData.business_line_id) : NONE_VALUE,
              cost_center_id: initialData?.cost_center_id ? String(initialData.cost_center_id) : NONE_VALUE,
+             version_id: initialVersionId ? String(initialVersionId) : '',
          });
-     }, [initialData, reset]);
+     }, [initialData, defaultCurrency, initialVersionId, reset]);
 
     // Watch the selected business line ID
     const selectedBusinessLineId = watch('business_line_id');
@@ -103,7 +116,10 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
     }, [selectedBusinessLineId, costCenters]);
 
 
-    const handleFormSubmit = async (data: z.infer<typeof budgetFormSchema>) => {
+    // Approved entries are changed through a reviewed change, so they can only be submitted
+    const isApproved = initialData?.status === 'approved';
+
+    const handleFormSubmit = async (data: z.infer<typeof budgetFormSchema>, submit: boolean) => {
 
         const formData = new FormData();
         formData.append('description', data.description);
@@ -111,10 +127,13 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
         formData.append('year', String(data.year));     // Send as string
         formData.append('month', String(data.month));    // Send as string
         formData.append('type', data.type);
+        formData.append('currency', data.currency);
 
         // Send the actual value ('__NONE__' or the ID) to the server action for processing
         formData.append('business_line_id', data.business_line_id ?? NONE_VALUE);
         formData.append('cost_center_id', data.cost_center_id ?? NONE_VALUE);
+        formData.append('version_id', data.version_id);
+        formData.append('submit', String(submit));
 
         const result = await onSubmit(formData);
 
@@ -125,7 +144,7 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
         });
 
         if (result.success) {
-            router.push('/budgets'); // Navigate back to the list on success
+            router.push(`/budgets?version=${data.version_id}`); // Navigate back to the list of the entry's version on success
             router.refresh(); // Ensure the list page is updated
         }
     };
@@ -136,10 +155,22 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
                 <CardTitle>{formType === 'add' ? 'Add New Budget Entry' : 'Edit Budget Entry'}</CardTitle>
                  <CardDescription>
                     Fill in the details for the budget entry. Select a Business Line first to filter compatible Cost Centers.
+                    {' '}
+                    {isApproved
+                        ? 'This entry is approved: your edit is submitted as a change, and the approved values stay in effect until the budget owner approves it.'
+                        : 'Entries count as budget once the budget owner of their business line approves them.'}
                  </CardDescription>
+                 {initialData?.status && (
+                     <p className="text-sm">
+                         Status: <span className="font-medium">{BUDGET_STATUSES[initialData.status]}</span>
+                         {initialData.review && ` by ${initialData.review.reviewer} on ${initialData.review.reviewed_at}`}
+                         {initialData.review?.comment && <span className="text-muted-foreground"> ({initialData.review.comment})</span>}
+                         {initialData.pending_change_id && <span className="text-muted-foreground">. A change is waiting for review; submitting again replaces it.</span>}
+                     </p>
+                 )}
             </CardHeader>
             <Form {...form}>
-                <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
+                <form onSubmit={handleSubmit(data => handleFormSubmit(data, isApproved))} className="space-y-6">
                     <CardContent className="space-y-4">
                          <FormField
                           control={control}
@@ -155,7 +186,7 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
                           )}
                         />
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                            <FormField
                              control={control}
                              name="amount"
@@ -169,6 +200,28 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
                                  <FormMessage />
                                </FormItem>
                              )}
+                           />
+                           <FormField
+                             control={control}
+                             name="currency"
+                             render={({ field }) => (
+                               <FormItem>
+                                 <FormLabel>Currency</FormLabel>
+                                 <Select onValueChange={field.onChange} value={field.value}>
+                                   <FormControl>
+                                     <SelectTrigger>
+                                       <SelectValue placeholder="Select currency" />
+                                     </SelectTrigger>
+                                   </FormControl>
+                                   <SelectContent>
+                                     {currencyOptions(initialData?.currency, defaultCurrency).map(code => (
+                                       <SelectItem key={code} value={code}>{code}</SelectItem>
+                                     ))}
+                                   </SelectContent>
+                                 </Select>
+                                 <FormMessage />
+                               </FormItem>
+                             )}
                            />
                             <FormField
                                 control={control}
@@ -193,7 +246,29 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
                                 />
                         </div>
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <FormField
+                                control={control}
+                                name="version_id"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Budget Version</FormLabel>
+                                        <Select onValueChange={field.onChange} value={field.value} disabled={isApproved}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select version" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {versions.map(version => (
+                                                    <SelectItem key={version.id} value={String(version.id)}>{version.name}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
                             <FormField
                                 control={control}
                                 name="year"
@@ -303,9 +378,20 @@ export function BudgetForm({ initialData, businessLines, costCenters, onSubmit,
                         </div>
                     </CardContent>
                     <CardFooter className="flex justify-between">
-                        <Button type="submit" disabled={isSubmitting}>
-                            {isSubmitting ? 'Saving...' : (formType === 'add' ? 'Add Entry' : 'Update Entry')}
-                        </Button>
+                        {isApproved ? (
+                            <Button type="submit" disabled={isSubmitting}>
+                                {isSubmitting ? 'Submitting...' : 'Submit Change for Approval'}
+                            </Button>
+                        ) : (
+                            <div className="flex gap-2">
+                                <Button type="button" onClick={handleSubmit(data => handleFormSubmit(data, true))} disabled={isSubmitting}>
+                                    {isSubmitting ? 'Saving...' : 'Submit for Approval'}
+                                </Button>
+                                <Button type="submit" variant="secondary" disabled={isSubmitting}>
+                                    Save Draft
+                                </Button>
+                            </div>
+                        )}
                          <Button type="button" variant="outline" onClick={() => router.back()} disabled={isSubmitting}>
                             Cancel
                         </Button>
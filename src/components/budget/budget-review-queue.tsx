@@ -0,0 +1,235 @@
+"use client";
+
+import * as React from 'react';
+import type { BudgetReviewDecision, BudgetReviewItem, SessionUser } from '@/types';
+import { reviewBudgetItems } from '@/app/actions';
+import { canReviewBudget, describeReviewItemKind, diffBudgetChange } from '@/lib/budget-approval';
+import { formatCurrency } from '@/lib/currency';
+import { formatMonth } from '@/lib/variance';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Check, X } from 'lucide-react';
+
+interface BudgetReviewQueueProps {
+    queue: BudgetReviewItem[];
+    recent: BudgetReviewItem[];
+    reviewer: SessionUser; // The signed-in user, who reviews as themselves
+}
+
+const itemKey = (item: BudgetReviewItem) => `${item.kind}-${item.id}`;
+
+// What a queued entry adds or a queued change does to its row
+function ReviewItemDetails({ item }: { item: BudgetReviewItem }) {
+    if (!item.change || item.change.action === 'delete') {
+        const { budget } = item;
+        return (
+            <span>
+                {formatCurrency(budget.amount, budget.currency)} {budget.type} in {formatMonth(budget.year, budget.month)}
+                {budget.cost_center_name && `, ${budget.cost_center_name}`}
+            </span>
+        );
+    }
+    const diff = diffBudgetChange(item.budget, item.change);
+    return (
+        <ul className="space-y-0.5">
+            {diff.map(field => (
+                <li key={field.field}>
+                    <span className="text-muted-foreground">{field.label}:</span>{' '}
+                    <span className="line-through text-muted-foreground">{field.before}</span>{' → '}
+                    <span className="font-medium">{field.after}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+export function BudgetReviewQueue({ queue, recent, reviewer }: BudgetReviewQueueProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [comment, setComment] = React.useState('');
+    const [selected, setSelected] = React.useState<Set<string>>(new Set());
+    const [isReviewing, setIsReviewing] = React.useState(false);
+
+    const toggle = (key: string, checked: boolean) => {
+        setSelected(current => {
+            const next = new Set(current);
+            if (checked) next.add(key); else next.delete(key);
+            return next;
+        });
+    };
+
+    const handleReview = async (items: BudgetReviewItem[], decision: BudgetReviewDecision) => {
+        setIsReviewing(true);
+        const result = await reviewBudgetItems(items.map(({ kind, id }) => ({ kind, id })), decision, comment);
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            setSelected(new Set());
+            setComment('');
+            router.refresh();
+        }
+        setIsReviewing(false);
+    };
+
+    const selectedItems = queue.filter(item => selected.has(itemKey(item)));
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Budget Review Queue</CardTitle>
+                    <CardDescription>
+                        New budget entries and changes of approved entries wait here until they are approved or rejected. Entries of a
+                        business line with a budget owner can only be reviewed by that owner. Approved values count in totals, charts,
+                        variance and alerts. You review as {reviewer.name}.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="review-comment">Comment (required to reject)</Label>
+                        <Textarea id="review-comment" rows={1} placeholder="e.g., Please split this by quarter" value={comment} onChange={(e) => setComment(e.target.value)} />
+                    </div>
+                    <div className="flex gap-2">
+                        <Button onClick={() => handleReview(selectedItems, 'approved')} disabled={isReviewing || selectedItems.length === 0}>
+                            <Check className="mr-2 h-4 w-4" /> Approve Selected ({selectedItems.length})
+                        </Button>
+                        <Button variant="destructive" onClick={() => handleReview(selectedItems, 'rejected')} disabled={isReviewing || selectedItems.length === 0}>
+                            <X className="mr-2 h-4 w-4" /> Reject Selected
+                        </Button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-8">
+                                        <Checkbox
+                                            aria-label="Select all"
+                                            checked={queue.length > 0 && selectedItems.length === queue.length}
+                                            onCheckedChange={(checked) => setSelected(checked === true ? new Set(queue.map(itemKey)) : new Set())}
+                                        />
+                                    </TableHead>
+                                    <TableHead>Kind</TableHead>
+                                    <TableHead>Entry</TableHead>
+                                    <TableHead>Details</TableHead>
+                                    <TableHead>Version</TableHead>
+                                    <TableHead>Approver</TableHead>
+                                    <TableHead>Submitted</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {queue.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={8} className="text-center h-24 text-muted-foreground">
+                                            Nothing is waiting for review.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {queue.map(item => (
+                                    <TableRow key={itemKey(item)}>
+                                        <TableCell>
+                                            <Checkbox
+                                                aria-label={`Select ${item.budget.description}`}
+                                                checked={selected.has(itemKey(item))}
+                                                onCheckedChange={(checked) => toggle(itemKey(item), checked === true)}
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={item.kind === 'entry' ? 'default' : item.change?.action === 'delete' ? 'destructive' : 'outline'}>{describeReviewItemKind(item)}</Badge>
+                                        </TableCell>
+                                        <TableCell className="font-medium">
+                                            {item.budget.description}
+                                            <div className="text-xs text-muted-foreground">{item.budget.business_line_name ?? 'Unassigned'}</div>
+                                        </TableCell>
+                                        <TableCell className="text-sm"><ReviewItemDetails item={item} /></TableCell>
+                                        <TableCell>{item.version_name}</TableCell>
+                                        <TableCell>
+                                            {item.approver ?? <span className="text-xs text-muted-foreground italic">Anyone</span>}
+                                            {!canReviewBudget(item, reviewer) && <div className="text-xs text-muted-foreground">Not you</div>}
+                                        </TableCell>
+                                        <TableCell className="whitespace-nowrap">{item.submitted_at}</TableCell>
+                                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                            <Button variant="ghost" size="icon" aria-label={`Approve ${item.budget.description}`} onClick={() => handleReview([item], 'approved')} disabled={isReviewing}>
+                                                <Check className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" aria-label={`Reject ${item.budget.description}`} className="text-destructive hover:text-destructive/80" onClick={() => handleReview([item], 'rejected')} disabled={isReviewing}>
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Recently Reviewed</CardTitle>
+                    <CardDescription>The latest decisions with their comments, newest first.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Kind</TableHead>
+                                    <TableHead>Entry</TableHead>
+                                    <TableHead>Decision</TableHead>
+                                    <TableHead>Reviewer</TableHead>
+                                    <TableHead>Comment</TableHead>
+                                    <TableHead>Reviewed</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {recent.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={6} className="text-center h-16 text-muted-foreground">
+                                            No reviews yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {recent.map(item => {
+                                    const review = item.change ? item.change.review : item.budget.review;
+                                    return (
+                                        <TableRow key={itemKey(item)}>
+                                            <TableCell>{describeReviewItemKind(item)}</TableCell>
+                                            <TableCell className="font-medium">{(item.change ?? item.budget).description}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={review?.decision === 'approved' ? 'secondary' : 'destructive'}>
+                                                    {review?.decision === 'approved' ? 'Approved' : 'Rejected'}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell>{review?.reviewer}</TableCell>
+                                            <TableCell className="max-w-md">{review?.comment ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                                            <TableCell className="whitespace-nowrap">{review?.reviewed_at}</TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 "use client";
 
 // Removed unused BusinessLine, CostCenter types
-import type { Budget } from '@/types';
+import type { Budget, BudgetStatus } from '@/types';
 import {
     Table,
     TableBody,
@@ -13,22 +13,50 @@ import {
 } from "@/components/ui/table";
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Pencil, Trash2 } from 'lucide-react';
+import { Pencil, Send, Trash2, Undo2 } from 'lucide-react';
 import Link from 'next/link';
-import { deleteBudgetEntry } from '@/app/actions';
+import { deleteBudgetEntry, submitBudgetEntries, withdrawBudgetChange } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
 import { ConfirmDialog } from '@/components/confirm-dialog';
+import { SortableTableHead, type EntrySortProps } from '@/components/entry-list-controls';
+import { formatCurrency } from '@/lib/currency';
+import { BUDGET_STATUSES } from '@/lib/budget-approval';
 import * as React from "react";
 
 interface BudgetTableProps {
     budgets: Budget[]; // Now receives potentially filtered budgets
+    sort?: EntrySortProps; // Makes the column headers sort the list
 }
 
-export function BudgetTable({ budgets }: BudgetTableProps) {
+const STATUS_BADGE_VARIANTS: Record<BudgetStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    'draft': 'outline',
+    'submitted': 'default',
+    'approved': 'secondary',
+    'rejected': 'destructive',
+};
+
+export function BudgetTable({ budgets, sort }: BudgetTableProps) {
      const { toast } = useToast();
      const router = useRouter();
 
+     const showResult = (result: { success: boolean; message: string }) => {
+         toast({
+             title: result.success ? 'Success' : 'Error',
+             description: result.message,
+             variant: result.success ? 'default' : 'destructive',
+         });
+         if (result.success) router.refresh();
+     };
+
+     const handleSubmitForApproval = async (id: number) => {
+         showResult(await submitBudgetEntries([id]));
+     };
+
+     const handleWithdrawChange = async (changeId: number) => {
+         showResult(await withdrawBudgetChange(changeId));
+     };
+
      const handleDelete = async (id: number) => {
          const result = await deleteBudgetEntry(id);
          toast({
@@ -38,34 +66,30 @@ export function BudgetTable({ budgets }: BudgetTableProps) {
          });
           if (result.success) {
              // Refresh the page data after deletion
-             // Note: This might refetch all data if filters aren't handled server-side
              router.refresh();
          }
      };
 
-    const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-    };
-
     return (
         // Add overflow-x-auto for smaller screens if table is wide
         <div className="overflow-x-auto">
             <Table>
                 <TableHeader>
                     <TableRow>
-                        <TableHead>Description</TableHead>
-                        <TableHead>Amount</TableHead>
-                        <TableHead>Date</TableHead>
-                        <TableHead>Type</TableHead>
-                        <TableHead>Business Line</TableHead>
-                        <TableHead>Cost Center</TableHead>
+                        <SortableTableHead column="description" label="Description" sort={sort} />
+                        <SortableTableHead column="amount" label="Amount" sort={sort} sortHint="Sorted by the amount in the reporting currency" />
+                        <SortableTableHead column="period" label="Date" sort={sort} />
+                        <SortableTableHead column="type" label="Type" sort={sort} />
+                        <SortableTableHead column="business_line" label="Business Line" sort={sort} />
+                        <SortableTableHead column="cost_center" label="Cost Center" sort={sort} />
+                        <SortableTableHead column="status" label="Status" sort={sort} />
                         <TableHead className="text-right min-w-[100px]">Actions</TableHead>{/* Added min-width */}
                     </TableRow>
                 </TableHeader>
                 <TableBody>
                     {budgets.length === 0 && (
                         <TableRow>
-                            <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
+                            <TableCell colSpan={8} className="text-center h-24 text-muted-foreground">
                                 No budget entries found matching your filters.
                             </TableCell>
                         </TableRow>
@@ -73,7 +97,7 @@ export function BudgetTable({ budgets }: BudgetTableProps) {
                     {budgets.map((budget) => (
                         <TableRow key={budget.id}>
                             <TableCell className="font-medium">{budget.description}</TableCell>
-                            <TableCell>{formatCurrency(budget.amount)}</TableCell>
+                            <TableCell>{formatCurrency(budget.amount, budget.currency)}</TableCell>
                             <TableCell>{`${String(budget.month).padStart(2, '0')}/${budget.year}`}</TableCell>
                             <TableCell>
                                 <Badge variant={budget.type === 'CAPEX' ? 'secondary' : 'outline'}>
@@ -82,14 +106,37 @@ export function BudgetTable({ budgets }: BudgetTableProps) {
                             </TableCell>
                             <TableCell>{budget.business_line_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
                             <TableCell>{budget.cost_center_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
-                            <TableCell className="text-right space-x-1">
+                            <TableCell>
+                                {budget.status && (
+                                    <Badge
+                                        variant={STATUS_BADGE_VARIANTS[budget.status]}
+                                        title={budget.review ? `${budget.review.reviewer}, ${budget.review.reviewed_at}${budget.review.comment ? `: ${budget.review.comment}` : ''}` : undefined}
+                                    >
+                                        {BUDGET_STATUSES[budget.status]}
+                                    </Badge>
+                                )}
+                                {budget.pending_change_id && (
+                                    <div className="text-xs text-muted-foreground whitespace-nowrap mt-1">Change pending</div>
+                                )}
+                            </TableCell>
+                            <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                {(budget.status === 'draft' || budget.status === 'rejected') && (
+                                    <Button variant="ghost" size="icon" aria-label={`Submit budget entry ${budget.description} for approval`} title="Submit for approval" onClick={() => handleSubmitForApproval(budget.id)}>
+                                        <Send className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                {budget.pending_change_id && (
+                                    <Button variant="ghost" size="icon" aria-label={`Withdraw the pending change of ${budget.description}`} title="Withdraw pending change" onClick={() => handleWithdrawChange(budget.pending_change_id!)}>
+                                        <Undo2 className="h-4 w-4" />
+                                    </Button>
+                                )}
                                 {/* Edit Button */}
                                 <Link href={`/budgets/${budget.id}/edit`} passHref>
                                     <Button variant="ghost" size="icon" aria-label={`Edit budget entry ${budget.description}`}>
                                         <Pencil className="h-4 w-4" />
                                     </Button>
                                 </Link>
-                                {/* Delete Button with Confirmation */}
+                                {/* Delete Button with Confirmation; deleting an approved entry goes through review */}
                                 <ConfirmDialog
                                     trigger={
                                         <Button variant="ghost" size="icon" aria-label={`Delete budget entry ${budget.description}`} className="text-destructive hover:text-destructive/80">
@@ -97,8 +144,10 @@ export function BudgetTable({ budgets }: BudgetTableProps) {
                                         </Button>
                                     }
                                     title="Are you sure?"
-                                    description={`This action cannot be undone. This will permanently delete the budget entry: "${budget.description}".`}
-                                    confirmText="Delete"
+                                    description={budget.status === 'approved'
+                                        ? `"${budget.description}" is approved, so its deletion goes to the review queue. The entry stays in effect until the deletion is approved.`
+                                        : `This action cannot be undone. This will permanently delete the budget entry: "${budget.description}".`}
+                                    confirmText={budget.status === 'approved' ? 'Submit deletion' : 'Delete'}
                                     onConfirm={() => handleDelete(budget.id)}
                                     confirmVariant='destructive'
                                 />
@@ -0,0 +1,237 @@
+"use client";
+
+import * as React from 'react';
+import type { BudgetVersion, BudgetVersionKind } from '@/types';
+import { BUDGET_VERSION_KINDS } from '@/lib/budget-versions';
+import { cloneBudgetVersion, deleteBudgetVersion, saveBudgetVersion, setDefaultBudgetVersion } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Copy, Pencil, Star, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+
+interface BudgetVersionManagerProps {
+    versions: BudgetVersion[];
+}
+
+const EMPTY = '__EMPTY__'; // "Start from" value for a version without budget entries
+
+export function BudgetVersionManager({ versions }: BudgetVersionManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [name, setName] = React.useState('');
+    const [kind, setKind] = React.useState<BudgetVersionKind>('reforecast');
+    const [description, setDescription] = React.useState('');
+    const [sourceId, setSourceId] = React.useState(EMPTY); // Version to clone when adding
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        setName('');
+        setKind('reforecast');
+        setDescription('');
+        setSourceId(EMPTY);
+    };
+
+    const startEdit = (version: BudgetVersion) => {
+        setEditingId(version.id);
+        setName(version.name);
+        setKind(version.kind);
+        setDescription(version.description ?? '');
+        setSourceId(EMPTY);
+    };
+
+    const startClone = (version: BudgetVersion) => {
+        startNew();
+        setName(`${version.name} (copy)`);
+        setSourceId(String(version.id));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const values = { name, kind, description };
+        const result = editingId === null && sourceId !== EMPTY
+            ? await cloneBudgetVersion(parseInt(sourceId, 10), values)
+            : await saveBudgetVersion(editingId, values);
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleSetDefault = async (id: number) => {
+        const result = await setDefaultBudgetVersion(id);
+        showResult(result);
+        if (result.success) router.refresh();
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteBudgetVersion(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Budget Version' : 'Edit Budget Version'}</CardTitle>
+                    <CardDescription>{BUDGET_VERSION_KINDS[kind].description}</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="version-name">Name</Label>
+                            <Input id="version-name" placeholder="e.g., Q2 Reforecast" value={name} onChange={(e) => setName(e.target.value)} />
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="version-kind">Kind</Label>
+                            <Select value={kind} onValueChange={(value: BudgetVersionKind) => setKind(value)}>
+                                <SelectTrigger id="version-kind">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(BUDGET_VERSION_KINDS) as BudgetVersionKind[]).map(key => (
+                                        <SelectItem key={key} value={key}>{BUDGET_VERSION_KINDS[key].label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="version-description">Description (optional)</Label>
+                        <Textarea id="version-description" placeholder="What changed compared with the plan" value={description} onChange={(e) => setDescription(e.target.value)} />
+                    </div>
+                    {editingId === null && (
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="version-source">Start From</Label>
+                            <Select value={sourceId} onValueChange={setSourceId}>
+                                <SelectTrigger id="version-source">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={EMPTY}>No budget entries</SelectItem>
+                                    {versions.map(version => (
+                                        <SelectItem key={version.id} value={String(version.id)}>Copy of {version.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                                A copy starts with every budget entry of the source version, which can then be edited or re-imported on its own.
+                            </p>
+                        </div>
+                    )}
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Version' : 'Update Version')}
+                    </Button>
+                    {(editingId !== null || sourceId !== EMPTY) && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader>
+                    <CardTitle>Budget Versions</CardTitle>
+                    <CardDescription>
+                        The default version is shown on the dashboard and checked by alert rules. Compare versions with each other on the Charts and Variance pages.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Kind</TableHead>
+                                    <TableHead>Copied From</TableHead>
+                                    <TableHead className="text-right">Entries</TableHead>
+                                    <TableHead>Created</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {versions.map(version => (
+                                    <TableRow key={version.id}>
+                                        <TableCell className="font-medium">
+                                            <Link href={`/budgets?version=${version.id}`} className="underline">{version.name}</Link>
+                                            {version.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                                            {version.description && (
+                                                <div className="text-xs text-muted-foreground max-w-xs truncate" title={version.description}>{version.description}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>{BUDGET_VERSION_KINDS[version.kind].label}</TableCell>
+                                        <TableCell>{version.cloned_from_name ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                                        <TableCell className="text-right">{version.budget_count ?? 0}</TableCell>
+                                        <TableCell className="whitespace-nowrap">{version.created_at}</TableCell>
+                                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                            {!version.is_default && (
+                                                <Button variant="ghost" size="icon" aria-label="Make Default Version" title="Make default" onClick={() => handleSetDefault(version.id)}>
+                                                    <Star className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                            <Button variant="ghost" size="icon" aria-label="Copy Budget Version" title="Copy" onClick={() => startClone(version)}>
+                                                <Copy className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" aria-label="Edit Budget Version" onClick={() => startEdit(version)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            {!version.is_default && (
+                                                <ConfirmDialog
+                                                    trigger={
+                                                        <Button variant="ghost" size="icon" aria-label="Delete Budget Version" className="text-destructive hover:text-destructive/80">
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </Button>
+                                                    }
+                                                    title={`Delete the budget version '${version.name}'?`}
+                                                    description={`Its ${version.budget_count ?? 0} budget entries are deleted with it. This action cannot be undone.`}
+                                                    confirmText="Delete"
+                                                    onConfirm={() => handleDelete(version.id)}
+                                                    confirmVariant='destructive'
+                                                />
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,23 +1,26 @@
 
 "use client";
 
-import type { BusinessLine } from '@/types';
+import type { BusinessLine, User } from '@/types';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from '@/hooks/use-toast';
 import type { FormEvent } from 'react';
 import { useEffect } from 'react'; // Import useEffect
 
 const businessLineSchema = z.object({
   name: z.string().min(1, 'Business line name cannot be empty'),
+  budget_owner_id: z.string(), // 'none' without a budget owner
 });
 
 interface BusinessLineFormProps {
   initialData?: BusinessLine | null;
+  budgetOwners: Pick<User, 'id' | 'name' | 'email'>[]; // Users who can be made the budget owner
   onSubmit: (formData: FormData) => Promise<{ success: boolean; message: string }>;
   onCancel?: () => void; // Optional cancel handler
   submitButtonText?: string;
@@ -25,6 +28,7 @@ interface BusinessLineFormProps {
 
 export function BusinessLineForm({
   initialData,
+  budgetOwners,
   onSubmit,
   onCancel,
   submitButtonText = initialData ? 'Update Business Line' : 'Add Business Line'
@@ -34,6 +38,7 @@ export function BusinessLineForm({
     resolver: zodResolver(businessLineSchema),
     defaultValues: {
       name: initialData?.name || '',
+      budget_owner_id: initialData?.budget_owner_id ? String(initialData.budget_owner_id) : 'none',
     },
   });
 
@@ -42,13 +47,14 @@ export function BusinessLineForm({
 
    // Effect to reset form when initialData changes (e.g., when opening edit dialog)
    useEffect(() => {
-       reset({ name: initialData?.name || '' });
+       reset({ name: initialData?.name || '', budget_owner_id: initialData?.budget_owner_id ? String(initialData.budget_owner_id) : 'none' });
    }, [initialData, reset]);
 
 
   const handleFormSubmit = async (data: z.infer<typeof businessLineSchema>) => {
     const formData = new FormData();
     formData.append('name', data.name);
+    formData.append('budget_owner_id', data.budget_owner_id === 'none' ? '' : data.budget_owner_id);
 
     const result = await onSubmit(formData);
 
@@ -61,7 +67,7 @@ export function BusinessLineForm({
     if (result.success) {
         // For adding, reset to empty. For editing, call onCancel which should close the dialog.
         if (!initialData) {
-           reset({ name: '' });
+           reset({ name: '', budget_owner_id: 'none' });
         }
         onCancel?.(); // Call cancel handler (e.g., close dialog)
     }
@@ -83,6 +89,30 @@ export function BusinessLineForm({
             </FormItem>
           )}
         />
+        <FormField
+          control={control}
+          name="budget_owner_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Budget Owner (optional)</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="No budget owner" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">-- No budget owner --</SelectItem>
+                  {budgetOwners.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name} ({user.email})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>User who approves budget entries and changes of this business line. Without an owner, any user allowed to review budgets can approve them.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         <div className="flex justify-end space-x-2">
            {onCancel && (
                 <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
@@ -2,7 +2,7 @@
 "use client";
 
 import * as React from 'react';
-import type { BusinessLine } from '@/types';
+import type { BusinessLine, User } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Pencil, Trash2 } from 'lucide-react';
 import { deleteBusinessLine, updateBusinessLine } from '@/app/actions';
@@ -17,9 +17,10 @@ import { Separator } from '@/components/ui/separator';
 
 interface BusinessLineListProps {
   businessLines: BusinessLine[];
+  budgetOwners: Pick<User, 'id' | 'name' | 'email'>[];
 }
 
-export function BusinessLineList({ businessLines }: BusinessLineListProps) {
+export function BusinessLineList({ businessLines, budgetOwners }: BusinessLineListProps) {
   const { toast } = useToast();
   const router = useRouter();
   const [editingLine, setEditingLine] = React.useState<BusinessLine | null>(null);
@@ -77,7 +78,10 @@ export function BusinessLineList({ businessLines }: BusinessLineListProps) {
                 <ul className="space-y-2">
                     {businessLines.map((line) => (
                         <li key={line.id} className="flex items-center justify-between p-2 border rounded-md hover:bg-muted/50 transition-colors">
-                            <span className="font-medium">{line.name}</span>
+                            <div>
+                                <span className="font-medium">{line.name}</span>
+                                {line.budget_owner && <span className="ml-2 text-sm text-muted-foreground">Budget owner: {line.budget_owner}</span>}
+                            </div>
                             <div className="space-x-1">
                                 <Button variant="ghost" size="icon" aria-label="Edit Business Line" onClick={() => handleEdit(line)}>
                                     <Pencil className="h-4 w-4" />
@@ -104,11 +108,12 @@ export function BusinessLineList({ businessLines }: BusinessLineListProps) {
                  <DialogContent>
                      <DialogHeader>
                          <DialogTitle>Edit Business Line</DialogTitle>
-                         <DialogDescription>Update the name for this business line.</DialogDescription>
+                         <DialogDescription>Update the name and budget owner of this business line.</DialogDescription>
                      </DialogHeader>
                      {editingLine && (
                          <BusinessLineForm
                              initialData={editingLine}
+                             budgetOwners={budgetOwners}
                              onSubmit={handleUpdateSubmit} // Pass the wrapped function
                              onCancel={handleCloseDialog}
                              submitButtonText="Update Business Line" // Explicitly set text for edit form
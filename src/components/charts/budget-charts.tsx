@@ -2,7 +2,7 @@
 
 "use client";
 
-import type { ChartItem, ChartData, GroupedChartData, TimeSeriesChartData, BudgetExpenseComparisonChartData } from '@/types'; // Import ChartItem and new comparison type
+import type { ChartItem, ForecastMethod, ChartData, GroupedChartData, TimeSeriesChartData, BudgetExpenseComparisonChartData } from '@/types'; // Import ChartItem and new comparison type
 import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, ComposedChart } from 'recharts'; // Added ComposedChart
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import * as React from "react";
@@ -10,9 +10,16 @@ import { useTheme } from 'next-themes';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'; // Import Select
+import { formatCompactCurrency, formatCurrency } from '@/lib/currency';
+import { DEFAULT_FORECAST_METHOD, FORECAST_METHODS, forecastSpend } from '@/lib/forecast';
+import { formatMonth, remainingFiscalYear } from '@/lib/variance';
 
 interface BudgetChartsProps {
     chartData: ChartItem[]; // Accept the combined ChartItem array
+    currency: string; // Reporting currency the chart amounts are in
+    fiscalYearStartMonth: number; // The monthly comparison forecasts the rest of the fiscal year
+    comparisonData?: ChartItem[]; // Budget items of another budget version, drawn next to the budget
+    comparisonName?: string; // Name of that version, for the legend
 }
 
 // Define consistent colors using CSS variables from globals.css
@@ -21,6 +28,8 @@ const COLORS = {
     OPEX: 'hsl(var(--chart-2))', // Accent Teal for OPEX
     Budget: 'hsl(var(--chart-3))', // Light Blue for Budget
     Expense: 'hsl(var(--chart-4))', // Orange for Expense
+    Forecast: 'hsl(var(--chart-4))', // Same as Expense, drawn dashed
+    Comparison: 'hsl(var(--chart-5))', // Budget of the compared version
     // Add more colors if needed for other charts using chart-5 etc.
     color5: 'hsl(var(--chart-5))',
 };
@@ -44,7 +53,7 @@ const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, per
     );
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   const { resolvedTheme } = useTheme();
   const tooltipBg = resolvedTheme === 'dark' ? 'hsl(var(--popover))' : 'hsl(var(--popover))';
   const tooltipText = resolvedTheme === 'dark' ? 'hsl(var(--popover-foreground))' : 'hsl(var(--popover-foreground))';
@@ -52,15 +61,13 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
 
   if (active && payload && payload.length) {
-    const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
-
     return (
       <div className="rounded-lg border p-2 shadow-sm" style={{ backgroundColor: tooltipBg, color: tooltipText, borderColor: tooltipBorder }}>
         <p className="font-bold mb-1">{label}</p>
-        {payload.map((entry: any, index: number) => (
+        {payload.filter((entry: any) => entry.value !== null && entry.value !== undefined).map((entry: any, index: number) => (
           <p key={`item-${index}`} style={{ color: entry.stroke || entry.color || entry.payload?.fill || tooltipText }} className="text-sm">
             {/* Check for payload 'source' if available for differentiation */}
-             {`${entry.name}: ${formatCurrency(entry.value)}`}
+             {`${entry.name}: ${formatCurrency(entry.value, currency)}`}
           </p>
         ))}
       </div>
@@ -71,13 +78,14 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 };
 
 
-export function BudgetCharts({ chartData }: BudgetChartsProps) {
+export function BudgetCharts({ chartData, currency, fiscalYearStartMonth, comparisonData = [], comparisonName }: BudgetChartsProps) {
     const { resolvedTheme } = useTheme();
     const tickColor = resolvedTheme === 'dark' ? 'hsl(var(--muted-foreground))' : 'hsl(var(--muted-foreground))';
     const [trendViewType, setTrendViewType] = React.useState<'CAPEX' | 'OPEX'>('OPEX');
     const [comparisonGroupBy, setComparisonGroupBy] = React.useState<'business_line_name' | 'cost_center_name'>('business_line_name'); // State for comparison grouping
     const [selectedMonthlyBlFilter, setSelectedMonthlyBlFilter] = React.useState<string>('__ALL__'); // State for monthly comparison BL filter
     const [selectedMonthlyTypeFilter, setSelectedMonthlyTypeFilter] = React.useState<'ALL' | 'CAPEX' | 'OPEX'>('ALL'); // State for monthly comparison Type filter
+    const [monthlyForecastMethod, setMonthlyForecastMethod] = React.useState<ForecastMethod | '__NONE__'>(DEFAULT_FORECAST_METHOD); // Forecast continuing the monthly comparison
     const [categoryComparisonTypeFilter, setCategoryComparisonTypeFilter] = React.useState<'ALL' | 'CAPEX' | 'OPEX'>('ALL'); // NEW State for category comparison Type filter
 
     // --- Data Processing ---
@@ -101,15 +109,30 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
         }, [{ name: 'CAPEX', value: 0 }, { name: 'OPEX', value: 0 }]).filter(d => d.value > 0);
     }, [chartData]);
 
-    // 2. Budget vs Expense by Month (Composed Chart) - Now with filtering by BL and Type
+    // Latest month with expenses: forecasts start after it, so they only change when the data does
+    const lastActualMonth = React.useMemo(() => {
+        return chartData
+            .filter(item => item.source === 'Expense')
+            .reduce<{ year: number; month: number } | null>((latest, item) =>
+                !latest || item.year * 12 + item.month > latest.year * 12 + latest.month ? { year: item.year, month: item.month } : latest,
+                null
+            );
+    }, [chartData]);
+
+    const forecastRange = React.useMemo(() => {
+        return lastActualMonth ? remainingFiscalYear(lastActualMonth, fiscalYearStartMonth) : null;
+    }, [lastActualMonth, fiscalYearStartMonth]);
+
+    // 2. Budget vs Expense by Month (Composed Chart) - Now with filtering by BL and Type, and the expense forecast
+    // for the rest of the fiscal year
     const monthlyComparisonData = React.useMemo(() => {
-        const monthlyData: Record<string, { monthYear: string; Budget: number; Expense: number }> = {};
+        const monthlyData: Record<string, { monthYear: string; Budget: number; Expense: number | null; Forecast?: number; Comparison?: number }> = {};
 
         // Filter data based on selected Business Line and Type
-        const filteredData = chartData.filter(item =>
+        const matchesFilter = (item: ChartItem) =>
             (selectedMonthlyBlFilter === '__ALL__' || item.business_line_name === selectedMonthlyBlFilter) &&
-            (selectedMonthlyTypeFilter === 'ALL' || item.type === selectedMonthlyTypeFilter)
-        );
+            (selectedMonthlyTypeFilter === 'ALL' || item.type === selectedMonthlyTypeFilter);
+        const filteredData = chartData.filter(matchesFilter);
 
         filteredData.forEach(item => {
             const monthYear = `${item.year}-${String(item.month).padStart(2, '0')}`;
@@ -119,30 +142,61 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
             if (item.source === 'Budget') {
                 monthlyData[monthYear].Budget += item.amount;
             } else { // source === 'Expense'
-                monthlyData[monthYear].Expense += item.amount;
+                monthlyData[monthYear].Expense = (monthlyData[monthYear].Expense ?? 0) + item.amount;
+            }
+        });
+
+        comparisonData.filter(matchesFilter).forEach(item => {
+            const monthYear = `${item.year}-${String(item.month).padStart(2, '0')}`;
+            if (!monthlyData[monthYear]) {
+                monthlyData[monthYear] = { monthYear, Budget: 0, Expense: 0 };
             }
+            monthlyData[monthYear].Comparison = (monthlyData[monthYear].Comparison ?? 0) + item.amount;
         });
 
+        if (monthlyForecastMethod !== '__NONE__' && lastActualMonth && forecastRange) {
+            const history = filteredData
+                .filter(item => item.source === 'Expense')
+                .map(({ year, month, type, business_line_name, cost_center_name, amount }) => ({ year, month, type, business_line_name, cost_center_name, amount }));
+            const forecast = forecastSpend(history, lastActualMonth, forecastRange, monthlyForecastMethod);
+            const lastActualKey = `${lastActualMonth.year}-${String(lastActualMonth.month).padStart(2, '0')}`;
+            forecast.forEach(item => {
+                const monthYear = `${item.year}-${String(item.month).padStart(2, '0')}`;
+                if (!monthlyData[monthYear]) {
+                    monthlyData[monthYear] = { monthYear, Budget: 0, Expense: null };
+                }
+                monthlyData[monthYear].Forecast = (monthlyData[monthYear].Forecast ?? 0) + item.amount;
+            });
+            Object.values(monthlyData).forEach(data => {
+                if (data.monthYear > lastActualKey) {
+                    // No actuals yet: the expense line stops where the dashed forecast takes over
+                    data.Expense = null;
+                    data.Forecast = Math.round((data.Forecast ?? 0) * 100) / 100;
+                } else if (data.monthYear === lastActualKey) {
+                    data.Forecast = data.Expense ?? 0; // Joins the forecast to the last actual month
+                }
+            });
+        }
+
         // Convert to array and sort by monthYear
         return Object.values(monthlyData).sort((a, b) => a.monthYear.localeCompare(b.monthYear));
-    }, [chartData, selectedMonthlyBlFilter, selectedMonthlyTypeFilter]); // Add filter states as dependencies
+    }, [chartData, comparisonData, selectedMonthlyBlFilter, selectedMonthlyTypeFilter, monthlyForecastMethod, lastActualMonth, forecastRange]); // Add filter states as dependencies
 
 
     // 3. Budget vs Expense by Category (Business Line or Cost Center) - Now with filtering by Type
     const categoryComparisonData = React.useMemo(() => {
-        const categoryData: Record<string, { group: string; Budget: number; Expense: number }> = {};
+        const categoryData: Record<string, { group: string; Budget: number; Expense: number; Comparison: number }> = {};
 
         // Filter by selected Type first
-        const filteredData = chartData.filter(item =>
-            categoryComparisonTypeFilter === 'ALL' || item.type === categoryComparisonTypeFilter
-        );
+        const matchesFilter = (item: ChartItem) => categoryComparisonTypeFilter === 'ALL' || item.type === categoryComparisonTypeFilter;
+        const filteredData = chartData.filter(matchesFilter);
 
         filteredData.forEach(item => {
              // Use the selected grouping key
              const groupName = item[comparisonGroupBy] || 'Unassigned';
 
              if (!categoryData[groupName]) {
-                 categoryData[groupName] = { group: groupName, Budget: 0, Expense: 0 };
+                 categoryData[groupName] = { group: groupName, Budget: 0, Expense: 0, Comparison: 0 };
              }
 
              if (item.source === 'Budget') {
@@ -152,9 +206,17 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
              }
          });
 
+         comparisonData.filter(matchesFilter).forEach(item => {
+             const groupName = item[comparisonGroupBy] || 'Unassigned';
+             if (!categoryData[groupName]) {
+                 categoryData[groupName] = { group: groupName, Budget: 0, Expense: 0, Comparison: 0 };
+             }
+             categoryData[groupName].Comparison += item.amount;
+         });
+
          return Object.values(categoryData);
 
-    }, [chartData, comparisonGroupBy, categoryComparisonTypeFilter]); // Add categoryComparisonTypeFilter dependency
+    }, [chartData, comparisonData, comparisonGroupBy, categoryComparisonTypeFilter]); // Add categoryComparisonTypeFilter dependency
 
 
     // 4. Budget Trend by Business Line over Time (Existing, but needs filtering by source)
@@ -221,7 +283,7 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                                         <Cell key={`cell-${index}`} fill={entry.name === 'CAPEX' ? COLORS.CAPEX : COLORS.OPEX} />
                                     ))}
                                 </Pie>
-                                 <Tooltip content={<CustomTooltip />} />
+                                 <Tooltip content={<CustomTooltip currency={currency} />} />
                                  <Legend />
                             </PieChart>
                         </ResponsiveContainer>
@@ -239,8 +301,10 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                          <CardTitle>Budget vs. Expense Trend by Month</CardTitle>
                          <CardDescription>
                              Comparison of planned budget vs. actual expenses over time.
+                             {comparisonName && ` Line: budget of ${comparisonName}.`}
                              {selectedMonthlyBlFilter !== '__ALL__' && ` Filtered by: ${selectedMonthlyBlFilter}.`}
                              {selectedMonthlyTypeFilter !== 'ALL' && ` Type: ${selectedMonthlyTypeFilter}.`}
+                             {monthlyForecastMethod !== '__NONE__' && forecastRange && ` Dashed: ${FORECAST_METHODS[monthlyForecastMethod].label.toLowerCase()} forecast of expenses from ${formatMonth(forecastRange.start.year, forecastRange.start.month)} to ${formatMonth(forecastRange.end.year, forecastRange.end.month)}.`}
                          </CardDescription>
                      </div>
                      {/* Filters */}
@@ -270,6 +334,20 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                                  <SelectItem value="OPEX">OPEX</SelectItem>
                              </SelectContent>
                          </Select>
+                          {/* Forecast Method */}
+                         <Select value={monthlyForecastMethod} onValueChange={(value: ForecastMethod | '__NONE__') => setMonthlyForecastMethod(value)}>
+                             <SelectTrigger className="w-full sm:w-[170px]">
+                                 <SelectValue placeholder="Forecast..." />
+                             </SelectTrigger>
+                             <SelectContent>
+                                 <SelectItem value="__NONE__">No Forecast</SelectItem>
+                                 {(Object.keys(FORECAST_METHODS) as ForecastMethod[]).map(method => (
+                                     <SelectItem key={method} value={method}>
+                                         {FORECAST_METHODS[method].label}
+                                     </SelectItem>
+                                 ))}
+                             </SelectContent>
+                         </Select>
                      </div>
                  </CardHeader>
                  <CardContent className="h-[350px] w-full pt-0"> {/* Removed pt-4 */}
@@ -279,11 +357,17 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                              <ComposedChart data={monthlyComparisonData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
                                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                                  <XAxis dataKey="monthYear" stroke={tickColor} fontSize={12} />
-                                 <YAxis stroke={tickColor} fontSize={12} tickFormatter={(value) => `$${value / 1000}k`} />
-                                 <Tooltip content={<CustomTooltip />} />
+                                 <YAxis stroke={tickColor} fontSize={12} tickFormatter={(value) => formatCompactCurrency(value, currency)} />
+                                 <Tooltip content={<CustomTooltip currency={currency} />} />
                                  <Legend />
                                  <Bar dataKey="Budget" fill={COLORS.Budget} barSize={20} radius={[4, 4, 0, 0]} />
                                  <Line type="monotone" dataKey="Expense" stroke={COLORS.Expense} strokeWidth={2} dot={false} />
+                                 {comparisonName && (
+                                     <Line type="monotone" dataKey="Comparison" name={comparisonName} stroke={COLORS.Comparison} strokeWidth={2} dot={false} />
+                                 )}
+                                 {monthlyForecastMethod !== '__NONE__' && forecastRange && (
+                                     <Line type="monotone" dataKey="Forecast" stroke={COLORS.Forecast} strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                                 )}
                              </ComposedChart>
                          </ResponsiveContainer>
                      ) : (
@@ -300,6 +384,7 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                          <CardTitle>Budget vs. Expense by Category</CardTitle>
                          <CardDescription>
                              Comparison grouped by Business Line or Cost Center.
+                             {comparisonName && ` Includes the budget of ${comparisonName}.`}
                              {categoryComparisonTypeFilter !== 'ALL' && ` Type: ${categoryComparisonTypeFilter}.`}
                          </CardDescription>
                      </div>
@@ -333,13 +418,16 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                          <ResponsiveContainer width="100%" height="100%">
                              <BarChart data={categoryComparisonData} layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
                                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))"/>
-                                 <XAxis type="number" stroke={tickColor} fontSize={12} tickFormatter={(value) => `$${value / 1000}k`}/>
+                                 <XAxis type="number" stroke={tickColor} fontSize={12} tickFormatter={(value) => formatCompactCurrency(value, currency)}/>
                                  {/* Adjust width for longer labels potentially */}
                                  <YAxis dataKey="group" type="category" stroke={tickColor} fontSize={12} width={120} interval={0} />
-                                 <Tooltip content={<CustomTooltip />} cursor={{ fill: 'hsl(var(--accent)/0.1)' }}/>
+                                 <Tooltip content={<CustomTooltip currency={currency} />} cursor={{ fill: 'hsl(var(--accent)/0.1)' }}/>
                                 <Legend />
                                 <Bar dataKey="Budget" fill={COLORS.Budget} radius={[0, 4, 4, 0]} />
                                 <Bar dataKey="Expense" fill={COLORS.Expense} radius={[4, 0, 0, 4]}/>
+                                {comparisonName && (
+                                    <Bar dataKey="Comparison" name={comparisonName} fill={COLORS.Comparison} radius={[0, 4, 4, 0]} />
+                                )}
                             </BarChart>
                         </ResponsiveContainer>
                      ) : (
@@ -377,8 +465,8 @@ export function BudgetCharts({ chartData }: BudgetChartsProps) {
                              <LineChart data={timeSeriesData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
                                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))"/>
                                 <XAxis dataKey="monthYear" stroke={tickColor} fontSize={12} />
-                                <YAxis stroke={tickColor} fontSize={12} tickFormatter={(value) => `$${value / 1000}k`} />
-                                <Tooltip content={<CustomTooltip />} />
+                                <YAxis stroke={tickColor} fontSize={12} tickFormatter={(value) => formatCompactCurrency(value, currency)} />
+                                <Tooltip content={<CustomTooltip currency={currency} />} />
                                 <Legend />
                                 {allBusinessLines.map((blName, index) => (
                                     <Line
@@ -0,0 +1,73 @@
+"use client";
+
+import type { BudgetVersion } from '@/types';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRouter } from 'next/navigation';
+
+interface ChartVersionPickerProps {
+    versions: BudgetVersion[];
+    versionId: number;
+    compareVersionId: number | null;
+    includeUnapproved: boolean;
+}
+
+const NONE = '__NONE__';
+
+// Picks the budget version the charts show and, optionally, a second version drawn next to it
+export function ChartVersionPicker({ versions, versionId, compareVersionId, includeUnapproved }: ChartVersionPickerProps) {
+    const router = useRouter();
+
+    const navigate = (version: number, compare: number | null, unapproved = includeUnapproved) => {
+        const params = new URLSearchParams({ version: String(version) });
+        if (compare !== null && compare !== version) params.set('compare', String(compare));
+        if (unapproved) params.set('unapproved', '1');
+        router.push(`/charts?${params.toString()}`);
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-4">
+            <div className="grid items-center gap-1.5">
+                <Label htmlFor="chart-version">Budget Version</Label>
+                <Select value={String(versionId)} onValueChange={(value) => navigate(parseInt(value, 10), compareVersionId)}>
+                    <SelectTrigger id="chart-version" className="w-full sm:w-[220px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {versions.map(version => (
+                            <SelectItem key={version.id} value={String(version.id)}>
+                                {version.name}{version.is_default ? ' (default)' : ''}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="grid items-center gap-1.5">
+                <Label htmlFor="chart-compare">Compare With</Label>
+                <Select
+                    value={compareVersionId === null ? NONE : String(compareVersionId)}
+                    onValueChange={(value) => navigate(versionId, value === NONE ? null : parseInt(value, 10))}
+                >
+                    <SelectTrigger id="chart-compare" className="w-full sm:w-[220px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NONE}>No other version</SelectItem>
+                        {versions.filter(version => version.id !== versionId).map(version => (
+                            <SelectItem key={version.id} value={String(version.id)}>{version.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="flex items-center gap-2 sm:pt-6">
+                <Switch
+                    id="chart-unapproved"
+                    checked={includeUnapproved}
+                    onCheckedChange={(checked) => navigate(versionId, compareVersionId, checked)}
+                />
+                <Label htmlFor="chart-unapproved">Include budgets not approved yet</Label>
+            </div>
+        </div>
+    );
+}
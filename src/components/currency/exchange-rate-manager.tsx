@@ -0,0 +1,281 @@
+"use client";
+
+import * as React from 'react';
+import type { ExchangeRate } from '@/types';
+import { currencyOptions } from '@/lib/currency';
+import { deleteExchangeRate, importExchangeRates, saveExchangeRate, setReportingCurrency } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, Trash2, Upload } from 'lucide-react';
+
+interface ExchangeRateManagerProps {
+    rates: ExchangeRate[];
+    reportingCurrency: string;
+    currenciesInUse: string[]; // Currencies of existing budgets/expenses, offered even if not in the common list
+}
+
+export function ExchangeRateManager({ rates, reportingCurrency, currenciesInUse }: ExchangeRateManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    const options = currencyOptions(reportingCurrency, ...currenciesInUse);
+
+    const [selectedReportingCurrency, setSelectedReportingCurrency] = React.useState(reportingCurrency);
+    const [isSavingSetting, setIsSavingSetting] = React.useState(false);
+
+    const today = new Date();
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [year, setYear] = React.useState(String(today.getFullYear()));
+    const [month, setMonth] = React.useState(String(today.getMonth() + 1));
+    // Rates are usually entered into the reporting currency
+    const [fromCurrency, setFromCurrency] = React.useState(options.find(code => code !== reportingCurrency) ?? '');
+    const [toCurrency, setToCurrency] = React.useState(reportingCurrency);
+    const [rate, setRate] = React.useState('');
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [isImporting, setIsImporting] = React.useState(false);
+
+    React.useEffect(() => {
+        setSelectedReportingCurrency(reportingCurrency);
+    }, [reportingCurrency]);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const handleSaveReportingCurrency = async () => {
+        setIsSavingSetting(true);
+        const result = await setReportingCurrency(selectedReportingCurrency);
+        showResult(result);
+        if (result.success) router.refresh();
+        setIsSavingSetting(false);
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        // Keep period and currencies: rates are usually entered for several months of the same pair
+        setRate('');
+    };
+
+    const startEdit = (exchangeRate: ExchangeRate) => {
+        setEditingId(exchangeRate.id);
+        setYear(String(exchangeRate.year));
+        setMonth(String(exchangeRate.month));
+        setFromCurrency(exchangeRate.from_currency);
+        setToCurrency(exchangeRate.to_currency);
+        setRate(String(exchangeRate.rate));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveExchangeRate(editingId, {
+            year: parseInt(year, 10),
+            month: parseInt(month, 10),
+            from_currency: fromCurrency,
+            to_currency: toCurrency,
+            rate: parseFloat(rate.replace(/,/g, '')),
+        });
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteExchangeRate(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    const handleImport = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const form = event.currentTarget;
+        setIsImporting(true);
+        const result = await importExchangeRates(new FormData(form));
+        showResult(result);
+        if (result.success) {
+            form.reset();
+            router.refresh();
+        }
+        setIsImporting(false);
+    };
+
+    const currencySelect = (id: string, value: string, onChange: (value: string) => void) => (
+        <Select value={value} onValueChange={onChange}>
+            <SelectTrigger id={id}>
+                <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+                {options.map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Reporting Currency</CardTitle>
+                    <CardDescription>
+                        Dashboard totals, charts and CSV exports convert every budget and expense into this currency,
+                        using the exchange rate of the entry&apos;s month.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex items-end gap-4">
+                    <div className="grid items-center gap-1.5 w-40">
+                        <Label htmlFor="reporting-currency">Currency</Label>
+                        {currencySelect('reporting-currency', selectedReportingCurrency, setSelectedReportingCurrency)}
+                    </div>
+                    <Button onClick={handleSaveReportingCurrency} disabled={isSavingSetting || selectedReportingCurrency === reportingCurrency}>
+                        {isSavingSetting ? 'Saving...' : 'Save'}
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{editingId === null ? 'New Exchange Rate' : 'Edit Exchange Rate'}</CardTitle>
+                        <CardDescription>
+                            How many units of the To currency one unit of the From currency buys in that month.
+                            Months without a rate use the latest earlier one; a rate entered the other way round is inverted.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="grid gap-4 grid-cols-2">
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rate-year">Year</Label>
+                            <Input id="rate-year" inputMode="numeric" placeholder="YYYY" value={year} onChange={(e) => setYear(e.target.value)} />
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rate-month">Month</Label>
+                            <Input id="rate-month" inputMode="numeric" placeholder="MM" value={month} onChange={(e) => setMonth(e.target.value)} />
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rate-from">From</Label>
+                            {currencySelect('rate-from', fromCurrency, setFromCurrency)}
+                        </div>
+                        <div className="grid items-center gap-1.5">
+                            <Label htmlFor="rate-to">To</Label>
+                            {currencySelect('rate-to', toCurrency, setToCurrency)}
+                        </div>
+                        <div className="grid items-center gap-1.5 col-span-2">
+                            <Label htmlFor="rate-value">Rate</Label>
+                            <Input id="rate-value" inputMode="decimal" placeholder="e.g., 1.0845" value={rate} onChange={(e) => setRate(e.target.value)} />
+                        </div>
+                    </CardContent>
+                    <CardFooter className="flex justify-between">
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isSaving ? 'Saving...' : (editingId === null ? 'Add Rate' : 'Update Rate')}
+                        </Button>
+                        {editingId !== null && (
+                            <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                                Cancel
+                            </Button>
+                        )}
+                    </CardFooter>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Import Rates from CSV</CardTitle>
+                        <CardDescription>
+                            One rate per row with the columns Year, Month, From, To and Rate. Rates that already exist for the same
+                            month and currency pair are overwritten. Nothing is imported if any row is invalid.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <form onSubmit={handleImport} className="space-y-4">
+                            <div className="grid items-center gap-1.5">
+                                <Label htmlFor="rates-file">CSV File</Label>
+                                <Input id="rates-file" name="file" type="file" accept=".csv" required disabled={isImporting} />
+                            </div>
+                            <Button type="submit" disabled={isImporting}>
+                                <Upload className="mr-2 h-4 w-4" />
+                                {isImporting ? 'Importing...' : 'Import Rates'}
+                            </Button>
+                        </form>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Exchange Rates</CardTitle>
+                    <CardDescription>Newest months first.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Month</TableHead>
+                                    <TableHead>From</TableHead>
+                                    <TableHead>To</TableHead>
+                                    <TableHead>Rate</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rates.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
+                                            No exchange rates yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {rates.map(exchangeRate => (
+                                    <TableRow key={exchangeRate.id}>
+                                        <TableCell>{`${String(exchangeRate.month).padStart(2, '0')}/${exchangeRate.year}`}</TableCell>
+                                        <TableCell className="font-medium">{exchangeRate.from_currency}</TableCell>
+                                        <TableCell className="font-medium">{exchangeRate.to_currency}</TableCell>
+                                        <TableCell>{exchangeRate.rate}</TableCell>
+                                        <TableCell className="text-right space-x-1">
+                                            <Button variant="ghost" size="icon" aria-label="Edit Exchange Rate" onClick={() => startEdit(exchangeRate)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <ConfirmDialog
+                                                trigger={
+                                                    <Button variant="ghost" size="icon" aria-label="Delete Exchange Rate" className="text-destructive hover:text-destructive/80">
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                }
+                                                title={`Delete the ${exchangeRate.from_currency} to ${exchangeRate.to_currency} rate for ${String(exchangeRate.month).padStart(2, '0')}/${exchangeRate.year}?`}
+                                                description="Entries of that month will use the latest earlier rate, if there is one."
+                                                confirmText="Delete"
+                                                onConfirm={() => handleDelete(exchangeRate.id)}
+                                                confirmVariant='destructive'
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+import type { MissingExchangeRate } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+
+interface MissingRatesAlertProps {
+    missingRates: MissingExchangeRate[];
+    reportingCurrency: string;
+    showLink?: boolean; // Link to the exchange-rate page (not needed on the page itself)
+}
+
+// Warns that some budgets/expenses are left out of converted totals because no exchange rate covers their month
+export function MissingRatesAlert({ missingRates, reportingCurrency, showLink = true }: MissingRatesAlertProps) {
+    if (missingRates.length === 0) return null;
+
+    const entryCount = missingRates.reduce((sum, missing) => sum + missing.entryCount, 0);
+    const shown = missingRates.slice(0, 6)
+        .map(missing => `${missing.currency} ${String(missing.month).padStart(2, '0')}/${missing.year}`)
+        .join(', ');
+
+    return (
+        <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Missing exchange rates</AlertTitle>
+            <AlertDescription>
+                {entryCount} {entryCount === 1 ? 'entry is' : 'entries are'} left out of the {reportingCurrency} totals because no rate
+                to {reportingCurrency} exists for that month or any earlier one: {shown}{missingRates.length > 6 ? ', ...' : ''}.
+                {showLink && (
+                    <> <Link href="/currencies" className="underline">Add exchange rates</Link></>
+                )}
+            </AlertDescription>
+        </Alert>
+    );
+}
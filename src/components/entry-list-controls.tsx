@@ -0,0 +1,86 @@
+"use client";
+
+import type { EntrySortColumn, SortDirection } from '@/types';
+import { TableHead } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PAGE_SIZE_OPTIONS } from '@/lib/entry-lists';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+
+// Order of a budget or expense list, sorted on the server; onSort is called with the column header clicked
+export interface EntrySortProps {
+    column: EntrySortColumn;
+    direction: SortDirection;
+    onSort: (column: EntrySortColumn) => void;
+}
+
+interface SortableTableHeadProps {
+    column: EntrySortColumn;
+    label: string;
+    sort?: EntrySortProps; // Without it the header is plain, e.g. on an import's page
+    sortHint?: string; // Shown on hover when the order is not obvious from the values
+    className?: string;
+}
+
+export function SortableTableHead({ column, label, sort, sortHint, className }: SortableTableHeadProps) {
+    if (!sort) {
+        return <TableHead className={className}>{label}</TableHead>;
+    }
+    const isSorted = sort.column === column;
+    const Icon = !isSorted ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+        <TableHead className={className} aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+            <Button variant="ghost" size="sm" className="-ml-3 h-8" title={sortHint} onClick={() => sort.onSort(column)}>
+                {label}
+                <Icon className={cn('ml-1 h-3 w-3', !isSorted && 'text-muted-foreground/50')} />
+            </Button>
+        </TableHead>
+    );
+}
+
+interface EntryListPaginationProps {
+    page: number;
+    pageSize: number;
+    total: number;
+    onPageChange: (page: number) => void;
+    onPageSizeChange: (pageSize: number) => void;
+}
+
+export function EntryListPagination({ page, pageSize, total, onPageChange, onPageSizeChange }: EntryListPaginationProps) {
+    const pageCount = Math.max(1, Math.ceil(total / pageSize));
+    const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+    const last = Math.min(page * pageSize, total);
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+            <span>{total === 0 ? 'No entries' : `${first.toLocaleString()}–${last.toLocaleString()} of ${total.toLocaleString()} entries`}</span>
+            <div className="flex items-center gap-2">
+                <span>Rows per page</span>
+                <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+                    <SelectTrigger className="h-8 w-[72px]" aria-label="Rows per page">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {PAGE_SIZE_OPTIONS.map(size => (
+                            <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <span className="whitespace-nowrap px-2">Page {page} of {pageCount}</span>
+                <Button variant="outline" size="icon" className="h-8 w-8" aria-label="First page" onClick={() => onPageChange(1)} disabled={page <= 1}>
+                    <ChevronsLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Previous page" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Next page" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount}>
+                    <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Last page" onClick={() => onPageChange(pageCount)} disabled={page >= pageCount}>
+                    <ChevronsRight className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -1,51 +1,60 @@
 
 "use client";
 
-import type { Expense, BusinessLine, CostCenter } from '@/types';
-import { useState, useMemo } from 'react';
+import type { Expense, BusinessLine, CostCenter, EntryListQuery, EntrySortColumn, Page, PageRequest } from '@/types';
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
 import { ExpenseTable } from './expense-table'; // Use ExpenseTable
+import { EntryListPagination } from '@/components/entry-list-controls';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { FilterX } from 'lucide-react'; // Keep FilterX icon
+import { nextEntrySort, toEntryListSearchParams } from '@/lib/entry-lists';
+import { cn } from '@/lib/utils';
 
 interface ExpenseFilterWrapperProps {
-    initialExpenses: Expense[];
+    expenses: Page<Expense>; // Filtered, sorted and paged on the server
+    query: EntryListQuery; // From the query string, see '@/lib/entry-lists'
     businessLines: BusinessLine[];
     costCenters: CostCenter[];
 }
 
 const ALL_VALUE = "__ALL__";
 
-export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCenters }: ExpenseFilterWrapperProps) {
-    const [yearFilter, setYearFilter] = useState<string>('');
-    const [monthFilter, setMonthFilter] = useState<string>(ALL_VALUE);
-    const [typeFilter, setTypeFilter] = useState<'ALL' | 'CAPEX' | 'OPEX'>(ALL_VALUE as 'ALL');
-    const [blFilter, setBlFilter] = useState<string>(ALL_VALUE);
-    const [ccFilter, setCcFilter] = useState<string>(ALL_VALUE);
-
-    const filteredExpenses = useMemo(() => {
-        return initialExpenses.filter(expense => {
-            const yearMatch = !yearFilter || expense.year.toString() === yearFilter;
-            const monthMatch = monthFilter === ALL_VALUE || expense.month.toString() === monthFilter;
-            const typeMatch = typeFilter === ALL_VALUE || expense.type === typeFilter;
-            const blMatch = blFilter === ALL_VALUE || (expense.business_line_id ? expense.business_line_id.toString() === blFilter : blFilter === '__NONE__');
-            const ccMatch = ccFilter === ALL_VALUE || (expense.cost_center_id ? expense.cost_center_id.toString() === ccFilter : ccFilter === '__NONE__');
-
-            return yearMatch && monthMatch && typeMatch && blMatch && ccMatch;
-        });
-    }, [initialExpenses, yearFilter, monthFilter, typeFilter, blFilter, ccFilter]);
+export function ExpenseFilterWrapper({ expenses, query, businessLines, costCenters }: ExpenseFilterWrapperProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = React.useTransition();
+    const [yearFilter, setYearFilter] = React.useState(query.year !== null ? String(query.year) : '');
 
-    const resetFilters = () => {
-        setYearFilter('');
-        setMonthFilter(ALL_VALUE);
-        setTypeFilter(ALL_VALUE as 'ALL');
-        setBlFilter(ALL_VALUE);
-        setCcFilter(ALL_VALUE);
+    React.useEffect(() => {
+        setYearFilter(query.year !== null ? String(query.year) : '');
+    }, [query.year]);
+
+    // Changing the filters or order goes back to the first page
+    const navigate = (changes: Partial<EntryListQuery>, pageChanges: Partial<PageRequest> = { page: 1 }) => {
+        const params = toEntryListSearchParams({ ...query, ...changes }, { page: expenses.page, pageSize: expenses.pageSize, ...pageChanges });
+        startTransition(() => router.push(`/expenses?${params.toString()}`));
     };
 
-    const currentYear = new Date().getFullYear();
-    const years = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i); // Example: last 5 + next 4 years
+    const applyYearFilter = () => {
+        const year = parseInt(yearFilter, 10);
+        const nextYear = year >= 1900 && year <= 2100 ? year : null;
+        if (nextYear !== query.year) {
+            navigate({ year: nextYear });
+        } else {
+            setYearFilter(query.year !== null ? String(query.year) : '');
+        }
+    };
+
+    const handleSort = (column: EntrySortColumn) => {
+        navigate(nextEntrySort(query, column));
+    };
+
+    // Keeps the order and page size
+    const resetFilters = () => {
+        navigate({ year: null, month: null, type: null, business_line_id: null, cost_center_id: null });
+    };
 
     const months = Array.from({ length: 12 }, (_, i) => ({ value: (i + 1).toString(), label: new Date(0, i).toLocaleString('default', { month: 'long' }) }));
 
@@ -62,6 +71,8 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
                         placeholder="YYYY"
                         value={yearFilter}
                         onChange={(e) => setYearFilter(e.target.value)}
+                        onBlur={applyYearFilter}
+                        onKeyDown={(e) => { if (e.key === 'Enter') applyYearFilter(); }}
                         className="h-8 text-sm"
                     />
                 </div>
@@ -69,7 +80,7 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
                 {/* Month Filter */}
                 <div className="flex-grow min-w-[120px]">
                      <label htmlFor="month-filter" className="text-xs font-medium text-muted-foreground">Month</label>
-                     <Select value={monthFilter} onValueChange={setMonthFilter}>
+                     <Select value={query.month !== null ? String(query.month) : ALL_VALUE} onValueChange={(v) => navigate({ month: v === ALL_VALUE ? null : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Month" />
                         </SelectTrigger>
@@ -85,7 +96,7 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
                 {/* Type Filter */}
                  <div className="flex-grow min-w-[120px]">
                      <label htmlFor="type-filter" className="text-xs font-medium text-muted-foreground">Type</label>
-                     <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as 'ALL' | 'CAPEX' | 'OPEX')}>
+                     <Select value={query.type ?? ALL_VALUE} onValueChange={(v) => navigate({ type: v === ALL_VALUE ? null : v as 'CAPEX' | 'OPEX' })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Type" />
                         </SelectTrigger>
@@ -100,13 +111,13 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
                 {/* Business Line Filter */}
                 <div className="flex-grow min-w-[150px]">
                      <label htmlFor="bl-filter" className="text-xs font-medium text-muted-foreground">Business Line</label>
-                     <Select value={blFilter} onValueChange={setBlFilter}>
+                     <Select value={query.business_line_id !== null ? String(query.business_line_id) : ALL_VALUE} onValueChange={(v) => navigate({ business_line_id: v === ALL_VALUE ? null : v === 'none' ? 'none' : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Business Line" />
                         </SelectTrigger>
                         <SelectContent>
                             <SelectItem value={ALL_VALUE}>All Business Lines</SelectItem>
-                            <SelectItem value="__NONE__">-- Unassigned --</SelectItem>
+                            <SelectItem value="none">-- Unassigned --</SelectItem>
                             {businessLines.map(bl => (
                                 <SelectItem key={bl.id} value={bl.id.toString()}>{bl.name}</SelectItem>
                             ))}
@@ -117,13 +128,13 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
                 {/* Cost Center Filter */}
                 <div className="flex-grow min-w-[150px]">
                     <label htmlFor="cc-filter" className="text-xs font-medium text-muted-foreground">Cost Center</label>
-                    <Select value={ccFilter} onValueChange={setCcFilter}>
+                    <Select value={query.cost_center_id !== null ? String(query.cost_center_id) : ALL_VALUE} onValueChange={(v) => navigate({ cost_center_id: v === ALL_VALUE ? null : v === 'none' ? 'none' : Number(v) })}>
                         <SelectTrigger className="h-8 text-sm">
                             <SelectValue placeholder="Cost Center" />
                         </SelectTrigger>
                         <SelectContent>
                             <SelectItem value={ALL_VALUE}>All Cost Centers</SelectItem>
-                             <SelectItem value="__NONE__">-- Unassigned --</SelectItem>
+                             <SelectItem value="none">-- Unassigned --</SelectItem>
                             {costCenters.map(cc => (
                                 <SelectItem key={cc.id} value={cc.id.toString()}>{cc.name}</SelectItem>
                             ))}
@@ -140,7 +151,16 @@ export function ExpenseFilterWrapper({ initialExpenses, businessLines, costCente
             </div>
 
             {/* Expense Table */}
-            <ExpenseTable expenses={filteredExpenses} />
+            <div className={cn('space-y-4 transition-opacity', isPending && 'opacity-60')}>
+                <ExpenseTable expenses={expenses.items} sort={{ column: query.sort, direction: query.direction, onSort: handleSort }} />
+                <EntryListPagination
+                    page={expenses.page}
+                    pageSize={expenses.pageSize}
+                    total={expenses.total}
+                    onPageChange={(page) => navigate({}, { page })}
+                    onPageSizeChange={(pageSize) => navigate({}, { page: 1, pageSize })}
+                />
+            </div>
         </div>
     );
 }
@@ -13,6 +13,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription }
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
+import { currencyOptions, DEFAULT_CURRENCY } from '@/lib/currency';
 import { useMemo, useEffect } from 'react';
 
 // Base schema for shared fields (description, amount, year, month, type, bl_id, cc_id)
@@ -31,6 +32,7 @@ const baseEntrySchema = z.object({
         z.number({ required_error: "Month is required", invalid_type_error: "Month must be a number" }).int().min(1, 'Enter a valid month (1-12)').max(12, 'Enter a valid month (1-12)')
     ),
     type: z.enum(['CAPEX', 'OPEX'], { required_error: "Type is required" }),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Select a currency'),
     business_line_id: z.string().nullable().optional(),
     cost_center_id: z.string().nullable().optional(),
 });
@@ -47,9 +49,10 @@ interface ExpenseFormProps {
     costCenters: CostCenterWithBusinessLines[];
     onSubmit: (formData: FormData) => Promise<{ success: boolean; message: string }>;
     formType: 'add' | 'edit';
+    defaultCurrency?: string; // Preselected for new entries, usually the reporting currency
 }
 
-export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit, formType }: ExpenseFormProps) {
+export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit, formType, defaultCurrency = DEFAULT_CURRENCY }: ExpenseFormProps) {
     const { toast } = useToast();
     const router = useRouter();
 
@@ -61,6 +64,7 @@ export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit,
             year: initialData?.year !== undefined ? String(initialData.year) : new Date().getFullYear().toString(), // Default to current year for add
             month: initialData?.month !== undefined ? String(initialData.month) : (new Date().getMonth() + 1).toString(), // Default to current month for add
             type: initialData?.type || undefined,
+            currency: initialData?.currency || defaultCurrency,
             business_line_id: initialData?.business_line_id ? String(initialData.business_line_id) : NONE_VALUE,
             cost_center_id: initialData?.cost_center_id ? String(initialData.cost_center_id) : NONE_VALUE,
         },
@@ -76,10 +80,11 @@ export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit,
              year: initialData?.year !== undefined ? String(initialData.year) : new Date().getFullYear().toString(),
              month: initialData?.month !== undefined ? String(initialData.month) : (new Date().getMonth() + 1).toString(),
              type: initialData?.type || undefined,
+             currency: initialData?.currency || defaultCurrency,
              business_line_id: initialData?.business_line_id ? String(initialData.business_line_id) : NONE_VALUE,
              cost_center_id: initialData?.cost_center_id ? String(initialData.cost_center_id) : NONE_VALUE,
          });
-     }, [initialData, reset]);
+     }, [initialData, defaultCurrency, reset]);
 
     const selectedBusinessLineId = watch('business_line_id');
 
@@ -102,6 +107,7 @@ export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit,
         formData.append('year', String(data.year));
         formData.append('month', String(data.month));
         formData.append('type', data.type);
+        formData.append('currency', data.currency);
         formData.append('business_line_id', data.business_line_id ?? NONE_VALUE);
         formData.append('cost_center_id', data.cost_center_id ?? NONE_VALUE);
 
@@ -144,7 +150,7 @@ export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit,
                           )}
                         />
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                            <FormField
                              control={control}
                              name="amount"
@@ -157,6 +163,28 @@ export function ExpenseForm({ initialData, businessLines, costCenters, onSubmit,
                                  <FormMessage />
                                </FormItem>
                              )}
+                           />
+                           <FormField
+                             control={control}
+                             name="currency"
+                             render={({ field }) => (
+                               <FormItem>
+                                 <FormLabel>Currency</FormLabel>
+                                 <Select onValueChange={field.onChange} value={field.value}>
+                                   <FormControl>
+                                     <SelectTrigger>
+                                       <SelectValue placeholder="Select currency" />
+                                     </SelectTrigger>
+                                   </FormControl>
+                                   <SelectContent>
+                                     {currencyOptions(initialData?.currency, defaultCurrency).map(code => (
+                                       <SelectItem key={code} value={code}>{code}</SelectItem>
+                                     ))}
+                                   </SelectContent>
+                                 </Select>
+                                 <FormMessage />
+                               </FormItem>
+                             )}
                            />
                             <FormField
                                 control={control}
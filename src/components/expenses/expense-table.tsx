@@ -18,13 +18,16 @@ import { deleteExpenseEntry } from '@/app/actions'; // Use deleteExpenseEntry ac
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
 import { ConfirmDialog } from '@/components/confirm-dialog';
+import { SortableTableHead, type EntrySortProps } from '@/components/entry-list-controls';
+import { formatCurrency } from '@/lib/currency';
 import * as React from "react";
 
 interface ExpenseTableProps {
     expenses: Expense[]; // Expect an array of Expense objects
+    sort?: EntrySortProps; // Makes the column headers sort the list
 }
 
-export function ExpenseTable({ expenses }: ExpenseTableProps) {
+export function ExpenseTable({ expenses, sort }: ExpenseTableProps) {
      const { toast } = useToast();
      const router = useRouter();
 
@@ -40,22 +43,18 @@ export function ExpenseTable({ expenses }: ExpenseTableProps) {
          }
      };
 
-    const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-    };
-
     return (
         // Add overflow-x-auto for smaller screens if table is wide
         <div className="overflow-x-auto">
             <Table>
                 <TableHeader>
                     <TableRow>
-                        <TableHead>Description</TableHead>
-                        <TableHead>Amount</TableHead>
-                        <TableHead>Date</TableHead>
-                        <TableHead>Type</TableHead>
-                        <TableHead>Business Line</TableHead>
-                        <TableHead>Cost Center</TableHead>
+                        <SortableTableHead column="description" label="Description" sort={sort} />
+                        <SortableTableHead column="amount" label="Amount" sort={sort} sortHint="Sorted by the amount in the reporting currency" />
+                        <SortableTableHead column="period" label="Date" sort={sort} />
+                        <SortableTableHead column="type" label="Type" sort={sort} />
+                        <SortableTableHead column="business_line" label="Business Line" sort={sort} />
+                        <SortableTableHead column="cost_center" label="Cost Center" sort={sort} />
                         <TableHead className="text-right min-w-[100px]">Actions</TableHead>{/* Added min-width */}
                     </TableRow>
                 </TableHeader>
@@ -70,7 +69,7 @@ export function ExpenseTable({ expenses }: ExpenseTableProps) {
                     {expenses.map((expense) => ( // Iterate over expenses
                         <TableRow key={expense.id}>
                             <TableCell className="font-medium">{expense.description}</TableCell>
-                            <TableCell>{formatCurrency(expense.amount)}</TableCell>
+                            <TableCell>{formatCurrency(expense.amount, expense.currency)}</TableCell>
                             <TableCell>{`${String(expense.month).padStart(2, '0')}/${expense.year}`}</TableCell>
                             <TableCell>
                                  <Badge variant={expense.type === 'CAPEX' ? 'secondary' : 'outline'}>
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ImportBatch } from '@/types';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Eye } from 'lucide-react';
+import Link from 'next/link';
+import { RevertImportButton } from './revert-import-button';
+import { IMPORT_MODES } from '@/lib/import-mode';
+
+interface ImportBatchTableProps {
+    batches: ImportBatch[];
+}
+
+export function ImportBatchTable({ batches }: ImportBatchTableProps) {
+    return (
+        <div className="overflow-x-auto">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>File</TableHead>
+                        <TableHead>Imported At</TableHead>
+                        <TableHead>Uploaded By</TableHead>
+                        <TableHead>Mode</TableHead>
+                        <TableHead>Budgets</TableHead>
+                        <TableHead>Expenses</TableHead>
+                        <TableHead>Updated</TableHead>
+                        <TableHead>Unchanged</TableHead>
+                        <TableHead>Deleted</TableHead>
+                        <TableHead>Skipped</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right min-w-[160px]">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {batches.length === 0 && (
+                        <TableRow>
+                            <TableCell colSpan={13} className="text-center h-24 text-muted-foreground">
+                                No uploads have been imported yet.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                    {batches.map((batch) => (
+                        <TableRow key={batch.id}>
+                            <TableCell className="text-muted-foreground">#{batch.id}</TableCell>
+                            <TableCell className="font-medium">{batch.file_name}</TableCell>
+                            <TableCell>{batch.created_at}</TableCell>
+                            <TableCell>{batch.uploaded_by || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
+                            <TableCell className="whitespace-nowrap">{IMPORT_MODES[batch.import_mode]?.label ?? batch.import_mode}</TableCell>
+                            <TableCell>{batch.budget_count}</TableCell>
+                            <TableCell>{batch.expense_count}</TableCell>
+                            <TableCell>{batch.updated_count}</TableCell>
+                            <TableCell>{batch.unchanged_count}</TableCell>
+                            <TableCell>{batch.deleted_count}</TableCell>
+                            <TableCell>{batch.skipped_count}</TableCell>
+                            <TableCell>
+                                <Badge variant={batch.status === 'committed' ? 'secondary' : 'outline'}>
+                                    {batch.status === 'committed' ? 'Committed' : `Reverted ${batch.reverted_at ?? ''}`}
+                                </Badge>
+                            </TableCell>
+                            <TableCell className="text-right space-x-1">
+                                <Link href={`/imports/${batch.id}`} passHref>
+                                    <Button variant="ghost" size="icon" aria-label={`Inspect import batch ${batch.id}`}>
+                                        <Eye className="h-4 w-4" />
+                                    </Button>
+                                </Link>
+                                <RevertImportButton batch={batch} />
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
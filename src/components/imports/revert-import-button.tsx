@@ -0,0 +1,53 @@
+"use client";
+
+import type { ImportBatch } from '@/types';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { revertImportBatch } from '@/app/actions';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Undo2 } from 'lucide-react';
+
+interface RevertImportButtonProps {
+    batch: ImportBatch;
+    size?: 'default' | 'sm';
+}
+
+export function RevertImportButton({ batch, size = 'sm' }: RevertImportButtonProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const handleRevert = async () => {
+        const result = await revertImportBatch(batch.id);
+        toast({
+            title: result.success ? 'Import Reverted' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            router.refresh();
+        }
+    };
+
+    if (batch.status === 'reverted') {
+        return null;
+    }
+
+    const budgetCount = batch.remaining_budget_count ?? batch.budget_count;
+    const expenseCount = batch.remaining_expense_count ?? batch.expense_count;
+
+    return (
+        <ConfirmDialog
+            trigger={
+                <Button variant="outline" size={size} className="text-destructive hover:text-destructive/80">
+                    <Undo2 className="mr-1 h-4 w-4" /> Revert
+                </Button>
+            }
+            title={`Revert import of "${batch.file_name}"?`}
+            description={`This will permanently delete the ${budgetCount} budget entries and ${expenseCount} expense entries still linked to batch #${batch.id}, including any that were edited after the import.${batch.updated_count + batch.deleted_count > 0 ? ` The ${batch.updated_count + batch.deleted_count} existing entries it updated or deleted are restored to their values before the import.` : ''} This action cannot be undone.`}
+            confirmText="Revert Import"
+            onConfirm={handleRevert}
+            confirmVariant='destructive'
+        />
+    );
+}
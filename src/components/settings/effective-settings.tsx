@@ -0,0 +1,100 @@
+import type { ConfigSource, EffectiveSettings } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+    'default': 'Default',
+    'file': 'Config file',
+    'environment': 'Environment',
+};
+
+interface EffectiveSettingsViewProps {
+    effective: EffectiveSettings;
+}
+
+// The configuration the server runs with and where each setting came from. Read-only: settings change with the
+// environment or config file and a restart.
+export function EffectiveSettingsView({ effective }: EffectiveSettingsViewProps) {
+    const overrides: { label: string; value: string | number | null; page: string }[] = [
+        { label: 'Reporting Currency', value: effective.reportingCurrency, page: 'Currencies' },
+        { label: 'Fiscal Year Start', value: effective.fiscalYearStartMonth, page: 'Variance' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Configuration</CardTitle>
+                    <CardDescription>
+                        Each setting comes from its environment variable, else from {effective.file ? <code>{effective.file}</code> : 'the config file (none found)'}, else
+                        from its default. Restart the app after changing them.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-52">Setting</TableHead>
+                                    <TableHead className="w-64">Value</TableHead>
+                                    <TableHead className="w-64">Source</TableHead>
+                                    <TableHead>Description</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {effective.settings.map(setting => (
+                                    <TableRow key={setting.key}>
+                                        <TableCell className="align-top font-medium">{setting.label}</TableCell>
+                                        <TableCell className="align-top break-all"><code>{setting.value}</code></TableCell>
+                                        <TableCell className="align-top">
+                                            <Badge variant={setting.source === 'default' ? 'outline' : 'secondary'}>{SOURCE_LABELS[setting.source]}</Badge>
+                                            <div className="text-xs text-muted-foreground mt-1">{setting.variable}</div>
+                                        </TableCell>
+                                        <TableCell className="align-top text-muted-foreground">{setting.description}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Chosen in the App</CardTitle>
+                    <CardDescription>These replace the configured defaults once an admin picks them.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-52">Setting</TableHead>
+                                <TableHead>Value</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {overrides.map(override => (
+                                <TableRow key={override.label}>
+                                    <TableCell className="font-medium">{override.label}</TableCell>
+                                    <TableCell>
+                                        {override.value !== null
+                                            ? <><code>{override.value}</code> <span className="text-muted-foreground">(set on the {override.page} page)</span></>
+                                            : <span className="text-muted-foreground">Not chosen; the configured default applies</span>}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import * as React from 'react';
+import type { BusinessLine, CostAllocationRule, CostCenterWithBusinessLines, CostDimension } from '@/types';
+import { COST_DIMENSION_LABELS } from '@/lib/cloud-costs';
+import { saveCostAllocationRule, deleteCostAllocationRule } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, Trash2 } from 'lucide-react';
+
+// Special value for representing null in Select dropdowns
+const NONE_VALUE = "__NONE__";
+
+interface AllocationRuleManagerProps {
+    rules: CostAllocationRule[];
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[];
+}
+
+export function AllocationRuleManager({ rules, businessLines, costCenters }: AllocationRuleManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [dimension, setDimension] = React.useState<CostDimension>('tag');
+    const [tagKey, setTagKey] = React.useState('');
+    const [value, setValue] = React.useState('');
+    const [businessLineId, setBusinessLineId] = React.useState(NONE_VALUE);
+    const [costCenterId, setCostCenterId] = React.useState(NONE_VALUE);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    // Only cost centers associated with the chosen business line can be combined with it
+    const availableCostCenters = React.useMemo(() => {
+        if (businessLineId === NONE_VALUE) return costCenters;
+        const blId = parseInt(businessLineId, 10);
+        return costCenters.filter(cc => cc.businessLines.some(bl => bl.id === blId));
+    }, [businessLineId, costCenters]);
+
+    const startNew = () => {
+        setEditingId(null);
+        // Keep the dimension and tag key: rules are usually added for several values of the same tag
+        setValue('');
+        setBusinessLineId(NONE_VALUE);
+        setCostCenterId(NONE_VALUE);
+    };
+
+    const startEdit = (rule: CostAllocationRule) => {
+        setEditingId(rule.id);
+        setDimension(rule.dimension);
+        setTagKey(rule.tag_key);
+        setValue(rule.value);
+        setBusinessLineId(rule.business_line_id ? String(rule.business_line_id) : NONE_VALUE);
+        setCostCenterId(rule.cost_center_id ? String(rule.cost_center_id) : NONE_VALUE);
+    };
+
+    const handleBusinessLineChange = (value: string) => {
+        setBusinessLineId(value);
+        if (value !== NONE_VALUE && costCenterId !== NONE_VALUE) {
+            const blId = parseInt(value, 10);
+            const stillValid = costCenters.some(cc => String(cc.id) === costCenterId && cc.businessLines.some(bl => bl.id === blId));
+            if (!stillValid) setCostCenterId(NONE_VALUE);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveCostAllocationRule(editingId, {
+            dimension,
+            tag_key: dimension === 'tag' ? tagKey : '',
+            value,
+            business_line_id: businessLineId === NONE_VALUE ? null : parseInt(businessLineId, 10),
+            cost_center_id: costCenterId === NONE_VALUE ? null : parseInt(costCenterId, 10),
+        });
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteCostAllocationRule(id);
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Allocation Rule' : 'Edit Allocation Rule'}</CardTitle>
+                    <CardDescription>
+                        Cloud spend matching the rule is assigned to the chosen business line and/or cost center when a billing export is imported.
+                        Tag and resource group rules win over account, subscription and project rules. Values are matched case-insensitively;
+                        accounts, subscriptions and projects match by ID or name.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 sm:grid-cols-2">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="rule-dimension">Match On</Label>
+                        <Select value={dimension} onValueChange={(value: CostDimension) => setDimension(value)}>
+                            <SelectTrigger id="rule-dimension">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(COST_DIMENSION_LABELS) as CostDimension[]).map(key => (
+                                    <SelectItem key={key} value={key}>{COST_DIMENSION_LABELS[key]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="rule-tag-key">Tag / Label Key</Label>
+                        <Input
+                            id="rule-tag-key"
+                            placeholder={dimension === 'tag' ? 'e.g., user:CostCenter' : 'Only used for tag rules'}
+                            value={dimension === 'tag' ? tagKey : ''}
+                            onChange={(e) => setTagKey(e.target.value)}
+                            disabled={dimension !== 'tag'}
+                        />
+                    </div>
+                    <div className="grid items-center gap-1.5 sm:col-span-2">
+                        <Label htmlFor="rule-value">Value</Label>
+                        <Input id="rule-value" placeholder="e.g., checkout-team, or a subscription ID" value={value} onChange={(e) => setValue(e.target.value)} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="rule-business-line">Business Line</Label>
+                        <Select value={businessLineId} onValueChange={handleBusinessLineChange}>
+                            <SelectTrigger id="rule-business-line">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NONE_VALUE}>-- None --</SelectItem>
+                                {businessLines.map(line => (
+                                    <SelectItem key={line.id} value={String(line.id)}>{line.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="rule-cost-center">Cost Center</Label>
+                        <Select value={costCenterId} onValueChange={setCostCenterId}>
+                            <SelectTrigger id="rule-cost-center">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NONE_VALUE}>-- None --</SelectItem>
+                                {availableCostCenters.map(center => (
+                                    <SelectItem key={center.id} value={String(center.id)}>{center.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Rule' : 'Update Rule')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Allocation Rules</CardTitle>
+                    <CardDescription>Spend that no rule matches is imported unassigned and can be assigned in the import preview.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Match On</TableHead>
+                                    <TableHead>Value</TableHead>
+                                    <TableHead>Business Line</TableHead>
+                                    <TableHead>Cost Center</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rules.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
+                                            No allocation rules yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {rules.map(rule => (
+                                    <TableRow key={rule.id}>
+                                        <TableCell className="font-medium">
+                                            {COST_DIMENSION_LABELS[rule.dimension]}{rule.dimension === 'tag' && <span className="text-muted-foreground"> {rule.tag_key}</span>}
+                                        </TableCell>
+                                        <TableCell>{rule.value}</TableCell>
+                                        <TableCell>{rule.business_line_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
+                                        <TableCell>{rule.cost_center_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
+                                        <TableCell className="text-right space-x-1">
+                                            <Button variant="ghost" size="icon" aria-label="Edit Allocation Rule" onClick={() => startEdit(rule)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <ConfirmDialog
+                                                trigger={
+                                                    <Button variant="ghost" size="icon" aria-label="Delete Allocation Rule" className="text-destructive hover:text-destructive/80">
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                }
+                                                title={`Delete rule for ${rule.dimension === 'tag' ? rule.tag_key : COST_DIMENSION_LABELS[rule.dimension]} = "${rule.value}"?`}
+                                                description="This action cannot be undone. Expenses already imported are not affected."
+                                                confirmText="Delete"
+                                                onConfirm={() => handleDelete(rule.id)}
+                                                confirmVariant='destructive'
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
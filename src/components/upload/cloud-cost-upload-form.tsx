@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from 'react';
+import type { BusinessLine, CloudCostGrouping, CloudCostMetric, CloudProvider, CostCenterWithBusinessLines, ImportPreview } from '@/types';
+import { CLOUD_PROVIDERS } from '@/lib/cloud-costs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { previewCloudCostReport } from '@/app/actions';
+import { ImportReview } from './import-review';
+import { FileSearch, Tags } from 'lucide-react';
+import Link from 'next/link';
+
+interface CloudCostUploadFormProps {
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[];
+}
+
+export function CloudCostUploadForm({ businessLines, costCenters }: CloudCostUploadFormProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [provider, setProvider] = useState<CloudProvider>('aws');
+  const [groupBy, setGroupBy] = useState<CloudCostGrouping>(CLOUD_PROVIDERS.aws.groupings[0]);
+  const [tagKey, setTagKey] = useState('');
+  const [costMetric, setCostMetric] = useState<CloudCostMetric>(CLOUD_PROVIDERS.aws.costMetrics[0].value);
+
+  const providerInfo = CLOUD_PROVIDERS[provider];
+  const groupingLabels: Record<CloudCostGrouping, string> = {
+      'tag': providerInfo.tagLabel,
+      'resource_group': 'Resource group',
+      'service_category': 'Service category',
+      'none': `${providerInfo.scopeLabel} only`,
+  };
+
+  // Groupings and cost metrics differ per provider; fall back to the provider's defaults
+  const handleProviderChange = (value: CloudProvider) => {
+      setProvider(value);
+      setGroupBy(CLOUD_PROVIDERS[value].groupings[0]);
+      setCostMetric(CLOUD_PROVIDERS[value].costMetrics[0].value);
+  };
+
+  // Step 1: aggregate the report into staged expense rows (nothing is written yet)
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    const formData = new FormData(event.currentTarget);
+    formData.set('provider', provider);
+    formData.set('group_by', groupBy);
+    formData.set('cost_metric', costMetric);
+    const result = await previewCloudCostReport(formData);
+
+    if (result.success && result.preview) {
+        setPreview(result.preview);
+    }
+    toast({
+      title: result.success ? 'Report Parsed' : 'Import Failed',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+      duration: result.success ? 5000 : 10000,
+    });
+
+    setIsSubmitting(false);
+  };
+
+  if (preview) {
+      return (
+          <ImportReview
+              initialPreview={preview}
+              businessLines={businessLines}
+              costCenters={costCenters}
+              onClose={() => setPreview(null)}
+          />
+      );
+  }
+
+  return (
+    <Card className="w-full max-w-lg mx-auto">
+      <CardHeader>
+        <CardTitle>Import Cloud Billing Data</CardTitle>
+        <CardDescription>
+          Upload an AWS Cost and Usage Report, an Azure Cost Management export, a GCP BigQuery billing export
+          or any FinOps FOCUS-conformant CSV.
+          Spend is summed per month and account, subscription or project (optionally broken down by tag or resource group),
+          and imported as OPEX expenses. Allocation rules assign each line to a business line and cost center.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="provider">Provider</Label>
+            <Select value={provider} onValueChange={handleProviderChange} disabled={isSubmitting}>
+                <SelectTrigger id="provider">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(CLOUD_PROVIDERS) as CloudProvider[]).map(key => (
+                        <SelectItem key={key} value={key}>{CLOUD_PROVIDERS[key].label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+          </div>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="report">{providerInfo.exportName}</Label>
+            <Input key={provider} id="report" name="report" type="file" accept={providerInfo.accept} required disabled={isSubmitting} />
+          </div>
+          {providerInfo.groupings.length > 1 && (
+            <div className="grid w-full max-w-sm items-center gap-1.5">
+              <Label htmlFor="group-by">Break Down By</Label>
+              <Select value={groupBy} onValueChange={(value: CloudCostGrouping) => setGroupBy(value)} disabled={isSubmitting}>
+                  <SelectTrigger id="group-by">
+                      <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                      {providerInfo.groupings.map(grouping => (
+                          <SelectItem key={grouping} value={grouping}>{groupingLabels[grouping]}</SelectItem>
+                      ))}
+                  </SelectContent>
+              </Select>
+            </div>
+          )}
+          {groupBy === 'tag' && (
+            <div className="grid w-full max-w-sm items-center gap-1.5">
+              <Label htmlFor="tag-key">{providerInfo.tagLabel} Key</Label>
+              <Input
+                  id="tag-key"
+                  name="tag_key"
+                  placeholder={provider === 'aws' ? 'e.g., user:CostCenter' : 'e.g., cost-center'}
+                  value={tagKey}
+                  onChange={(e) => setTagKey(e.target.value)}
+                  required
+                  disabled={isSubmitting}
+              />
+            </div>
+          )}
+          {providerInfo.costMetrics.length > 1 && (
+            <div className="grid w-full max-w-sm items-center gap-1.5">
+              <Label htmlFor="cost-metric">Cost</Label>
+              <Select value={costMetric} onValueChange={(value: CloudCostMetric) => setCostMetric(value)} disabled={isSubmitting}>
+                  <SelectTrigger id="cost-metric">
+                      <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                      {providerInfo.costMetrics.map(metric => (
+                          <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>
+                      ))}
+                  </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Link href="/upload/allocation-rules" className="text-xs text-muted-foreground flex items-center hover:text-primary">
+              <Tags className="h-3 w-3 mr-1" /> Manage allocation rules
+          </Link>
+          <Button type="submit" disabled={isSubmitting}>
+            <FileSearch className="mr-2 h-4 w-4" />
+            {isSubmitting ? 'Reading export...' : 'Preview Import'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import * as React from 'react';
+import type { BusinessLine, CostCenterWithBusinessLines, StagedImportRow } from '@/types';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Pencil } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency, normalizeCurrencyCode } from '@/lib/currency';
+
+// Special value for representing null in Select dropdowns
+const NONE_VALUE = "__NONE__";
+
+interface ImportPreviewTableProps {
+    rows: StagedImportRow[];
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[];
+    onExcludedChange: (row: StagedImportRow, excluded: boolean) => void;
+    onRowEdited: (row: StagedImportRow) => Promise<void>; // Called with the edited row; caller revalidates it
+    disabled?: boolean;
+}
+
+export function ImportPreviewTable({ rows, businessLines, costCenters, onExcludedChange, onRowEdited, disabled }: ImportPreviewTableProps) {
+    const [editingRow, setEditingRow] = React.useState<StagedImportRow | null>(null);
+
+    const missing = <span className="text-xs text-destructive italic">missing</span>;
+
+    return (
+        <div className="overflow-x-auto">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="w-[60px]">Import</TableHead>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Business Line</TableHead>
+                        <TableHead>Cost Center</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Fix</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {rows.length === 0 && (
+                        <TableRow>
+                            <TableCell colSpan={11} className="text-center h-24 text-muted-foreground">
+                                No rows to show.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                    {rows.map((row) => (
+                        <TableRow
+                            key={`${row.sheet ?? ''}:${row.rowNumber}`}
+                            className={cn(row.excluded && 'opacity-50', !row.excluded && row.errors.length > 0 && 'bg-destructive/5')}
+                        >
+                            <TableCell>
+                                <Checkbox
+                                    checked={!row.excluded}
+                                    onCheckedChange={(checked) => onExcludedChange(row, checked !== true)}
+                                    aria-label={`Include ${row.sheet ? `sheet ${row.sheet} ` : ''}row ${row.rowNumber}`}
+                                    disabled={disabled}
+                                />
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                                {row.sheet && <span className="block text-xs whitespace-nowrap">{row.sheet}</span>}
+                                {row.rowNumber}
+                            </TableCell>
+                            <TableCell>{row.source ?? missing}</TableCell>
+                            <TableCell className="font-medium">
+                                {row.description || missing}
+                                {row.external_id && <span className="block text-xs font-normal text-muted-foreground">External ID: {row.external_id}</span>}
+                            </TableCell>
+                            <TableCell>{row.amount !== null ? formatCurrency(row.amount, row.currency ?? '') : missing}</TableCell>
+                            <TableCell>
+                                {row.year !== null && row.month !== null
+                                    ? `${String(row.month).padStart(2, '0')}/${row.year}`
+                                    : missing}
+                            </TableCell>
+                            <TableCell>
+                                {row.type ? (
+                                    <Badge variant={row.type === 'CAPEX' ? 'secondary' : 'outline'}>{row.type}</Badge>
+                                ) : missing}
+                            </TableCell>
+                            <TableCell>
+                                {row.business_line_name || <span className="text-xs text-muted-foreground italic">N/A</span>}
+                                {row.business_line_id !== null && <span className="text-xs text-muted-foreground"> (#{row.business_line_id})</span>}
+                            </TableCell>
+                            <TableCell>
+                                {row.cost_center_name || <span className="text-xs text-muted-foreground italic">N/A</span>}
+                                {row.cost_center_id !== null && <span className="text-xs text-muted-foreground"> (#{row.cost_center_id})</span>}
+                            </TableCell>
+                            <TableCell className="min-w-[220px]">
+                                {row.errors.length === 0 ? (
+                                    <Badge variant="outline">Valid</Badge>
+                                ) : (
+                                    <ul className="text-xs text-destructive list-disc pl-4 space-y-0.5">
+                                        {row.errors.map((error, i) => <li key={i}>{error}</li>)}
+                                    </ul>
+                                )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                                <Button variant="ghost" size="icon" aria-label={`Edit ${row.sheet ? `sheet ${row.sheet} ` : ''}row ${row.rowNumber}`} onClick={() => setEditingRow(row)} disabled={disabled}>
+                                    <Pencil className="h-4 w-4" />
+                                </Button>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+
+            <Dialog open={editingRow !== null} onOpenChange={(open) => !open && setEditingRow(null)}>
+                <DialogContent className="sm:max-w-xl">
+                    <DialogHeader>
+                        <DialogTitle>Edit {editingRow?.sheet ? `${editingRow.sheet} ` : ''}Row {editingRow?.rowNumber}</DialogTitle>
+                        <DialogDescription>Changes only apply to this import; the uploaded file is not modified.</DialogDescription>
+                    </DialogHeader>
+                    {editingRow && (
+                        <StagedRowEditor
+                            row={editingRow}
+                            businessLines={businessLines}
+                            costCenters={costCenters}
+                            onCancel={() => setEditingRow(null)}
+                            onSave={async (row) => {
+                                await onRowEdited(row);
+                                setEditingRow(null);
+                            }}
+                        />
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
+
+
+interface StagedRowEditorProps {
+    row: StagedImportRow;
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[];
+    onSave: (row: StagedImportRow) => Promise<void>;
+    onCancel: () => void;
+}
+
+function StagedRowEditor({ row, businessLines, costCenters, onSave, onCancel }: StagedRowEditorProps) {
+    const [source, setSource] = React.useState<string>(row.source ?? '');
+    const [description, setDescription] = React.useState(row.description);
+    const [amount, setAmount] = React.useState(row.amount !== null ? String(row.amount) : '');
+    const [year, setYear] = React.useState(row.year !== null ? String(row.year) : '');
+    const [month, setMonth] = React.useState(row.month !== null ? String(row.month) : '');
+    const [type, setType] = React.useState<string>(row.type ?? '');
+    const [currency, setCurrency] = React.useState(row.currency ?? '');
+    const [externalId, setExternalId] = React.useState(row.external_id ?? '');
+    // Unresolved names from the file have no ID yet; they stay as-is unless a business line is picked
+    const [businessLineId, setBusinessLineId] = React.useState(row.business_line_id !== null ? String(row.business_line_id) : NONE_VALUE);
+    const [costCenterId, setCostCenterId] = React.useState(row.cost_center_id !== null ? String(row.cost_center_id) : NONE_VALUE);
+    const [businessLineTouched, setBusinessLineTouched] = React.useState(false);
+    const [costCenterTouched, setCostCenterTouched] = React.useState(false);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    // Same filtering as the budget form: only cost centers associated with the selected business line
+    const filteredCostCenters = React.useMemo(() => {
+        if (businessLineId === NONE_VALUE) return [];
+        const targetBlId = parseInt(businessLineId, 10);
+        return costCenters.filter(cc => cc.businessLines.some(bl => bl.id === targetBlId));
+    }, [businessLineId, costCenters]);
+
+    const parseNumber = (value: string, parse: (v: string) => number) => {
+        const parsed = parse(value.trim());
+        return value.trim() === '' || isNaN(parsed) ? null : parsed;
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const selectedBusinessLine = businessLines.find(bl => String(bl.id) === businessLineId);
+        const selectedCostCenter = costCenters.find(cc => String(cc.id) === costCenterId);
+        // Problems reading the file no longer apply once the value has been entered by hand
+        const { amount: amountIssue, date: dateIssue } = row.parseIssues;
+        const amountEdited = amount !== (row.amount !== null ? String(row.amount) : '');
+        const periodEdited = year !== (row.year !== null ? String(row.year) : '') || month !== (row.month !== null ? String(row.month) : '');
+        await onSave({
+            ...row,
+            source: source === 'Budget' || source === 'Expense' ? source : null,
+            description,
+            amount: parseNumber(amount, v => parseFloat(v.replace(/,/g, ''))),
+            year: parseNumber(year, v => parseInt(v, 10)),
+            month: parseNumber(month, v => parseInt(v, 10)),
+            type: type === 'CAPEX' || type === 'OPEX' ? type : null,
+            currency: normalizeCurrencyCode(currency),
+            external_id: externalId.trim() || null,
+            parseIssues: {
+                ...(amountIssue && !amountEdited ? { amount: amountIssue } : {}),
+                ...(dateIssue && !periodEdited ? { date: dateIssue } : {}),
+            },
+            business_line_id: businessLineTouched ? selectedBusinessLine?.id ?? null : row.business_line_id,
+            business_line_name: businessLineTouched ? selectedBusinessLine?.name ?? null : row.business_line_name,
+            cost_center_id: costCenterTouched || businessLineTouched ? selectedCostCenter?.id ?? null : row.cost_center_id,
+            cost_center_name: costCenterTouched || businessLineTouched ? selectedCostCenter?.name ?? null : row.cost_center_name,
+        });
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-source">Source</Label>
+                    <Select value={source} onValueChange={setSource}>
+                        <SelectTrigger id="staged-source">
+                            <SelectValue placeholder="Select source" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="Budget">Budget</SelectItem>
+                            <SelectItem value="Expense">Expense</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-type">Type (CAPEX/OPEX)</Label>
+                    <Select value={type} onValueChange={setType}>
+                        <SelectTrigger id="staged-type">
+                            <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="CAPEX">CAPEX</SelectItem>
+                            <SelectItem value="OPEX">OPEX</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="space-y-1.5">
+                <Label htmlFor="staged-description">Description</Label>
+                <Input id="staged-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+
+            <div className="space-y-1.5">
+                <Label htmlFor="staged-external-id">External ID (Optional)</Label>
+                <Input id="staged-external-id" placeholder="Key of the row in the source system" value={externalId} onChange={(e) => setExternalId(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-4 gap-4">
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-amount">Amount</Label>
+                    <Input id="staged-amount" inputMode="decimal" placeholder="1000.00" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                </div>
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-currency">Currency</Label>
+                    <Input id="staged-currency" placeholder="USD" maxLength={3} value={currency} onChange={(e) => setCurrency(e.target.value.toUpperCase())} />
+                </div>
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-year">Year</Label>
+                    <Input id="staged-year" inputMode="numeric" placeholder="YYYY" value={year} onChange={(e) => setYear(e.target.value)} />
+                </div>
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-month">Month</Label>
+                    <Input id="staged-month" inputMode="numeric" placeholder="MM" value={month} onChange={(e) => setMonth(e.target.value)} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-bl">Business Line</Label>
+                    <Select
+                        value={businessLineId}
+                        onValueChange={(value) => {
+                            setBusinessLineId(value);
+                            setBusinessLineTouched(true);
+                            // Reset cost center when business line changes
+                            setCostCenterId(NONE_VALUE);
+                        }}
+                    >
+                        <SelectTrigger id="staged-bl">
+                            <SelectValue placeholder="Select business line" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NONE_VALUE}>-- None --</SelectItem>
+                            {businessLines.map(line => (
+                                <SelectItem key={line.id} value={String(line.id)}>{line.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {!businessLineTouched && row.business_line_id === null && row.business_line_name && (
+                        <p className="text-xs text-muted-foreground">From file: &quot;{row.business_line_name}&quot;</p>
+                    )}
+                </div>
+                <div className="space-y-1.5">
+                    <Label htmlFor="staged-cc">Cost Center</Label>
+                    <Select
+                        value={costCenterId}
+                        onValueChange={(value) => {
+                            setCostCenterId(value);
+                            setCostCenterTouched(true);
+                        }}
+                        disabled={businessLineId === NONE_VALUE}
+                    >
+                        <SelectTrigger id="staged-cc">
+                            <SelectValue placeholder={businessLineId === NONE_VALUE ? "Select Business Line first" : "Select cost center"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NONE_VALUE}>-- None --</SelectItem>
+                            {filteredCostCenters.map(center => (
+                                <SelectItem key={center.id} value={String(center.id)}>{center.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {!costCenterTouched && !businessLineTouched && row.cost_center_id === null && row.cost_center_name && (
+                        <p className="text-xs text-muted-foreground">From file: &quot;{row.cost_center_name}&quot;</p>
+                    )}
+                </div>
+            </div>
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+                <Button type="button" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Checking...' : 'Apply Changes'}
+                </Button>
+            </DialogFooter>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import type { BusinessLine, CostCenterWithBusinessLines, ImportPreview, StagedImportRow } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { commitImportRows, revalidateImportRows } from '@/app/actions';
+import { IMPORT_MODES } from '@/lib/import-mode';
+import { isSameStagedRow } from '@/lib/workbook-sheets';
+import { ImportPreviewTable } from './import-preview-table';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import Link from 'next/link';
+
+interface ImportReviewProps {
+    initialPreview: ImportPreview;
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[]; // Needed to pick valid cost centers when fixing rows
+    onClose: () => void; // Called after a successful import or on cancel
+}
+
+// Step 2 of an import: review the staged rows, fix or exclude them, then commit
+export function ImportReview({ initialPreview, businessLines, costCenters, onClose }: ImportReviewProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview>(initialPreview);
+  const [showOnlyProblems, setShowOnlyProblems] = useState(false);
+  const [allowDuplicate, setAllowDuplicate] = useState(false);
+
+  const updateRows = (update: (rows: StagedImportRow[]) => StagedImportRow[]) => {
+      setPreview(prev => ({ ...prev, rows: update(prev.rows) }));
+  };
+
+  const handleExcludedChange = (row: StagedImportRow, excluded: boolean) => {
+      updateRows(rows => rows.map(r => isSameStagedRow(r, row) ? { ...r, excluded } : r));
+  };
+
+  // Every row is re-checked: an edited External ID can clash with (or stop clashing with) other rows
+  const handleRowEdited = async (row: StagedImportRow) => {
+      const rows = preview.rows.map(r => isSameStagedRow(r, row) ? row : r);
+      const validatedRows = await revalidateImportRows(preview.id, rows);
+      updateRows(current => current.map(r => {
+          const validatedRow = validatedRows.find(v => isSameStagedRow(v, r));
+          // Keep exclusions toggled while the check was running
+          return validatedRow ? { ...validatedRow, excluded: isSameStagedRow(r, row) ? validatedRow.excluded : r.excluded } : r;
+      }));
+  };
+
+  const excludeInvalidRows = () => {
+      updateRows(rows => rows.map(r => r.errors.length > 0 ? { ...r, excluded: true } : r));
+  };
+
+  // Commit the valid, included rows
+  const handleCommit = async () => {
+      setIsSubmitting(true);
+      const result = await commitImportRows(preview.id, preview.rows, allowDuplicate);
+      toast({
+          title: result.success ? 'Import Successful' : 'Import Failed',
+          description: result.message,
+          variant: result.success ? 'default' : 'destructive',
+          duration: result.success ? 5000 : 10000,
+      });
+      setIsSubmitting(false);
+      if (result.success) {
+          onClose();
+      } else if (result.duplicateBatches) {
+          // The same file was imported since the preview was made; ask for confirmation
+          const duplicateBatches = result.duplicateBatches;
+          setPreview(prev => ({ ...prev, duplicateBatches }));
+          setAllowDuplicate(false);
+      } else if (result.rows) {
+          const rows = result.rows;
+          setPreview(prev => ({ ...prev, rows })); // Show the latest validation results
+      }
+  };
+
+  const stats = useMemo(() => {
+      const rows = preview.rows;
+      return {
+          total: rows.length,
+          ready: rows.filter(r => !r.excluded && r.errors.length === 0).length,
+          invalid: rows.filter(r => !r.excluded && r.errors.length > 0).length,
+          excluded: rows.filter(r => r.excluded).length,
+          masterData: preview.masterData ? Object.values(preview.masterData.counts).reduce((sum, count) => sum + count, 0) : 0,
+      };
+  }, [preview]);
+
+  const visibleRows = useMemo(() => {
+      return showOnlyProblems ? preview.rows.filter(r => r.errors.length > 0) : preview.rows;
+  }, [preview, showOnlyProblems]);
+
+  return (
+      <Card className="w-full">
+          <CardHeader>
+              <CardTitle>Review Import: {preview.fileName}</CardTitle>
+              <CardDescription>
+                  Nothing has been saved yet. Fix rows with errors using the pencil button, or untick them to leave them out.
+                  Only valid, included rows are imported.
+                  {' '}Import mode: {IMPORT_MODES[preview.mode].label}. {IMPORT_MODES[preview.mode].description}
+                  {preview.rows.some(r => r.source === 'Budget') && ` Budget rows go into the '${preview.budgetVersion.name}' budget version.`}
+              </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+              {preview.masterData && (
+                  <Alert>
+                      <CheckCircle2 className="h-4 w-4" />
+                      <AlertTitle>Master data</AlertTitle>
+                      <AlertDescription>
+                          {stats.masterData === 0
+                              ? 'Every business line, cost center and association in the master-data sheets already exists.'
+                              : `The master-data sheets add ${preview.masterData.counts.businessLines} business lines, ${preview.masterData.counts.costCenters} cost centers`
+                                + ` and ${preview.masterData.counts.associations} associations. They are created when you import, and removed if the import is reverted.`}
+                      </AlertDescription>
+                  </Alert>
+              )}
+              {preview.duplicateBatches.length > 0 && (
+                  <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>This file was already imported</AlertTitle>
+                      <AlertDescription className="space-y-2">
+                          <p>
+                              A file with identical contents was imported {preview.duplicateBatches.length === 1 ? 'once' : `${preview.duplicateBatches.length} times`} before
+                              (latest: batch <Link href={`/imports/${preview.duplicateBatches[0].id}`} className="underline">#{preview.duplicateBatches[0].id}</Link> on {preview.duplicateBatches[0].created_at}).
+                              Importing it again will create duplicate entries.
+                          </p>
+                          <div className="flex items-center gap-2">
+                              <Checkbox id="allow-duplicate" checked={allowDuplicate} onCheckedChange={(checked) => setAllowDuplicate(checked === true)} />
+                              <Label htmlFor="allow-duplicate">Import anyway</Label>
+                          </div>
+                      </AlertDescription>
+                  </Alert>
+              )}
+              <div className="flex flex-wrap items-center gap-4 p-4 border rounded-md bg-muted/50 text-sm">
+                  <span>{stats.total} rows</span>
+                  <span className="flex items-center text-primary"><CheckCircle2 className="mr-1 h-4 w-4" /> {stats.ready} ready</span>
+                  <span className="flex items-center text-destructive"><XCircle className="mr-1 h-4 w-4" /> {stats.invalid} with errors</span>
+                  <span className="text-muted-foreground">{stats.excluded} excluded</span>
+                  <div className="flex items-center gap-2 ml-auto">
+                      <Switch id="only-problems" checked={showOnlyProblems} onCheckedChange={setShowOnlyProblems} />
+                      <Label htmlFor="only-problems">Only rows with errors</Label>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={excludeInvalidRows} disabled={isSubmitting || stats.invalid === 0}>
+                      Exclude rows with errors
+                  </Button>
+              </div>
+              <ImportPreviewTable
+                  rows={visibleRows}
+                  businessLines={businessLines}
+                  costCenters={costCenters}
+                  onExcludedChange={handleExcludedChange}
+                  onRowEdited={handleRowEdited}
+                  disabled={isSubmitting}
+              />
+          </CardContent>
+          <CardFooter className="flex justify-between">
+              <Button onClick={handleCommit} disabled={isSubmitting || (stats.ready === 0 && stats.masterData === 0) || (preview.duplicateBatches.length > 0 && !allowDuplicate)}>
+                  {isSubmitting ? 'Importing...' : stats.ready === 0 ? 'Import Master Data' : `Import ${stats.ready} Valid Rows`}
+              </Button>
+              <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+                  Cancel
+              </Button>
+          </CardFooter>
+      </Card>
+  );
+}
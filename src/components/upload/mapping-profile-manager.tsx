@@ -0,0 +1,271 @@
+"use client";
+
+import * as React from 'react';
+import type { ColumnMapping, FieldMapping, ImportField, ImportMappingProfile } from '@/types';
+import { IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS } from '@/lib/import-mapping';
+import { saveImportMappingProfile, deleteImportMappingProfile } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, PlusCircle, Trash2 } from 'lucide-react';
+
+type MappingMode = 'unmapped' | 'column' | 'constant';
+
+// Editable state for one field; kept flat so switching modes does not lose what was typed
+interface FieldDraft {
+    mode: MappingMode;
+    column: string;
+    transform: 'none' | 'date-year' | 'date-month';
+    value: string;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+    'description': 'Description',
+    'amount': 'Amount',
+    'year': 'Year',
+    'month': 'Month',
+    'date': 'Date (instead of Year and Month)',
+    'type': 'Type (CAPEX/OPEX)',
+    'currency': 'Currency (ISO code, default USD)',
+    'business line': 'Business Line',
+    'cost center': 'Cost Center',
+    'source': 'Source (Budget/Expense)',
+    'external id': 'External ID (for upserts)',
+};
+
+function toDrafts(mapping: ColumnMapping): Record<ImportField, FieldDraft> {
+    return Object.fromEntries(IMPORT_FIELDS.map(field => {
+        const fieldMapping = mapping[field];
+        const draft: FieldDraft = { mode: 'unmapped', column: '', transform: 'none', value: '' };
+        if (fieldMapping?.kind === 'column') {
+            Object.assign(draft, { mode: 'column', column: fieldMapping.column, transform: fieldMapping.transform ?? 'none' });
+        } else if (fieldMapping?.kind === 'constant') {
+            Object.assign(draft, { mode: 'constant', value: fieldMapping.value });
+        }
+        return [field, draft];
+    })) as Record<ImportField, FieldDraft>;
+}
+
+function toMapping(drafts: Record<ImportField, FieldDraft>): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    IMPORT_FIELDS.forEach(field => {
+        const draft = drafts[field];
+        let fieldMapping: FieldMapping | undefined;
+        if (draft.mode === 'column') {
+            fieldMapping = { kind: 'column', column: draft.column, transform: draft.transform };
+        } else if (draft.mode === 'constant') {
+            fieldMapping = { kind: 'constant', value: draft.value };
+        }
+        if (fieldMapping) mapping[field] = fieldMapping;
+    });
+    return mapping;
+}
+
+interface MappingProfileManagerProps {
+    profiles: ImportMappingProfile[];
+}
+
+export function MappingProfileManager({ profiles }: MappingProfileManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [name, setName] = React.useState('');
+    const [drafts, setDrafts] = React.useState(() => toDrafts({}));
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const startNew = () => {
+        setEditingId(null);
+        setName('');
+        setDrafts(toDrafts({}));
+    };
+
+    const startEdit = (profile: ImportMappingProfile) => {
+        setEditingId(profile.id);
+        setName(profile.name);
+        setDrafts(toDrafts(profile.mapping));
+    };
+
+    const updateDraft = (field: ImportField, changes: Partial<FieldDraft>) => {
+        setDrafts(prev => ({ ...prev, [field]: { ...prev[field], ...changes } }));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveImportMappingProfile(editingId, { name, mapping: toMapping(drafts) });
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteImportMappingProfile(id);
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Mapping Profile' : `Edit Mapping Profile: ${name}`}</CardTitle>
+                    <CardDescription>
+                        Map the columns of your file onto CloudWise fields. Column names are matched case-insensitively.
+                        Use a constant when every row shares a value (e.g. Source = Expense). A file with one date column can map it to Date instead of Year and Month.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid w-full max-w-sm items-center gap-1.5">
+                        <Label htmlFor="profile-name">Profile Name</Label>
+                        <Input id="profile-name" placeholder="e.g., Procurement export" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Field</TableHead>
+                                    <TableHead>Comes From</TableHead>
+                                    <TableHead>Source Column / Constant Value</TableHead>
+                                    <TableHead>Transform</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {IMPORT_FIELDS.map(field => {
+                                    const draft = drafts[field];
+                                    return (
+                                        <TableRow key={field}>
+                                            <TableCell className="font-medium">
+                                                {FIELD_LABELS[field]}
+                                                {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-destructive"> *</span>}
+                                            </TableCell>
+                                            <TableCell className="min-w-[150px]">
+                                                <Select value={draft.mode} onValueChange={(mode: MappingMode) => updateDraft(field, { mode })}>
+                                                    <SelectTrigger className="h-8 text-sm">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value="unmapped">Not mapped</SelectItem>
+                                                        <SelectItem value="column">Column</SelectItem>
+                                                        <SelectItem value="constant">Constant</SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            </TableCell>
+                                            <TableCell className="min-w-[200px]">
+                                                {draft.mode === 'column' && (
+                                                    <Input className="h-8 text-sm" placeholder="e.g., Valor" value={draft.column} onChange={(e) => updateDraft(field, { column: e.target.value })} />
+                                                )}
+                                                {draft.mode === 'constant' && (
+                                                    <Input className="h-8 text-sm" placeholder="Value for every row" value={draft.value} onChange={(e) => updateDraft(field, { value: e.target.value })} />
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="min-w-[180px]">
+                                                {draft.mode === 'column' && (field === 'year' || field === 'month') && (
+                                                    <Select value={draft.transform} onValueChange={(transform: FieldDraft['transform']) => updateDraft(field, { transform })}>
+                                                        <SelectTrigger className="h-8 text-sm">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="none">Use value as-is</SelectItem>
+                                                            <SelectItem value="date-year">Year of a date</SelectItem>
+                                                            <SelectItem value="date-month">Month of a date</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Profile' : 'Update Profile')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                        <CardTitle>Saved Mapping Profiles</CardTitle>
+                        <CardDescription>Profiles can be chosen on the upload page.</CardDescription>
+                    </div>
+                    <Button variant="outline" onClick={startNew}>
+                        <PlusCircle className="mr-2 h-4 w-4" /> New Profile
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {profiles.length === 0 ? (
+                        <p className="text-muted-foreground">No mapping profiles yet. Uploads use the standard column names.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {profiles.map(profile => (
+                                <li key={profile.id} className="flex items-center justify-between p-2 border rounded-md hover:bg-muted/50 transition-colors">
+                                    <div>
+                                        <span className="font-medium">{profile.name}</span>
+                                        <p className="text-xs text-muted-foreground">
+                                            {IMPORT_FIELDS.filter(field => profile.mapping[field]).map(field => {
+                                                const fieldMapping = profile.mapping[field]!;
+                                                return `${FIELD_LABELS[field]} ← ${fieldMapping.kind === 'column' ? `"${fieldMapping.column}"` : `= ${fieldMapping.value}`}`;
+                                            }).join(', ')}
+                                        </p>
+                                    </div>
+                                    <div className="space-x-1 shrink-0">
+                                        <Button variant="ghost" size="icon" aria-label="Edit Mapping Profile" onClick={() => startEdit(profile)}>
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <ConfirmDialog
+                                            trigger={
+                                                <Button variant="ghost" size="icon" aria-label="Delete Mapping Profile" className="text-destructive hover:text-destructive/80">
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            }
+                                            title={`Delete "${profile.name}"?`}
+                                            description="This action cannot be undone. Data already imported with this profile is not affected."
+                                            confirmText="Delete"
+                                            onConfirm={() => handleDelete(profile.id)}
+                                            confirmVariant='destructive'
+                                        />
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,28 +1,92 @@
-
 "use client";
 
 import { useRef, useState } from 'react';
+import type { BudgetVersion, BusinessLine, CostCenterWithBusinessLines, ImportLocale, ImportMappingProfile, ImportMode, ImportPreview, WorkbookSheet, WorkbookSheetRole } from '@/types';
+import { DEFAULT_IMPORT_LOCALE, IMPORT_LOCALES } from '@/lib/import-locale';
+import { DEFAULT_IMPORT_MODE, IMPORT_MODES } from '@/lib/import-mode';
+import { WORKBOOK_SHEET_ROLES } from '@/lib/workbook-sheets';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { uploadSpreadsheet } from '@/app/actions';
-import { Upload } from 'lucide-react';
+import { inspectWorkbook, previewSpreadsheet } from '@/app/actions';
+import { ImportReview } from './import-review';
+import { Cloud, FileSearch, Settings2 } from 'lucide-react';
+import Link from 'next/link';
+
+interface UploadFormProps {
+    businessLines: BusinessLine[];
+    costCenters: CostCenterWithBusinessLines[]; // Needed to pick valid cost centers when fixing rows
+    mappingProfiles: ImportMappingProfile[];
+    budgetVersions: BudgetVersion[];
+}
 
+// Select value for "no profile": the standard column names are expected
+const STANDARD_MAPPING = "__STANDARD__";
+// Select value for a workbook sheet that is not imported
+const SKIP_SHEET = "__SKIP__";
 
-export function UploadForm() {
+export function UploadForm({ businessLines, costCenters, mappingProfiles, budgetVersions }: UploadFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null); // Ref for the file input
   const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mappingProfileId, setMappingProfileId] = useState<string>(STANDARD_MAPPING);
+  const [locale, setLocale] = useState<ImportLocale>(DEFAULT_IMPORT_LOCALE);
+  const [importMode, setImportMode] = useState<ImportMode>(DEFAULT_IMPORT_MODE);
+  const [budgetVersionId, setBudgetVersionId] = useState<string>(String(budgetVersions.find(version => version.is_default)?.id ?? ''));
+  const [sheets, setSheets] = useState<WorkbookSheet[] | null>(null);
+  const [sheetRoles, setSheetRoles] = useState<Record<string, string>>({});
+  const [isInspecting, setIsInspecting] = useState(false);
+
+  // Lists the sheets of an Excel workbook so the user can choose what to import from each.
+  // Suggestions depend on the mapping profile, so this runs again when the profile changes.
+  const inspectFile = async (file: File | undefined, profileId: string) => {
+      setSheets(null);
+      setSheetRoles({});
+      if (!file || !file.name.toLowerCase().endsWith('.xlsx')) return;
+
+      setIsInspecting(true);
+      const formData = new FormData();
+      formData.set('spreadsheet', file);
+      if (profileId !== STANDARD_MAPPING) {
+          formData.set('mapping_profile_id', profileId);
+      }
+      const result = await inspectWorkbook(formData);
+      setIsInspecting(false);
+      if (!result.success || !result.sheets) {
+          toast({ title: 'Error', description: result.message, variant: 'destructive' });
+          return;
+      }
+      setSheets(result.sheets);
+      setSheetRoles(Object.fromEntries(result.sheets.map(sheet => [sheet.name, sheet.suggestedRole ?? SKIP_SHEET])));
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       setSelectedFileName(file ? file.name : null);
+      inspectFile(file, mappingProfileId);
   };
 
+  const handleMappingProfileChange = (profileId: string) => {
+      setMappingProfileId(profileId);
+      inspectFile(fileInputRef.current?.files?.[0], profileId);
+  };
+
+  const resetUpload = () => {
+      setPreview(null);
+      setSheets(null);
+      setSheetRoles({});
+      if (fileInputRef.current) {
+          fileInputRef.current.value = ''; // Clear the selected file
+      }
+      setSelectedFileName(null); // Clear the displayed name
+  };
 
+  // Step 1: parse the file into a staged preview (nothing is written yet)
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setIsSubmitting(true);
@@ -52,34 +116,54 @@ export function UploadForm() {
          return;
      }
 
+    formData.set('locale', locale);
+    formData.set('import_mode', importMode);
+    formData.set('budget_version_id', budgetVersionId);
+    // Single-sheet workbooks are read like a CSV file
+    if (sheets && sheets.length > 1) {
+        formData.set('sheet_roles', JSON.stringify(Object.fromEntries(Object.entries(sheetRoles).filter(([, role]) => role !== SKIP_SHEET))));
+    }
+    if (mappingProfileId !== STANDARD_MAPPING) {
+        formData.set('mapping_profile_id', mappingProfileId);
+    }
 
-    const result = await uploadSpreadsheet(formData);
+    const result = await previewSpreadsheet(formData);
 
+    if (result.success && result.preview) {
+        setPreview(result.preview);
+    }
     toast({
-      title: result.success ? 'Upload Successful' : 'Upload Failed',
+      title: result.success ? 'File Parsed' : 'Upload Failed',
       description: result.message,
       variant: result.success ? 'default' : 'destructive',
        duration: result.success ? 5000 : 10000, // Show errors longer
     });
 
-    // Reset the file input and selected file name if upload was successful
-     if (result.success && fileInputRef.current) {
-         fileInputRef.current.value = ''; // Clear the selected file
-         setSelectedFileName(null); // Clear the displayed name
-     }
-
-
     setIsSubmitting(false);
   };
 
+  if (preview) {
+      return (
+          <ImportReview
+              initialPreview={preview}
+              businessLines={businessLines}
+              costCenters={costCenters}
+              onClose={resetUpload}
+          />
+      );
+  }
+
   return (
     <Card className="w-full max-w-lg mx-auto">
       <CardHeader>
         <CardTitle>Upload Budget & Expense Data</CardTitle>
         <CardDescription>
           Upload an Excel (.xlsx) or CSV (.csv) file. Ensure columns match expected format:
-          Description, Amount, Year, Month, Type (CAPEX/OPEX), Business Line (Optional), Cost Center (Optional), Source (Optional, 'Budget' or 'Expense', defaults to Budget).
-          Header names and lookups are case-insensitive.
+          Description, Amount, Year and Month (or a single Date column such as 2025-03 or 03/2025), Type (CAPEX/OPEX), Currency (Optional, ISO code such as 'EUR', defaults to USD), Business Line (Optional), Cost Center (Optional), Source (Optional, 'Budget' or 'Expense', defaults to Budget), External ID (Optional, the row's key in the system it comes from, used to update rows on re-upload).
+          Amounts and dates written as text are read in the chosen number format; amounts that could be read either way are flagged for review.
+          Excel workbooks with several sheets let you choose which sheets to import and whether each holds budgets, expenses or master data.
+          Header names and lookups are case-insensitive. Files with other headers can be read with a column mapping profile.
+          You can review and fix every row before anything is saved.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -99,12 +183,109 @@ export function UploadForm() {
              {selectedFileName && (
                 <p className="text-sm text-muted-foreground mt-1">Selected: {selectedFileName}</p>
             )}
+            {isInspecting && <p className="text-sm text-muted-foreground">Reading sheets...</p>}
+          </div>
+          {sheets && sheets.length > 1 && (
+            <div className="grid w-full items-center gap-1.5">
+              <Label>Sheets</Label>
+              <p className="text-xs text-muted-foreground">
+                Choose what each sheet holds. Master-data sheets (Business Line and Cost Center columns, one pair per row) are saved together
+                with the other sheets' rows, which can use what they create. Rows without a business line on a sheet named after one get that business line.
+              </p>
+              {sheets.map(sheet => (
+                <div key={sheet.name} className="flex items-center gap-2">
+                  <span className="text-sm flex-1 truncate">
+                    {sheet.name} <span className="text-xs text-muted-foreground">({sheet.rowCount} rows)</span>
+                  </span>
+                  <Select
+                      value={sheetRoles[sheet.name] ?? SKIP_SHEET}
+                      onValueChange={(role) => setSheetRoles(prev => ({ ...prev, [sheet.name]: role }))}
+                      disabled={isSubmitting}
+                  >
+                      <SelectTrigger className="w-[240px]" aria-label={`Contents of sheet ${sheet.name}`}>
+                          <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value={SKIP_SHEET}>Don&apos;t import</SelectItem>
+                          {(Object.keys(WORKBOOK_SHEET_ROLES) as WorkbookSheetRole[]).map(role => (
+                              <SelectItem key={role} value={role}>{WORKBOOK_SHEET_ROLES[role]}</SelectItem>
+                          ))}
+                      </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="import-locale">Number & Date Format</Label>
+            <Select value={locale} onValueChange={(value: ImportLocale) => setLocale(value)} disabled={isSubmitting}>
+                <SelectTrigger id="import-locale">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(IMPORT_LOCALES) as ImportLocale[]).map(key => (
+                        <SelectItem key={key} value={key}>
+                            {IMPORT_LOCALES[key].label} ({IMPORT_LOCALES[key].example}, {IMPORT_LOCALES[key].dayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY'})
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+          </div>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="import-mode">Import Mode</Label>
+            <Select value={importMode} onValueChange={(value: ImportMode) => setImportMode(value)} disabled={isSubmitting}>
+                <SelectTrigger id="import-mode">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(IMPORT_MODES) as ImportMode[]).map(key => (
+                        <SelectItem key={key} value={key}>{IMPORT_MODES[key].label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{IMPORT_MODES[importMode].description}</p>
+          </div>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="budget-version">Budget Version</Label>
+            <Select value={budgetVersionId} onValueChange={setBudgetVersionId} disabled={isSubmitting}>
+                <SelectTrigger id="budget-version">
+                    <SelectValue placeholder="Select budget version" />
+                </SelectTrigger>
+                <SelectContent>
+                    {budgetVersions.map(version => (
+                        <SelectItem key={version.id} value={String(version.id)}>
+                            {version.name}{version.is_default ? ' (default)' : ''}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Budget rows are written to this version; upserts and replaced months only touch its budgets.</p>
+          </div>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="mapping-profile">Column Mapping</Label>
+            <Select value={mappingProfileId} onValueChange={handleMappingProfileChange} disabled={isSubmitting}>
+                <SelectTrigger id="mapping-profile">
+                    <SelectValue placeholder="Select mapping profile" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={STANDARD_MAPPING}>Standard columns</SelectItem>
+                    {mappingProfiles.map(profile => (
+                        <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Link href="/upload/mappings" className="text-xs text-muted-foreground flex items-center hover:text-primary">
+                <Settings2 className="h-3 w-3 mr-1" /> Manage mapping profiles
+            </Link>
           </div>
-          <Button type="submit" disabled={isSubmitting}>
-            <Upload className="mr-2 h-4 w-4" />
-            {isSubmitting ? 'Uploading...' : 'Upload and Process'}
+          <Button type="submit" disabled={isSubmitting || isInspecting}>
+            <FileSearch className="mr-2 h-4 w-4" />
+            {isSubmitting ? 'Reading file...' : 'Preview Import'}
           </Button>
         </form>
+        <Link href="/upload/cloud-costs" className="mt-4 text-sm text-muted-foreground flex items-center hover:text-primary">
+            <Cloud className="h-4 w-4 mr-1" /> Importing an AWS, Azure, GCP or FOCUS billing export? Use the cloud cost import.
+        </Link>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,253 @@
+"use client";
+
+import * as React from 'react';
+import type { BusinessLine, User, UserRole } from '@/types';
+import { USER_ROLES } from '@/lib/user-roles';
+import { deleteUser, saveUser } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Pencil, Trash2 } from 'lucide-react';
+
+interface UserManagerProps {
+    users: User[];
+    businessLines: BusinessLine[];
+    currentUserId: number; // The signed-in admin, who cannot delete themselves
+    oidcProviderName: string | null; // Set when single sign-on is configured
+}
+
+export function UserManager({ users, businessLines, currentUserId, oidcProviderName }: UserManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [name, setName] = React.useState('');
+    const [email, setEmail] = React.useState('');
+    const [role, setRole] = React.useState<UserRole>('viewer');
+    const [password, setPassword] = React.useState('');
+    const [isActive, setIsActive] = React.useState(true);
+    const [businessLineIds, setBusinessLineIds] = React.useState<number[]>([]);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        setName('');
+        setEmail('');
+        setRole('viewer');
+        setPassword('');
+        setIsActive(true);
+        setBusinessLineIds([]);
+    };
+
+    const startEdit = (user: User) => {
+        setEditingId(user.id);
+        setName(user.name);
+        setEmail(user.email);
+        setRole(user.role);
+        setPassword('');
+        setIsActive(user.is_active);
+        setBusinessLineIds(user.business_line_ids);
+    };
+
+    const toggleBusinessLine = (id: number, checked: boolean) => {
+        setBusinessLineIds(prev => checked ? [...prev, id] : prev.filter(other => other !== id));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveUser(editingId, { name, email, role, password, is_active: isActive, business_line_ids: businessLineIds });
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteUser(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    const signInMethods = (user: User) => [
+        user.has_password && 'Password',
+        user.oidc_subject && (oidcProviderName ?? 'Single sign-on'),
+    ].filter(Boolean).join(', ') || 'None yet';
+
+    // Mirrors getBusinessLineScope on the server
+    const describeAccess = (userRole: UserRole, ids: number[]) => {
+        if (userRole === 'admin' || (ids.length === 0 && userRole !== 'business_line_owner')) return 'All business lines';
+        if (ids.length === 0) return 'No business lines';
+        return businessLines.filter(bl => ids.includes(bl.id)).map(bl => bl.name).join(', ');
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New User' : 'Edit User'}</CardTitle>
+                    <CardDescription>{USER_ROLES[role].description}</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="user-name">Name</Label>
+                        <Input id="user-name" placeholder="e.g., Jane Doe" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="user-email">Email</Label>
+                        <Input id="user-email" type="email" placeholder="jane.doe@example.com" value={email} onChange={(e) => setEmail(e.target.value)} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="user-role">Role</Label>
+                        <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
+                            <SelectTrigger id="user-role">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(USER_ROLES) as UserRole[]).map(key => (
+                                    <SelectItem key={key} value={key}>{USER_ROLES[key].label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="user-password">{editingId === null ? 'Password' : 'New Password'}</Label>
+                        <Input id="user-password" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                        <p className="text-xs text-muted-foreground">
+                            {editingId === null
+                                ? `Leave empty for a user who only signs in with ${oidcProviderName ?? 'single sign-on'}; their account is linked by email on their first sign-in.`
+                                : 'Leave empty to keep the current password. A new password signs the user out everywhere.'}
+                        </p>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label>Business Lines</Label>
+                        <div className="grid gap-2 max-h-40 overflow-y-auto rounded-md border p-3">
+                            {businessLines.length === 0 && <p className="text-sm text-muted-foreground">No business lines yet.</p>}
+                            {businessLines.map(bl => (
+                                <div key={bl.id} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`user-bl-${bl.id}`}
+                                        checked={businessLineIds.includes(bl.id)}
+                                        onCheckedChange={(checked) => toggleBusinessLine(bl.id, checked === true)}
+                                        disabled={role === 'admin'}
+                                    />
+                                    <Label htmlFor={`user-bl-${bl.id}`} className="cursor-pointer font-normal">{bl.name}</Label>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            {role === 'admin'
+                                ? 'Admins see every business line.'
+                                : role === 'business_line_owner'
+                                    ? 'Business line owners only see and change the budgets of the business lines ticked here.'
+                                    : 'Tick business lines to limit the user to their budgets and expenses; leave all unticked for every business line. Limited users cannot manage master data, alerts or settings.'}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Switch id="user-active" checked={isActive} onCheckedChange={setIsActive} />
+                        <Label htmlFor="user-active">Active (deactivated users cannot sign in)</Label>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add User' : 'Update User')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader>
+                    <CardTitle>Users</CardTitle>
+                    <CardDescription>
+                        Roles are checked on the server for every change. To make a user the approver of a business line, pick
+                        them as its budget owner on the Business Lines page.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Role</TableHead>
+                                    <TableHead>Access</TableHead>
+                                    <TableHead>Signs In With</TableHead>
+                                    <TableHead>Last Sign-In</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {users.map(user => (
+                                    <TableRow key={user.id} className={user.is_active ? undefined : 'text-muted-foreground'}>
+                                        <TableCell className="font-medium">
+                                            {user.name}
+                                            {user.id === currentUserId && <Badge variant="secondary" className="ml-2">You</Badge>}
+                                            {!user.is_active && <Badge variant="outline" className="ml-2">Deactivated</Badge>}
+                                            <div className="text-xs text-muted-foreground">{user.email}</div>
+                                        </TableCell>
+                                        <TableCell>{USER_ROLES[user.role].label}</TableCell>
+                                        <TableCell>{describeAccess(user.role, user.business_line_ids)}</TableCell>
+                                        <TableCell>{signInMethods(user)}</TableCell>
+                                        <TableCell className="whitespace-nowrap">{user.last_login_at ?? <span className="text-muted-foreground">Never</span>}</TableCell>
+                                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                            <Button variant="ghost" size="icon" aria-label="Edit User" onClick={() => startEdit(user)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            {user.id !== currentUserId && (
+                                                <ConfirmDialog
+                                                    trigger={
+                                                        <Button variant="ghost" size="icon" aria-label="Delete User" className="text-destructive hover:text-destructive/80">
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </Button>
+                                                    }
+                                                    title={`Delete the user '${user.name}'?`}
+                                                    description="They are signed out and can no longer sign in. Their past reviews and imports keep their name. This action cannot be undone."
+                                                    confirmText="Delete"
+                                                    onConfirm={() => handleDelete(user.id)}
+                                                    confirmVariant='destructive'
+                                                />
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
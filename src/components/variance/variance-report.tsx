@@ -0,0 +1,414 @@
+"use client";
+
+import * as React from 'react';
+import type { BudgetVersion, ForecastMethod, VarianceCell, VarianceDimension, VarianceEntry, VariancePeriodKind, VarianceQuery, VarianceReport, VarianceRow } from '@/types';
+import { formatMonth, VARIANCE_DIMENSIONS, VARIANCE_PERIODS } from '@/lib/variance';
+import { formatCurrency } from '@/lib/currency';
+import { FORECAST_METHODS } from '@/lib/forecast';
+import { getVarianceDrillDown, setFiscalYearStartMonth } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableFooter,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { cn } from '@/lib/utils';
+
+// Select value for comparing the budget version with actual expenses
+const ACTUALS = "__ACTUALS__";
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+interface VarianceReportViewProps {
+    query: VarianceQuery;
+    report: VarianceReport | null; // null when the report could not be built
+    fiscalYearStartMonth: number;
+    versions: BudgetVersion[];
+}
+
+// A clicked cell, drilled down to its entries
+interface DrillDown {
+    row: VarianceRow;
+    cell: VarianceCell;
+    title: string;
+    entries: VarianceEntry[] | null; // null while loading
+}
+
+function formatPercent(value: number | null): string {
+    return value === null ? '—' : `${value.toFixed(1)}%`;
+}
+
+// Under budget is favorable, over budget unfavorable
+function varianceClass(variance: number): string {
+    if (variance > 0) return 'text-green-600';
+    if (variance < 0) return 'text-destructive';
+    return '';
+}
+
+export function VarianceReportView({ query, report, fiscalYearStartMonth, versions }: VarianceReportViewProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+    const [year, setYear] = React.useState(String(query.year));
+    const [drillDown, setDrillDown] = React.useState<DrillDown | null>(null);
+
+    React.useEffect(() => {
+        setYear(String(query.year));
+    }, [query.year]);
+
+    const navigate = (changes: Partial<VarianceQuery>) => {
+        const next = { ...query, ...changes };
+        const params = new URLSearchParams({
+            dimension: next.dimension,
+            period: next.period,
+            year: String(next.year),
+            month: String(next.month),
+            forecast: next.forecast,
+        });
+        if (next.versionId !== null) params.set('version', String(next.versionId));
+        if (next.compareVersionId !== null) params.set('compare', String(next.compareVersionId));
+        router.push(`/variance?${params.toString()}`);
+    };
+
+    const handleYearBlur = () => {
+        const parsed = parseInt(year, 10);
+        if (!isNaN(parsed) && parsed >= 1900 && parsed <= 2100 && parsed !== query.year) {
+            navigate({ year: parsed });
+        } else {
+            setYear(String(query.year));
+        }
+    };
+
+    const handleFiscalYearStartChange = async (value: string) => {
+        const result = await setFiscalYearStartMonth(parseInt(value, 10));
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+        if (result.success) router.refresh();
+    };
+
+    const openDrillDown = async (row: VarianceRow, cell: VarianceCell, column: string) => {
+        const title = `${row.label}: ${column}`;
+        setDrillDown({ row, cell, title, entries: null });
+        const entries = await getVarianceDrillDown(query, row.key, cell);
+        // Ignore the result if another cell was opened in the meantime
+        setDrillDown(current => current && current.row.key === row.key && current.title === title ? { ...current, entries } : current);
+    };
+
+    // An amount that opens the entries behind it
+    const drillCell = (row: VarianceRow, amount: number, cell: VarianceCell, column: string, className?: string) => (
+        <TableCell className={cn('text-right', className)}>
+            <button
+                type="button"
+                className="underline-offset-4 hover:underline"
+                onClick={() => openDrillDown(row, cell, column)}
+                aria-label={`Show entries behind ${column} of ${row.label}`}
+            >
+                {formatCurrency(amount, report?.currency)}
+            </button>
+        </TableCell>
+    );
+
+    // With a compare version, its budgets are in the actual columns
+    const actualLabel = report?.compareVersion ? report.compareVersion.name : 'Actual';
+    const sourceLabel = (entry: VarianceEntry) => {
+        if (!report?.compareVersion) return entry.source;
+        return entry.source === 'Budget' ? report.version.name : report.compareVersion.name;
+    };
+
+    const renderRow = (row: VarianceRow, isTotal = false) => (
+        <TableRow key={row.key} className={cn(isTotal && 'font-semibold')}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            {drillCell(row, row.budget, { source: 'Budget', scope: 'period' }, 'Budget')}
+            {drillCell(row, row.actual, { source: 'Expense', scope: 'period' }, actualLabel)}
+            {drillCell(row, row.variance, { source: null, scope: 'period' }, 'Variance', varianceClass(row.variance))}
+            <TableCell className={cn('text-right', varianceClass(row.variance))}>{formatPercent(row.variancePercent)}</TableCell>
+            {drillCell(row, row.fiscalYearBudget, { source: 'Budget', scope: 'fiscal_year' }, 'Fiscal Year Budget')}
+            {drillCell(row, row.fiscalYearActual, { source: 'Expense', scope: 'fiscal_year' }, `Fiscal Year ${actualLabel}`)}
+            <TableCell className="text-right">
+                {row.consumedPercent !== null && row.consumedPercent > 100
+                    ? <Badge variant="destructive">{formatPercent(row.consumedPercent)}</Badge>
+                    : formatPercent(row.consumedPercent)}
+            </TableCell>
+            {drillCell(row, row.remaining, { source: null, scope: 'fiscal_year' }, 'Remaining', varianceClass(row.remaining))}
+            <TableCell className="text-right">
+                {row.projectedYearEnd !== null ? formatCurrency(row.projectedYearEnd, report?.currency) : '—'}
+            </TableCell>
+            <TableCell className={cn('text-right', row.projectedVariance !== null && varianceClass(row.projectedVariance))}>
+                {row.projectedVariance !== null ? formatCurrency(row.projectedVariance, report?.currency) : '—'}
+            </TableCell>
+        </TableRow>
+    );
+
+    const drillDownTotal = drillDown?.entries?.reduce(
+        (sum, entry) => sum + (entry.source === 'Budget' || drillDown.cell.source !== null ? entry.convertedAmount : -entry.convertedAmount),
+        0
+    );
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+                    <div className="grid items-center gap-1.5 w-44">
+                        <Label htmlFor="variance-dimension">Group By</Label>
+                        <Select value={query.dimension} onValueChange={(value: VarianceDimension) => navigate({ dimension: value })}>
+                            <SelectTrigger id="variance-dimension">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(VARIANCE_DIMENSIONS) as VarianceDimension[]).map(key => (
+                                    <SelectItem key={key} value={key}>{VARIANCE_DIMENSIONS[key]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-52">
+                        <Label htmlFor="variance-period">Period</Label>
+                        <Select value={query.period} onValueChange={(value: VariancePeriodKind) => navigate({ period: value })}>
+                            <SelectTrigger id="variance-period">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(VARIANCE_PERIODS) as VariancePeriodKind[]).map(key => (
+                                    <SelectItem key={key} value={key}>{VARIANCE_PERIODS[key]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-40">
+                        <Label htmlFor="variance-month">Through Month</Label>
+                        <Select value={String(query.month)} onValueChange={(value) => navigate({ month: parseInt(value, 10) })}>
+                            <SelectTrigger id="variance-month">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {MONTH_NAMES.map((name, i) => (
+                                    <SelectItem key={name} value={String(i + 1)}>{name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-24">
+                        <Label htmlFor="variance-year">Year</Label>
+                        <Input
+                            id="variance-year"
+                            inputMode="numeric"
+                            value={year}
+                            onChange={(e) => setYear(e.target.value)}
+                            onBlur={handleYearBlur}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleYearBlur(); }}
+                        />
+                    </div>
+                    <div className="grid items-center gap-1.5 w-44">
+                        <Label htmlFor="variance-version">Budget Version</Label>
+                        <Select
+                            value={String(query.versionId ?? versions.find(version => version.is_default)?.id ?? '')}
+                            onValueChange={(value) => navigate({ versionId: parseInt(value, 10) })}
+                        >
+                            <SelectTrigger id="variance-version">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {versions.map(version => (
+                                    <SelectItem key={version.id} value={String(version.id)}>{version.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-44">
+                        <Label htmlFor="variance-compare">Compare With</Label>
+                        <Select
+                            value={query.compareVersionId !== null ? String(query.compareVersionId) : ACTUALS}
+                            onValueChange={(value) => navigate({ compareVersionId: value === ACTUALS ? null : parseInt(value, 10) })}
+                        >
+                            <SelectTrigger id="variance-compare">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ACTUALS}>Actual expenses</SelectItem>
+                                {versions.map(version => (
+                                    <SelectItem key={version.id} value={String(version.id)}>{version.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-44">
+                        <Label htmlFor="variance-forecast">Forecast</Label>
+                        <Select value={query.forecast} onValueChange={(value: ForecastMethod) => navigate({ forecast: value })} disabled={query.compareVersionId !== null}>
+                            <SelectTrigger id="variance-forecast" title={FORECAST_METHODS[query.forecast].description}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(FORECAST_METHODS) as ForecastMethod[]).map(key => (
+                                    <SelectItem key={key} value={key}>{FORECAST_METHODS[key].label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid items-center gap-1.5 w-44 ml-auto">
+                        <Label htmlFor="fiscal-year-start">Fiscal Year Starts In</Label>
+                        <Select value={String(fiscalYearStartMonth)} onValueChange={handleFiscalYearStartChange}>
+                            <SelectTrigger id="fiscal-year-start">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {MONTH_NAMES.map((name, i) => (
+                                    <SelectItem key={name} value={String(i + 1)}>{name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{report ? report.period.label : 'Variance'}</CardTitle>
+                    <CardDescription>
+                        {report?.compareVersion && (
+                            <>
+                                The {report.version.name} budget versus the {report.compareVersion.name} budget per {VARIANCE_DIMENSIONS[query.dimension].toLowerCase()} from {formatMonth(report.period.start.year, report.period.start.month)} to {formatMonth(report.period.end.year, report.period.end.month)}, in {report.currency}.
+                                Variance is {report.version.name} minus {report.compareVersion.name}: green where {report.compareVersion.name} plans less, red where it plans more.
+                                The fiscal-year columns compare both versions over all of {report.fiscalYear.label}. Nothing is projected when versions are compared.
+                                Click an amount to see the entries behind it.
+                            </>
+                        )}
+                        {report && !report.compareVersion && (
+                            <>
+                                {report.version.name} budget versus actual per {VARIANCE_DIMENSIONS[query.dimension].toLowerCase()} from {formatMonth(report.period.start.year, report.period.start.month)} to {formatMonth(report.period.end.year, report.period.end.month)}, in {report.currency}.
+                                Variance is budget minus actual: green is under budget, red over. Consumed and Remaining compare the {report.fiscalYear.label} budget
+                                ({formatMonth(report.fiscalYear.start.year, report.fiscalYear.start.month)} to {formatMonth(report.fiscalYear.end.year, report.fiscalYear.end.month)}) with actuals so far.
+                                {report.forecast
+                                    ? <> Projected FY-End adds a {FORECAST_METHODS[query.forecast].label.toLowerCase()} forecast of expenses from {formatMonth(report.forecast.start.year, report.forecast.start.month)} to {formatMonth(report.forecast.end.year, report.forecast.end.month)} to the actuals; Projected vs. Budget is the fiscal year&apos;s budget minus that projection.</>
+                                    : <> The period ends the fiscal year, so Projected FY-End is the actual spend.</>}
+                                Click an amount to see the entries behind it.
+                            </>
+                        )}
+                        {!report && 'The report could not be built. Please check server logs.'}
+                    </CardDescription>
+                </CardHeader>
+                {report && (
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>{VARIANCE_DIMENSIONS[query.dimension]}</TableHead>
+                                        <TableHead className="text-right">Budget</TableHead>
+                                        <TableHead className="text-right">{actualLabel}</TableHead>
+                                        <TableHead className="text-right">Variance</TableHead>
+                                        <TableHead className="text-right">Variance %</TableHead>
+                                        <TableHead className="text-right">FY Budget</TableHead>
+                                        <TableHead className="text-right">FY {actualLabel}</TableHead>
+                                        <TableHead className="text-right">Consumed</TableHead>
+                                        <TableHead className="text-right">Remaining</TableHead>
+                                        <TableHead className="text-right">Projected FY-End</TableHead>
+                                        <TableHead className="text-right">Projected vs. Budget</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {report.rows.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={11} className="text-center h-24 text-muted-foreground">
+                                                No budgets or expenses in {report.fiscalYear.label}.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {report.rows.map(row => renderRow(row))}
+                                </TableBody>
+                                {report.rows.length > 0 && (
+                                    <TableFooter>
+                                        {renderRow(report.totals, true)}
+                                    </TableFooter>
+                                )}
+                            </Table>
+                        </div>
+                    </CardContent>
+                )}
+            </Card>
+
+            <Dialog open={drillDown !== null} onOpenChange={(open) => !open && setDrillDown(null)}>
+                <DialogContent className="sm:max-w-4xl">
+                    <DialogHeader>
+                        <DialogTitle>{drillDown?.title}</DialogTitle>
+                        <DialogDescription>
+                            {report?.compareVersion
+                                ? `Budgets behind this amount; ${report.compareVersion.name} budgets count against ${report.version.name}.`
+                                : drillDown?.cell.source === null
+                                    ? 'Budgets and expenses behind this amount; expenses count against the budget.'
+                                    : `${drillDown?.cell.source === 'Budget' ? 'Budgets' : 'Expenses'} behind this amount.`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {drillDown && drillDown.entries === null && (
+                        <p className="text-sm text-muted-foreground">Loading entries...</p>
+                    )}
+                    {drillDown?.entries && (
+                        <div className="max-h-[60vh] overflow-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Source</TableHead>
+                                        <TableHead>Description</TableHead>
+                                        <TableHead>Month</TableHead>
+                                        <TableHead>Type</TableHead>
+                                        <TableHead>Business Line</TableHead>
+                                        <TableHead>Cost Center</TableHead>
+                                        <TableHead className="text-right">Amount</TableHead>
+                                        <TableHead className="text-right">In {report?.currency}</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {drillDown.entries.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={8} className="text-center h-16 text-muted-foreground">
+                                                No entries.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {drillDown.entries.map(entry => (
+                                        <TableRow key={`${entry.source}-${entry.id}`}>
+                                            <TableCell>
+                                                <Badge variant={entry.source === 'Budget' ? 'secondary' : 'outline'}>{sourceLabel(entry)}</Badge>
+                                            </TableCell>
+                                            <TableCell className="font-medium">{entry.description}</TableCell>
+                                            <TableCell>{formatMonth(entry.year, entry.month)}</TableCell>
+                                            <TableCell>{entry.type}</TableCell>
+                                            <TableCell>{entry.business_line_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
+                                            <TableCell>{entry.cost_center_name || <span className="text-xs text-muted-foreground italic">N/A</span>}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(entry.amount, entry.currency)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(entry.convertedAmount, report?.currency)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                                {drillDown.entries.length > 0 && drillDownTotal !== undefined && (
+                                    <TableFooter>
+                                        <TableRow className="font-semibold">
+                                            <TableCell colSpan={7}>{drillDown.cell.source === null ? `Budget minus ${actualLabel.toLowerCase()}` : 'Total'}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(drillDownTotal, report?.currency)}</TableCell>
+                                        </TableRow>
+                                    </TableFooter>
+                                )}
+                            </Table>
+                        </div>
+                    )}
+                    <div className="flex justify-end">
+                        <Button variant="outline" onClick={() => setDrillDown(null)}>Close</Button>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
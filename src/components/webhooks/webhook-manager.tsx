@@ -0,0 +1,302 @@
+"use client";
+
+import * as React from 'react';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription } from '@/types';
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENTS, WEBHOOK_RETRY_DELAYS_MINUTES } from '@/lib/webhook-events';
+import { deleteWebhookSubscription, saveWebhookSubscription, testWebhookSubscription } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Loader2, Pencil, RefreshCw, Send, Trash2 } from 'lucide-react';
+
+interface WebhookManagerProps {
+    subscriptions: WebhookSubscription[]; // Secrets blanked
+    deliveries: WebhookDelivery[]; // The latest, newest first
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    'pending': 'outline',
+    'delivered': 'secondary',
+    'failed': 'destructive',
+};
+
+export function WebhookManager({ subscriptions, deliveries }: WebhookManagerProps) {
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const [editingId, setEditingId] = React.useState<number | null>(null);
+    const [name, setName] = React.useState('');
+    const [url, setUrl] = React.useState('');
+    const [secret, setSecret] = React.useState('');
+    const [events, setEvents] = React.useState<WebhookEvent[]>([]);
+    const [isActive, setIsActive] = React.useState(true);
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [testingId, setTestingId] = React.useState<number | null>(null);
+
+    const showResult = (result: { success: boolean; message: string }) => {
+        toast({
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+            variant: result.success ? 'default' : 'destructive',
+        });
+    };
+
+    const startNew = () => {
+        setEditingId(null);
+        setName('');
+        setUrl('');
+        setSecret('');
+        setEvents([]);
+        setIsActive(true);
+    };
+
+    const startEdit = (subscription: WebhookSubscription) => {
+        setEditingId(subscription.id);
+        setName(subscription.name);
+        setUrl(subscription.url);
+        setSecret('');
+        setEvents(subscription.events);
+        setIsActive(subscription.is_active);
+    };
+
+    const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+        setEvents(prev => checked ? [...prev, event] : prev.filter(other => other !== event));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await saveWebhookSubscription(editingId, { name, url, secret, events, is_active: isActive });
+        showResult(result);
+        if (result.success) {
+            startNew();
+            router.refresh();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteWebhookSubscription(id);
+        showResult(result);
+        if (result.success) {
+            if (editingId === id) startNew();
+            router.refresh();
+        }
+    };
+
+    const handleTest = async (id: number) => {
+        setTestingId(id);
+        showResult(await testWebhookSubscription(id));
+        router.refresh(); // The test shows up in the delivery log either way
+        setTestingId(null);
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{editingId === null ? 'New Webhook' : 'Edit Webhook'}</CardTitle>
+                    <CardDescription>
+                        Events are POSTed as JSON with the body signed with HMAC-SHA256 in the X-Signature-256 header. Failed deliveries are
+                        retried {WEBHOOK_RETRY_DELAYS_MINUTES.length} times, over about {Math.round(WEBHOOK_RETRY_DELAYS_MINUTES.reduce((sum, minutes) => sum + minutes, 0) / 60)} hours.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="webhook-name">Name</Label>
+                        <Input id="webhook-name" placeholder="e.g., Warehouse loader" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="webhook-url">URL</Label>
+                        <Input id="webhook-url" placeholder="https://" value={url} onChange={(e) => setUrl(e.target.value)} />
+                    </div>
+                    <div className="grid items-center gap-1.5">
+                        <Label htmlFor="webhook-secret">Signing Secret</Label>
+                        <Input
+                            id="webhook-secret"
+                            type="password"
+                            autoComplete="off"
+                            placeholder={editingId !== null ? 'Leave empty to keep the stored one' : 'At least 16 characters'}
+                            value={secret}
+                            onChange={(e) => setSecret(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label>Events</Label>
+                        <div className="grid gap-3 rounded-md border p-3">
+                            {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map(event => (
+                                <div key={event} className="flex items-start gap-2">
+                                    <Checkbox
+                                        id={`webhook-event-${event}`}
+                                        checked={events.includes(event)}
+                                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                                    />
+                                    <div className="grid gap-0.5">
+                                        <Label htmlFor={`webhook-event-${event}`} className="cursor-pointer">
+                                            {WEBHOOK_EVENTS[event].label} <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                                        </Label>
+                                        <p className="text-xs text-muted-foreground">{WEBHOOK_EVENTS[event].description}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Switch id="webhook-active" checked={isActive} onCheckedChange={setIsActive} />
+                        <Label htmlFor="webhook-active">Active (paused webhooks keep their pending deliveries)</Label>
+                    </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : (editingId === null ? 'Add Webhook' : 'Update Webhook')}
+                    </Button>
+                    {editingId !== null && (
+                        <Button variant="outline" onClick={startNew} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    )}
+                </CardFooter>
+            </Card>
+
+            <div className="grid gap-6 lg:col-span-2 content-start">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Webhooks</CardTitle>
+                        <CardDescription>Send a test event to check a webhook, e.g. against a local request bin.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Name</TableHead>
+                                        <TableHead>Events</TableHead>
+                                        <TableHead>Status</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {subscriptions.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={4} className="text-center h-24 text-muted-foreground">
+                                                No webhooks yet.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {subscriptions.map(subscription => (
+                                        <TableRow key={subscription.id}>
+                                            <TableCell className="font-medium">
+                                                {subscription.name}
+                                                <div className="text-xs text-muted-foreground max-w-xs truncate" title={subscription.url}>{subscription.url}</div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {subscription.events.map(event => (
+                                                        <Badge key={event} variant="secondary" className="font-mono">{event}</Badge>
+                                                    ))}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant={subscription.is_active ? 'secondary' : 'outline'}>{subscription.is_active ? 'Active' : 'Paused'}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                                <Button variant="ghost" size="icon" aria-label="Send Test Event" onClick={() => handleTest(subscription.id)} disabled={testingId !== null}>
+                                                    {testingId === subscription.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                                                </Button>
+                                                <Button variant="ghost" size="icon" aria-label="Edit Webhook" onClick={() => startEdit(subscription)}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <ConfirmDialog
+                                                    trigger={
+                                                        <Button variant="ghost" size="icon" aria-label="Delete Webhook" className="text-destructive hover:text-destructive/80">
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </Button>
+                                                    }
+                                                    title={`Delete the webhook '${subscription.name}'?`}
+                                                    description="Events are no longer sent to it. Its delivery log and deliveries waiting for a retry are deleted too."
+                                                    confirmText="Delete"
+                                                    onConfirm={() => handleDelete(subscription.id)}
+                                                    confirmVariant='destructive'
+                                                />
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                        <div>
+                            <CardTitle>Delivery Log</CardTitle>
+                            <CardDescription>
+                                The latest {deliveries.length} deliveries with the response of their latest attempt. Finished deliveries are kept for 30 days.
+                            </CardDescription>
+                        </div>
+                        <Button variant="outline" size="icon" aria-label="Refresh Delivery Log" onClick={() => router.refresh()}>
+                            <RefreshCw className="h-4 w-4" />
+                        </Button>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Queued (UTC)</TableHead>
+                                        <TableHead>Webhook</TableHead>
+                                        <TableHead>Event</TableHead>
+                                        <TableHead>Status</TableHead>
+                                        <TableHead className="text-right">Attempts</TableHead>
+                                        <TableHead className="text-right">Response</TableHead>
+                                        <TableHead>Details</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {deliveries.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
+                                                Nothing delivered yet.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {deliveries.map(delivery => (
+                                        <TableRow key={delivery.id}>
+                                            <TableCell className="whitespace-nowrap">{delivery.created_at}</TableCell>
+                                            <TableCell>{delivery.subscription_name}</TableCell>
+                                            <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={STATUS_VARIANTS[delivery.status]}>{WEBHOOK_DELIVERY_STATUSES[delivery.status]}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-right">{delivery.attempts}/{delivery.max_attempts}</TableCell>
+                                            <TableCell className="text-right">{delivery.response_status ?? '—'}</TableCell>
+                                            <TableCell className="text-xs text-muted-foreground max-w-xs">
+                                                {delivery.error && <div className="truncate" title={delivery.error}>{delivery.error}</div>}
+                                                {delivery.status === 'pending' && delivery.next_attempt_at && <div>Next attempt {delivery.next_attempt_at}</div>}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
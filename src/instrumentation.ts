@@ -0,0 +1,12 @@
+// Runs once when a server instance starts
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXT_PHASE !== 'phase-production-build') {
+        // Throws a ConfigError listing every invalid setting, so a misconfigured server does not start
+        const { getConfig } = await import('@/lib/config');
+        getConfig();
+        const { startBackupScheduler } = await import('@/lib/backup');
+        startBackupScheduler();
+        const { startWebhookDispatcher } = await import('@/lib/webhooks');
+        startWebhookDispatcher();
+    }
+}
@@ -0,0 +1,193 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import type { AlertNotification } from '@/types';
+import type { AlertChannelSender } from '@/lib/alerts';
+
+const SMTP_TIMEOUT_MS = 15_000;
+const EHLO_NAME = 'localhost';
+
+export interface SmtpSettings {
+    host: string;
+    port: number;
+    secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when the server offers it
+    username: string; // Empty for servers without authentication, e.g. local stand-ins like MailHog
+    password: string;
+}
+
+export interface SmtpMail {
+    from: string; // 'alerts@example.com' or 'Budget Alerts <alerts@example.com>'
+    to: string[];
+    subject: string;
+    text: string;
+}
+
+interface SmtpResponse {
+    code: number;
+    lines: string[];
+}
+
+// Reads SMTP replies off a socket; multi-line replies ('250-...') are collected up to their last line ('250 ...')
+function createReplyReader(socket: net.Socket) {
+    let buffer = '';
+    let lines: string[] = [];
+    let failure: Error | null = null;
+    const replies: SmtpResponse[] = [];
+    const waiting: { resolve: (reply: SmtpResponse) => void; reject: (error: Error) => void }[] = [];
+
+    const onData = (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+            const line = buffer.slice(0, newline).replace(/\r$/, '');
+            buffer = buffer.slice(newline + 1);
+            lines.push(line.slice(4));
+            if (line.charAt(3) !== '-') {
+                const reply = { code: parseInt(line.slice(0, 3), 10), lines };
+                lines = [];
+                const reader = waiting.shift();
+                if (reader) reader.resolve(reply); else replies.push(reply);
+            }
+        }
+    };
+    const onFailure = (error: Error) => {
+        failure = failure ?? error;
+        waiting.splice(0).forEach(reader => reader.reject(failure!));
+    };
+    const onClose = () => onFailure(new Error('The SMTP server closed the connection.'));
+
+    socket.on('data', onData);
+    socket.on('error', onFailure);
+    socket.on('close', onClose);
+
+    return {
+        next(): Promise<SmtpResponse> {
+            const reply = replies.shift();
+            if (reply) return Promise.resolve(reply);
+            if (failure) return Promise.reject(failure);
+            return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+        },
+        // Stops reading, e.g. before the socket is upgraded to TLS
+        detach() {
+            socket.off('data', onData);
+            socket.off('error', onFailure);
+            socket.off('close', onClose);
+        },
+    };
+}
+
+function connect(settings: SmtpSettings): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = settings.secure
+            ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host }, () => resolve(socket))
+            : net.connect({ host: settings.host, port: settings.port }, () => resolve(socket));
+        socket.once('error', reject);
+    });
+}
+
+function setReplyTimeout(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`The SMTP server did not answer within ${SMTP_TIMEOUT_MS / 1000} seconds.`)));
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+        const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+        secureSocket.once('error', reject);
+    });
+}
+
+// The address in 'Name <address>', or the whole value
+function envelopeAddress(address: string): string {
+    const match = address.match(/<([^>]+)>/);
+    return (match ? match[1] : address).trim();
+}
+
+// Non-ASCII header values are encoded as RFC 2047 words
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(mail: SmtpMail, host: string): string {
+    const headers = [
+        `From: ${mail.from}`,
+        `To: ${mail.to.join(', ')}`,
+        `Subject: ${encodeHeader(mail.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${host}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+    ];
+    // Lines starting with '.' are doubled so they do not end the DATA section
+    const body = mail.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+// Sends one plain-text mail. Supports implicit TLS, STARTTLS and AUTH PLAIN: enough for relays and for local
+// stand-ins such as MailHog or smtp4dev.
+export async function sendSmtpMail(settings: SmtpSettings, mail: SmtpMail): Promise<void> {
+    let socket = await connect(settings);
+    setReplyTimeout(socket);
+    let reader = createReplyReader(socket);
+
+    const expect = async (command: string | null, codes: number[]): Promise<SmtpResponse> => {
+        if (command !== null) socket.write(`${command}\r\n`);
+        const reply = await reader.next();
+        if (!codes.includes(reply.code)) {
+            const shown = command?.startsWith('AUTH') ? 'AUTH PLAIN' : command ?? 'connection';
+            throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    };
+
+    try {
+        await expect(null, [220]);
+        const ehlo = await expect(`EHLO ${EHLO_NAME}`, [250]);
+        if (!settings.secure && ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+            await expect('STARTTLS', [220]);
+            reader.detach();
+            socket = await upgradeToTls(socket, settings.host);
+            setReplyTimeout(socket);
+            reader = createReplyReader(socket);
+            await expect(`EHLO ${EHLO_NAME}`, [250]);
+        }
+        if (settings.username) {
+            const credentials = Buffer.from(`\0${settings.username}\0${settings.password}`, 'utf8').toString('base64');
+            await expect(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await expect(`MAIL FROM:<${envelopeAddress(mail.from)}>`, [250]);
+        for (const recipient of mail.to) {
+            await expect(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251]);
+        }
+        await expect('DATA', [354]);
+        socket.write(buildMessage(mail, settings.host));
+        await expect(null, [250]);
+        await expect('QUIT', [221]).catch(() => undefined); // The mail is accepted at this point
+    } finally {
+        reader.detach();
+        socket.destroy();
+    }
+}
+
+export function createEmailChannel(config: SmtpSettings & { from: string; to: string }): AlertChannelSender {
+    const recipients = config.to.split(',').map(address => address.trim()).filter(Boolean);
+    return {
+        async send(notification: AlertNotification) {
+            await sendSmtpMail(config, {
+                from: config.from,
+                to: recipients,
+                subject: `Budget alert: ${notification.ruleName}`,
+                text: [
+                    notification.message,
+                    '',
+                    `Scope: ${notification.scope}`,
+                    `Period: ${notification.period}`,
+                    `Budget: ${notification.budget.toFixed(2)} ${notification.currency}`,
+                    `Spent: ${notification.actual.toFixed(2)} ${notification.currency}`,
+                    `Threshold: ${notification.threshold.toFixed(2)} ${notification.currency}`,
+                    `Triggered at: ${notification.triggeredAt}`,
+                ].join('\n'),
+            });
+        },
+    };
+}
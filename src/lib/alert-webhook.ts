@@ -0,0 +1,41 @@
+import { createHmac } from 'crypto';
+import type { AlertNotification } from '@/types';
+import type { AlertChannelSender } from '@/lib/alerts';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`${url} responded with ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+    }
+}
+
+// Generic webhook: the notification as JSON. With a secret, receivers can verify the body against the
+// 'X-Signature-256: sha256=<hex HMAC-SHA256 of the body>' header.
+export function createWebhookChannel(config: { url: string; secret: string }): AlertChannelSender {
+    return {
+        async send(notification: AlertNotification) {
+            const body = JSON.stringify({ event: 'budget_alert', alert: notification });
+            const headers: Record<string, string> = config.secret
+                ? { 'X-Signature-256': `sha256=${createHmac('sha256', config.secret).update(body).digest('hex')}` }
+                : {};
+            await postJson(config.url, body, headers);
+        },
+    };
+}
+
+// Slack incoming webhooks (and compatible ones such as Mattermost's) take a plain 'text' message
+export function createSlackChannel(config: { url: string }): AlertChannelSender {
+    return {
+        async send(notification: AlertNotification) {
+            await postJson(config.url, JSON.stringify({ text: `:rotating_light: *${notification.ruleName}*\n${notification.message}` }));
+        },
+    };
+}
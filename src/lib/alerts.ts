@@ -0,0 +1,124 @@
+import type { AlertChannelKind, AlertNotification, AlertPeriod, AlertRule, AlertScope, AlertThresholdKind, MonthRange, VarianceEntry } from '@/types';
+import { fiscalYearOf, formatMonth, fromMonthIndex, isInMonthRange, monthIndex } from '@/lib/variance';
+import { formatCurrency } from '@/lib/currency';
+
+export const ALERT_SCOPES: Record<AlertScope, string> = {
+    'business_line': 'Business Line',
+    'cost_center': 'Cost Center',
+    'type': 'Type (CAPEX/OPEX)',
+};
+
+export const ALERT_THRESHOLD_KINDS: Record<AlertThresholdKind, string> = {
+    'percent': 'Percent of budget',
+    'amount': 'Amount spent',
+};
+
+export const ALERT_PERIODS: Record<AlertPeriod, string> = {
+    'month': 'Month',
+    'quarter': 'Fiscal quarter',
+    'year': 'Fiscal year',
+};
+
+export const ALERT_CHANNEL_KINDS: Record<AlertChannelKind, { label: string; description: string }> = {
+    'webhook': {
+        label: 'Webhook',
+        description: 'POSTs the alert as JSON. With a secret, the body is signed with HMAC-SHA256 in the X-Signature-256 header.',
+    },
+    'slack': {
+        label: 'Slack',
+        description: 'Posts the alert message to a Slack (or Slack-compatible, e.g. Mattermost) incoming webhook.',
+    },
+    'email': {
+        label: 'Email (SMTP)',
+        description: 'Sends the alert by email through an SMTP server. STARTTLS is used when the server offers it.',
+    },
+};
+
+export function isAlertScope(value: unknown): value is AlertScope {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ALERT_SCOPES, value);
+}
+
+export function isAlertThresholdKind(value: unknown): value is AlertThresholdKind {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ALERT_THRESHOLD_KINDS, value);
+}
+
+export function isAlertPeriod(value: unknown): value is AlertPeriod {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ALERT_PERIODS, value);
+}
+
+// Delivers notifications to one configured channel. Created per channel, once per batch of alerts.
+export interface AlertChannelSender {
+    send(notification: AlertNotification): Promise<void>;
+}
+
+// The whole period of the given kind an expense month falls in. The key identifies the period in triggered alerts.
+export function alertPeriodOf(year: number, month: number, period: AlertPeriod, fiscalYearStartMonth: number): MonthRange & { key: string; label: string } {
+    const fiscalYear = fiscalYearOf(year, month, fiscalYearStartMonth);
+    switch (period) {
+        case 'month': {
+            const key = `${year}-${String(month).padStart(2, '0')}`;
+            return { start: { year, month }, end: { year, month }, key, label: formatMonth(year, month) };
+        }
+        case 'quarter': {
+            const fiscalYearStart = monthIndex(fiscalYear.start.year, fiscalYear.start.month);
+            const quarter = Math.floor((monthIndex(year, month) - fiscalYearStart) / 3);
+            const label = `Q${quarter + 1} ${fiscalYear.label}`;
+            return { start: fromMonthIndex(fiscalYearStart + quarter * 3), end: fromMonthIndex(fiscalYearStart + quarter * 3 + 2), key: label, label };
+        }
+        case 'year':
+            return { start: fiscalYear.start, end: fiscalYear.end, key: fiscalYear.label, label: fiscalYear.label };
+    }
+}
+
+// Budget and spend of the rule's scope within the period, and the spend at which the rule triggers.
+// Percent rules never trigger without a budget.
+export function evaluateAlertRule(rule: AlertRule, entries: VarianceEntry[], period: MonthRange): { budget: number; actual: number; threshold: number; triggered: boolean } {
+    let budget = 0;
+    let actual = 0;
+    for (const entry of entries) {
+        if (!isInMonthRange(entry.year, entry.month, period) || !isInAlertScope(rule, entry)) continue;
+        if (entry.source === 'Budget') {
+            budget += entry.convertedAmount;
+        } else {
+            actual += entry.convertedAmount;
+        }
+    }
+    budget = Math.round(budget * 100) / 100;
+    actual = Math.round(actual * 100) / 100;
+    if (rule.threshold_kind === 'percent') {
+        const threshold = Math.round(budget * rule.threshold_value) / 100;
+        return { budget, actual, threshold, triggered: budget > 0 && actual >= threshold };
+    }
+    return { budget, actual, threshold: rule.threshold_value, triggered: actual >= rule.threshold_value };
+}
+
+// Rules are matched by name: business line and cost center names are unique
+function isInAlertScope(rule: AlertRule, entry: VarianceEntry): boolean {
+    switch (rule.scope) {
+        case 'business_line': return entry.business_line_name !== null && entry.business_line_name === rule.scope_name;
+        case 'cost_center': return entry.cost_center_name !== null && entry.cost_center_name === rule.scope_name;
+        case 'type': return entry.type === rule.expense_type;
+    }
+}
+
+export function describeAlertScope(rule: AlertRule): string {
+    switch (rule.scope) {
+        case 'business_line': return `Business line '${rule.scope_name ?? 'deleted'}'`;
+        case 'cost_center': return `Cost center '${rule.scope_name ?? 'deleted'}'`;
+        case 'type': return `All ${rule.expense_type} spend`;
+    }
+}
+
+export function describeAlertThreshold(rule: AlertRule, currency: string): string {
+    return rule.threshold_kind === 'percent'
+        ? `${rule.threshold_value}% of budget`
+        : formatCurrency(rule.threshold_value, currency);
+}
+
+export function describeAlert(rule: AlertRule, periodLabel: string, evaluation: { budget: number; actual: number }, currency: string): string {
+    const spent = `${describeAlertScope(rule)} has spent ${formatCurrency(evaluation.actual, currency)} in ${periodLabel}`;
+    const ofBudget = evaluation.budget > 0
+        ? ` (${((evaluation.actual / evaluation.budget) * 100).toFixed(1)}% of its ${formatCurrency(evaluation.budget, currency)} budget)`
+        : ' (no budget)';
+    return `${spent}${ofBudget}, reaching the alert threshold of ${describeAlertThreshold(rule, currency)}.`;
+}
@@ -0,0 +1,42 @@
+import type { ApiKeyScope, Permission } from '@/types';
+import { PERMISSION_LABELS } from '@/lib/user-roles';
+
+// Keys start with this, so they are recognizable, e.g. by secret scanners
+export const API_KEY_PREFIX = 'cw_';
+export const API_KEY_PREFIX_LENGTH = 10; // Characters of a key shown to tell it apart
+
+export const API_KEY_SCOPES: Record<ApiKeyScope, { label: string; description: string; permissions: Permission[] }> = {
+    'read': {
+        label: 'Read-Only',
+        description: 'Reads budgets, expenses, master data and charts.',
+        permissions: ['view'],
+    },
+    'expenses:write': {
+        label: 'Expenses: Write',
+        description: 'Adds, changes and deletes expenses.',
+        permissions: ['view', 'edit_expenses'],
+    },
+    'budgets:write': {
+        label: 'Budgets: Write',
+        description: 'Adds, changes and deletes budget entries and submits them for review.',
+        permissions: ['view', 'edit_budgets'],
+    },
+    'admin': {
+        label: 'Admin',
+        description: 'Everything the API offers, including business lines, cost centers and their associations.',
+        permissions: ['view', 'edit_budgets', 'edit_expenses', 'manage_master_data'],
+    },
+};
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
+
+export function apiKeyHasPermission(scopes: ApiKeyScope[], permission: Permission): boolean {
+    return scopes.some(scope => API_KEY_SCOPES[scope].permissions.includes(permission));
+}
+
+// Shown when a request made with an API key is refused for lack of a scope
+export function describeMissingScope(keyName: string, permission: Permission): string {
+    return `The API key '${keyName}' has no scope that allows it to ${PERMISSION_LABELS[permission]}.`;
+}
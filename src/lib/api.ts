@@ -0,0 +1,179 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { authenticateApiKey, getCurrentUser, permissionDenial, runWithApiKey } from '@/lib/auth';
+import { PageRequestSchema } from '@/lib/schemas';
+import type { Page, PageRequest, Permission, SessionUser } from '@/types';
+
+// Helpers of the REST API under /api/v1. Its route handlers call the same server actions as the UI, so permission
+// checks, business-line scopes, approvals and the audit trail apply to API requests alike. Requests are made either
+// with the session cookie of a signed-in user or with an API key in the Authorization header.
+
+export const API_ERROR_CODES = {
+    'unauthorized': 'Not signed in, or the API key is unknown or revoked',
+    'forbidden': 'Not allowed for the user\'s role or the API key\'s scopes',
+    'not_found': 'Not found',
+    'invalid_json': 'Body is not JSON',
+    'unsupported_media_type': 'Body is not sent as JSON',
+    'validation_failed': 'Invalid parameters or body',
+    'rejected': 'Refused by a business rule, e.g. a duplicate name',
+    'internal_error': 'Unexpected failure',
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_CODES;
+
+export interface ApiIssue {
+    path: string; // e.g. 'amount' or 'page_size'
+    message: string;
+}
+
+// Thrown in route handlers to answer with an error body; see apiHandler
+export class ApiError extends Error {
+    constructor(public readonly status: number, public readonly code: ApiErrorCode, message: string, public readonly issues?: ApiIssue[]) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Every error is answered with { error: { code, message, issues? } }
+export function apiErrorResponse(error: ApiError): NextResponse {
+    return NextResponse.json(
+        { error: { code: error.code, message: error.message, ...(error.issues && { issues: error.issues }) } },
+        { status: error.status }
+    );
+}
+
+function toIssues(error: z.ZodError, rename: Record<string, string> = {}): ApiIssue[] {
+    return error.issues.map(issue => {
+        const path = issue.path.join('.');
+        return { path: rename[path] ?? path, message: issue.message };
+    });
+}
+
+export interface ApiContext {
+    user: SessionUser;
+    params: Record<string, string>; // Dynamic segments of the route, e.g. id
+}
+
+// The API key of a request with an Authorization header, acting as the user; null without the header
+async function authenticateRequest(request: NextRequest): Promise<SessionUser | null> {
+    const authorization = request.headers.get('authorization');
+    if (authorization === null) return null;
+    const key = /^Bearer\s+(\S+)$/i.exec(authorization.trim())?.[1];
+    if (!key) {
+        throw new ApiError(401, 'unauthorized', 'Send the API key as Authorization: Bearer <key>.');
+    }
+    const result = await authenticateApiKey(key);
+    if ('error' in result) {
+        throw new ApiError(401, 'unauthorized', result.error);
+    }
+    return result.user;
+}
+
+// Wraps a route handler: answers 401 without a valid API key or session and turns ApiErrors, validation errors and
+// unexpected failures into error bodies. Requests with an API key are handled as the key (see runWithApiKey).
+export function apiHandler(handler: (request: NextRequest, context: ApiContext) => Promise<Response>) {
+    return async (request: NextRequest, { params }: { params: Promise<Record<string, string>> }): Promise<Response> => {
+        try {
+            const keyUser = await authenticateRequest(request);
+            if (keyUser) {
+                const resolvedParams = await params;
+                return await runWithApiKey(keyUser, () => handler(request, { user: keyUser, params: resolvedParams }));
+            }
+            const user = await getCurrentUser();
+            if (!user) {
+                throw new ApiError(401, 'unauthorized', 'Sign in or send an API key to use the API; the session is missing or has expired.');
+            }
+            return await handler(request, { user, params: await params });
+        } catch (error) {
+            if (error instanceof ApiError) {
+                return apiErrorResponse(error);
+            }
+            if (error instanceof z.ZodError) {
+                return apiErrorResponse(new ApiError(422, 'validation_failed', 'Validation failed.', toIssues(error)));
+            }
+            console.error(`API request ${request.method} ${request.nextUrl.pathname} failed:`, error);
+            return apiErrorResponse(new ApiError(500, 'internal_error', 'The request failed. Please check server logs.'));
+        }
+    };
+}
+
+// Checked before calling an action, so a missing permission is answered with 403 rather than a rejected result
+export async function requireApiPermission(user: SessionUser, permission: Permission): Promise<void> {
+    const denial = await permissionDenial(user, permission);
+    if (denial) {
+        throw new ApiError(403, 'forbidden', denial);
+    }
+}
+
+// The ID in a route's path; IDs that cannot exist are not found
+export function parseIdParam(value: string | undefined, what: string): number {
+    const id = Number(value);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+        throw new ApiError(404, 'not_found', `${what} with ID ${value} not found.`);
+    }
+    return id;
+}
+
+// Validates the JSON body with the schema the matching server action validates with
+export async function readJsonBody<T extends z.ZodTypeAny>(request: NextRequest, schema: T): Promise<z.output<T>> {
+    if (!request.headers.get('content-type')?.toLowerCase().startsWith('application/json')) {
+        throw new ApiError(415, 'unsupported_media_type', 'Send the body as JSON with Content-Type: application/json.');
+    }
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new ApiError(400, 'invalid_json', 'The body is not valid JSON.');
+    }
+    return schema.parse(body);
+}
+
+// Validates the query string; a parameter given more than once counts with its last value
+export function readQuery<T extends z.ZodTypeAny>(request: NextRequest, schema: T): z.output<T> {
+    return schema.parse(Object.fromEntries(request.nextUrl.searchParams));
+}
+
+// The page and page_size parameters of a list request
+export function readPageRequest(request: NextRequest): PageRequest {
+    const params = request.nextUrl.searchParams;
+    const parsed = PageRequestSchema.safeParse({ page: params.get('page') ?? undefined, pageSize: params.get('page_size') ?? undefined });
+    if (!parsed.success) {
+        throw new ApiError(422, 'validation_failed', 'Validation failed.', toIssues(parsed.error, { pageSize: 'page_size' }));
+    }
+    return parsed.data;
+}
+
+// A page of a list the actions return whole; used for master data, which stays small
+export function paginate<T>(items: T[], { page, pageSize }: PageRequest): Page<T> {
+    return { items: items.slice((page - 1) * pageSize, page * pageSize), total: items.length, page, pageSize };
+}
+
+export function pageResponse<T>({ items, total, page, pageSize }: Page<T>): NextResponse {
+    return NextResponse.json({
+        data: items,
+        pagination: { page, page_size: pageSize, total, total_pages: Math.ceil(total / pageSize) },
+    });
+}
+
+export function dataResponse(data: unknown, message?: string, status = 200): NextResponse {
+    return NextResponse.json({ data, ...(message && { message }) }, { status });
+}
+
+// The result of a server action, when it succeeded; a refused one becomes a 422 with the action's message
+export function actionResult<T extends { success: boolean; message: string }>(result: T): T {
+    if (!result.success) {
+        throw new ApiError(422, 'rejected', result.message);
+    }
+    return result;
+}
+
+// For the actions that take the fields of a form. Fields that are null or missing are left out, as in an empty form.
+export function toFormData(values: Record<string, unknown>): FormData {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(values)) {
+        if (value !== null && value !== undefined) {
+            formData.set(key, String(value));
+        }
+    }
+    return formData;
+}
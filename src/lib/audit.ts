@@ -0,0 +1,151 @@
+import type { Database } from '@/lib/db';
+import { PostgresDatabase } from '@/lib/postgres';
+import type { AuditAction, AuditFieldChange, AuditTable, SessionUser } from '@/types';
+
+export const AUDIT_TABLES: Record<AuditTable, string> = {
+    'budgets': 'Budget Entry',
+    'expenses': 'Expense Entry',
+    'business_lines': 'Business Line',
+    'cost_centers': 'Cost Center',
+    'cost_center_business_lines': 'Cost Center Association',
+    'api_keys': 'API Key',
+};
+
+// The column audit_events.record_id is taken from, per audited table
+const AUDIT_RECORD_KEYS: Record<AuditTable, string> = {
+    'budgets': 'id',
+    'expenses': 'id',
+    'business_lines': 'id',
+    'cost_centers': 'id',
+    'cost_center_business_lines': 'cost_center_id',
+    'api_keys': 'id',
+};
+
+// Columns left out of the snapshots: the timestamps, which change with every write, and API key hashes and
+// last use, which is recorded on every request made with the key
+const UNAUDITED_COLUMNS = ['created_at', 'updated_at', 'key_hash', 'last_used_at'];
+
+// (Re)creates the triggers recording every insert, update and delete of an audited table in audit_events.
+// Snapshots hold the columns the table has now, so migrations that add, drop or rebuild columns of an audited
+// table call this afterwards. On PostgreSQL one trigger runs record_audit_event (see POSTGRES_MIGRATIONS), which
+// takes the snapshots itself.
+export async function createAuditTriggers(db: Database, table: AuditTable) {
+    if (db instanceof PostgresDatabase) {
+        await db.exec(`
+          DROP TRIGGER IF EXISTS audit_${table} ON ${table};
+          CREATE TRIGGER audit_${table} AFTER INSERT OR UPDATE OR DELETE ON ${table} FOR EACH ROW
+          EXECUTE FUNCTION record_audit_event('${AUDIT_RECORD_KEYS[table]}', '${UNAUDITED_COLUMNS.join(',')}');
+        `);
+        return;
+    }
+    const key = AUDIT_RECORD_KEYS[table];
+    const columns = (await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`))
+        .map(column => column.name)
+        .filter(name => !UNAUDITED_COLUMNS.includes(name));
+    const snapshot = (row: 'OLD' | 'NEW') => `json_object(${columns.map(column => `'${column}', ${row}.${column}`).join(', ')})`;
+    const recordEvent = (action: string, row: 'OLD' | 'NEW', oldValues: string, newValues: string) => `
+        INSERT INTO audit_events (table_name, record_id, action, actor_user_id, actor_name, old_values, new_values)
+        VALUES ('${table}', ${row}.${key}, '${action}', (SELECT user_id FROM audit_context WHERE id = 1), (SELECT name FROM audit_context WHERE id = 1), ${oldValues}, ${newValues});`;
+    await dropAuditTriggers(db, table);
+    await db.exec(`
+      CREATE TRIGGER audit_${table}_insert AFTER INSERT ON ${table} FOR EACH ROW
+      BEGIN ${recordEvent('insert', 'NEW', 'NULL', snapshot('NEW'))} END;
+
+      -- Skips updates that only touch the timestamps, such as the updated_at triggers' own
+      CREATE TRIGGER audit_${table}_update AFTER UPDATE ON ${table} FOR EACH ROW
+      WHEN ${columns.map(column => `OLD.${column} IS NOT NEW.${column}`).join(' OR ')}
+      BEGIN ${recordEvent('update', 'NEW', snapshot('OLD'), snapshot('NEW'))} END;
+
+      CREATE TRIGGER audit_${table}_delete AFTER DELETE ON ${table} FOR EACH ROW
+      BEGIN ${recordEvent('delete', 'OLD', snapshot('OLD'), 'NULL')} END;
+    `);
+}
+
+export async function dropAuditTriggers(db: Database, table: AuditTable) {
+    if (db instanceof PostgresDatabase) {
+        await db.exec(`DROP TRIGGER IF EXISTS audit_${table} ON ${table}`);
+        return;
+    }
+    await db.exec(`
+      DROP TRIGGER IF EXISTS audit_${table}_insert;
+      DROP TRIGGER IF EXISTS audit_${table}_update;
+      DROP TRIGGER IF EXISTS audit_${table}_delete;
+    `);
+}
+
+export const AUDIT_ACTIONS: Record<AuditAction, string> = {
+    'insert': 'Created',
+    'update': 'Changed',
+    'delete': 'Deleted',
+};
+
+export function isAuditTable(value: unknown): value is AuditTable {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AUDIT_TABLES, value);
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AUDIT_ACTIONS, value);
+}
+
+// Field-level changes between the row snapshots the audit triggers store: every set field of an inserted or deleted
+// row, only the changed fields of an updated one
+export function diffAuditValues(before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditFieldChange[] {
+    const fields = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+    return fields.flatMap(field => {
+        const old = before?.[field] ?? null;
+        const current = after?.[field] ?? null;
+        return old === current ? [] : [{ field, before: old, after: current }];
+    });
+}
+
+// Names of the rows audited ID fields refer to, e.g. business lines by ID for business_line_id
+export type AuditNameLookup = Partial<Record<string, Record<number, string>>>;
+
+export function buildAuditNameLookup(rows: Record<string, { id: number; name: string }[]>): AuditNameLookup {
+    return Object.fromEntries(Object.entries(rows).map(([field, named]) => [field, Object.fromEntries(named.map(row => [row.id, row.name]))]));
+}
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+    'business_line_id': 'Business Line',
+    'cost_center_id': 'Cost Center',
+    'version_id': 'Budget Version',
+    'import_batch_id': 'Import Batch',
+    'external_id': 'External ID',
+};
+
+// e.g. 'Business Line' for business_line_id, 'Review Comment' for review_comment
+export function describeAuditField(field: string): string {
+    return AUDIT_FIELD_LABELS[field] ?? field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export function formatAuditValue(field: string, value: unknown, names: AuditNameLookup = {}): string {
+    if (value === null || value === undefined) return '—';
+    const name = typeof value === 'number' ? names[field]?.[value] : undefined;
+    return name ?? (field.endsWith('_id') && field !== 'external_id' ? `#${value}` : String(value));
+}
+
+// The audit triggers read the actor from the one row of audit_context. On SQLite, audited writes share the app's
+// single connection, so they take turns: each sets its actor, runs, and clears it before the next one starts.
+// PostgreSQL connections each have an audit_context of their own (see PostgresDatabase), so theirs run at once.
+let auditQueue: Promise<unknown> = Promise.resolve();
+
+export function withAuditActor<T>(db: Database, actor: SessionUser, operation: () => Promise<T>): Promise<T> {
+    const audited = async () => {
+        // Changes made with an API key name the key, which is no user
+        await db.run(
+            'INSERT INTO audit_context (id, user_id, name) VALUES (1, ?, ?) ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, name = excluded.name',
+            actor.api_key ? null : actor.id, actor.name
+        );
+        try {
+            return await operation();
+        } finally {
+            await db.run('DELETE FROM audit_context');
+        }
+    };
+    if (db instanceof PostgresDatabase) {
+        return audited();
+    }
+    const run = auditQueue.then(audited);
+    auditQueue = run.catch(() => undefined);
+    return run;
+}
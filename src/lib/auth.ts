@@ -0,0 +1,217 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { getDb } from '@/lib/db';
+import type { OidcIdentity, OidcSettings } from '@/lib/oidc';
+import { describeMissingPermission, describeScopedPermission, hasPermission, UNSCOPED_PERMISSIONS } from '@/lib/user-roles';
+import { API_KEY_PREFIX, API_KEY_PREFIX_LENGTH, apiKeyHasPermission, describeMissingScope, isApiKeyScope } from '@/lib/api-keys';
+import type { ApiKeyScope, BusinessLineScope, Permission, SessionUser } from '@/types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'cloudwise_session';
+export const MIN_PASSWORD_LENGTH = 8;
+const SESSION_TTL_DAYS = 7;
+const PASSWORD_KEY_LENGTH = 64;
+
+// Secure cookies are only sent over HTTPS; set SESSION_COOKIE_SECURE=false to serve production builds over plain HTTP
+export function secureCookies(): boolean {
+    const configured = process.env.SESSION_COOKIE_SECURE;
+    return configured ? configured === 'true' : process.env.NODE_ENV === 'production';
+}
+
+// Stored as 'scrypt$<salt>$<key>', both hex
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+    const [scheme, salt, key] = (stored ?? '').split('$');
+    if (scheme !== 'scrypt' || !salt || !key) return false;
+    const expected = Buffer.from(key, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(expected, actual);
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Only relative paths, so a crafted link cannot send a user elsewhere after signing in
+export function safeRedirectPath(next: unknown): string {
+    return typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+}
+
+// Starts a session for the user and sets its cookie; only callable from server actions and route handlers
+export async function createSession(userId: number): Promise<void> {
+    const db = await getDb();
+    const token = randomBytes(32).toString('base64url');
+    const expires = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    await db.run(`DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP`);
+    await db.run(
+        `INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)`,
+        hashToken(token), userId, expires.toISOString().slice(0, 19).replace('T', ' ')
+    );
+    await db.run(`UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?`, userId);
+    (await cookies()).set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: secureCookies(),
+        path: '/',
+        expires,
+    });
+}
+
+export async function endSession(): Promise<void> {
+    const store = await cookies();
+    const token = store.get(SESSION_COOKIE)?.value;
+    if (token) {
+        await (await getDb()).run(`DELETE FROM sessions WHERE token_hash = ?`, hashToken(token));
+    }
+    store.delete(SESSION_COOKIE);
+}
+
+// A new API key: the key, shown once to the admin creating it, its prefix and the hash that is stored
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    return { key, prefix: key.slice(0, API_KEY_PREFIX_LENGTH), hash: hashToken(key) };
+}
+
+// The key a REST API request was made with acting as a user (see SessionUser), or an error message when the key is
+// unknown or revoked. Records when the key was last used.
+export async function authenticateApiKey(key: string): Promise<{ user: SessionUser } | { error: string }> {
+    const db = await getDb();
+    const row = await db.get<{ id: number; name: string; scopes: string; all_business_lines: number; business_line_ids: string | null; revoked_at: string | null }>(
+        `SELECT id, name, scopes, all_business_lines, revoked_at,
+           (SELECT GROUP_CONCAT(business_line_id) FROM api_key_business_lines WHERE api_key_id = api_keys.id) as business_line_ids
+         FROM api_keys WHERE key_hash = ?`,
+        hashToken(key)
+    );
+    if (!row) return { error: 'The API key is not valid.' };
+    if (row.revoked_at) return { error: `The API key '${row.name}' was revoked.` };
+    await db.run(`UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?`, row.id);
+    const businessLineIds = row.business_line_ids ? String(row.business_line_ids).split(',').map(Number).sort((a, b) => a - b) : [];
+    return {
+        user: {
+            // Keys are no users: the ID and role are never used for them, since permissionDenial and getBusinessLineScope
+            // go by the key's scopes and business lines
+            id: 0,
+            email: '',
+            name: `API key ${row.name}`,
+            role: 'viewer',
+            api_key: {
+                id: row.id,
+                name: row.name,
+                scopes: row.scopes.split(',').filter(isApiKeyScope) as ApiKeyScope[],
+                business_line_ids: row.all_business_lines ? null : businessLineIds,
+            },
+        },
+    };
+}
+
+// The API key acting as the user while a REST API request made with it is handled; see runWithApiKey
+const apiKeyUser = new AsyncLocalStorage<SessionUser>();
+
+// Runs the handler of a request made with an API key, so the server actions it calls act as the key
+export function runWithApiKey<T>(user: SessionUser, handler: () => Promise<T>): Promise<T> {
+    return apiKeyUser.run(user, handler);
+}
+
+// The signed-in user, or null without a valid session or when the account was deactivated. While a REST API request
+// made with an API key is handled, the key.
+export async function getCurrentUser(): Promise<SessionUser | null> {
+    const keyUser = apiKeyUser.getStore();
+    if (keyUser) return keyUser;
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+    const db = await getDb();
+    const user = await db.get<SessionUser>(
+        `SELECT u.id, u.email, u.name, u.role
+         FROM sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.token_hash = ? AND s.expires_at > CURRENT_TIMESTAMP AND u.is_active = 1`,
+        hashToken(token)
+    );
+    return user ?? null;
+}
+
+// The signed-in user; everyone else is sent to the login page
+export async function requireUser(): Promise<SessionUser> {
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    return user;
+}
+
+// See BusinessLineScope; API keys have the business lines they were limited to
+export async function getBusinessLineScope(user: SessionUser): Promise<BusinessLineScope> {
+    if (user.api_key) return user.api_key.business_line_ids;
+    if (user.role === 'admin') return null;
+    const grants = await (await getDb()).all<{ business_line_id: number }[]>(
+        `SELECT business_line_id FROM user_business_lines WHERE user_id = ? ORDER BY business_line_id`, user.id
+    );
+    return grants.length > 0 || user.role === 'business_line_owner' ? grants.map(grant => grant.business_line_id) : null;
+}
+
+// Why the user may not act with the permission, or null when they may. API keys get permissions from their scopes
+// instead of a role. Permissions over data of every business line also need an unlimited scope.
+export async function permissionDenial(user: SessionUser, permission: Permission): Promise<string | null> {
+    if (user.api_key) {
+        if (!apiKeyHasPermission(user.api_key.scopes, permission)) {
+            return describeMissingScope(user.api_key.name, permission);
+        }
+    } else if (!hasPermission(user.role, permission)) {
+        return describeMissingPermission(user.role, permission);
+    }
+    if (UNSCOPED_PERMISSIONS.includes(permission) && await getBusinessLineScope(user) !== null) {
+        return describeScopedPermission(permission);
+    }
+    return null;
+}
+
+// The signed-in user if they have the permission; throws otherwise
+export async function requirePermission(permission: Permission): Promise<SessionUser> {
+    const user = await requireUser();
+    const denial = await permissionDenial(user, permission);
+    if (denial) {
+        throw new Error(denial);
+    }
+    return user;
+}
+
+// The user an OIDC sign-in is for: the account linked to the identity, else the account with its email (which is
+// then linked, if the provider verified the email), else a new account when the settings allow it. Returns an error
+// message when the user may not sign in.
+export async function resolveOidcUser(identity: OidcIdentity, settings: OidcSettings): Promise<{ userId: number } | { error: string }> {
+    const db = await getDb();
+    const linked = await db.get<{ id: number; is_active: number }>(`SELECT id, is_active FROM users WHERE oidc_subject = ?`, identity.subject);
+    if (linked) {
+        return linked.is_active ? { userId: linked.id } : { error: `The account of ${identity.email} is deactivated.` };
+    }
+
+    const byEmail = await db.get<{ id: number; is_active: number; oidc_subject: string | null }>(
+        `SELECT id, is_active, oidc_subject FROM users WHERE email = ?`, identity.email
+    );
+    if (byEmail) {
+        if (!byEmail.is_active) return { error: `The account of ${identity.email} is deactivated.` };
+        if (byEmail.oidc_subject) return { error: `${identity.email} is already linked to another ${settings.providerName} account.` };
+        // Otherwise anyone the provider lets claim an address could take over the account, the admin's included
+        if (!identity.emailVerified) {
+            return { error: `${settings.providerName} has not verified ${identity.email}, so it cannot be linked to the existing account. Verify the email with ${settings.providerName}, or sign in with your password.` };
+        }
+        await db.run(`UPDATE users SET oidc_subject = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`, identity.subject, byEmail.id);
+        return { userId: byEmail.id };
+    }
+
+    if (!settings.autoCreateUsers) {
+        return { error: `There is no account for ${identity.email}. Ask an admin to add one.` };
+    }
+    // The very first user administers the others, as with the first account created on the login page
+    const isFirstUser = !await db.get(`SELECT 1 FROM users LIMIT 1`);
+    const result = await db.run(
+        `INSERT INTO users (email, name, role, oidc_subject) VALUES (?, ?, ?, ?)`,
+        identity.email, identity.name, isFirstUser ? 'admin' : settings.defaultRole, identity.subject
+    );
+    return { userId: result.lastID! };
+}
@@ -0,0 +1,75 @@
+import type { CloudCostImportOptions } from '@/types';
+import { cellString, findColumn, findTagValue, compactTagKey, parseBillingPeriod, parseTagCell, type CloudCostReader } from '@/lib/cloud-costs';
+
+// Column names in the legacy CUR format ('lineItem/UnblendedCost') and in CUR 2.0 ('line_item_unblended_cost'),
+// lower-cased. The first one present in the file is used.
+const CUR_COLUMNS = {
+    billingPeriod: ['bill/billingperiodstartdate', 'bill_billing_period_start_date'],
+    usageAccount: ['lineitem/usageaccountid', 'line_item_usage_account_id'],
+    usageAccountName: ['line_item_usage_account_name'], // CUR 2.0 only
+    unblended: ['lineitem/unblendedcost', 'line_item_unblended_cost'],
+    blended: ['lineitem/blendedcost', 'line_item_blended_cost'],
+    net_unblended: ['lineitem/netunblendedcost', 'line_item_net_unblended_cost'],
+    currency: ['lineitem/currencycode', 'line_item_currency_code'],
+};
+
+const COST_COLUMN_NAMES = {
+    unblended: 'lineItem/UnblendedCost',
+    blended: 'lineItem/BlendedCost',
+    net_unblended: 'lineItem/NetUnblendedCost',
+};
+
+// CUR 2.0 puts every tag into one JSON map column instead of one 'resourceTags/<key>' column per tag
+const CUR2_TAGS_COLUMN = 'resource_tags';
+const LEGACY_TAG_PREFIX = 'resourcetags/';
+
+// Finds where the tag values live: a legacy 'resourceTags/<key>' column, or the CUR 2.0 map column
+function findTagSource(headers: string[], tagKey: string): { column: string; isMap: boolean } | null {
+    const wanted = compactTagKey(tagKey);
+    const legacyColumn = headers.find(header => {
+        const lower = header.toLowerCase().trim();
+        return lower.startsWith(LEGACY_TAG_PREFIX) && compactTagKey(lower.slice(LEGACY_TAG_PREFIX.length)) === wanted;
+    });
+    if (legacyColumn) {
+        return { column: legacyColumn, isMap: false };
+    }
+    const mapColumn = findColumn(headers, [CUR2_TAGS_COLUMN]);
+    return mapColumn ? { column: mapColumn, isMap: true } : null;
+}
+
+// Reads AWS Cost and Usage Report line items: spend per billing period and usage account, grouped by one tag
+export function createAwsCurReader(headers: string[], options: CloudCostImportOptions): CloudCostReader {
+    const costMetric = options.costMetric as keyof typeof COST_COLUMN_NAMES;
+    const periodColumn = findColumn(headers, CUR_COLUMNS.billingPeriod);
+    const accountColumn = findColumn(headers, CUR_COLUMNS.usageAccount);
+    const accountNameColumn = findColumn(headers, CUR_COLUMNS.usageAccountName);
+    const costColumn = findColumn(headers, CUR_COLUMNS[costMetric] ?? []);
+    const currencyColumn = findColumn(headers, CUR_COLUMNS.currency);
+    const tagSource = findTagSource(headers, options.tagKey);
+
+    const missingColumns: string[] = [];
+    if (!periodColumn) missingColumns.push('bill/BillingPeriodStartDate');
+    if (!accountColumn) missingColumns.push('lineItem/UsageAccountId');
+    if (!costColumn) missingColumns.push(COST_COLUMN_NAMES[costMetric] ?? options.costMetric);
+    if (!tagSource) missingColumns.push(`resourceTags/${options.tagKey}`);
+
+    return {
+        missingColumns,
+        readLine(row) {
+            const cost = parseFloat(cellString(costColumn ? row[costColumn] : ''));
+            if (isNaN(cost)) return null;
+            let groupValue = '';
+            if (tagSource) {
+                groupValue = tagSource.isMap ? findTagValue(parseTagCell(row[tagSource.column]), options.tagKey) : cellString(row[tagSource.column]);
+            }
+            return {
+                period: periodColumn ? parseBillingPeriod(row[periodColumn]) : null,
+                cost,
+                currency: currencyColumn ? cellString(row[currencyColumn]) : '',
+                scopeId: accountColumn ? cellString(row[accountColumn]) : '',
+                scopeName: accountNameColumn ? cellString(row[accountNameColumn]) : '',
+                groupValue,
+            };
+        },
+    };
+}
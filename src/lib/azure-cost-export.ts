@@ -0,0 +1,55 @@
+import type { CloudCostImportOptions } from '@/types';
+import { cellString, findColumn, findTagValue, parseBillingPeriod, parseTagCell, type CloudCostReader } from '@/lib/cloud-costs';
+
+// Column names used by the different Azure Cost Management export schemas (EA, MCA, pay-as-you-go), lower-cased.
+// The first one present in the file is used.
+const AZURE_COLUMNS = {
+    date: ['date', 'usagedatetime', 'usagedate', 'billingperiodstartdate'],
+    cost: ['costinbillingcurrency', 'pretaxcost', 'cost'],
+    currency: ['billingcurrencycode', 'billingcurrency', 'currency'],
+    subscriptionId: ['subscriptionid', 'subscriptionguid'],
+    subscriptionName: ['subscriptionname'],
+    resourceGroup: ['resourcegroup', 'resourcegroupname'],
+    tags: ['tags'],
+};
+
+// Reads Azure Cost Management export rows: spend per usage month and subscription, grouped by resource group or tag
+export function createAzureCostReader(headers: string[], options: CloudCostImportOptions): CloudCostReader {
+    const dateColumn = findColumn(headers, AZURE_COLUMNS.date);
+    const costColumn = findColumn(headers, AZURE_COLUMNS.cost);
+    const currencyColumn = findColumn(headers, AZURE_COLUMNS.currency);
+    const subscriptionIdColumn = findColumn(headers, AZURE_COLUMNS.subscriptionId);
+    const subscriptionNameColumn = findColumn(headers, AZURE_COLUMNS.subscriptionName);
+    const resourceGroupColumn = findColumn(headers, AZURE_COLUMNS.resourceGroup);
+    const tagsColumn = findColumn(headers, AZURE_COLUMNS.tags);
+
+    const missingColumns: string[] = [];
+    if (!dateColumn) missingColumns.push('Date');
+    if (!costColumn) missingColumns.push('CostInBillingCurrency');
+    if (!subscriptionIdColumn && !subscriptionNameColumn) missingColumns.push('SubscriptionId');
+    if (options.groupBy === 'resource_group' && !resourceGroupColumn) missingColumns.push('ResourceGroup');
+    if (options.groupBy === 'tag' && !tagsColumn) missingColumns.push('Tags');
+
+    return {
+        missingColumns,
+        readLine(row) {
+            const cost = parseFloat(cellString(costColumn ? row[costColumn] : ''));
+            if (isNaN(cost)) return null;
+            const subscriptionName = subscriptionNameColumn ? cellString(row[subscriptionNameColumn]) : '';
+            let groupValue = '';
+            if (options.groupBy === 'resource_group' && resourceGroupColumn) {
+                groupValue = cellString(row[resourceGroupColumn]);
+            } else if (options.groupBy === 'tag' && tagsColumn) {
+                groupValue = findTagValue(parseTagCell(row[tagsColumn]), options.tagKey);
+            }
+            return {
+                period: dateColumn ? parseBillingPeriod(row[dateColumn]) : null,
+                cost,
+                currency: currencyColumn ? cellString(row[currencyColumn]) : '',
+                scopeId: subscriptionIdColumn ? cellString(row[subscriptionIdColumn]) : subscriptionName,
+                scopeName: subscriptionName,
+                groupValue,
+            };
+        },
+    };
+}
@@ -0,0 +1,153 @@
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { mkdir, readdir, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { BackupSchedule, DatabaseSnapshot, SnapshotKind } from '@/types';
+import { BACKUP_INTERVALS, DEFAULT_BACKUP_SCHEDULE } from '@/lib/snapshots';
+import { getConfig } from '@/lib/config';
+import { getDb, type Database } from '@/lib/db';
+import { getMigrationStatus, tableExists } from '@/lib/migrate';
+import { MIGRATIONS } from '@/lib/migrations';
+
+export const BACKUP_INTERVAL_SETTING = 'backup_interval_hours';
+export const BACKUP_RETENTION_SETTING = 'backup_retention';
+
+// e.g. cloudwise-20261019-084035-manual.db, with a counter before the kind for snapshots taken in the same second
+const SNAPSHOT_NAME = /^cloudwise-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})(?:-(\d+))?-(manual|scheduled|pre_restore)\.db$/;
+
+// Only names of snapshot files are accepted, so a name from a request cannot point outside the backup directory
+export function isSnapshotName(value: unknown): value is string {
+    return typeof value === 'string' && SNAPSHOT_NAME.test(value);
+}
+
+export function snapshotPath(name: string): string {
+    if (!isSnapshotName(name)) {
+        throw new Error(`"${name}" is not the name of a snapshot.`);
+    }
+    return path.join(getConfig().backupDir, name);
+}
+
+async function describeSnapshot(name: string): Promise<DatabaseSnapshot> {
+    const [, year, month, day, hour, minute, second, , kind] = SNAPSHOT_NAME.exec(name)!;
+    const { size } = await stat(path.join(getConfig().backupDir, name));
+    return { name, kind: kind as SnapshotKind, size, created_at: `${year}-${month}-${day} ${hour}:${minute}:${second}` };
+}
+
+// Newest first
+export async function listSnapshots(): Promise<DatabaseSnapshot[]> {
+    const names = await readdir(getConfig().backupDir).catch((error: any) => {
+        if (error.code === 'ENOENT') return [] as string[];
+        throw error;
+    });
+    const snapshots = await Promise.all(names.filter(isSnapshotName).map(describeSnapshot));
+    return snapshots.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.name.localeCompare(a.name));
+}
+
+// Copies the database with VACUUM INTO on a connection of its own, so the snapshot holds exactly the committed data,
+// whatever the app's shared connection is in the middle of. PostgreSQL databases are backed up with its own tools.
+export async function createSnapshot(kind: SnapshotKind): Promise<DatabaseSnapshot> {
+    if (getConfig().storageBackend !== 'sqlite') {
+        throw new Error('Snapshots are only taken of SQLite databases; back up the PostgreSQL database with pg_dump.');
+    }
+    await getDb(); // Creates and migrates the database if the app has not opened it yet
+    await mkdir(getConfig().backupDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15); // YYYYMMDD-HHMMSS, UTC
+    const existing = new Set(await readdir(getConfig().backupDir));
+    let name = `cloudwise-${stamp}-${kind}.db`;
+    for (let i = 2; existing.has(name); i++) {
+        name = `cloudwise-${stamp}-${i}-${kind}.db`;
+    }
+
+    const source = await open({ filename: getConfig().databasePath, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    try {
+        await source.run('VACUUM INTO ?', path.join(getConfig().backupDir, name));
+    } finally {
+        await source.close();
+    }
+    console.log(`Database snapshot ${name} created.`);
+    return describeSnapshot(name);
+}
+
+export async function deleteSnapshot(name: string): Promise<void> {
+    await rm(snapshotPath(name));
+    console.log(`Database snapshot ${name} deleted.`);
+}
+
+// Why a snapshot cannot be restored, or null when it can
+export async function checkSnapshot(name: string): Promise<string | null> {
+    let snapshot: Database;
+    try {
+        snapshot = await open({ filename: snapshotPath(name), driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    } catch (error: any) {
+        return `The snapshot ${name} cannot be opened: ${error.message}`;
+    }
+    try {
+        const check = await snapshot.get<{ quick_check: string }>('PRAGMA quick_check');
+        if (check?.quick_check !== 'ok') {
+            return `The snapshot ${name} is damaged: ${check?.quick_check ?? 'unknown error'}`;
+        }
+        if (!await tableExists(snapshot, 'budgets')) {
+            return `The snapshot ${name} is not a CloudWise database.`;
+        }
+        const newer = (await getMigrationStatus(snapshot, MIGRATIONS)).filter(migration => !migration.known);
+        if (newer.length > 0) {
+            return `The snapshot ${name} has schema version ${newer[newer.length - 1].version}, which is newer than this build of the app knows.`;
+        }
+        return null;
+    } catch (error: any) {
+        return `The snapshot ${name} cannot be read: ${error.message}`;
+    } finally {
+        await snapshot.close();
+    }
+}
+
+export async function readBackupSchedule(db: Database): Promise<BackupSchedule> {
+    const rows = await db.all<{ key: string; value: string }[]>(
+        'SELECT key, value FROM app_settings WHERE key IN (?, ?)', BACKUP_INTERVAL_SETTING, BACKUP_RETENTION_SETTING
+    );
+    const setting = (key: string) => rows.find(row => row.key === key)?.value;
+    const intervalHours = Number(setting(BACKUP_INTERVAL_SETTING));
+    const retention = Number(setting(BACKUP_RETENTION_SETTING));
+    return {
+        intervalHours: Object.prototype.hasOwnProperty.call(BACKUP_INTERVALS, intervalHours) ? intervalHours : DEFAULT_BACKUP_SCHEDULE.intervalHours,
+        retention: Number.isInteger(retention) && retention >= 1 ? retention : DEFAULT_BACKUP_SCHEDULE.retention,
+    };
+}
+
+// Deletes the scheduled snapshots beyond the newest `retention`. Manual and pre-restore snapshots are kept until
+// an admin deletes them.
+export async function pruneScheduledSnapshots(retention: number): Promise<string[]> {
+    const expired = (await listSnapshots()).filter(snapshot => snapshot.kind === 'scheduled').slice(retention);
+    for (const snapshot of expired) {
+        await deleteSnapshot(snapshot.name);
+    }
+    return expired.map(snapshot => snapshot.name);
+}
+
+// Takes a scheduled snapshot when the latest one is older than the schedule's interval, then applies the retention
+export async function runScheduledBackup(): Promise<DatabaseSnapshot | null> {
+    const schedule = await readBackupSchedule(await getDb());
+    if (schedule.intervalHours === 0) {
+        return null;
+    }
+    const latest = (await listSnapshots()).find(snapshot => snapshot.kind === 'scheduled');
+    if (latest && Date.now() - Date.parse(`${latest.created_at.replace(' ', 'T')}Z`) < schedule.intervalHours * 60 * 60 * 1000) {
+        return null;
+    }
+    const snapshot = await createSnapshot('scheduled');
+    await pruneScheduledSnapshots(schedule.retention);
+    return snapshot;
+}
+
+const SCHEDULE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+let scheduler: ReturnType<typeof setInterval> | null = null;
+
+// Checks the schedule now and every 15 minutes while the server runs (see src/instrumentation.ts). Since it goes by
+// the latest scheduled snapshot, restarts do not delay or repeat snapshots. Only SQLite databases are snapshotted.
+export function startBackupScheduler() {
+    if (scheduler || getConfig().storageBackend !== 'sqlite') return;
+    const check = () => runScheduledBackup().catch(error => console.error('Failed to take the scheduled database snapshot:', error));
+    scheduler = setInterval(check, SCHEDULE_CHECK_INTERVAL_MS);
+    scheduler.unref();
+    void check();
+}
@@ -0,0 +1,64 @@
+import type { Budget, BudgetChange, BudgetChangeValues, BudgetReviewItem, BudgetStatus, SessionUser } from '@/types';
+import { formatCurrency } from '@/lib/currency';
+
+export const BUDGET_STATUSES: Record<BudgetStatus, string> = {
+    'draft': 'Draft',
+    'submitted': 'Submitted',
+    'approved': 'Approved',
+    'rejected': 'Rejected',
+};
+
+export const BUDGET_CHANGE_FIELDS: Record<keyof BudgetChangeValues, string> = {
+    'description': 'Description',
+    'amount': 'Amount',
+    'currency': 'Currency',
+    'year': 'Year',
+    'month': 'Month',
+    'type': 'Type',
+    'business_line_id': 'Business Line',
+    'cost_center_id': 'Cost Center',
+};
+
+export function isBudgetStatus(value: unknown): value is BudgetStatus {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BUDGET_STATUSES, value);
+}
+
+export interface BudgetChangeDiff {
+    field: keyof BudgetChangeValues;
+    label: string;
+    before: string;
+    after: string;
+}
+
+function displayValue(values: BudgetChangeValues & { business_line_name?: string | null; cost_center_name?: string | null }, field: keyof BudgetChangeValues): string {
+    switch (field) {
+        case 'amount': return formatCurrency(values.amount, values.currency);
+        case 'business_line_id': return values.business_line_name ?? 'N/A';
+        case 'cost_center_id': return values.cost_center_name ?? 'N/A';
+        default: return String(values[field]);
+    }
+}
+
+// What a review item asks for, as shown in the review queue
+export function describeReviewItemKind(item: Pick<BudgetReviewItem, 'change'>): string {
+    if (!item.change) return 'New entry';
+    return item.change.action === 'delete' ? 'Deletion' : 'Change';
+}
+
+// Fields a change sets to another value than the row has now, as shown in the review queue
+export function diffBudgetChange(budget: Budget, change: BudgetChange): BudgetChangeDiff[] {
+    return (Object.keys(BUDGET_CHANGE_FIELDS) as (keyof BudgetChangeValues)[])
+        .filter(field => budget[field] !== change[field])
+        .map(field => ({
+            field,
+            label: BUDGET_CHANGE_FIELDS[field],
+            before: displayValue(budget, field),
+            after: displayValue(change, field),
+        }));
+}
+
+// Rows of a business line with a budget owner are reviewed by that user; any reviewer but the one who submitted them
+// may review the other rows
+export function canReviewBudget(item: Pick<BudgetReviewItem, 'approver_id' | 'submitted_by_id'>, reviewer: Pick<SessionUser, 'id'>): boolean {
+    return item.approver_id === null ? item.submitted_by_id !== reviewer.id : item.approver_id === reviewer.id;
+}
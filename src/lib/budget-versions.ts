@@ -0,0 +1,26 @@
+import type { BudgetVersionKind } from '@/types';
+
+export const BUDGET_VERSION_KINDS: Record<BudgetVersionKind, { label: string; description: string }> = {
+    'original': {
+        label: 'Original',
+        description: 'The plan approved for the year.',
+    },
+    'reforecast': {
+        label: 'Reforecast',
+        description: 'An updated plan made during the year, e.g. after a quarter closes.',
+    },
+    'what_if': {
+        label: 'What-if',
+        description: 'A scenario to explore, e.g. a hiring freeze or a cloud migration.',
+    },
+};
+
+export function isBudgetVersionKind(value: unknown): value is BudgetVersionKind {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BUDGET_VERSION_KINDS, value);
+}
+
+// Budget version ID from a search parameter or form value; null (the default version) when missing or invalid
+export function parseBudgetVersionId(value: unknown): number | null {
+    const id = parseInt(String(value ?? ''), 10);
+    return id > 0 ? id : null;
+}
@@ -0,0 +1,20 @@
+import type { BusinessLineScope } from '@/types';
+
+export function isInScope(scope: BusinessLineScope, businessLineId: number | null | undefined): boolean {
+    return scope === null || (businessLineId != null && scope.includes(businessLineId));
+}
+
+// SQL condition keeping the rows of a business line column inside the scope. The IDs come from the grants table,
+// and are written into the SQL as numbers so the condition can be added to queries with positional parameters.
+export function scopeCondition(column: string, scope: BusinessLineScope): string {
+    if (scope === null) return '1 = 1';
+    if (scope.length === 0) return '0 = 1';
+    return `${column} IN (${scope.map(Number).join(', ')})`;
+}
+
+// Why a budget or expense cannot be put on the business line by a user whose scope leaves it out
+export function describeOutOfScope(businessLineId: number | null | undefined): string {
+    return businessLineId == null
+        ? 'Choose one of the business lines you have access to.'
+        : 'You do not have access to the selected business line.';
+}
@@ -0,0 +1,56 @@
+import type { ChartAggregate, ChartGroup, ChartItem, EntryFilter } from '@/types';
+
+export const CHART_GROUPS: Record<ChartGroup, string> = {
+    'business_line': 'Business Line',
+    'cost_center': 'Cost Center',
+    'month': 'Month',
+    'type': 'Type',
+};
+
+export function isChartGroup(value: unknown): value is ChartGroup {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CHART_GROUPS, value);
+}
+
+export function filterChartItems(items: ChartItem[], filter: EntryFilter): ChartItem[] {
+    return items.filter(item =>
+        (filter.year === null || item.year === filter.year) &&
+        (filter.month === null || item.month === filter.month) &&
+        (filter.type === null || item.type === filter.type) &&
+        (filter.business_line_id === null || item.business_line_id === filter.business_line_id) &&
+        (filter.cost_center_id === null || item.cost_center_id === filter.cost_center_id)
+    );
+}
+
+function groupOf(item: ChartItem, group: ChartGroup): { key: string; label: string } {
+    switch (group) {
+        case 'business_line':
+            return { key: String(item.business_line_id ?? 'unassigned'), label: item.business_line_name };
+        case 'cost_center':
+            return { key: String(item.cost_center_id ?? 'unassigned'), label: item.cost_center_name };
+        case 'month': {
+            const key = `${item.year}-${String(item.month).padStart(2, '0')}`;
+            return { key, label: key };
+        }
+        case 'type':
+            return { key: item.type, label: item.type };
+    }
+}
+
+// Budget and expense totals per group; months in calendar order, other groups by label
+export function aggregateChartItems(items: ChartItem[], group: ChartGroup): ChartAggregate[] {
+    const totals = new Map<string, ChartAggregate>();
+    for (const item of items) {
+        const { key, label } = groupOf(item, group);
+        const total = totals.get(key) ?? { key, label, budget: 0, expense: 0 };
+        if (item.source === 'Budget') {
+            total.budget += item.amount;
+        } else {
+            total.expense += item.amount;
+        }
+        totals.set(key, total);
+    }
+    const toCents = (amount: number) => Math.round(amount * 100) / 100;
+    return Array.from(totals.values())
+        .map(total => ({ ...total, budget: toCents(total.budget), expense: toCents(total.expense) }))
+        .sort((a, b) => group === 'month' ? a.key.localeCompare(b.key) : a.label.localeCompare(b.label));
+}
@@ -0,0 +1,279 @@
+import type { CloudCostGrouping, CloudCostImportOptions, CloudCostMetric, CloudProvider, CostAllocationRule, CostDimension } from '@/types';
+import { extractYearMonth } from '@/lib/import-locale';
+
+// What the import form and the importers need to know about each billing export format
+export interface CloudProviderInfo {
+    label: string;
+    exportName: string;
+    scopeDimension: CostDimension; // Top-level container spend is reported for
+    scopeLabel: string;
+    tagLabel: string; // GCP calls tags labels
+    groupings: CloudCostGrouping[]; // First one is the default
+    costMetrics: { value: CloudCostMetric; label: string }[]; // First one is the default
+    accept: string; // File input 'accept' attribute
+}
+
+export const CLOUD_PROVIDERS: Record<CloudProvider, CloudProviderInfo> = {
+    aws: {
+        label: 'AWS',
+        exportName: 'Cost and Usage Report (legacy or CUR 2.0, .csv or .csv.gz)',
+        scopeDimension: 'account',
+        scopeLabel: 'Account',
+        tagLabel: 'Tag',
+        groupings: ['tag'],
+        costMetrics: [
+            { value: 'unblended', label: 'Unblended cost' },
+            { value: 'net_unblended', label: 'Net unblended cost (after discounts)' },
+            { value: 'blended', label: 'Blended cost' },
+        ],
+        accept: '.csv,.gz',
+    },
+    azure: {
+        label: 'Azure',
+        exportName: 'Cost Management export (.csv or .csv.gz)',
+        scopeDimension: 'subscription',
+        scopeLabel: 'Subscription',
+        tagLabel: 'Tag',
+        groupings: ['resource_group', 'tag'],
+        costMetrics: [
+            { value: 'cost', label: 'Cost in billing currency' },
+        ],
+        accept: '.csv,.gz',
+    },
+    gcp: {
+        label: 'GCP',
+        exportName: 'BigQuery billing export (.csv or .jsonl, optionally gzipped)',
+        scopeDimension: 'project',
+        scopeLabel: 'Project',
+        tagLabel: 'Label',
+        groupings: ['none', 'tag'],
+        costMetrics: [
+            { value: 'cost', label: 'Cost' },
+            { value: 'cost_after_credits', label: 'Cost after credits' },
+        ],
+        accept: '.csv,.json,.jsonl,.gz',
+    },
+    focus: {
+        label: 'FOCUS',
+        exportName: 'FinOps FOCUS export (.csv or .csv.gz)',
+        scopeDimension: 'account',
+        scopeLabel: 'Sub account',
+        tagLabel: 'Tag',
+        groupings: ['service_category', 'tag', 'none'],
+        costMetrics: [
+            { value: 'cost', label: 'Billed cost' },
+            { value: 'effective_cost', label: 'Effective cost (amortized)' },
+        ],
+        accept: '.csv,.gz',
+    },
+};
+
+export const COST_DIMENSION_LABELS: Record<CostDimension, string> = {
+    'tag': 'Tag / Label',
+    'account': 'AWS Account / FOCUS Sub Account',
+    'subscription': 'Azure Subscription',
+    'resource_group': 'Azure Resource Group',
+    'project': 'GCP Project',
+};
+
+// One billing line reduced to what the importers group by
+export interface CloudCostLine {
+    period: { year: number; month: number } | null; // null when the date could not be read
+    cost: number;
+    currency: string; // Currency the cost is billed in; empty when the export does not say
+    sourceName?: string; // Provider named on the line (FOCUS files can mix providers); defaults to the importer's label
+    scopeId: string; // Account, subscription or project ID
+    scopeName: string; // Display name when the export has one, otherwise empty
+    groupValue: string; // Value of the chosen grouping (tag value, resource group); empty when missing
+}
+
+// Reads the lines of one export format. Created per file, once its headers are known.
+export interface CloudCostReader {
+    missingColumns: string[]; // Columns the options need but the file does not have
+    readLine(row: Record<string, any>): CloudCostLine | null; // null when the line has no numeric cost
+}
+
+// Spend of one scope and group value in one month
+export interface CloudCostGroup {
+    year: number | null;
+    month: number | null;
+    sourceName: string;
+    scopeId: string;
+    scopeName: string;
+    groupValue: string;
+    currency: string;
+    amount: number; // Rounded to cents
+    lineItemCount: number;
+}
+
+export interface CloudCostAggregation {
+    groups: CloudCostGroup[];
+    lineItemCount: number;
+    unreadableCostCount: number; // Lines whose cost was not a number; left out of the totals
+}
+
+// Compares tag keys across spellings: AWS writes 'user:CostCenter' in legacy column names and 'user_cost_center'
+// in CUR 2.0, both become 'usercostcenter'
+export function compactTagKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Returns the first header matching one of the lower-cased candidates
+export function findColumn(headers: string[], candidates: string[]): string | undefined {
+    for (const candidate of candidates) {
+        const header = headers.find(h => h.toLowerCase().trim() === candidate);
+        if (header) return header;
+    }
+    return undefined;
+}
+
+export function cellString(value: unknown): string {
+    return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// Reads a tag map from a cell: an object (JSONL exports), a list of { key, value } (GCP labels), or the same as
+// JSON text. Azure writes the object without its braces ('"env": "prod","team": "web"'), which is accepted too.
+export function parseTagCell(cell: unknown): Record<string, string> {
+    let tags: unknown = cell;
+    if (typeof cell === 'string') {
+        const text = cell.trim();
+        if (!text) return {};
+        try {
+            tags = JSON.parse(text.startsWith('{') || text.startsWith('[') ? text : `{${text}}`);
+        } catch {
+            return {};
+        }
+    }
+    if (Array.isArray(tags)) {
+        return Object.fromEntries(
+            tags.filter(t => t && typeof t === 'object' && 'key' in t).map(t => [String(t.key), cellString(t.value)])
+        );
+    }
+    if (tags && typeof tags === 'object') {
+        return Object.fromEntries(Object.entries(tags).map(([k, v]) => [k, cellString(v)]));
+    }
+    return {};
+}
+
+export function findTagValue(tags: Record<string, string>, tagKey: string): string {
+    const wanted = compactTagKey(tagKey);
+    const key = Object.keys(tags).find(k => compactTagKey(k) === wanted);
+    return key ? tags[key] : '';
+}
+
+// Reads the billing month from the date formats found in billing exports: ISO dates and timestamps,
+// Azure's 'MM/DD/YYYY' and GCP's invoice month 'YYYYMM'
+export function parseBillingPeriod(value: unknown): { year: number; month: number } | null {
+    const text = cellString(value);
+    let match = text.match(/^(\d{1,2})\/\d{1,2}\/(\d{4})(?:\s.*)?$/);
+    if (match) {
+        return { year: parseInt(match[2], 10), month: parseInt(match[1], 10) };
+    }
+    match = text.match(/^(\d{4})(\d{2})$/);
+    if (match) {
+        return { year: parseInt(match[1], 10), month: parseInt(match[2], 10) };
+    }
+    return extractYearMonth(value);
+}
+
+// Turns nested JSON records (BigQuery JSONL exports) into dotted columns like 'project.id'. Arrays are kept as-is.
+export function flattenRecord(record: Record<string, any>, prefix = ''): Record<string, any> {
+    const flat: Record<string, any> = {};
+    for (const [key, value] of Object.entries(record)) {
+        if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+            Object.assign(flat, flattenRecord(value, `${prefix}${key}.`));
+        } else {
+            flat[`${prefix}${key}`] = value;
+        }
+    }
+    return flat;
+}
+
+// Sums the cost of every line per month, scope, group value and currency
+export function aggregateCloudCostRows(rows: Record<string, any>[], reader: CloudCostReader): CloudCostAggregation {
+    const groups = new Map<string, CloudCostGroup>();
+    let unreadableCostCount = 0;
+
+    for (const row of rows) {
+        const line = reader.readLine(row);
+        if (!line) {
+            unreadableCostCount++;
+            continue;
+        }
+        const key = [line.period?.year ?? '', line.period?.month ?? '', line.sourceName ?? '', line.scopeId, line.groupValue.toLowerCase(), line.currency.toUpperCase()].join('|');
+        const group = groups.get(key);
+        if (group) {
+            group.amount += line.cost;
+            group.lineItemCount++;
+            group.scopeName = group.scopeName || line.scopeName;
+        } else {
+            groups.set(key, {
+                year: line.period?.year ?? null,
+                month: line.period?.month ?? null,
+                sourceName: line.sourceName ?? '',
+                scopeId: line.scopeId,
+                scopeName: line.scopeName,
+                groupValue: line.groupValue,
+                currency: line.currency,
+                amount: line.cost,
+                lineItemCount: 1,
+            });
+        }
+    }
+
+    const sortedGroups = Array.from(groups.values())
+        .map(group => ({ ...group, amount: Math.round(group.amount * 100) / 100 }))
+        .sort((a, b) =>
+            (a.year ?? 0) - (b.year ?? 0) ||
+            (a.month ?? 0) - (b.month ?? 0) ||
+            a.sourceName.localeCompare(b.sourceName) ||
+            a.scopeId.localeCompare(b.scopeId) ||
+            a.groupValue.localeCompare(b.groupValue) ||
+            a.currency.localeCompare(b.currency)
+        );
+
+    return { groups: sortedGroups, lineItemCount: rows.length, unreadableCostCount };
+}
+
+// Picks the rule for a group, most specific first: the group value (tag or resource group),
+// then the account/subscription/project by ID, then by name
+export function findAllocationRule(rules: CostAllocationRule[], group: CloudCostGroup, options: CloudCostImportOptions): CostAllocationRule | undefined {
+    const candidates: { dimension: CostDimension; value: string }[] = [];
+    if (group.groupValue && (options.groupBy === 'tag' || options.groupBy === 'resource_group')) {
+        candidates.push({ dimension: options.groupBy, value: group.groupValue });
+    }
+    const scopeDimension = CLOUD_PROVIDERS[options.provider].scopeDimension;
+    candidates.push({ dimension: scopeDimension, value: group.scopeId });
+    if (group.scopeName) {
+        candidates.push({ dimension: scopeDimension, value: group.scopeName });
+    }
+
+    for (const candidate of candidates) {
+        const rule = rules.find(r =>
+            r.dimension === candidate.dimension &&
+            r.value.toLowerCase() === candidate.value.toLowerCase() &&
+            (r.dimension !== 'tag' || compactTagKey(r.tag_key) === compactTagKey(options.tagKey))
+        );
+        if (rule) return rule;
+    }
+    return undefined;
+}
+
+const GROUPING_LABELS: Record<Exclude<CloudCostGrouping, 'tag' | 'none'>, string> = {
+    'resource_group': 'Resource group',
+    'service_category': 'Service category',
+};
+
+// Expense description for a group, e.g. 'Azure Prod (1234...) - Resource group: web-rg'
+export function describeCloudCostGroup(group: CloudCostGroup, options: CloudCostImportOptions): string {
+    const provider = CLOUD_PROVIDERS[options.provider];
+    const scope = group.scopeName && group.scopeName !== group.scopeId
+        ? `${group.scopeName} (${group.scopeId})`
+        : group.scopeId || group.scopeName || `unknown ${provider.scopeLabel.toLowerCase()}`;
+    const source = group.sourceName || provider.label;
+    if (options.groupBy === 'none') {
+        return `${source} ${scope}`;
+    }
+    const groupLabel = options.groupBy === 'tag' ? options.tagKey : GROUPING_LABELS[options.groupBy];
+    return `${source} ${scope} - ${groupLabel}: ${group.groupValue || '(none)'}`;
+}
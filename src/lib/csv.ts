@@ -0,0 +1,23 @@
+// CSV text of export rows, with the keys of the first row as the header. Cells holding commas, quotes or line breaks are quoted.
+export function toCsv(rows: Record<string, any>[]): string {
+    if (rows.length === 0) return '';
+    const headers = Object.keys(rows[0]);
+    const cell = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return text.includes(',') || text.includes('"') || text.includes('\n') ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [headers.join(','), ...rows.map(row => headers.map(header => cell(row[header])).join(','))].join('\n');
+}
+
+// Lets the browser download the rows as a CSV file
+export function downloadCsv(rows: Record<string, any>[], filename: string): void {
+    const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
@@ -0,0 +1,85 @@
+import type { ExchangeRate } from '@/types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies offered in the forms. Rows can hold any 3-letter code (imports may bring others in).
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'BRL', 'CAD', 'AUD', 'JPY', 'CHF', 'CNY', 'INR', 'MXN', 'ARS', 'CLP', 'COP'];
+
+// Common currencies plus any other codes in use (e.g. an imported row's currency), for select inputs
+export function currencyOptions(...inUse: (string | null | undefined)[]): string[] {
+    const extra = inUse.filter((code): code is string => !!code && !COMMON_CURRENCIES.includes(code));
+    return [...COMMON_CURRENCIES, ...Array.from(new Set(extra)).sort()];
+}
+
+// Reads a currency code from user input or a file; null when it is not a 3-letter code
+export function normalizeCurrencyCode(value: unknown): string | null {
+    const code = String(value ?? '').trim().toUpperCase();
+    return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    } catch {
+        // Codes Intl does not know are still valid in the DB; show them next to the number
+        return `${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)} ${currency}`.trim();
+    }
+}
+
+// Short axis labels such as '$12K'
+export function formatCompactCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact' }).format(amount);
+    } catch {
+        return `${new Intl.NumberFormat('en-US', { notation: 'compact' }).format(amount)} ${currency}`.trim();
+    }
+}
+
+// Converts an amount in a given month into the target currency; null when no rate is available
+export type CurrencyConverter = (amount: number, currency: string, year: number, month: number) => number | null;
+
+// Builds a converter from the exchange-rate table. The rate of the entry's month is used; months without one
+// fall back to the latest earlier rate. A rate entered the other way round (target -> currency) is inverted.
+export function createCurrencyConverter(rates: ExchangeRate[], targetCurrency: string): CurrencyConverter {
+    // Per source currency: month index (year * 12 + month) and factor into the target, newest first
+    const factors = new Map<string, { period: number; factor: number; inverted: boolean }[]>();
+    const addFactor = (currency: string, period: number, factor: number, inverted: boolean) => {
+        const list = factors.get(currency) ?? [];
+        list.push({ period, factor, inverted });
+        factors.set(currency, list);
+    };
+    for (const rate of rates) {
+        const period = rate.year * 12 + rate.month;
+        if (rate.to_currency === targetCurrency && rate.from_currency !== targetCurrency) {
+            addFactor(rate.from_currency, period, rate.rate, false);
+        } else if (rate.from_currency === targetCurrency && rate.to_currency !== targetCurrency) {
+            addFactor(rate.to_currency, period, 1 / rate.rate, true);
+        }
+    }
+    // A direct rate wins over an inverted one for the same month
+    factors.forEach(list => list.sort((a, b) => b.period - a.period || Number(a.inverted) - Number(b.inverted)));
+
+    return (amount, currency, year, month) => {
+        if (currency === targetCurrency) return amount;
+        const period = year * 12 + month;
+        const match = factors.get(currency)?.find(f => f.period <= period);
+        return match ? Math.round(amount * match.factor * 100) / 100 : null;
+    };
+}
+
+// SQL for the amount of a row (aliased) in the target currency, converted as createCurrencyConverter does, so lists
+// sorted in SQL agree with the totals; NULL when no rate is available. The code is written into the SQL.
+export function convertedAmountSql(alias: string, targetCurrency: string): string {
+    const target = normalizeCurrencyCode(targetCurrency);
+    if (!target) {
+        throw new Error(`Invalid currency code '${targetCurrency}'.`);
+    }
+    return `CASE WHEN ${alias}.currency = '${target}' THEN ${alias}.amount ELSE ROUND(${alias}.amount * (
+        SELECT CASE WHEN r.to_currency = '${target}' THEN r.rate ELSE 1.0 / r.rate END
+        FROM exchange_rates r
+        WHERE ((r.from_currency = ${alias}.currency AND r.to_currency = '${target}') OR (r.from_currency = '${target}' AND r.to_currency = ${alias}.currency))
+          AND r.year * 12 + r.month <= ${alias}.year * 12 + ${alias}.month
+        ORDER BY r.year * 12 + r.month DESC, r.from_currency = '${target}'
+        LIMIT 1
+    ), 2) END`;
+}
@@ -0,0 +1,53 @@
+import type { EntryListQuery, EntrySortColumn, PageRequest } from '@/types';
+import { EntryListQuerySchema, PageRequestSchema } from '@/lib/schemas';
+
+// The budget and expense list pages keep their filters, order and page in the query string, so filtered views can be
+// bookmarked and shared. Parameters are named like those of the REST API.
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const DEFAULT_QUERY: EntryListQuery = EntryListQuerySchema.parse({});
+const DEFAULT_PAGE_REQUEST: PageRequest = PageRequestSchema.parse({});
+
+// The query and page of a list page; parameters that are missing or invalid are left at their defaults
+export function parseEntryListSearchParams(searchParams: SearchParams): { query: EntryListQuery; pageRequest: PageRequest } {
+    const param = (name: string) => {
+        const value = searchParams[name];
+        return Array.isArray(value) ? value[value.length - 1] : value;
+    };
+    const query = { ...DEFAULT_QUERY };
+    for (const [name, schema] of Object.entries(EntryListQuerySchema.shape)) {
+        const parsed = schema.safeParse(param(name));
+        if (parsed.success) Object.assign(query, { [name]: parsed.data });
+    }
+    const page = PageRequestSchema.shape.page.safeParse(param('page'));
+    const pageSize = PageRequestSchema.shape.pageSize.safeParse(param('page_size'));
+    return {
+        query,
+        pageRequest: {
+            page: page.success ? page.data : DEFAULT_PAGE_REQUEST.page,
+            pageSize: pageSize.success ? pageSize.data : DEFAULT_PAGE_REQUEST.pageSize,
+        },
+    };
+}
+
+// The parameters of a list page, leaving out those at their defaults
+export function toEntryListSearchParams(query: EntryListQuery, pageRequest: PageRequest): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+        if (value !== null && value !== DEFAULT_QUERY[name as keyof EntryListQuery]) params.set(name, String(value));
+    }
+    if (pageRequest.page !== DEFAULT_PAGE_REQUEST.page) params.set('page', String(pageRequest.page));
+    if (pageRequest.pageSize !== DEFAULT_PAGE_REQUEST.pageSize) params.set('page_size', String(pageRequest.pageSize));
+    return params;
+}
+
+// Clicking the sorted column reverses it; another column sorts ascending, except dates and amounts, newest and largest first
+export function nextEntrySort({ sort, direction }: EntryListQuery, column: EntrySortColumn): Pick<EntryListQuery, 'sort' | 'direction'> {
+    if (column === sort) {
+        return { sort, direction: direction === 'asc' ? 'desc' : 'asc' };
+    }
+    return { sort: column, direction: column === 'period' || column === 'amount' ? 'desc' : 'asc' };
+}
@@ -0,0 +1,90 @@
+import type { Budget, CloudCostImportOptions, Expense, ImportSource } from '@/types';
+import { cellString, findColumn, findTagValue, parseBillingPeriod, parseTagCell, type CloudCostReader } from '@/lib/cloud-costs';
+
+// FinOps Foundation FOCUS (https://focus.finops.org) columns, lower-cased. FOCUS names are fixed, so there is
+// one candidate per column except for the period, which falls back to the billing period.
+const FOCUS_COLUMNS = {
+    chargePeriodStart: ['chargeperiodstart', 'billingperiodstart'],
+    cost: ['billedcost'],
+    effective_cost: ['effectivecost'],
+    billingCurrency: ['billingcurrency'],
+    providerName: ['providername'],
+    subAccountId: ['subaccountid'],
+    subAccountName: ['subaccountname'],
+    serviceCategory: ['servicecategory'],
+    tags: ['tags'],
+};
+
+// Reads FOCUS rows: spend per charge month, provider and sub account, grouped by service category or tag
+export function createFocusReader(headers: string[], options: CloudCostImportOptions): CloudCostReader {
+    const periodColumn = findColumn(headers, FOCUS_COLUMNS.chargePeriodStart);
+    const costColumn = findColumn(headers, options.costMetric === 'effective_cost' ? FOCUS_COLUMNS.effective_cost : FOCUS_COLUMNS.cost);
+    const currencyColumn = findColumn(headers, FOCUS_COLUMNS.billingCurrency);
+    const providerColumn = findColumn(headers, FOCUS_COLUMNS.providerName);
+    const subAccountIdColumn = findColumn(headers, FOCUS_COLUMNS.subAccountId);
+    const subAccountNameColumn = findColumn(headers, FOCUS_COLUMNS.subAccountName);
+    const serviceCategoryColumn = findColumn(headers, FOCUS_COLUMNS.serviceCategory);
+    const tagsColumn = findColumn(headers, FOCUS_COLUMNS.tags);
+
+    const missingColumns: string[] = [];
+    if (!periodColumn) missingColumns.push('ChargePeriodStart');
+    if (!costColumn) missingColumns.push(options.costMetric === 'effective_cost' ? 'EffectiveCost' : 'BilledCost');
+    if (!providerColumn) missingColumns.push('ProviderName');
+    if (options.groupBy === 'service_category' && !serviceCategoryColumn) missingColumns.push('ServiceCategory');
+    if (options.groupBy === 'tag' && !tagsColumn) missingColumns.push('Tags');
+
+    return {
+        missingColumns,
+        readLine(row) {
+            const cost = parseFloat(cellString(costColumn ? row[costColumn] : ''));
+            if (isNaN(cost)) return null;
+            let groupValue = '';
+            if (options.groupBy === 'service_category' && serviceCategoryColumn) {
+                groupValue = cellString(row[serviceCategoryColumn]);
+            } else if (options.groupBy === 'tag' && tagsColumn) {
+                groupValue = findTagValue(parseTagCell(row[tagsColumn]), options.tagKey);
+            }
+            return {
+                period: periodColumn ? parseBillingPeriod(row[periodColumn]) : null,
+                cost,
+                currency: currencyColumn ? cellString(row[currencyColumn]) : '',
+                sourceName: providerColumn ? cellString(row[providerColumn]) : '',
+                scopeId: subAccountIdColumn ? cellString(row[subAccountIdColumn]) : '',
+                scopeName: subAccountNameColumn ? cellString(row[subAccountNameColumn]) : '',
+                groupValue,
+            };
+        },
+    };
+}
+
+function monthStart(year: number, month: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-01T00:00:00Z`;
+}
+
+// Maps a budget or expense entry onto FOCUS columns. Entries are month-level, so the charge and billing periods
+// both span the entry's month. CloudWise fields without a FOCUS equivalent use 'x_' custom columns.
+export function toFocusRow(entry: Budget | Expense, source: ImportSource): Record<string, string | number> {
+    const periodStart = monthStart(entry.year, entry.month);
+    const periodEnd = entry.month === 12 ? monthStart(entry.year + 1, 1) : monthStart(entry.year, entry.month + 1);
+    return {
+        'BilledCost': entry.amount,
+        'EffectiveCost': entry.amount,
+        'ListCost': entry.amount,
+        'ContractedCost': entry.amount,
+        'BillingCurrency': entry.currency,
+        'BillingPeriodStart': periodStart,
+        'BillingPeriodEnd': periodEnd,
+        'ChargePeriodStart': periodStart,
+        'ChargePeriodEnd': periodEnd,
+        'ChargeCategory': entry.type === 'CAPEX' ? 'Purchase' : 'Usage',
+        'ChargeDescription': entry.description,
+        'ProviderName': '',
+        'ServiceCategory': 'Other',
+        'Tags': '{}',
+        'x_RecordType': source,
+        'x_Id': entry.id,
+        'x_CostType': entry.type,
+        'x_BusinessLine': entry.business_line_name ?? '',
+        'x_CostCenter': entry.cost_center_name ?? '',
+    };
+}
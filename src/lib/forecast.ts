@@ -0,0 +1,119 @@
+import type { ForecastEntry, ForecastMethod, MonthRange } from '@/types';
+import { fromMonthIndex, monthIndex } from '@/lib/variance';
+
+export const FORECAST_METHODS: Record<ForecastMethod, { label: string; description: string }> = {
+    'run_rate': {
+        label: 'Run rate',
+        description: 'Average monthly spend of the last 3 months, carried forward.',
+    },
+    'linear_trend': {
+        label: 'Linear trend',
+        description: 'Straight line fitted through the monthly history and extended (never below zero).',
+    },
+    'seasonal_average': {
+        label: 'Seasonal average',
+        description: 'Average spend of the same calendar month in earlier years; months without history use the run rate.',
+    },
+};
+
+export const DEFAULT_FORECAST_METHOD: ForecastMethod = 'run_rate';
+
+// How many months of history a forecast looks at, ending with the last month of actuals
+export const FORECAST_HISTORY_MONTHS = 24;
+const RUN_RATE_MONTHS = 3;
+
+export function isForecastMethod(value: unknown): value is ForecastMethod {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FORECAST_METHODS, value);
+}
+
+// Months of history a forecast made after the given month reads
+export function forecastHistoryRange(asOf: { year: number; month: number }): MonthRange {
+    const end = monthIndex(asOf.year, asOf.month);
+    return { start: fromMonthIndex(end - FORECAST_HISTORY_MONTHS + 1), end: fromMonthIndex(end) };
+}
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Projects one month, `ahead` months after the last value of the history. history[i] is the spend of month
+// index historyStart + i; months without expenses are 0.
+function projectMonth(history: number[], historyStart: number, ahead: number, method: ForecastMethod): number {
+    const runRate = average(history.slice(-RUN_RATE_MONTHS));
+    switch (method) {
+        case 'run_rate':
+            return runRate;
+        case 'linear_trend': {
+            // Least squares over x = 0..n-1
+            const n = history.length;
+            if (n < 2) return runRate;
+            const meanX = (n - 1) / 2;
+            const meanY = average(history);
+            let covariance = 0;
+            let varianceX = 0;
+            history.forEach((y, x) => {
+                covariance += (x - meanX) * (y - meanY);
+                varianceX += (x - meanX) ** 2;
+            });
+            const slope = covariance / varianceX;
+            return Math.max(0, meanY + slope * (n - 1 + ahead - meanX));
+        }
+        case 'seasonal_average': {
+            const target = historyStart + history.length - 1 + ahead;
+            const sameMonth = history.filter((_, i) => (target - (historyStart + i)) % 12 === 0);
+            return sameMonth.length > 0 ? average(sameMonth) : runRate;
+        }
+    }
+}
+
+// Projects the spend of every business line/cost center/type combination for each month of `horizon` from its
+// expenses up to `asOf`. History starts with the first month any combination has spend in (at most
+// FORECAST_HISTORY_MONTHS before asOf), so every combination is read over the same months and projections add up
+// across groupings. The result depends only on the history passed in: the same data always gives the same forecast.
+// Months projected at zero are left out.
+export function forecastSpend(
+    history: ForecastEntry[],
+    asOf: { year: number; month: number },
+    horizon: MonthRange,
+    method: ForecastMethod
+): ForecastEntry[] {
+    const end = monthIndex(asOf.year, asOf.month);
+    const window = forecastHistoryRange(asOf);
+    const inWindow = history.filter(entry => {
+        const index = monthIndex(entry.year, entry.month);
+        return index >= monthIndex(window.start.year, window.start.month) && index <= end;
+    });
+    if (inWindow.length === 0) return [];
+
+    const start = Math.min(...inWindow.map(entry => monthIndex(entry.year, entry.month)));
+    const series = new Map<string, { entry: Omit<ForecastEntry, 'year' | 'month' | 'amount'>; amounts: number[] }>();
+    for (const entry of inWindow) {
+        const key = JSON.stringify([entry.business_line_name, entry.cost_center_name, entry.type]);
+        const current = series.get(key) ?? {
+            entry: { type: entry.type, business_line_name: entry.business_line_name, cost_center_name: entry.cost_center_name },
+            amounts: new Array(end - start + 1).fill(0),
+        };
+        current.amounts[monthIndex(entry.year, entry.month) - start] += entry.amount;
+        series.set(key, current);
+    }
+
+    const firstTarget = Math.max(monthIndex(horizon.start.year, horizon.start.month), end + 1);
+    const lastTarget = monthIndex(horizon.end.year, horizon.end.month);
+    const forecast: ForecastEntry[] = [];
+    // Combinations in a fixed order, so the result does not depend on the order of the history
+    for (const key of Array.from(series.keys()).sort()) {
+        const { entry, amounts } = series.get(key)!;
+        const history = amounts.map(roundCents);
+        for (let target = firstTarget; target <= lastTarget; target++) {
+            const amount = roundCents(projectMonth(history, start, target - end, method));
+            if (amount !== 0) {
+                forecast.push({ ...entry, ...fromMonthIndex(target), amount });
+            }
+        }
+    }
+    return forecast.sort((a, b) => monthIndex(a.year, a.month) - monthIndex(b.year, b.month));
+}
@@ -0,0 +1,70 @@
+import type { CloudCostImportOptions } from '@/types';
+import { cellString, findColumn, findTagValue, parseBillingPeriod, parseTagCell, type CloudCostReader } from '@/lib/cloud-costs';
+
+// Column names of the BigQuery billing export. JSONL rows are flattened to 'project.id'; CSV dumps of a query
+// usually have 'project_id'. Lower-cased; the first one present in the file is used.
+const GCP_COLUMNS = {
+    invoiceMonth: ['invoice.month', 'invoice_month'],
+    usageStart: ['usage_start_time'],
+    cost: ['cost'],
+    credits: ['credits'],
+    currency: ['currency'],
+    projectId: ['project.id', 'project_id'],
+    projectName: ['project.name', 'project_name'],
+    labels: ['labels'],
+};
+
+// Sums the credit amounts of a line; credits are negative, so adding them lowers the cost
+function sumCredits(cell: unknown): number {
+    let credits: unknown = cell;
+    if (typeof cell === 'string') {
+        if (!cell.trim()) return 0;
+        try {
+            credits = JSON.parse(cell);
+        } catch {
+            return 0;
+        }
+    }
+    if (!Array.isArray(credits)) return 0;
+    return credits.reduce((sum, credit) => {
+        const amount = parseFloat(cellString(credit?.amount));
+        return isNaN(amount) ? sum : sum + amount;
+    }, 0);
+}
+
+// Reads BigQuery billing export rows: spend per invoice month and project, optionally grouped by a label
+export function createGcpBillingReader(headers: string[], options: CloudCostImportOptions): CloudCostReader {
+    const periodColumn = findColumn(headers, GCP_COLUMNS.invoiceMonth) ?? findColumn(headers, GCP_COLUMNS.usageStart);
+    const costColumn = findColumn(headers, GCP_COLUMNS.cost);
+    const creditsColumn = findColumn(headers, GCP_COLUMNS.credits);
+    const currencyColumn = findColumn(headers, GCP_COLUMNS.currency);
+    const projectIdColumn = findColumn(headers, GCP_COLUMNS.projectId);
+    const projectNameColumn = findColumn(headers, GCP_COLUMNS.projectName);
+    const labelsColumn = findColumn(headers, GCP_COLUMNS.labels);
+
+    const missingColumns: string[] = [];
+    if (!periodColumn) missingColumns.push('invoice.month');
+    if (!costColumn) missingColumns.push('cost');
+    if (options.costMetric === 'cost_after_credits' && !creditsColumn) missingColumns.push('credits');
+    if (!projectIdColumn) missingColumns.push('project.id');
+    if (options.groupBy === 'tag' && !labelsColumn) missingColumns.push('labels');
+
+    return {
+        missingColumns,
+        readLine(row) {
+            let cost = parseFloat(cellString(costColumn ? row[costColumn] : ''));
+            if (isNaN(cost)) return null;
+            if (options.costMetric === 'cost_after_credits' && creditsColumn) {
+                cost += sumCredits(row[creditsColumn]);
+            }
+            return {
+                period: periodColumn ? parseBillingPeriod(row[periodColumn]) : null,
+                cost,
+                currency: currencyColumn ? cellString(row[currencyColumn]) : '',
+                scopeId: projectIdColumn ? cellString(row[projectIdColumn]) : '',
+                scopeName: projectNameColumn ? cellString(row[projectNameColumn]) : '',
+                groupValue: options.groupBy === 'tag' && labelsColumn ? findTagValue(parseTagCell(row[labelsColumn]), options.tagKey) : '',
+            };
+        },
+    };
+}
@@ -0,0 +1,105 @@
+import type { ImportLocale } from '@/types';
+
+// Number and date conventions of the locales uploaded files can be written in
+export interface ImportLocaleInfo {
+    label: string;
+    decimal: '.' | ',';
+    group: '.' | ',' | ' ';
+    dayFirst: boolean; // Full dates are written DD/MM/YYYY instead of MM/DD/YYYY
+    example: string; // How 1234.56 is written
+}
+
+export const IMPORT_LOCALES: Record<ImportLocale, ImportLocaleInfo> = {
+    'en-US': { label: 'English (US)', decimal: '.', group: ',', dayFirst: false, example: '1,234.56' },
+    'en-GB': { label: 'English (UK)', decimal: '.', group: ',', dayFirst: true, example: '1,234.56' },
+    'pt-BR': { label: 'Português (Brasil)', decimal: ',', group: '.', dayFirst: true, example: '1.234,56' },
+    'de-DE': { label: 'Deutsch', decimal: ',', group: '.', dayFirst: true, example: '1.234,56' },
+    'es-ES': { label: 'Español', decimal: ',', group: '.', dayFirst: true, example: '1.234,56' },
+    'fr-FR': { label: 'Français', decimal: ',', group: ' ', dayFirst: true, example: '1 234,56' },
+};
+
+export const DEFAULT_IMPORT_LOCALE: ImportLocale = 'en-US';
+
+export function isImportLocale(value: unknown): value is ImportLocale {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMPORT_LOCALES, value);
+}
+
+// Reads a year and month out of a date-like cell: a real Date (Excel dates are read with cellDates),
+// 'YYYY-MM', 'YYYY-MM-DD', 'YYYY/MM' or 'MM/YYYY'. Returns null if the value is not recognised.
+export function extractYearMonth(value: unknown): { year: number; month: number } | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : { year: value.getFullYear(), month: value.getMonth() + 1 };
+    }
+    const text = String(value ?? '').trim();
+    let match = text.match(/^(\d{4})[-/](\d{1,2})(?:[-/]\d{1,2})?(?:[T\s].*)?$/);
+    if (match) {
+        return { year: parseInt(match[1], 10), month: parseInt(match[2], 10) };
+    }
+    match = text.match(/^(\d{1,2})[-/](\d{4})$/);
+    if (match) {
+        return { year: parseInt(match[2], 10), month: parseInt(match[1], 10) };
+    }
+    return null;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Reads an amount written in the given locale. Spreadsheet cells that already hold a number are taken as-is.
+// Text must follow the locale exactly (currency symbols and codes are ignored); anything else is reported rather
+// than guessed. A lone decimal separator followed by exactly three digits ('1,234' under pt-BR, '1.234' under en-US)
+// is reported as ambiguous: it is far more likely a thousands separator from the other convention than an amount
+// with three decimals.
+export function parseLocaleAmount(value: unknown, locale: ImportLocale): { amount: number | null; issue: string | null } {
+    if (typeof value === 'number') {
+        return { amount: isNaN(value) ? null : value, issue: null };
+    }
+    const original = String(value ?? '').trim();
+    const text = original
+        .replace(/[^\d.,\s-]/g, '') // \s also covers the no-break spaces French uses between thousands
+        .replace(/\s+/g, ' ')
+        .trim();
+    if (original === '') {
+        return { amount: null, issue: null };
+    }
+
+    const { decimal, group, example } = IMPORT_LOCALES[locale];
+    const d = escapeRegExp(decimal);
+    const g = escapeRegExp(group);
+    const pattern = new RegExp(`^-?(\\d{1,3}(${g}\\d{3})+|\\d+)(${d}\\d+)?$`);
+    if (!pattern.test(text)) {
+        return { amount: null, issue: `Amount '${original}' does not match the ${locale} number format (e.g. ${example}).` };
+    }
+
+    const separators = text.replace(/[\d-]/g, '');
+    if (separators === decimal && text.split(decimal)[1].length === 3) {
+        const alternative = text.split(decimal).join('');
+        return {
+            amount: null,
+            issue: `Amount '${original}' is ambiguous under ${locale}: '${decimal}' is the decimal separator there, but it may be a thousands separator (${alternative}). Enter the amount in the preview.`,
+        };
+    }
+
+    const amount = parseFloat(text.split(group).join('').replace(decimal, '.'));
+    return { amount: isNaN(amount) ? null : amount, issue: null };
+}
+
+// Reads a year and month from a date cell: real spreadsheet dates, 'YYYY-MM', 'YYYY-MM-DD', 'MM/YYYY', and full
+// dates with '/', '.' or '-' whose day/month order follows the locale. Returns null if the value is not recognised.
+export function parseLocaleYearMonth(value: unknown, locale: ImportLocale): { year: number; month: number } | null {
+    const yearMonth = extractYearMonth(value);
+    if (yearMonth) return yearMonth;
+
+    const text = String(value ?? '').trim();
+    let match = text.match(/^(\d{1,2})\.(\d{4})$/);
+    if (match) {
+        return { year: parseInt(match[2], 10), month: parseInt(match[1], 10) };
+    }
+    match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[T\s].*)?$/);
+    if (match) {
+        const month = parseInt(IMPORT_LOCALES[locale].dayFirst ? match[2] : match[1], 10);
+        return { year: parseInt(match[3], 10), month };
+    }
+    return null;
+}
@@ -0,0 +1,66 @@
+import type { ColumnMapping, FieldMapping, ImportField, ImportLocale } from '@/types';
+import { parseLocaleYearMonth } from '@/lib/import-locale';
+
+export const IMPORT_FIELDS: ImportField[] = ['description', 'amount', 'year', 'month', 'date', 'type', 'currency', 'business line', 'cost center', 'source', 'external id'];
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['description', 'amount', 'year', 'month', 'type'];
+// A single date column can stand in for the year and month columns
+const DATE_FIELD_ALTERNATIVES: ImportField[] = ['year', 'month'];
+
+export function isRequiredFieldMapped(mapping: ColumnMapping, field: ImportField): boolean {
+    return !!mapping[field] || (DATE_FIELD_ALTERNATIVES.includes(field) && !!mapping['date']);
+}
+
+// Mapping used when no profile is chosen: every field comes from the column with the same name
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = Object.fromEntries(
+    IMPORT_FIELDS.map(field => [field, { kind: 'column', column: field }])
+);
+
+// Lower-cases header names and collapses whitespace so 'Business  Line' matches 'business line'
+export function normalizeHeader(header: string): string {
+    return header.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+function applyFieldMapping(row: Record<string, any>, fieldMapping: FieldMapping, locale: ImportLocale): any {
+    if (fieldMapping.kind === 'constant') {
+        return fieldMapping.value;
+    }
+    const value = row[normalizeHeader(fieldMapping.column)];
+    if (!fieldMapping.transform || fieldMapping.transform === 'none') {
+        return value;
+    }
+    // Leave unparseable dates as-is so the row shows up with an invalid year/month instead of silently empty
+    const yearMonth = parseLocaleYearMonth(value, locale);
+    if (!yearMonth) return value;
+    return String(fieldMapping.transform === 'date-year' ? yearMonth.year : yearMonth.month);
+}
+
+// Maps a row keyed by normalized source headers onto the standard import fields
+export function applyColumnMapping(row: Record<string, any>, mapping: ColumnMapping, locale: ImportLocale): Record<ImportField, any> {
+    const mapped = {} as Record<ImportField, any>;
+    for (const field of IMPORT_FIELDS) {
+        const fieldMapping = mapping[field];
+        mapped[field] = fieldMapping ? applyFieldMapping(row, fieldMapping, locale) : '';
+    }
+    return mapped;
+}
+
+// Lists required fields that the mapping cannot fill from the given file headers
+export function findUnmappedRequiredFields(mapping: ColumnMapping, headers: Set<string>): string[] {
+    const problem = (field: ImportField): string | null => {
+        const fieldMapping = mapping[field];
+        if (!fieldMapping) {
+            return `'${field}' (not mapped)`;
+        }
+        if (fieldMapping.kind === 'column' && !headers.has(normalizeHeader(fieldMapping.column))) {
+            return `'${field}' (column '${fieldMapping.column}' not found)`;
+        }
+        return null;
+    };
+    return REQUIRED_IMPORT_FIELDS.flatMap(field => {
+        const fieldProblem = problem(field);
+        if (fieldProblem && DATE_FIELD_ALTERNATIVES.includes(field) && problem('date') === null) {
+            return [];
+        }
+        return fieldProblem ? [fieldProblem] : [];
+    });
+}
@@ -0,0 +1,22 @@
+import type { ImportMode } from '@/types';
+
+export const IMPORT_MODES: Record<ImportMode, { label: string; description: string }> = {
+    'insert': {
+        label: 'Insert only',
+        description: 'Every row becomes a new entry. Rows whose External ID already exists are rejected.',
+    },
+    'upsert': {
+        label: 'Upsert by External ID',
+        description: 'Rows whose External ID already exists update that entry; other rows are inserted. Updates of approved budgets wait for review.',
+    },
+    'replace': {
+        label: 'Replace periods in this file',
+        description: 'Existing budgets (or expenses) in every month the file has budget (or expense) rows for are deleted first. Deleting approved budgets waits for review.',
+    },
+};
+
+export const DEFAULT_IMPORT_MODE: ImportMode = 'insert';
+
+export function isImportMode(value: unknown): value is ImportMode {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMPORT_MODES, value);
+}
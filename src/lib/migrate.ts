@@ -0,0 +1,204 @@
+import type { Database } from '@/lib/db';
+import { PostgresDatabase } from '@/lib/postgres';
+
+// A numbered schema change. Migrations run in version order, each in its own transaction (on SQLite with foreign
+// keys off, so tables can be rebuilt, see rebuildTable); the versions applied are kept in schema_migrations.
+// SQLite databases take MIGRATIONS (src/lib/migrations.ts), PostgreSQL ones POSTGRES_MIGRATIONS.
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database) => Promise<void>;
+    down?: (db: Database) => Promise<void>; // Without it, the migration cannot be rolled back
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied_at: string | null; // null while pending
+    known: boolean; // false for versions applied by a newer build of the app
+}
+
+// Helper function to check if a table exists
+export async function tableExists(db: Database, tableName: string): Promise<boolean> {
+    const result = db instanceof PostgresDatabase
+        ? await db.get(`SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?`, tableName)
+        : await db.get(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`, tableName);
+    return !!result;
+}
+
+// Helper function to check if a column exists
+export async function columnExists(db: Database, tableName: string, columnName: string): Promise<boolean> {
+    if (!(await tableExists(db, tableName))) {
+        return false; // Table doesn't exist, so column cannot exist
+    }
+    // Use PRAGMA table_xinfo which is safer as it handles different syntax variations
+    const columns = await db.all(`PRAGMA table_xinfo(${tableName})`);
+    return columns.some(col => col.name === columnName);
+}
+
+// Adds a column unless a database from before versioned migrations already has it. SQLite cannot add a column
+// with a non-constant default, so DEFAULT CURRENT_TIMESTAMP is left off and the column starts out empty.
+export async function addColumnIfNotExists(db: Database, tableName: string, columnName: string, columnDefinition: string) {
+    if (await columnExists(db, tableName, columnName)) {
+        return;
+    }
+    const definition = columnDefinition.replace(/DEFAULT\s+CURRENT_TIMESTAMP/i, '').trim();
+    await db.run(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`);
+    console.log(`Added column ${columnName} to table ${tableName}`);
+}
+
+// Changes a table in ways ALTER TABLE cannot, such as dropping a column or changing a constraint, with SQLite's
+// table rebuild: create the table anew, copy the rows over, drop the old table and rename the new one.
+// `definition` is what goes between the parentheses of CREATE TABLE. Its columns are copied from the old columns of
+// the same name, or computed with the SQL expressions over the old table in `values`.
+// The table's indexes and triggers are recreated, so drop those using removed columns first.
+export async function rebuildTable(db: Database, table: string, definition: string, values: Record<string, string> = {}) {
+    const rebuilt = `${table}__rebuild`;
+    const schema = await db.all<{ sql: string }[]>(
+        `SELECT sql FROM sqlite_master WHERE tbl_name = ? AND type IN ('index', 'trigger') AND sql IS NOT NULL`, table
+    );
+    const oldColumns = new Set((await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`)).map(column => column.name));
+    const sequence = await db.get<{ seq: number }>(`SELECT seq FROM sqlite_sequence WHERE name = ?`, table).catch(() => undefined);
+
+    await db.exec(`CREATE TABLE ${rebuilt} (${definition})`);
+    const columns = (await db.all<{ name: string }[]>(`PRAGMA table_info(${rebuilt})`))
+        .map(column => column.name)
+        .filter(column => column in values || oldColumns.has(column));
+    await db.run(`INSERT INTO ${rebuilt} (${columns.join(', ')}) SELECT ${columns.map(column => values[column] ?? column).join(', ')} FROM ${table}`);
+    await db.exec(`DROP TABLE ${table}`);
+    await db.exec(`ALTER TABLE ${rebuilt} RENAME TO ${table}`);
+    if (sequence) {
+        // Keep AUTOINCREMENT from reusing the IDs of rows deleted before the rebuild
+        await db.run(`UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = ?`, sequence.seq, table);
+    }
+    for (const { sql } of schema) {
+        await db.exec(sql);
+    }
+
+    const violations = await db.all(`PRAGMA foreign_key_check(${table})`);
+    if (violations.length > 0) {
+        throw new Error(`Rebuilding ${table} left ${violations.length} row(s) referring to rows that do not exist.`);
+    }
+    console.log(`Table ${table} rebuilt.`);
+}
+
+async function ensureMigrationsTable(db: Database) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+}
+
+function checkMigrations(migrations: Migration[]) {
+    migrations.forEach((migration, i) => {
+        if (!Number.isInteger(migration.version) || migration.version <= 0 || (i > 0 && migration.version <= migrations[i - 1].version)) {
+            throw new Error(`Migration ${migration.version} (${migration.name}) is out of order; versions must be positive and ascending.`);
+        }
+    });
+}
+
+// Runs one migration step in a transaction and records it. The transaction takes the write lock (BEGIN IMMEDIATE on
+// SQLite, a lock of schema_migrations on PostgreSQL) before schema_migrations is read again, so two processes
+// starting at once cannot both apply a migration.
+async function runStep(db: Database, migration: Migration, direction: 'up' | 'down'): Promise<boolean> {
+    if (db instanceof PostgresDatabase) {
+        return runStepTransaction(db, migration, direction, ['BEGIN', 'LOCK TABLE schema_migrations IN EXCLUSIVE MODE']);
+    }
+    const foreignKeys = (await db.get<{ foreign_keys: number }>('PRAGMA foreign_keys'))?.foreign_keys ?? 0;
+    await db.run('PRAGMA foreign_keys = OFF'); // Has no effect inside a transaction
+    try {
+        return await runStepTransaction(db, migration, direction, ['BEGIN IMMEDIATE TRANSACTION']);
+    } finally {
+        await db.run(`PRAGMA foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+}
+
+async function runStepTransaction(db: Database, migration: Migration, direction: 'up' | 'down', begin: string[]): Promise<boolean> {
+    for (const statement of begin) {
+        await db.run(statement);
+    }
+    try {
+        const applied = !!await db.get(`SELECT version FROM schema_migrations WHERE version = ?`, migration.version);
+        if (applied !== (direction === 'down')) {
+            await db.run('ROLLBACK');
+            return false; // Done by another process in the meantime
+        }
+        if (direction === 'up') {
+            await migration.up(db);
+            await db.run(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`, migration.version, migration.name);
+        } else {
+            await migration.down!(db);
+            await db.run(`DELETE FROM schema_migrations WHERE version = ?`, migration.version);
+        }
+        await db.run('COMMIT');
+        return true;
+    } catch (error: any) {
+        await db.run('ROLLBACK');
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed ${direction === 'up' ? 'to apply' : 'to roll back'}: ${error.message}`);
+    }
+}
+
+// Applies the migrations not applied yet, up to and including `target` (all of them by default).
+// Returns the versions applied.
+export async function migrateUp(db: Database, migrations: Migration[], target: number | null = null): Promise<number[]> {
+    checkMigrations(migrations);
+    await ensureMigrationsTable(db);
+    const status = await getMigrationStatus(db, migrations);
+    const unknown = status.filter(migration => !migration.known);
+    if (unknown.length > 0) {
+        throw new Error(`The database has schema version ${unknown[unknown.length - 1].version}, which is newer than this build of the app knows. Update the app or roll the database back with the newer build.`);
+    }
+    const applied: number[] = [];
+    for (const migration of migrations) {
+        if (target !== null && migration.version > target) break;
+        if (status.some(s => s.version === migration.version && s.applied_at !== null)) continue;
+        if (await runStep(db, migration, 'up')) {
+            console.log(`Applied migration ${migration.version} (${migration.name}).`);
+            applied.push(migration.version);
+        }
+    }
+    return applied;
+}
+
+// Rolls back the applied migrations newer than `target`, newest first. Returns the versions rolled back.
+export async function migrateDown(db: Database, migrations: Migration[], target: number): Promise<number[]> {
+    checkMigrations(migrations);
+    await ensureMigrationsTable(db);
+    const toRollBack = (await getMigrationStatus(db, migrations))
+        .filter(migration => migration.applied_at !== null && migration.version > target)
+        .reverse();
+    // Check every step first, so a rollback does not stop halfway
+    for (const status of toRollBack) {
+        const migration = migrations.find(m => m.version === status.version);
+        if (!migration) {
+            throw new Error(`Migration ${status.version} (${status.name}) was applied by a newer build of the app; roll it back with that build.`);
+        }
+        if (!migration.down) {
+            throw new Error(`Migration ${migration.version} (${migration.name}) cannot be rolled back.`);
+        }
+    }
+    const rolledBack: number[] = [];
+    for (const status of toRollBack) {
+        const migration = migrations.find(m => m.version === status.version)!;
+        if (await runStep(db, migration, 'down')) {
+            console.log(`Rolled back migration ${migration.version} (${migration.name}).`);
+            rolledBack.push(migration.version);
+        }
+    }
+    return rolledBack;
+}
+
+// Every known migration with when it was applied, plus any applied by a newer build, in version order
+export async function getMigrationStatus(db: Database, migrations: Migration[]): Promise<MigrationStatus[]> {
+    const applied = await tableExists(db, 'schema_migrations')
+        ? await db.all<{ version: number; name: string; applied_at: string }[]>(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`)
+        : [];
+    const appliedAt = new Map(applied.map(row => [row.version, row.applied_at]));
+    return [
+        ...migrations.map(migration => ({ version: migration.version, name: migration.name, applied_at: appliedAt.get(migration.version) ?? null, known: true })),
+        ...applied.filter(row => !migrations.some(m => m.version === row.version)).map(row => ({ ...row, known: false })),
+    ].sort((a, b) => a.version - b.version);
+}
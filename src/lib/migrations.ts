@@ -0,0 +1,728 @@
+import { addColumnIfNotExists, columnExists, rebuildTable, type Migration } from '@/lib/migrate';
+import { AUDIT_TABLES, createAuditTriggers, dropAuditTriggers } from '@/lib/audit';
+import type { AuditTable } from '@/types';
+
+// The schema's migrations, oldest first. Add new ones at the end with the next version; never change or
+// renumber one that has been released, since databases record the versions they have applied. PostgreSQL
+// databases have their own list, POSTGRES_MIGRATIONS, which takes the same change.
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'baseline',
+        // The schema as getDb created and patched it before versioned migrations. Every step checks what exists,
+        // so a database from any earlier build is brought up to this version without losing data.
+        up: async (db) => {
+            // 1. Business Lines Table
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS business_lines (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                -- updated_at DATETIME -- Managed manually or by trigger if needed
+              );
+            `);
+            // Explicitly add updated_at only if it doesn't exist, without default
+            await addColumnIfNotExists(db, 'business_lines', 'updated_at', 'DATETIME');
+            console.log("Table business_lines checked/created.");
+
+            // 2. Cost Centers Table (No created_at, no updated_at; see migration 2 for databases that still have them)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS cost_centers (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE
+                -- created_at column removed
+                -- updated_at column removed
+                -- business_line_id column removed
+              );
+            `);
+            console.log("Table cost_centers checked/created (without business_line_id, created_at, updated_at).");
+
+            // 3. Budgets Table
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS budgets (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                description TEXT NOT NULL,
+                amount REAL NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL,
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                business_line_id INTEGER, -- Direct link to one BL
+                cost_center_id INTEGER,   -- Direct link to one CC
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                -- updated_at DATETIME, -- Managed manually or by trigger
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE SET NULL,
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE SET NULL
+              );
+            `);
+             // Explicitly add updated_at only if it doesn't exist, without default
+            await addColumnIfNotExists(db, 'budgets', 'updated_at', 'DATETIME');
+            console.log("Table budgets checked/created.");
+
+            // 4. Junction Table: cost_center_business_lines
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS cost_center_business_lines (
+                cost_center_id INTEGER NOT NULL,
+                business_line_id INTEGER NOT NULL,
+                PRIMARY KEY (cost_center_id, business_line_id),
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE CASCADE,
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE CASCADE
+              );
+            `);
+            console.log("Junction table cost_center_business_lines checked/created.");
+
+            // 5. Expenses Table (NEW)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS expenses (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                description TEXT NOT NULL,
+                amount REAL NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL,
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                business_line_id INTEGER, -- Link to BL (can be null?)
+                cost_center_id INTEGER,   -- Link to CC (can be null?)
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                -- updated_at DATETIME, -- Managed by trigger
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE SET NULL,
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE SET NULL
+              );
+            `);
+            await addColumnIfNotExists(db, 'expenses', 'updated_at', 'DATETIME'); // Add updated_at column
+            console.log("Table expenses checked/created.");
+
+            // 6. Import Mapping Profiles Table (column mappings for spreadsheet uploads, stored as JSON)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS import_mapping_profiles (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE,
+                mapping TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME
+              );
+            `);
+            console.log("Table import_mapping_profiles checked/created.");
+
+            // 7. Import Batches Table (one row per committed upload, so an upload can be inspected and reverted)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS import_batches (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                file_name TEXT NOT NULL,
+                checksum TEXT NOT NULL, -- SHA-256 of the uploaded file, used to warn about re-uploads
+                uploaded_by TEXT,
+                budget_count INTEGER NOT NULL DEFAULT 0,
+                expense_count INTEGER NOT NULL DEFAULT 0,
+                skipped_count INTEGER NOT NULL DEFAULT 0,
+                status TEXT CHECK(status IN ('committed', 'reverted')) NOT NULL DEFAULT 'committed',
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                reverted_at DATETIME
+              );
+            `);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_import_batches_checksum ON import_batches(checksum);`);
+            // Tag rows created by an upload with their batch
+            await addColumnIfNotExists(db, 'budgets', 'import_batch_id', 'INTEGER REFERENCES import_batches(id) ON DELETE SET NULL');
+            await addColumnIfNotExists(db, 'expenses', 'import_batch_id', 'INTEGER REFERENCES import_batches(id) ON DELETE SET NULL');
+            console.log("Table import_batches checked/created.");
+
+            // 8. Cost Allocation Rules Table (maps cloud cost dimension values, e.g. tag values or subscriptions, onto business lines / cost centers)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS cost_allocation_rules (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                dimension TEXT CHECK(dimension IN ('tag', 'account', 'subscription', 'resource_group', 'project')) NOT NULL DEFAULT 'tag',
+                tag_key TEXT NOT NULL DEFAULT '' COLLATE NOCASE, -- Only set for tag rules
+                value TEXT NOT NULL COLLATE NOCASE,
+                business_line_id INTEGER,
+                cost_center_id INTEGER,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (dimension, tag_key, value),
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE SET NULL,
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE SET NULL
+              );
+            `);
+            console.log("Table cost_allocation_rules checked/created.");
+
+            // 9. Currencies: every budget/expense amount is in its own currency; existing rows were entered in USD
+            await addColumnIfNotExists(db, 'budgets', 'currency', "TEXT NOT NULL DEFAULT 'USD'");
+            await addColumnIfNotExists(db, 'expenses', 'currency', "TEXT NOT NULL DEFAULT 'USD'");
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS exchange_rates (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL CHECK(month >= 1 AND month <= 12),
+                from_currency TEXT NOT NULL,
+                to_currency TEXT NOT NULL,
+                rate REAL NOT NULL CHECK(rate > 0), -- Units of to_currency per unit of from_currency
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (year, month, from_currency, to_currency)
+              );
+            `);
+            console.log("Table exchange_rates checked/created.");
+
+            // 10. Application Settings Table (key/value, e.g. the reporting currency)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS app_settings (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+            console.log("Table app_settings checked/created.");
+
+            // 11. Upsert imports: rows can carry the key of the system they come from, so a corrected file updates them in place
+            await addColumnIfNotExists(db, 'budgets', 'external_id', 'TEXT');
+            await addColumnIfNotExists(db, 'expenses', 'external_id', 'TEXT');
+            await db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_external_id ON expenses(external_id) WHERE external_id IS NOT NULL;`);
+            await addColumnIfNotExists(db, 'import_batches', 'import_mode', "TEXT NOT NULL DEFAULT 'insert'");
+            await addColumnIfNotExists(db, 'import_batches', 'updated_count', 'INTEGER NOT NULL DEFAULT 0');
+            await addColumnIfNotExists(db, 'import_batches', 'unchanged_count', 'INTEGER NOT NULL DEFAULT 0');
+            await addColumnIfNotExists(db, 'import_batches', 'deleted_count', 'INTEGER NOT NULL DEFAULT 0');
+            // Values of rows an upload updated or deleted, as they were before it, so reverting the upload can put them back
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS import_batch_changes (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                batch_id INTEGER NOT NULL,
+                source TEXT CHECK(source IN ('Budget', 'Expense')) NOT NULL,
+                entry_id INTEGER NOT NULL,
+                action TEXT CHECK(action IN ('updated', 'deleted')) NOT NULL,
+                previous_values TEXT NOT NULL, -- JSON copy of the row before the upload
+                FOREIGN KEY (batch_id) REFERENCES import_batches(id) ON DELETE CASCADE
+              );
+            `);
+            console.log("Table import_batch_changes checked/created.");
+
+            // 12. Budget alerts: rules watching spend against a threshold, the channels alerts are sent to,
+            // and every alert triggered (at most once per rule and period)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS alert_rules (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                scope TEXT CHECK(scope IN ('business_line', 'cost_center', 'type')) NOT NULL,
+                business_line_id INTEGER,
+                cost_center_id INTEGER,
+                expense_type TEXT CHECK(expense_type IN ('CAPEX', 'OPEX')),
+                threshold_kind TEXT CHECK(threshold_kind IN ('percent', 'amount')) NOT NULL,
+                threshold_value REAL NOT NULL CHECK(threshold_value > 0),
+                period TEXT CHECK(period IN ('month', 'quarter', 'year')) NOT NULL,
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE CASCADE,
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE CASCADE
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS alert_channels (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                kind TEXT CHECK(kind IN ('webhook', 'slack', 'email')) NOT NULL,
+                config TEXT NOT NULL, -- JSON settings of the channel kind
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS alerts (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rule_id INTEGER NOT NULL,
+                period_key TEXT NOT NULL,
+                period_label TEXT NOT NULL,
+                budget REAL NOT NULL,
+                actual REAL NOT NULL,
+                threshold REAL NOT NULL,
+                currency TEXT NOT NULL,
+                message TEXT NOT NULL,
+                triggered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                acknowledged_at DATETIME,
+                UNIQUE (rule_id, period_key),
+                FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE CASCADE
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS alert_deliveries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                alert_id INTEGER NOT NULL,
+                channel_id INTEGER,
+                status TEXT CHECK(status IN ('sent', 'failed')) NOT NULL,
+                error TEXT,
+                attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (alert_id) REFERENCES alerts(id) ON DELETE CASCADE,
+                FOREIGN KEY (channel_id) REFERENCES alert_channels(id) ON DELETE SET NULL
+              );
+            `);
+            console.log("Tables alert_rules, alert_channels, alerts and alert_deliveries checked/created.");
+
+            // 13. Budget versions: every budget row belongs to one version (the original plan, a reforecast or a what-if
+            // scenario); the default version is the one compared with actuals unless another is picked
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS budget_versions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                kind TEXT CHECK(kind IN ('original', 'reforecast', 'what_if')) NOT NULL DEFAULT 'original',
+                description TEXT,
+                cloned_from_id INTEGER,
+                is_default INTEGER NOT NULL DEFAULT 0,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (cloned_from_id) REFERENCES budget_versions(id) ON DELETE SET NULL
+              );
+            `);
+            await addColumnIfNotExists(db, 'budgets', 'version_id', 'INTEGER REFERENCES budget_versions(id) ON DELETE CASCADE');
+            if (!await db.get(`SELECT id FROM budget_versions WHERE is_default = 1`)) {
+                const existing = await db.get<{ id: number }>(`SELECT id FROM budget_versions ORDER BY id LIMIT 1`);
+                if (existing) {
+                    await db.run(`UPDATE budget_versions SET is_default = 1 WHERE id = ?`, existing.id);
+                } else {
+                    await db.run(`INSERT INTO budget_versions (name, kind, description, is_default) VALUES ('Original', 'original', 'The approved plan', 1)`);
+                }
+            }
+            // Rows from before versions existed belong to the default version
+            await db.run(`UPDATE budgets SET version_id = (SELECT id FROM budget_versions WHERE is_default = 1) WHERE version_id IS NULL`);
+            // A cloned row keeps its external ID, so external IDs are unique per version
+            await db.exec(`DROP INDEX IF EXISTS idx_budgets_external_id;`);
+            await db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_version_external_id ON budgets(version_id, external_id) WHERE external_id IS NOT NULL;`);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_budgets_version ON budgets(version_id);`);
+            console.log("Table budget_versions checked/created.");
+
+            // 14. Budget approval: rows go from draft to submitted to approved/rejected, and only approved rows count.
+            // Edits of approved rows are kept in budget_changes until they are reviewed, so the approved values stay in effect.
+            const hadBudgetStatus = await columnExists(db, 'budgets', 'status');
+            await addColumnIfNotExists(db, 'budgets', 'status', "TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'submitted', 'approved', 'rejected'))");
+            if (!hadBudgetStatus) {
+                // Rows from before the workflow existed were already the budget
+                await db.run(`UPDATE budgets SET status = 'approved'`);
+            }
+            await addColumnIfNotExists(db, 'budgets', 'submitted_at', 'DATETIME');
+            await addColumnIfNotExists(db, 'budgets', 'review_decision', "TEXT CHECK(review_decision IN ('approved', 'rejected'))");
+            await addColumnIfNotExists(db, 'budgets', 'reviewed_by', 'TEXT');
+            await addColumnIfNotExists(db, 'budgets', 'review_comment', 'TEXT');
+            await addColumnIfNotExists(db, 'budgets', 'reviewed_at', 'DATETIME');
+            await addColumnIfNotExists(db, 'business_lines', 'budget_owner', 'TEXT');
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS budget_changes (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                budget_id INTEGER NOT NULL,
+                description TEXT NOT NULL,
+                amount REAL NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL CHECK(month >= 1 AND month <= 12),
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                currency TEXT NOT NULL,
+                business_line_id INTEGER,
+                cost_center_id INTEGER,
+                status TEXT CHECK(status IN ('submitted', 'approved', 'rejected')) NOT NULL DEFAULT 'submitted',
+                submitted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                reviewed_by TEXT,
+                review_comment TEXT,
+                reviewed_at DATETIME,
+                FOREIGN KEY (budget_id) REFERENCES budgets(id) ON DELETE CASCADE,
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE SET NULL,
+                FOREIGN KEY (cost_center_id) REFERENCES cost_centers(id) ON DELETE SET NULL
+              );
+            `);
+            // At most one change per row waits for review; editing again replaces it
+            await db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_changes_pending ON budget_changes(budget_id) WHERE status = 'submitted';`);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_budgets_status ON budgets(status);`);
+            console.log("Table budget_changes checked/created.");
+
+            // 15. Users and sessions: local accounts sign in with a password, OIDC accounts are linked by issuer and subject.
+            // Sessions store a hash of the cookie token, so a copy of the database cannot be used to sign in.
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS users (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                name TEXT NOT NULL,
+                role TEXT CHECK(role IN ('admin', 'finance_editor', 'business_line_owner', 'viewer')) NOT NULL DEFAULT 'viewer',
+                password_hash TEXT,
+                oidc_subject TEXT UNIQUE,
+                is_active INTEGER NOT NULL DEFAULT 1,
+                last_login_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS sessions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                token_hash TEXT NOT NULL UNIQUE,
+                user_id INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                expires_at DATETIME NOT NULL,
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+              );
+            `);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);`);
+            console.log("Tables users and sessions checked/created.");
+
+            // 16. Business line grants: limit a user to the budgets and expenses of some business lines (see BusinessLineScope)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS user_business_lines (
+                user_id INTEGER NOT NULL,
+                business_line_id INTEGER NOT NULL,
+                PRIMARY KEY (user_id, business_line_id),
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE CASCADE
+              );
+            `);
+            console.log("Table user_business_lines checked/created.");
+
+            // 17. Audit trail: the audit triggers (created by migration 9) record a snapshot of the row before and after every
+            // insert, update and delete on the audited tables, with the actor the app put in audit_context (see withAuditActor)
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS audit_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                table_name TEXT NOT NULL,
+                record_id INTEGER NOT NULL,
+                action TEXT CHECK(action IN ('insert', 'update', 'delete')) NOT NULL,
+                actor_user_id INTEGER, -- Not a foreign key: events outlive deleted users
+                actor_name TEXT,
+                old_values TEXT, -- JSON, NULL for inserts
+                new_values TEXT, -- JSON, NULL for deletes
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_audit_events_record ON audit_events(table_name, record_id);`);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at);`);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS audit_context (
+                id INTEGER PRIMARY KEY CHECK(id = 1),
+                user_id INTEGER,
+                name TEXT NOT NULL
+              );
+            `);
+            console.log("Tables audit_events and audit_context checked/created.");
+        },
+    },
+    {
+        version: 2,
+        name: 'drop_legacy_cost_center_columns',
+        // Databases from before cost centers could belong to several business lines still have cost_centers.business_line_id,
+        // which deletes a business line's cost centers along with it, and an unused updated_at. Their links are kept as associations.
+        up: async (db) => {
+            if (await columnExists(db, 'cost_centers', 'business_line_id')) {
+                await db.run(`
+                  INSERT OR IGNORE INTO cost_center_business_lines (cost_center_id, business_line_id)
+                  SELECT id, business_line_id FROM cost_centers WHERE business_line_id IN (SELECT id FROM business_lines)
+                `);
+            }
+            // The audit triggers snapshot every column; migration 9 creates them again for the new columns
+            await db.exec(`
+              DROP TRIGGER IF EXISTS audit_cost_centers_insert;
+              DROP TRIGGER IF EXISTS audit_cost_centers_update;
+              DROP TRIGGER IF EXISTS audit_cost_centers_delete;
+            `);
+            await rebuildTable(db, 'cost_centers', `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE
+            `);
+        },
+        // Version 1 works with or without the legacy columns, so there is nothing to put back
+        down: async () => {},
+    },
+    {
+        version: 3,
+        name: 'api_keys',
+        // Machine credentials for the REST API. Only a SHA-256 hash of each key is stored. Keys not limited to
+        // business lines have all_business_lines set, so a key whose business lines were all deleted sees none.
+        up: async (db) => {
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS api_keys (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE,
+                key_prefix TEXT NOT NULL,
+                key_hash TEXT NOT NULL UNIQUE,
+                scopes TEXT NOT NULL, -- Comma-separated ApiKeyScopes
+                all_business_lines INTEGER NOT NULL DEFAULT 1,
+                created_by TEXT, -- Name of the admin who created the key, kept when their account is deleted
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                last_used_at DATETIME,
+                revoked_at DATETIME
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS api_key_business_lines (
+                api_key_id INTEGER NOT NULL,
+                business_line_id INTEGER NOT NULL,
+                PRIMARY KEY (api_key_id, business_line_id),
+                FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE CASCADE,
+                FOREIGN KEY (business_line_id) REFERENCES business_lines(id) ON DELETE CASCADE
+              );
+            `);
+        },
+        down: async (db) => {
+            await db.exec(`
+              DROP TRIGGER IF EXISTS audit_api_keys_insert;
+              DROP TRIGGER IF EXISTS audit_api_keys_update;
+              DROP TRIGGER IF EXISTS audit_api_keys_delete;
+              DROP TABLE IF EXISTS api_key_business_lines;
+              DROP TABLE IF EXISTS api_keys;
+            `);
+        },
+    },
+    {
+        version: 4,
+        name: 'webhooks',
+        // Subscriptions of downstream systems to budget, expense, import and alert events, and every event sent to
+        // them with its latest delivery attempt (see '@/lib/webhooks')
+        up: async (db) => {
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                url TEXT NOT NULL,
+                secret TEXT NOT NULL, -- Key of the HMAC-SHA256 signature of every payload
+                events TEXT NOT NULL, -- Comma-separated WebhookEvents
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                subscription_id INTEGER NOT NULL,
+                event_id TEXT NOT NULL,
+                event TEXT NOT NULL,
+                payload TEXT NOT NULL, -- The signed JSON body, sent unchanged on every attempt
+                status TEXT CHECK(status IN ('pending', 'delivered', 'failed')) NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                max_attempts INTEGER NOT NULL,
+                response_status INTEGER,
+                error TEXT,
+                next_attempt_at DATETIME,
+                last_attempt_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions(id) ON DELETE CASCADE
+              );
+            `);
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);`);
+        },
+        down: async (db) => {
+            await db.exec(`
+              DROP TABLE IF EXISTS webhook_deliveries;
+              DROP TABLE IF EXISTS webhook_subscriptions;
+            `);
+        },
+    },
+    {
+        version: 5,
+        name: 'entry_list_indexes',
+        // The budget and expense lists filter, sort and page in SQL (see getBudgetPage and getExpensePage). Periods lead
+        // the composite indexes, as the lists are sorted newest first unless asked otherwise.
+        up: async (db) => {
+            await db.exec(`
+              CREATE INDEX IF NOT EXISTS idx_budgets_version_period ON budgets(version_id, year, month);
+              CREATE INDEX IF NOT EXISTS idx_budgets_type ON budgets(type);
+              CREATE INDEX IF NOT EXISTS idx_budgets_business_line ON budgets(business_line_id);
+              CREATE INDEX IF NOT EXISTS idx_budgets_cost_center ON budgets(cost_center_id);
+              CREATE INDEX IF NOT EXISTS idx_budgets_import_batch ON budgets(import_batch_id);
+              CREATE INDEX IF NOT EXISTS idx_expenses_period ON expenses(year, month);
+              CREATE INDEX IF NOT EXISTS idx_expenses_type ON expenses(type);
+              CREATE INDEX IF NOT EXISTS idx_expenses_business_line ON expenses(business_line_id);
+              CREATE INDEX IF NOT EXISTS idx_expenses_cost_center ON expenses(cost_center_id);
+              CREATE INDEX IF NOT EXISTS idx_expenses_import_batch ON expenses(import_batch_id);
+            `);
+        },
+        down: async (db) => {
+            await db.exec(`
+              DROP INDEX IF EXISTS idx_budgets_version_period;
+              DROP INDEX IF EXISTS idx_budgets_type;
+              DROP INDEX IF EXISTS idx_budgets_business_line;
+              DROP INDEX IF EXISTS idx_budgets_cost_center;
+              DROP INDEX IF EXISTS idx_budgets_import_batch;
+              DROP INDEX IF EXISTS idx_expenses_period;
+              DROP INDEX IF EXISTS idx_expenses_type;
+              DROP INDEX IF EXISTS idx_expenses_business_line;
+              DROP INDEX IF EXISTS idx_expenses_cost_center;
+              DROP INDEX IF EXISTS idx_expenses_import_batch;
+            `);
+        },
+    },
+    {
+        version: 6,
+        name: 'import_batch_master_data',
+        // Business lines, cost centers and associations an import's master-data sheets created, so reverting the
+        // import can remove them again. No foreign keys: they may be deleted by hand in the meantime.
+        up: async (db) => {
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS import_batch_master_data (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                batch_id INTEGER NOT NULL,
+                kind TEXT CHECK(kind IN ('business_line', 'cost_center', 'association')) NOT NULL,
+                business_line_id INTEGER, -- Set for business lines and associations
+                cost_center_id INTEGER, -- Set for cost centers and associations
+                FOREIGN KEY (batch_id) REFERENCES import_batches(id) ON DELETE CASCADE
+              );
+            `);
+        },
+        down: async (db) => {
+            await db.exec(`DROP TABLE IF EXISTS import_batch_master_data;`);
+        },
+    },
+    {
+        version: 7,
+        name: 'business_line_budget_owner_user',
+        // The budget owner who approves a business line's budget entries was free text matched against the reviewer's
+        // name or email, so anyone could take a name. It is now a user. Owners are matched by email, or by a name only one
+        // user has; business lines whose owner matches no user are left without one, which the log lists.
+        up: async (db) => {
+            const ownerId = `COALESCE(
+                (SELECT u.id FROM users u WHERE u.email = TRIM(business_lines.budget_owner)),
+                (SELECT MIN(u.id) FROM users u WHERE LOWER(TRIM(u.name)) = LOWER(TRIM(business_lines.budget_owner)) HAVING COUNT(*) = 1)
+            )`;
+            const unmatched = await db.all<{ name: string; budget_owner: string }[]>(
+                `SELECT name, budget_owner FROM business_lines WHERE TRIM(COALESCE(budget_owner, '')) != '' AND ${ownerId} IS NULL`
+            );
+            for (const line of unmatched) {
+                console.warn(`Budget owner '${line.budget_owner}' of business line '${line.name}' matches no user; the business line now has no budget owner.`);
+            }
+            // The audit triggers snapshot every column; migration 9 creates them again for the new columns
+            await db.exec(`
+              DROP TRIGGER IF EXISTS audit_business_lines_insert;
+              DROP TRIGGER IF EXISTS audit_business_lines_update;
+              DROP TRIGGER IF EXISTS audit_business_lines_delete;
+            `);
+            await rebuildTable(db, 'business_lines', `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME,
+                budget_owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL
+            `, { budget_owner_id: ownerId });
+        },
+        down: async (db) => {
+            await db.exec(`
+              DROP TRIGGER IF EXISTS audit_business_lines_insert;
+              DROP TRIGGER IF EXISTS audit_business_lines_update;
+              DROP TRIGGER IF EXISTS audit_business_lines_delete;
+            `);
+            await rebuildTable(db, 'business_lines', `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME,
+                budget_owner TEXT
+            `, { budget_owner: '(SELECT u.email FROM users u WHERE u.id = business_lines.budget_owner_id)' });
+        },
+    },
+    {
+        version: 8,
+        name: 'updated_at_triggers',
+        // Keeps updated_at of business lines, budgets and expenses current on every update. getDb created these
+        // triggers on every start, guarded by a check for the column, and dropped the one cost centers had before
+        // migration 2; they are replaced with plain ones.
+        up: async (db) => {
+            await db.exec(`
+              DROP TRIGGER IF EXISTS update_cost_centers_updated_at;
+              DROP TRIGGER IF EXISTS update_business_lines_updated_at;
+              DROP TRIGGER IF EXISTS update_budgets_updated_at;
+              DROP TRIGGER IF EXISTS update_expenses_updated_at;
+
+              CREATE TRIGGER update_business_lines_updated_at AFTER UPDATE ON business_lines FOR EACH ROW
+              BEGIN
+                  UPDATE business_lines SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+              END;
+              CREATE TRIGGER update_budgets_updated_at AFTER UPDATE ON budgets FOR EACH ROW
+              BEGIN
+                  UPDATE budgets SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+              END;
+              CREATE TRIGGER update_expenses_updated_at AFTER UPDATE ON expenses FOR EACH ROW
+              BEGIN
+                  UPDATE expenses SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+              END;
+            `);
+        },
+        down: async (db) => {
+            await db.exec(`
+              DROP TRIGGER IF EXISTS update_business_lines_updated_at;
+              DROP TRIGGER IF EXISTS update_budgets_updated_at;
+              DROP TRIGGER IF EXISTS update_expenses_updated_at;
+            `);
+        },
+    },
+    {
+        version: 9,
+        name: 'audit_triggers',
+        // getDb created the audit triggers on every start, so they covered columns added since. Migrations that change
+        // the columns of an audited table now call createAuditTriggers for it instead.
+        up: async (db) => {
+            for (const table of Object.keys(AUDIT_TABLES) as AuditTable[]) {
+                await createAuditTriggers(db, table);
+            }
+        },
+        down: async (db) => {
+            for (const table of Object.keys(AUDIT_TABLES) as AuditTable[]) {
+                await dropAuditTriggers(db, table);
+            }
+        },
+    },
+    {
+        version: 10,
+        name: 'staged_imports',
+        // Previewed uploads waiting to be reviewed and committed. What the rows are written with (file, mode, budget
+        // version, master data) stays here instead of being sent back by the browser; the rows are re-validated anyway.
+        up: async (db) => {
+            await db.exec(`
+              CREATE TABLE IF NOT EXISTS staged_imports (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                file_name TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                import_mode TEXT CHECK(import_mode IN ('insert', 'upsert', 'replace')) NOT NULL,
+                budget_version_id INTEGER NOT NULL REFERENCES budget_versions(id) ON DELETE CASCADE,
+                master_data_rows TEXT NOT NULL DEFAULT '[]', -- JSON array of MasterDataRow
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+            `);
+        },
+        down: async (db) => {
+            await db.exec('DROP TABLE IF EXISTS staged_imports');
+        },
+    },
+    {
+        version: 11,
+        name: 'budget_submitters',
+        // Who submitted a budget row or change for review, so they cannot approve it themselves where the business line
+        // has no budget owner. Rows and changes submitted before are left without one.
+        up: async (db) => {
+            await addColumnIfNotExists(db, 'budgets', 'submitted_by_user_id', 'INTEGER REFERENCES users(id) ON DELETE SET NULL');
+            await addColumnIfNotExists(db, 'budget_changes', 'submitted_by_user_id', 'INTEGER REFERENCES users(id) ON DELETE SET NULL');
+            await createAuditTriggers(db, 'budgets');
+        },
+        down: async (db) => {
+            await dropAuditTriggers(db, 'budgets');
+            await db.exec(`
+              ALTER TABLE budgets DROP COLUMN submitted_by_user_id;
+              ALTER TABLE budget_changes DROP COLUMN submitted_by_user_id;
+            `);
+            await createAuditTriggers(db, 'budgets');
+        },
+    },
+    {
+        version: 12,
+        name: 'budget_change_actions',
+        // Approved budget rows are deleted through review as well: a 'delete' change holds the row's values when the
+        // deletion was asked for, and approving it deletes the row (and with it the change)
+        up: async (db) => {
+            await addColumnIfNotExists(db, 'budget_changes', 'action', "TEXT CHECK(action IN ('update', 'delete')) NOT NULL DEFAULT 'update'");
+        },
+        down: async (db) => {
+            await db.exec(`
+              DELETE FROM budget_changes WHERE action = 'delete';
+              ALTER TABLE budget_changes DROP COLUMN action;
+            `);
+        },
+    },
+    {
+        version: 13,
+        name: 'budget_change_import_batches',
+        // Imports submit changes of approved budget rows for review instead of writing them; reverting the import
+        // withdraws the ones still waiting
+        up: async (db) => {
+            await addColumnIfNotExists(db, 'budget_changes', 'import_batch_id', 'INTEGER REFERENCES import_batches(id) ON DELETE SET NULL');
+        },
+        down: async (db) => {
+            await db.exec('ALTER TABLE budget_changes DROP COLUMN import_batch_id');
+        },
+    },
+];
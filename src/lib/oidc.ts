@@ -0,0 +1,177 @@
+import { createHash, randomBytes } from 'crypto';
+import type { UserRole } from '@/types';
+import { isUserRole } from '@/lib/user-roles';
+
+const OIDC_TIMEOUT_MS = 10_000;
+export const OIDC_LOGIN_COOKIE = 'cloudwise_oidc_login'; // Holds the OidcLoginState between the redirect and the callback
+
+// OIDC sign-in is enabled by setting OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET and OIDC_REDIRECT_URI
+// (https://<host>/api/auth/oidc/callback). `node scripts/mock-oidc-provider.mjs` runs a local provider to try it with.
+export interface OidcSettings {
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+    scopes: string;
+    providerName: string; // Shown on the sign-in button
+    defaultRole: UserRole; // Role of users created on their first OIDC sign-in
+    autoCreateUsers: boolean; // False to only let in users an admin added before, matched by email
+}
+
+// The account a provider vouched for
+export interface OidcIdentity {
+    subject: string; // 'issuer|sub', unique across providers
+    email: string;
+    emailVerified: boolean; // Only a verified email links the identity to an existing account
+    name: string;
+}
+
+// What the sign-in redirect leaves in a cookie for the callback to check
+export interface OidcLoginState {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    next: string; // Page to return to after signing in
+}
+
+// One way of signing in through a provider: send the user to it, then turn the code it returns into an identity
+export interface OidcProvider {
+    name: string;
+    authorizationUrl: (login: OidcLoginState) => Promise<string>;
+    exchangeCode: (code: string, login: OidcLoginState) => Promise<OidcIdentity>;
+}
+
+interface OidcProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+}
+
+type OidcFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export function readOidcSettings(env: NodeJS.ProcessEnv = process.env): OidcSettings | null {
+    const issuer = env.OIDC_ISSUER?.trim();
+    const clientId = env.OIDC_CLIENT_ID?.trim();
+    const redirectUri = env.OIDC_REDIRECT_URI?.trim();
+    if (!issuer || !clientId || !redirectUri) return null;
+    const defaultRole = env.OIDC_DEFAULT_ROLE?.trim();
+    return {
+        issuer: issuer.replace(/\/+$/, ''),
+        clientId,
+        clientSecret: env.OIDC_CLIENT_SECRET ?? '',
+        redirectUri,
+        scopes: env.OIDC_SCOPES?.trim() || 'openid email profile',
+        providerName: env.OIDC_PROVIDER_NAME?.trim() || 'Single Sign-On',
+        defaultRole: isUserRole(defaultRole) ? defaultRole : 'viewer',
+        autoCreateUsers: env.OIDC_AUTO_CREATE_USERS !== 'false',
+    };
+}
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+export function createOidcLoginState(next: string): OidcLoginState {
+    return { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken(), next };
+}
+
+async function fetchJson<T>(fetchImpl: OidcFetch, url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetchImpl(url, { ...init, signal: AbortSignal.timeout(OIDC_TIMEOUT_MS) });
+    const text = await response.text();
+    if (!response.ok) {
+        throw new Error(`${url} answered ${response.status}: ${text.slice(0, 200)}`);
+    }
+    return JSON.parse(text) as T;
+}
+
+// Claims of an ID token. Its signature is not checked: the token comes straight from the token endpoint over
+// the connection the client opened, which OIDC Core (3.1.3.7) accepts in place of the signature.
+function decodeIdToken(idToken: string): Record<string, unknown> {
+    const payload = idToken.split('.')[1];
+    if (!payload) throw new Error('The provider returned a malformed ID token.');
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+}
+
+let cachedProvider: { settings: OidcSettings; provider: OidcProvider } | null = null;
+
+// The provider for the settings, reused so its discovery document is only fetched once
+export function getOidcProvider(settings: OidcSettings): OidcProvider {
+    if (!cachedProvider || JSON.stringify(cachedProvider.settings) !== JSON.stringify(settings)) {
+        cachedProvider = { settings, provider: createOidcProvider(settings) };
+    }
+    return cachedProvider.provider;
+}
+
+export function createOidcProvider(settings: OidcSettings, fetchImpl: OidcFetch = fetch): OidcProvider {
+    let metadata: Promise<OidcProviderMetadata> | null = null;
+    const discover = () => {
+        metadata ??= fetchJson<OidcProviderMetadata>(fetchImpl, `${settings.issuer}/.well-known/openid-configuration`)
+            .catch(error => {
+                metadata = null; // Try again on the next sign-in
+                throw error;
+            });
+        return metadata;
+    };
+
+    return {
+        name: settings.providerName,
+
+        async authorizationUrl(login) {
+            const { authorization_endpoint } = await discover();
+            const url = new URL(authorization_endpoint);
+            url.searchParams.set('response_type', 'code');
+            url.searchParams.set('client_id', settings.clientId);
+            url.searchParams.set('redirect_uri', settings.redirectUri);
+            url.searchParams.set('scope', settings.scopes);
+            url.searchParams.set('state', login.state);
+            url.searchParams.set('nonce', login.nonce);
+            url.searchParams.set('code_challenge', createHash('sha256').update(login.codeVerifier).digest('base64url'));
+            url.searchParams.set('code_challenge_method', 'S256');
+            return url.toString();
+        },
+
+        async exchangeCode(code, login) {
+            const provider = await discover();
+            const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(fetchImpl, provider.token_endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+                body: new URLSearchParams({
+                    grant_type: 'authorization_code',
+                    code,
+                    redirect_uri: settings.redirectUri,
+                    client_id: settings.clientId,
+                    client_secret: settings.clientSecret,
+                    code_verifier: login.codeVerifier,
+                }).toString(),
+            });
+            if (!tokens.id_token) throw new Error('The provider did not return an ID token.');
+
+            const claims = decodeIdToken(tokens.id_token);
+            const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (claims.iss !== provider.issuer) throw new Error(`The ID token was issued by ${String(claims.iss)}, not ${provider.issuer}.`);
+            if (!audience.includes(settings.clientId)) throw new Error('The ID token was issued for another client.');
+            if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) throw new Error('The ID token has expired.');
+            if (claims.nonce !== login.nonce) throw new Error('The ID token does not belong to this sign-in.');
+            if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('The ID token has no subject.');
+
+            // Providers may leave the profile out of the ID token and only hand it out on the userinfo endpoint
+            let profile = claims;
+            if (typeof claims.email !== 'string' && provider.userinfo_endpoint && tokens.access_token) {
+                const userinfo = await fetchJson<Record<string, unknown>>(fetchImpl, provider.userinfo_endpoint, {
+                    headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+                });
+                if (userinfo.sub !== claims.sub) throw new Error('The userinfo endpoint answered for another subject.');
+                profile = { ...claims, ...userinfo };
+            }
+            if (typeof profile.email !== 'string' || !profile.email) throw new Error('The provider did not share an email address.');
+            if (profile.email_verified === false) throw new Error(`The provider has not verified ${profile.email}.`);
+
+            return {
+                subject: `${provider.issuer}|${claims.sub}`,
+                email: profile.email.trim().toLowerCase(),
+                // Some providers send the claim as a string; a missing claim does not count as verified
+                emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+                name: typeof profile.name === 'string' && profile.name.trim() ? profile.name.trim() : profile.email,
+            };
+        },
+    };
+}
@@ -0,0 +1,347 @@
+import { z } from 'zod';
+import { API_ERROR_CODES } from '@/lib/api';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { CHART_GROUPS } from '@/lib/chart-aggregates';
+import {
+    AssociateBusinessLineSchema,
+    BudgetBodySchema,
+    BudgetListQuerySchema,
+    BusinessLineSchema,
+    CostCenterBodySchema,
+    DEFAULT_PAGE_SIZE,
+    EntryFilterSchema,
+    ExpenseBodySchema,
+    MAX_PAGE_SIZE,
+} from '@/lib/schemas';
+
+// The OpenAPI 3.0 document of the REST API, served at /api/v1/openapi.json. Request bodies and filters are generated
+// from the zod schemas the API validates with, so the document cannot drift from the validation.
+
+type JsonSchema = Record<string, unknown>;
+
+// The JSON Schema of what a zod schema accepts, for the kinds of schemas in '@/lib/schemas'
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const def = schema._def;
+    switch (def.typeName) {
+        case z.ZodFirstPartyTypeKind.ZodObject: {
+            const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+            const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+            return {
+                type: 'object',
+                properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+                ...(required.length > 0 && { required }),
+            };
+        }
+        case z.ZodFirstPartyTypeKind.ZodString: {
+            const result: JsonSchema = { type: 'string' };
+            for (const check of (schema as z.ZodString)._def.checks) {
+                if (check.kind === 'min') result.minLength = check.value;
+                if (check.kind === 'max') result.maxLength = check.value;
+                if (check.kind === 'regex') result.pattern = check.regex.source;
+                if (check.kind === 'email' || check.kind === 'url') result.format = check.kind === 'url' ? 'uri' : 'email';
+            }
+            return result;
+        }
+        case z.ZodFirstPartyTypeKind.ZodNumber: {
+            const result: JsonSchema = { type: 'number' };
+            for (const check of (schema as z.ZodNumber)._def.checks) {
+                if (check.kind === 'int') result.type = 'integer';
+                if (check.kind === 'min') Object.assign(result, check.inclusive ? { minimum: check.value } : { minimum: check.value, exclusiveMinimum: true });
+                if (check.kind === 'max') Object.assign(result, check.inclusive ? { maximum: check.value } : { maximum: check.value, exclusiveMaximum: true });
+            }
+            return result;
+        }
+        case z.ZodFirstPartyTypeKind.ZodBoolean:
+            return { type: 'boolean' };
+        case z.ZodFirstPartyTypeKind.ZodEnum:
+            return { type: 'string', enum: def.values };
+        case z.ZodFirstPartyTypeKind.ZodArray:
+            return { type: 'array', items: toJsonSchema(def.type) };
+        case z.ZodFirstPartyTypeKind.ZodNullable:
+            return { ...toJsonSchema(def.innerType), nullable: true };
+        case z.ZodFirstPartyTypeKind.ZodOptional:
+            return toJsonSchema(def.innerType);
+        case z.ZodFirstPartyTypeKind.ZodDefault:
+            return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+        case z.ZodFirstPartyTypeKind.ZodEffects: // preprocess, refine and transform accept what the inner schema does
+            return toJsonSchema(def.schema);
+        default:
+            return {};
+    }
+}
+
+// Query parameters from the fields of an object schema. Query strings only carry text, so their values are
+// described by the type they are read as; a parameter left out filters nothing rather than being null.
+function toQueryParameters(schema: z.ZodObject<z.ZodRawShape>): JsonSchema[] {
+    return Object.entries(schema.shape).map(([name, value]) => {
+        const { nullable, default: defaultValue, ...parameterSchema } = toJsonSchema(value);
+        return {
+            name,
+            in: 'query',
+            required: false,
+            schema: defaultValue === null || defaultValue === undefined ? parameterSchema : { ...parameterSchema, default: defaultValue },
+        };
+    });
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const parameterRef = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+const dataBody = (schema: JsonSchema) => ({
+    type: 'object',
+    properties: { data: schema, message: { type: 'string', description: 'What the change did, e.g. that it awaits approval' } },
+    required: ['data'],
+});
+
+const listResponse = (item: string) => ({
+    description: 'One page of the list',
+    content: jsonContent({
+        type: 'object',
+        properties: { data: { type: 'array', items: ref(item) }, pagination: ref('Pagination') },
+        required: ['data', 'pagination'],
+    }),
+});
+
+const ERROR_RESPONSES = {
+    '401': responseRef('Unauthorized'),
+    '403': responseRef('Forbidden'),
+    '422': responseRef('Unprocessable'),
+};
+
+// The operations on one resource collection and its items
+function resourcePaths(options: {
+    path: string;
+    tag: string;
+    item: string;
+    body: z.ZodTypeAny;
+    filters?: z.ZodObject<z.ZodRawShape>;
+    descriptions: { list: string; create: string; replace: string; remove: string; removePending?: string };
+}): Record<string, unknown> {
+    const { path, tag, item, body, filters, descriptions } = options;
+    const requestBody = { required: true, content: jsonContent(toJsonSchema(body)) };
+    const itemResponse = (description: string) => ({ description, content: jsonContent(dataBody(ref(item))) });
+    const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } };
+    return {
+        [path]: {
+            get: {
+                tags: [tag],
+                summary: descriptions.list,
+                parameters: [parameterRef('page'), parameterRef('page_size'), ...(filters ? toQueryParameters(filters) : [])],
+                responses: { '200': listResponse(item), ...ERROR_RESPONSES },
+            },
+            post: {
+                tags: [tag],
+                summary: descriptions.create,
+                requestBody,
+                responses: { '201': itemResponse('Created'), ...ERROR_RESPONSES },
+            },
+        },
+        [`${path}/{id}`]: {
+            parameters: [idParameter],
+            get: {
+                tags: [tag],
+                responses: { '200': itemResponse('Found'), ...ERROR_RESPONSES, '404': responseRef('NotFound') },
+            },
+            put: {
+                tags: [tag],
+                summary: descriptions.replace,
+                requestBody,
+                responses: { '200': itemResponse('Saved'), ...ERROR_RESPONSES, '404': responseRef('NotFound') },
+            },
+            delete: {
+                tags: [tag],
+                summary: descriptions.remove,
+                responses: {
+                    '204': { description: 'Deleted' },
+                    ...(descriptions.removePending && { '202': itemResponse(descriptions.removePending) }),
+                    ...ERROR_RESPONSES,
+                    '404': responseRef('NotFound'),
+                },
+            },
+        },
+    };
+}
+
+// Fields of stored entries next to those sent when creating them
+const ENTRY_READ_FIELDS: Record<string, JsonSchema> = {
+    id: { type: 'integer' },
+    business_line_name: { type: 'string', nullable: true },
+    cost_center_name: { type: 'string', nullable: true },
+    created_at: { type: 'string', description: 'YYYY-MM-DD HH:MM:SS, UTC' },
+    updated_at: { type: 'string', description: 'YYYY-MM-DD HH:MM:SS, UTC' },
+};
+
+function entrySchema(body: z.ZodTypeAny, extra: Record<string, JsonSchema> = {}): JsonSchema {
+    const { properties } = toJsonSchema(body) as { properties: Record<string, JsonSchema> };
+    return { type: 'object', properties: { ...ENTRY_READ_FIELDS, ...properties, ...extra } };
+}
+
+export function buildOpenApiDocument(origin: string): JsonSchema {
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'CloudWise API',
+            version: '1',
+            description: 'Budgets, expenses and master data of CloudWise. Requests act as the signed-in user, with their role and business lines, or as an API key, with its scopes and business lines; changes are recorded in the audit log.',
+        },
+        servers: [{ url: `${origin}/api/v1` }],
+        security: [{ session: [] }, { apiKey: [] }],
+        paths: {
+            ...resourcePaths({
+                path: '/business-lines', tag: 'Business Lines', item: 'BusinessLine', body: BusinessLineSchema,
+                descriptions: { list: 'List business lines', create: 'Add a business line', replace: 'Change a business line', remove: 'Delete a business line; its budgets and expenses are kept without it' },
+            }),
+            ...resourcePaths({
+                path: '/cost-centers', tag: 'Cost Centers', item: 'CostCenter', body: CostCenterBodySchema,
+                filters: EntryFilterSchema.pick({ business_line_id: true }),
+                descriptions: { list: 'List cost centers with their business lines', create: 'Add a cost center', replace: 'Rename a cost center', remove: 'Delete a cost center; its budgets and expenses are kept without it' },
+            }),
+            '/associations': {
+                get: {
+                    tags: ['Associations'],
+                    summary: 'List which cost centers may be booked on which business lines',
+                    parameters: [parameterRef('page'), parameterRef('page_size'), ...toQueryParameters(EntryFilterSchema.pick({ business_line_id: true, cost_center_id: true }))],
+                    responses: { '200': listResponse('Association'), ...ERROR_RESPONSES },
+                },
+                post: {
+                    tags: ['Associations'],
+                    summary: 'Associate a cost center with a business line',
+                    requestBody: { required: true, content: jsonContent(toJsonSchema(AssociateBusinessLineSchema)) },
+                    responses: { '201': { description: 'Associated', content: jsonContent(dataBody(ref('Association'))) }, ...ERROR_RESPONSES },
+                },
+                delete: {
+                    tags: ['Associations'],
+                    summary: 'Remove an association',
+                    parameters: toQueryParameters(AssociateBusinessLineSchema).map(parameter => ({ ...parameter, required: true })),
+                    responses: { '204': { description: 'Removed' }, ...ERROR_RESPONSES, '404': responseRef('NotFound') },
+                },
+            },
+            ...resourcePaths({
+                path: '/budgets', tag: 'Budgets', item: 'Budget', body: BudgetBodySchema,
+                filters: BudgetListQuerySchema,
+                descriptions: { list: 'List the budgets of a version, newest first', create: 'Add a budget entry as a draft or submitted for approval', replace: 'Change a budget entry; changes to approved entries wait for review', remove: 'Delete a budget entry; deleting an approved entry waits for review', removePending: 'Deletion submitted for approval' },
+            }),
+            ...resourcePaths({
+                path: '/expenses', tag: 'Expenses', item: 'Expense', body: ExpenseBodySchema,
+                filters: EntryFilterSchema,
+                descriptions: { list: 'List expenses, newest first', create: 'Add an expense entry', replace: 'Change an expense entry', remove: 'Delete an expense entry' },
+            }),
+            '/charts': {
+                get: {
+                    tags: ['Charts'],
+                    summary: 'Budget and expense totals in the reporting currency',
+                    description: 'Approved budgets of a version (all of them with include_unapproved=true) and every expense, grouped. Entries without an exchange rate to the reporting currency are left out.',
+                    parameters: [
+                        { name: 'group_by', in: 'query', schema: { type: 'string', enum: Object.keys(CHART_GROUPS), default: 'business_line' } },
+                        { name: 'include_unapproved', in: 'query', schema: { type: 'boolean', default: false } },
+                        ...toQueryParameters(BudgetListQuerySchema),
+                    ],
+                    responses: {
+                        '200': {
+                            description: 'Totals per group',
+                            content: jsonContent({
+                                type: 'object',
+                                properties: { data: { type: 'array', items: ref('ChartAggregate') }, currency: { type: 'string' } },
+                            }),
+                        },
+                        ...ERROR_RESPONSES,
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE, description: 'The session cookie set by signing in' },
+                apiKey: { type: 'http', scheme: 'bearer', description: 'An API key created by an admin on the API Keys page, sent as Authorization: Bearer <key>' },
+            },
+            parameters: {
+                page: { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+                page_size: { name: 'page_size', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+            },
+            responses: {
+                Unauthorized: { description: 'Not signed in, or the API key is unknown or revoked', content: jsonContent(ref('Error')) },
+                Forbidden: { description: 'The role or business lines of the user, or the scopes or business lines of the API key, do not allow it', content: jsonContent(ref('Error')) },
+                NotFound: { description: 'Does not exist or is outside the user\'s business lines', content: jsonContent(ref('Error')) },
+                Unprocessable: { description: 'Invalid parameters or body, or refused by a business rule', content: jsonContent(ref('Error')) },
+            },
+            schemas: {
+                Error: {
+                    type: 'object',
+                    properties: {
+                        error: {
+                            type: 'object',
+                            properties: {
+                                code: { type: 'string', enum: Object.keys(API_ERROR_CODES) },
+                                message: { type: 'string' },
+                                issues: {
+                                    type: 'array',
+                                    items: { type: 'object', properties: { path: { type: 'string' }, message: { type: 'string' } } },
+                                },
+                            },
+                            required: ['code', 'message'],
+                        },
+                    },
+                },
+                Pagination: {
+                    type: 'object',
+                    properties: {
+                        page: { type: 'integer' },
+                        page_size: { type: 'integer' },
+                        total: { type: 'integer', description: 'Items on all pages' },
+                        total_pages: { type: 'integer' },
+                    },
+                },
+                BusinessLine: { type: 'object', properties: { id: { type: 'integer' }, ...(toJsonSchema(BusinessLineSchema).properties as object) } },
+                CostCenter: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                        businessLines: {
+                            type: 'array',
+                            description: 'The associated business lines in the user\'s scope',
+                            items: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } } },
+                        },
+                    },
+                },
+                Association: {
+                    type: 'object',
+                    properties: {
+                        cost_center_id: { type: 'integer' },
+                        cost_center_name: { type: 'string' },
+                        business_line_id: { type: 'integer' },
+                        business_line_name: { type: 'string' },
+                    },
+                },
+                Budget: entrySchema(BudgetBodySchema.omit({ submit: true }), {
+                    version_name: { type: 'string' },
+                    status: { type: 'string', enum: ['draft', 'submitted', 'approved', 'rejected'], description: 'Only approved entries count in totals' },
+                    review: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                            decision: { type: 'string', enum: ['approved', 'rejected'] },
+                            reviewer: { type: 'string' },
+                            comment: { type: 'string', nullable: true },
+                            reviewed_at: { type: 'string' },
+                        },
+                    },
+                    pending_change_id: { type: 'integer', nullable: true, description: 'Change of an approved entry waiting for review' },
+                }),
+                Expense: entrySchema(ExpenseBodySchema),
+                ChartAggregate: {
+                    type: 'object',
+                    properties: {
+                        key: { type: 'string', description: 'Business line or cost center ID (unassigned without one), YYYY-MM or the type' },
+                        label: { type: 'string' },
+                        budget: { type: 'number' },
+                        expense: { type: 'number' },
+                    },
+                },
+            },
+        },
+    };
+}
@@ -0,0 +1,91 @@
+import type { Database } from '@/lib/db';
+import { getMigrationStatus, migrateUp } from '@/lib/migrate';
+import { MIGRATIONS } from '@/lib/migrations';
+import { PostgresDatabase } from '@/lib/postgres';
+import { POSTGRES_MIGRATIONS } from '@/lib/postgres-migrations';
+
+// Tables the migrations fill themselves, and the actor of the write in progress
+const SKIPPED_TABLES = ['schema_migrations', 'audit_context'];
+
+const ROWS_PER_INSERT = 500;
+
+// The tables of the SQLite database, each after the tables it refers to
+async function tablesInCopyOrder(source: Database): Promise<string[]> {
+    const tables = (await source.all<{ name: string }[]>(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`))
+        .map(table => table.name)
+        .filter(table => !SKIPPED_TABLES.includes(table));
+    const references = new Map<string, string[]>();
+    for (const table of tables) {
+        const keys = await source.all<{ table: string }[]>(`PRAGMA foreign_key_list(${table})`);
+        references.set(table, keys.map(key => key.table).filter(referenced => referenced !== table));
+    }
+    const ordered: string[] = [];
+    while (ordered.length < tables.length) {
+        const next = tables.filter(table => !ordered.includes(table) && references.get(table)!.every(referenced => ordered.includes(referenced)));
+        if (next.length === 0) {
+            throw new Error(`The tables ${tables.filter(table => !ordered.includes(table)).join(', ')} refer to each other.`);
+        }
+        ordered.push(...next);
+    }
+    return ordered;
+}
+
+// Copies every row of the SQLite database into the PostgreSQL one, which must not have the app's tables yet: it is
+// migrated to the current schema first, and the rows the migrations insert (the default budget version) are replaced
+// by the copied ones. The rows keep their IDs and audit events are copied as they are, so the copy runs without the
+// triggers. Everything but the migration is copied in one transaction. Returns the rows copied per table.
+export async function copySqliteToPostgres(source: Database, target: PostgresDatabase): Promise<Record<string, number>> {
+    const pending = (await getMigrationStatus(source, MIGRATIONS)).filter(migration => migration.applied_at === null || !migration.known);
+    if (pending.length > 0) {
+        throw new Error('The SQLite database does not have the schema of this build of the app. Migrate it first with npm run db:migrate -- up --db <file>, using the build that wrote it last.');
+    }
+    const tables = await tablesInCopyOrder(source);
+
+    return target.withConnection(async (db) => {
+        if (await db.get(`SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'schema_migrations'`)) {
+            throw new Error('The PostgreSQL database already has the tables of the app; copy into a new, empty database.');
+        }
+        await migrateUp(db, POSTGRES_MIGRATIONS);
+        const targetColumns = new Map<string, Set<string>>();
+        for (const table of tables) {
+            const columns = await db.all<{ column_name: string }[]>(
+                `SELECT column_name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = ?`, table
+            );
+            if (columns.length === 0) {
+                throw new Error(`The PostgreSQL database has no table ${table}.`);
+            }
+            targetColumns.set(table, new Set(columns.map(column => column.column_name)));
+        }
+
+        const copied: Record<string, number> = {};
+        await db.run('BEGIN');
+        try {
+            await db.exec(`TRUNCATE ${tables.join(', ')}`);
+            for (const table of tables) {
+                await db.exec(`ALTER TABLE ${table} DISABLE TRIGGER USER`);
+                const columns = (await source.all<{ name: string }[]>(`PRAGMA table_info(${table})`))
+                    .map(column => column.name)
+                    .filter(column => targetColumns.get(table)!.has(column));
+                const rows = await source.all<Record<string, unknown>[]>(`SELECT ${columns.join(', ')} FROM ${table} ORDER BY rowid`);
+                for (let start = 0; start < rows.length; start += ROWS_PER_INSERT) {
+                    const batch = rows.slice(start, start + ROWS_PER_INSERT);
+                    await db.run(
+                        `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${batch.map(() => `(${columns.map(() => '?').join(', ')})`).join(', ')}`,
+                        batch.flatMap(row => columns.map(column => row[column]))
+                    );
+                }
+                if (targetColumns.get(table)!.has('id')) {
+                    // The next row inserted gets the next free ID
+                    await db.get(`SELECT setval(pg_get_serial_sequence('${table}', 'id'), COALESCE(MAX(id), 0) + 1, false) FROM ${table}`);
+                }
+                await db.exec(`ALTER TABLE ${table} ENABLE TRIGGER USER`);
+                copied[table] = rows.length;
+            }
+            await db.run('COMMIT');
+        } catch (error) {
+            await db.run('ROLLBACK');
+            throw error;
+        }
+        return copied;
+    });
+}
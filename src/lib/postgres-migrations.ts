@@ -0,0 +1,422 @@
+import type { Migration } from '@/lib/migrate';
+import { AUDIT_TABLES, createAuditTriggers } from '@/lib/audit';
+import type { AuditTable } from '@/types';
+
+// The schema's migrations on the PostgreSQL backend, oldest first; see MIGRATIONS for the SQLite ones. A schema
+// change adds a migration to both lists, each with the next version of its own list.
+export const POSTGRES_MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'baseline',
+        // The schema SQLite databases have at migration 13. Columns SQLite compares with NOCASE are citext. The
+        // functions at the end stand in for the SQLite functions the app's queries use (see src/lib/postgres.ts).
+        up: async (db) => {
+            await db.exec(`
+              CREATE EXTENSION IF NOT EXISTS citext;
+
+              CREATE TABLE users (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                email CITEXT NOT NULL UNIQUE,
+                name TEXT NOT NULL,
+                role TEXT CHECK(role IN ('admin', 'finance_editor', 'business_line_owner', 'viewer')) NOT NULL DEFAULT 'viewer',
+                password_hash TEXT,
+                oidc_subject TEXT UNIQUE,
+                is_active INTEGER NOT NULL DEFAULT 1,
+                last_login_at TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE sessions (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                token_hash TEXT NOT NULL UNIQUE,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                expires_at TIMESTAMP NOT NULL
+              );
+              CREATE INDEX idx_sessions_user ON sessions(user_id);
+
+              CREATE TABLE business_lines (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP,
+                budget_owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL
+              );
+
+              CREATE TABLE cost_centers (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE
+              );
+
+              CREATE TABLE cost_center_business_lines (
+                cost_center_id INTEGER NOT NULL REFERENCES cost_centers(id) ON DELETE CASCADE,
+                business_line_id INTEGER NOT NULL REFERENCES business_lines(id) ON DELETE CASCADE,
+                PRIMARY KEY (cost_center_id, business_line_id)
+              );
+
+              CREATE TABLE user_business_lines (
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                business_line_id INTEGER NOT NULL REFERENCES business_lines(id) ON DELETE CASCADE,
+                PRIMARY KEY (user_id, business_line_id)
+              );
+
+              CREATE TABLE budget_versions (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name CITEXT NOT NULL UNIQUE,
+                kind TEXT CHECK(kind IN ('original', 'reforecast', 'what_if')) NOT NULL DEFAULT 'original',
+                description TEXT,
+                cloned_from_id INTEGER REFERENCES budget_versions(id) ON DELETE SET NULL,
+                is_default INTEGER NOT NULL DEFAULT 0,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE import_batches (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                file_name TEXT NOT NULL,
+                checksum TEXT NOT NULL, -- SHA-256 of the uploaded file, used to warn about re-uploads
+                uploaded_by TEXT,
+                budget_count INTEGER NOT NULL DEFAULT 0,
+                expense_count INTEGER NOT NULL DEFAULT 0,
+                skipped_count INTEGER NOT NULL DEFAULT 0,
+                status TEXT CHECK(status IN ('committed', 'reverted')) NOT NULL DEFAULT 'committed',
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                reverted_at TIMESTAMP,
+                import_mode TEXT NOT NULL DEFAULT 'insert',
+                updated_count INTEGER NOT NULL DEFAULT 0,
+                unchanged_count INTEGER NOT NULL DEFAULT 0,
+                deleted_count INTEGER NOT NULL DEFAULT 0
+              );
+              CREATE INDEX idx_import_batches_checksum ON import_batches(checksum);
+
+              CREATE TABLE budgets (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                description TEXT NOT NULL,
+                amount DOUBLE PRECISION NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL,
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                business_line_id INTEGER REFERENCES business_lines(id) ON DELETE SET NULL,
+                cost_center_id INTEGER REFERENCES cost_centers(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP,
+                import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL,
+                currency TEXT NOT NULL DEFAULT 'USD',
+                external_id TEXT,
+                version_id INTEGER REFERENCES budget_versions(id) ON DELETE CASCADE,
+                status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'submitted', 'approved', 'rejected')),
+                submitted_at TIMESTAMP,
+                review_decision TEXT CHECK(review_decision IN ('approved', 'rejected')),
+                reviewed_by TEXT,
+                review_comment TEXT,
+                reviewed_at TIMESTAMP,
+                submitted_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL
+              );
+              CREATE UNIQUE INDEX idx_budgets_version_external_id ON budgets(version_id, external_id) WHERE external_id IS NOT NULL;
+              CREATE INDEX idx_budgets_version ON budgets(version_id);
+              CREATE INDEX idx_budgets_status ON budgets(status);
+              CREATE INDEX idx_budgets_version_period ON budgets(version_id, year, month);
+              CREATE INDEX idx_budgets_type ON budgets(type);
+              CREATE INDEX idx_budgets_business_line ON budgets(business_line_id);
+              CREATE INDEX idx_budgets_cost_center ON budgets(cost_center_id);
+              CREATE INDEX idx_budgets_import_batch ON budgets(import_batch_id);
+
+              CREATE TABLE expenses (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                description TEXT NOT NULL,
+                amount DOUBLE PRECISION NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL,
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                business_line_id INTEGER REFERENCES business_lines(id) ON DELETE SET NULL,
+                cost_center_id INTEGER REFERENCES cost_centers(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP,
+                import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL,
+                currency TEXT NOT NULL DEFAULT 'USD',
+                external_id TEXT
+              );
+              CREATE UNIQUE INDEX idx_expenses_external_id ON expenses(external_id) WHERE external_id IS NOT NULL;
+              CREATE INDEX idx_expenses_period ON expenses(year, month);
+              CREATE INDEX idx_expenses_type ON expenses(type);
+              CREATE INDEX idx_expenses_business_line ON expenses(business_line_id);
+              CREATE INDEX idx_expenses_cost_center ON expenses(cost_center_id);
+              CREATE INDEX idx_expenses_import_batch ON expenses(import_batch_id);
+
+              CREATE TABLE budget_changes (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                budget_id INTEGER NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+                description TEXT NOT NULL,
+                amount DOUBLE PRECISION NOT NULL,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL CHECK(month >= 1 AND month <= 12),
+                type TEXT CHECK(type IN ('CAPEX', 'OPEX')) NOT NULL,
+                currency TEXT NOT NULL,
+                business_line_id INTEGER REFERENCES business_lines(id) ON DELETE SET NULL,
+                cost_center_id INTEGER REFERENCES cost_centers(id) ON DELETE SET NULL,
+                status TEXT CHECK(status IN ('submitted', 'approved', 'rejected')) NOT NULL DEFAULT 'submitted',
+                submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                reviewed_by TEXT,
+                review_comment TEXT,
+                reviewed_at TIMESTAMP,
+                submitted_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                action TEXT CHECK(action IN ('update', 'delete')) NOT NULL DEFAULT 'update',
+                import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL
+              );
+              CREATE UNIQUE INDEX idx_budget_changes_pending ON budget_changes(budget_id) WHERE status = 'submitted';
+
+              CREATE TABLE import_mapping_profiles (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                mapping TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP
+              );
+
+              CREATE TABLE import_batch_changes (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                batch_id INTEGER NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+                source TEXT CHECK(source IN ('Budget', 'Expense')) NOT NULL,
+                entry_id INTEGER NOT NULL,
+                action TEXT CHECK(action IN ('updated', 'deleted')) NOT NULL,
+                previous_values TEXT NOT NULL -- JSON copy of the row before the upload
+              );
+
+              CREATE TABLE import_batch_master_data (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                batch_id INTEGER NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+                kind TEXT CHECK(kind IN ('business_line', 'cost_center', 'association')) NOT NULL,
+                business_line_id INTEGER, -- Set for business lines and associations
+                cost_center_id INTEGER -- Set for cost centers and associations
+              );
+
+              CREATE TABLE staged_imports (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                file_name TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                import_mode TEXT CHECK(import_mode IN ('insert', 'upsert', 'replace')) NOT NULL,
+                budget_version_id INTEGER NOT NULL REFERENCES budget_versions(id) ON DELETE CASCADE,
+                master_data_rows TEXT NOT NULL DEFAULT '[]', -- JSON array of MasterDataRow
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE cost_allocation_rules (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                dimension TEXT CHECK(dimension IN ('tag', 'account', 'subscription', 'resource_group', 'project')) NOT NULL DEFAULT 'tag',
+                tag_key CITEXT NOT NULL DEFAULT '', -- Only set for tag rules
+                value CITEXT NOT NULL,
+                business_line_id INTEGER REFERENCES business_lines(id) ON DELETE SET NULL,
+                cost_center_id INTEGER REFERENCES cost_centers(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (dimension, tag_key, value)
+              );
+
+              CREATE TABLE exchange_rates (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                year INTEGER NOT NULL,
+                month INTEGER NOT NULL CHECK(month >= 1 AND month <= 12),
+                from_currency TEXT NOT NULL,
+                to_currency TEXT NOT NULL,
+                rate DOUBLE PRECISION NOT NULL CHECK(rate > 0), -- Units of to_currency per unit of from_currency
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (year, month, from_currency, to_currency)
+              );
+
+              CREATE TABLE app_settings (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE alert_rules (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL,
+                scope TEXT CHECK(scope IN ('business_line', 'cost_center', 'type')) NOT NULL,
+                business_line_id INTEGER REFERENCES business_lines(id) ON DELETE CASCADE,
+                cost_center_id INTEGER REFERENCES cost_centers(id) ON DELETE CASCADE,
+                expense_type TEXT CHECK(expense_type IN ('CAPEX', 'OPEX')),
+                threshold_kind TEXT CHECK(threshold_kind IN ('percent', 'amount')) NOT NULL,
+                threshold_value DOUBLE PRECISION NOT NULL CHECK(threshold_value > 0),
+                period TEXT CHECK(period IN ('month', 'quarter', 'year')) NOT NULL,
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE alert_channels (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL,
+                kind TEXT CHECK(kind IN ('webhook', 'slack', 'email')) NOT NULL,
+                config TEXT NOT NULL, -- JSON settings of the channel kind
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE alerts (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+                period_key TEXT NOT NULL,
+                period_label TEXT NOT NULL,
+                budget DOUBLE PRECISION NOT NULL,
+                actual DOUBLE PRECISION NOT NULL,
+                threshold DOUBLE PRECISION NOT NULL,
+                currency TEXT NOT NULL,
+                message TEXT NOT NULL,
+                triggered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                acknowledged_at TIMESTAMP,
+                UNIQUE (rule_id, period_key)
+              );
+
+              CREATE TABLE alert_deliveries (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                alert_id INTEGER NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+                channel_id INTEGER REFERENCES alert_channels(id) ON DELETE SET NULL,
+                status TEXT CHECK(status IN ('sent', 'failed')) NOT NULL,
+                error TEXT,
+                attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE api_keys (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                key_prefix TEXT NOT NULL,
+                key_hash TEXT NOT NULL UNIQUE,
+                scopes TEXT NOT NULL, -- Comma-separated ApiKeyScopes
+                all_business_lines INTEGER NOT NULL DEFAULT 1,
+                created_by TEXT, -- Name of the admin who created the key, kept when their account is deleted
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at TIMESTAMP,
+                revoked_at TIMESTAMP
+              );
+
+              CREATE TABLE api_key_business_lines (
+                api_key_id INTEGER NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+                business_line_id INTEGER NOT NULL REFERENCES business_lines(id) ON DELETE CASCADE,
+                PRIMARY KEY (api_key_id, business_line_id)
+              );
+
+              CREATE TABLE webhook_subscriptions (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                name TEXT NOT NULL,
+                url TEXT NOT NULL,
+                secret TEXT NOT NULL, -- Key of the HMAC-SHA256 signature of every payload
+                events TEXT NOT NULL, -- Comma-separated WebhookEvents
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+
+              CREATE TABLE webhook_deliveries (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+                event_id TEXT NOT NULL,
+                event TEXT NOT NULL,
+                payload TEXT NOT NULL, -- The signed JSON body, sent unchanged on every attempt
+                status TEXT CHECK(status IN ('pending', 'delivered', 'failed')) NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                max_attempts INTEGER NOT NULL,
+                response_status INTEGER,
+                error TEXT,
+                next_attempt_at TIMESTAMP,
+                last_attempt_at TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+              CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+              CREATE TABLE audit_events (
+                id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+                table_name TEXT NOT NULL,
+                record_id INTEGER NOT NULL,
+                action TEXT CHECK(action IN ('insert', 'update', 'delete')) NOT NULL,
+                actor_user_id INTEGER, -- Not a foreign key: events outlive deleted users
+                actor_name TEXT,
+                old_values TEXT, -- JSON, NULL for inserts
+                new_values TEXT, -- JSON, NULL for deletes
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+              );
+              CREATE INDEX idx_audit_events_record ON audit_events(table_name, record_id);
+              CREATE INDEX idx_audit_events_created ON audit_events(created_at);
+
+              -- Always empty: every connection of the app sets its actor in a temporary audit_context, which hides
+              -- this one (see PostgresDatabase). Writes made without the app are recorded without an actor.
+              CREATE TABLE audit_context (
+                id INTEGER PRIMARY KEY CHECK(id = 1),
+                user_id INTEGER,
+                name TEXT NOT NULL
+              );
+
+              -- Keeps updated_at of business lines, budgets and expenses current on every update
+              CREATE FUNCTION touch_updated_at() RETURNS TRIGGER LANGUAGE plpgsql AS $$
+              BEGIN
+                  NEW.updated_at := CURRENT_TIMESTAMP;
+                  RETURN NEW;
+              END
+              $$;
+              CREATE TRIGGER update_business_lines_updated_at BEFORE UPDATE ON business_lines FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+              CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON budgets FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+              CREATE TRIGGER update_expenses_updated_at BEFORE UPDATE ON expenses FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+              -- The audit triggers (see createAuditTriggers) pass the record ID column and the comma-separated
+              -- columns left out of the snapshots. Updates that only touch those columns are not recorded.
+              CREATE FUNCTION record_audit_event() RETURNS TRIGGER LANGUAGE plpgsql AS $$
+              DECLARE
+                  unaudited TEXT[] := string_to_array(TG_ARGV[1], ',');
+                  old_values JSONB;
+                  new_values JSONB;
+              BEGIN
+                  IF TG_OP <> 'INSERT' THEN old_values := to_jsonb(OLD) - unaudited; END IF;
+                  IF TG_OP <> 'DELETE' THEN new_values := to_jsonb(NEW) - unaudited; END IF;
+                  IF old_values = new_values THEN
+                      RETURN NULL;
+                  END IF;
+                  INSERT INTO audit_events (table_name, record_id, action, actor_user_id, actor_name, old_values, new_values)
+                  VALUES (TG_TABLE_NAME, (COALESCE(new_values, old_values) ->> TG_ARGV[0])::INTEGER, lower(TG_OP),
+                          (SELECT user_id FROM audit_context WHERE id = 1), (SELECT name FROM audit_context WHERE id = 1),
+                          old_values::TEXT, new_values::TEXT);
+                  RETURN NULL;
+              END
+              $$;
+
+              -- SQLite's strftime, for the format specifiers the app uses
+              CREATE FUNCTION strftime(format TEXT, value TIMESTAMP) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+                  SELECT to_char(value, replace(replace(replace(replace(replace(replace(format,
+                      '%Y', 'YYYY'), '%m', 'MM'), '%d', 'DD'), '%H', 'HH24'), '%M', 'MI'), '%S', 'SS'))
+              $$;
+
+              -- SQLite's datetime with one modifier, e.g. datetime('now', '-1 day')
+              CREATE FUNCTION datetime(value TEXT, modifier TEXT) RETURNS TIMESTAMP LANGUAGE sql STABLE AS $$
+                  SELECT (CASE WHEN value = 'now' THEN LOCALTIMESTAMP ELSE value::TIMESTAMP END) + modifier::INTERVAL
+              $$;
+
+              -- SQLite's json_extract for paths of object keys, e.g. '$.business_line_id'
+              CREATE FUNCTION json_extract(document TEXT, path TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+                  SELECT document::JSONB #>> string_to_array(substr(path, 3), '.')
+              $$;
+
+              -- SQLite's group_concat, with ',' between the values unless another separator is given
+              CREATE FUNCTION group_concat_step(list TEXT, value ANYELEMENT, separator TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+                  SELECT CASE WHEN value IS NULL THEN list WHEN list IS NULL THEN value::TEXT ELSE list || separator || value::TEXT END
+              $$;
+              CREATE FUNCTION group_concat_step(list TEXT, value ANYELEMENT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+                  SELECT group_concat_step(list, value, ',')
+              $$;
+              CREATE AGGREGATE group_concat(ANYELEMENT, TEXT) (SFUNC = group_concat_step, STYPE = TEXT);
+              CREATE AGGREGATE group_concat(ANYELEMENT) (SFUNC = group_concat_step, STYPE = TEXT);
+
+              -- SQLite's round of a REAL to some decimals
+              CREATE FUNCTION round(value DOUBLE PRECISION, digits INTEGER) RETURNS DOUBLE PRECISION LANGUAGE sql IMMUTABLE AS $$
+                  SELECT round(value::NUMERIC, digits)::DOUBLE PRECISION
+              $$;
+
+              INSERT INTO budget_versions (name, kind, description, is_default) VALUES ('Original', 'original', 'The approved plan', 1);
+            `);
+            for (const table of Object.keys(AUDIT_TABLES) as AuditTable[]) {
+                await createAuditTriggers(db, table);
+            }
+        },
+    },
+];
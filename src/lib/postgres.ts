@@ -0,0 +1,175 @@
+import pg from 'pg';
+import type { Database, RunResult, Statement } from '@/lib/db';
+
+// The PostgreSQL storage backend (see storageBackend in src/lib/config.ts). The app's queries are written for SQLite;
+// toPostgresSql rewrites the few SQLite-only forms they use, and the functions the first Postgres migration creates
+// (see POSTGRES_MIGRATIONS) stand in for SQLite's strftime, datetime, json_extract and group_concat. Results come
+// back as SQLite returns them: counts and sums as numbers, booleans as 1 or 0 and timestamps as 'YYYY-MM-DD HH:MM:SS'.
+
+// What the adapter needs of a connection pool: pg's Pool, or in tests an in-process Postgres
+export interface PostgresClient {
+    query(text: string, values?: unknown[]): Promise<{ rows: Record<string, unknown>[]; rowCount: number | null; fields: { name: string; dataTypeID: number }[] }>;
+    release(): void;
+}
+
+export interface PostgresPool {
+    connect(): Promise<PostgresClient>;
+    end(): Promise<void>;
+}
+
+// Type OIDs of the values converted to what SQLite returns
+const INT8 = 20;
+const NUMERIC = 1700;
+const BOOL = 16;
+const TIMESTAMP = 1114;
+const TIMESTAMPTZ = 1184;
+const DATE = 1082;
+
+// Parsed by readValue rather than by the driver: pg would read dates and timestamps in the server's local time zone
+const RAW_TYPES = [INT8, NUMERIC, TIMESTAMP, TIMESTAMPTZ, DATE];
+
+export function createPostgresPool(connectionString: string): PostgresPool {
+    return new pg.Pool({
+        connectionString,
+        types: { getTypeParser: ((oid: number, format?: any) => RAW_TYPES.includes(oid) ? (value: string) => value : pg.types.getTypeParser(oid, format)) as typeof pg.types.getTypeParser },
+    });
+}
+
+// Rewrites outside string literals, quoted names and comments, in order
+const SQLITE_FORMS: [RegExp, string][] = [
+    [/\bINSERT OR IGNORE INTO\b/gi, 'INSERT INTO'], // toPostgresSql adds ON CONFLICT DO NOTHING
+    [/\bIS NOT \?/gi, 'IS DISTINCT FROM ?'],
+    [/\bIS \?/gi, 'IS NOT DISTINCT FROM ?'],
+    [/([\w.]+) COLLATE NOCASE\b/gi, 'lower($1)'],
+    [/\bLIKE\b/gi, 'ILIKE'], // SQLite's LIKE ignores the case of ASCII letters
+    [/\bchar\((\d+)\)/gi, 'chr($1)'],
+    [/\bNOT IN \(\s*\)/gi, "<> ALL('{}')"], // An empty list, as the actions build for no IDs
+    [/\bIN \(\s*\)/gi, "= ANY('{}')"],
+];
+
+const TOKENS = /('(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*)|([^'"-]+|-)/g;
+
+// The query in Postgres' dialect: numbered parameters and the Postgres forms of SQLITE_FORMS
+export function toPostgresSql(sql: string): string {
+    let parameter = 0;
+    let text = '';
+    for (const [, quoted, code] of sql.matchAll(TOKENS)) {
+        if (quoted !== undefined) {
+            text += quoted;
+            continue;
+        }
+        text += SQLITE_FORMS.reduce((rewritten, [pattern, replacement]) => rewritten.replace(pattern, replacement), code)
+            .replace(/\?/g, () => `$${++parameter}`);
+    }
+    return /^\s*INSERT OR IGNORE\b/i.test(sql) ? `${text.trim().replace(/;$/, '')} ON CONFLICT DO NOTHING` : text;
+}
+
+// Parameters as the sqlite driver takes them: separately or as one array
+function bindValues(params: unknown[]): unknown[] {
+    const values = params.length === 1 && Array.isArray(params[0]) ? params[0] : params;
+    return values.map(value => value === undefined ? null : typeof value === 'boolean' ? Number(value) : value);
+}
+
+function readValue(value: unknown, dataTypeID: number): unknown {
+    if (value === null) return null;
+    switch (dataTypeID) {
+        case INT8:
+        case NUMERIC: return Number(value);
+        case BOOL: return value ? 1 : 0;
+        case TIMESTAMP:
+        case TIMESTAMPTZ: return String(value).slice(0, 19); // Without fractions of a second or time zone
+        default: return value;
+    }
+}
+
+// Postgres' constraint errors with SQLite's messages, which the actions check for
+function toSqliteError(error: any): Error {
+    const messages: Record<string, string> = {
+        '23505': `UNIQUE constraint failed: ${error.table}`,
+        '23503': 'FOREIGN KEY constraint failed',
+        '23502': `NOT NULL constraint failed: ${error.table}.${error.column}`,
+        '23514': `CHECK constraint failed: ${error.constraint}`,
+    };
+    if (typeof error?.code !== 'string' || !(error.code in messages)) {
+        return error;
+    }
+    return Object.assign(new Error(`${messages[error.code]} (${error.message})`, { cause: error }), { code: 'SQLITE_CONSTRAINT' });
+}
+
+// Sessions read timestamps in UTC, as SQLite does, and set the actor of their audited writes in a table of their own
+// (see withAuditActor), which the audit triggers read instead of the shared, always empty one
+const preparedSessions = new WeakSet<PostgresClient>();
+
+async function prepareSession(client: PostgresClient): Promise<PostgresClient> {
+    if (!preparedSessions.has(client)) {
+        await client.query(`SET TIME ZONE 'UTC'`);
+        await client.query('CREATE TEMPORARY TABLE IF NOT EXISTS audit_context (id INTEGER PRIMARY KEY CHECK(id = 1), user_id INTEGER, name TEXT NOT NULL)');
+        preparedSessions.add(client);
+    }
+    return client;
+}
+
+// A Database running every query on a connection taken from the pool, or on the one `client` when it is set
+export class PostgresDatabase implements Database {
+    constructor(private readonly pool: PostgresPool, private readonly client: PostgresClient | null = null) {}
+
+    private async query(sql: string, params: unknown[]): Promise<{ rows: Record<string, unknown>[]; rowCount: number | null }> {
+        const client = this.client ?? await this.pool.connect();
+        try {
+            const result = await (await prepareSession(client)).query(sql, params).catch(error => { throw toSqliteError(error); });
+            const rows = result.rows.map(row => Object.fromEntries(result.fields.map(field => [field.name, readValue(row[field.name], field.dataTypeID)])));
+            return { rows, rowCount: result.rowCount };
+        } finally {
+            if (!this.client) client.release();
+        }
+    }
+
+    // Runs the operation with every query on one connection, as transactions need. A transaction the operation
+    // left open by failing is rolled back before the connection goes back to the pool.
+    async withConnection<T>(operation: (db: PostgresDatabase) => Promise<T>): Promise<T> {
+        if (this.client) {
+            return operation(this);
+        }
+        const client = await this.pool.connect();
+        try {
+            return await operation(new PostgresDatabase(this.pool, client));
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined); // Only warns when no transaction is open
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    async get<T = any>(sql: string, ...params: unknown[]): Promise<T | undefined> {
+        return (await this.query(toPostgresSql(sql), bindValues(params))).rows[0] as T | undefined;
+    }
+
+    async all<T = any[]>(sql: string, ...params: unknown[]): Promise<T> {
+        return (await this.query(toPostgresSql(sql), bindValues(params))).rows as T;
+    }
+
+    // Inserts return their rows, for lastID
+    async run(sql: string, ...params: unknown[]): Promise<RunResult> {
+        const text = toPostgresSql(sql);
+        const inserts = /^\s*INSERT\b/i.test(text) && !/\bRETURNING\b/i.test(text);
+        const result = await this.query(inserts ? `${text.trim().replace(/;$/, '')} RETURNING *` : text, bindValues(params));
+        const lastID = inserts ? result.rows[result.rows.length - 1]?.id : undefined;
+        return { lastID: typeof lastID === 'number' ? lastID : undefined, changes: result.rowCount ?? 0 };
+    }
+
+    async exec(sql: string): Promise<void> {
+        await this.query(toPostgresSql(sql), []);
+    }
+
+    async prepare(sql: string): Promise<Statement> {
+        return {
+            run: (...params: unknown[]) => this.run(sql, ...params),
+            finalize: async () => {},
+        };
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+}
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+// Validation of budgets, expenses and master data, shared by the server actions and the REST API (see '@/lib/api')
+
+export const BusinessLineSchema = z.object({
+  name: z.string().min(1, { message: 'Business line name cannot be empty' }),
+  // User who approves the business line's budget entries and changes; without one, any reviewer can
+  budget_owner_id: z.preprocess(
+    (val) => (val === null || val === undefined || (typeof val === 'string' && val.trim() === '') ? null : Number(val)),
+    z.number().int().positive().nullable()
+  ),
+});
+
+// Cost Center Schema - Updated (no business_line_id)
+export const CostCenterSchema = z.object({
+  id: z.number().optional(), // For updates
+  name: z.string().min(1, { message: 'Cost center name cannot be empty' }),
+  // business_line_id removed
+});
+
+// Schema for associating a single BL to a CC
+export const AssociateBusinessLineSchema = z.object({
+    cost_center_id: z.number().int().positive(),
+    business_line_id: z.number().int().positive(),
+});
+
+// Schema for associating multiple BLs to a CC
+export const AssociateMultipleBusinessLinesSchema = z.object({
+    cost_center_id: z.number().int().positive(),
+    business_line_ids: z.array(z.number().int().positive()).min(0), // Allow empty array to disassociate all
+});
+
+
+export const BaseEntrySchema = z.object({ // Base schema for common fields
+    description: z.string().min(1, 'Description cannot be empty'),
+    amount: z.number().positive('Amount must be a positive number'),
+    year: z.number().int().min(1900).max(2100, 'Enter a valid year'),
+    month: z.number().int().min(1).max(12, 'Enter a valid month (1-12)'),
+    type: z.enum(['CAPEX', 'OPEX']),
+    // Missing currency means the amount was entered in the default currency
+    currency: z.preprocess(
+        (val) => (val === null || val === undefined || val === '' ? DEFAULT_CURRENCY : String(val).trim().toUpperCase()),
+        z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+    ),
+    // Use zod transform to handle the special "__NONE__" value from the form or nullish values
+    business_line_id: z.preprocess(
+        (val) => (val === '__NONE__' || val === null || val === '' || val === undefined ? null : parseInt(String(val), 10)),
+        z.number().int().positive().nullable()
+    ).optional(),
+    cost_center_id: z.preprocess(
+        (val) => (val === '__NONE__' || val === null || val === '' || val === undefined ? null : parseInt(String(val), 10)),
+        z.number().int().positive().nullable()
+    ).optional(),
+});
+
+// Schema for Budget Entries (inherits Base and adds ID)
+export const BudgetSchema = BaseEntrySchema.extend({
+    id: z.number().optional(), // Optional for update
+    // Missing on forms without a version picker: new entries go into the default version, edited ones stay in theirs
+    version_id: z.preprocess(
+        (val) => (val === null || val === '' || val === undefined ? null : parseInt(String(val), 10)),
+        z.number().int().positive().nullable()
+    ).optional(),
+});
+
+// Schema for Expense Entries (inherits Base and adds ID) (NEW)
+export const ExpenseSchema = BaseEntrySchema.extend({
+    id: z.number().optional(), // Optional for update
+});
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// A number from a form or query string, or null when left empty
+const optionalNumber = (schema: z.ZodNumber) => z.preprocess(
+    (val) => (val === null || val === undefined || val === '' ? null : Number(val)),
+    schema.nullable()
+).default(null);
+
+// Filters of the budget and expense lists (see EntryFilter); fields left empty filter nothing
+export const EntryFilterSchema = z.object({
+    year: optionalNumber(z.number().int().min(1900).max(2100, 'Enter a valid year')),
+    month: optionalNumber(z.number().int().min(1).max(12, 'Enter a valid month (1-12)')),
+    type: z.enum(['CAPEX', 'OPEX']).nullable().default(null),
+    business_line_id: optionalNumber(z.number().int().positive()),
+    cost_center_id: optionalNumber(z.number().int().positive()),
+});
+
+// An id from a form or query string, 'none' for entries without one, or null when left empty
+const optionalIdOrNone = z.preprocess(
+    (val) => (val === null || val === undefined || val === '' ? null : val === 'none' ? val : Number(val)),
+    z.union([z.literal('none'), z.number().int().positive()]).nullable()
+).default(null);
+
+export const ENTRY_SORT_COLUMNS = ['description', 'amount', 'period', 'type', 'business_line', 'cost_center', 'status'] as const;
+
+// Filters and order of the budget and expense list pages (see EntryListQuery); newest first unless sorted otherwise
+export const EntryListQuerySchema = EntryFilterSchema.extend({
+    business_line_id: optionalIdOrNone,
+    cost_center_id: optionalIdOrNone,
+    status: z.enum(['draft', 'submitted', 'approved', 'rejected']).nullable().default(null),
+    sort: z.enum(ENTRY_SORT_COLUMNS).default('period'),
+    direction: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const PageRequestSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE, `Pages hold at most ${MAX_PAGE_SIZE} items`).default(DEFAULT_PAGE_SIZE),
+});
+
+// Bodies of the REST API's create and replace requests, validated like the forms of the matching actions
+export const CostCenterBodySchema = CostCenterSchema.pick({ name: true });
+export const BudgetBodySchema = BudgetSchema.omit({ id: true }).extend({
+    submit: z.boolean().default(false), // Submit for approval right away instead of saving a draft
+});
+export const ExpenseBodySchema = ExpenseSchema.omit({ id: true });
+
+// Filters of the REST API's budget list: those of the expense list plus the version (the default version if left out)
+export const BudgetListQuerySchema = EntryFilterSchema.extend({
+    version_id: optionalNumber(z.number().int().positive()),
+});
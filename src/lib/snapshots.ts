@@ -0,0 +1,25 @@
+import type { BackupSchedule, SnapshotKind } from '@/types';
+
+export const SNAPSHOT_KINDS: Record<SnapshotKind, string> = {
+    'manual': 'Manual',
+    'scheduled': 'Scheduled',
+    'pre_restore': 'Before Restore',
+};
+
+// Intervals offered for scheduled snapshots, in hours
+export const BACKUP_INTERVALS: Record<number, string> = {
+    0: 'Off',
+    6: 'Every 6 hours',
+    12: 'Every 12 hours',
+    24: 'Daily',
+    168: 'Weekly',
+};
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = { intervalHours: 24, retention: 7 };
+export const MAX_BACKUP_RETENTION = 365;
+
+export function formatSnapshotSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,61 @@
+import type { Permission, UserRole } from '@/types';
+
+export const USER_ROLES: Record<UserRole, { label: string; description: string }> = {
+    'admin': {
+        label: 'Admin',
+        description: 'Everything, including users, API keys, backups, the reporting currency, the fiscal year, alert channels and webhooks.',
+    },
+    'finance_editor': {
+        label: 'Finance Editor',
+        description: 'Budgets, expenses, imports, master data and alert rules.',
+    },
+    'business_line_owner': {
+        label: 'Business Line Owner',
+        description: 'Edits and reviews the budget entries of the business lines granted to them, and sees only those.',
+    },
+    'viewer': {
+        label: 'Viewer',
+        description: 'Sees budgets, expenses, charts and reports without changing them.',
+    },
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'view': 'view budgets, expenses and reports',
+    'edit_budgets': 'edit budget entries',
+    'review_budgets': 'review budget entries',
+    'edit_expenses': 'edit expenses',
+    'import_data': 'import data',
+    'manage_master_data': 'manage business lines, cost centers, budget versions and exchange rates',
+    'manage_alerts': 'manage alert rules and alerts',
+    'manage_settings': 'change settings, alert channels and webhooks',
+    'manage_users': 'manage users',
+    'manage_backups': 'back up and restore the database',
+    'manage_api_keys': 'manage API keys',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    'admin': Object.keys(PERMISSION_LABELS) as Permission[],
+    'finance_editor': ['view', 'edit_budgets', 'review_budgets', 'edit_expenses', 'import_data', 'manage_master_data', 'manage_alerts'],
+    'business_line_owner': ['view', 'edit_budgets', 'review_budgets'],
+    'viewer': ['view'],
+};
+
+// Permissions over data shared by every business line, which users limited to some business lines do not get
+export const UNSCOPED_PERMISSIONS: Permission[] = ['manage_master_data', 'manage_alerts', 'manage_settings', 'manage_users', 'manage_backups', 'manage_api_keys'];
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(USER_ROLES, value);
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Shown when a server action refuses a user whose role lacks the permission
+export function describeMissingPermission(role: UserRole, permission: Permission): string {
+    return `Your role (${USER_ROLES[role].label}) is not allowed to ${PERMISSION_LABELS[permission]}.`;
+}
+
+export function describeScopedPermission(permission: Permission): string {
+    return `Your access is limited to some business lines, so you are not allowed to ${PERMISSION_LABELS[permission]}.`;
+}
@@ -0,0 +1,230 @@
+import type { BudgetVersion, ForecastEntry, MonthRange, VarianceCell, VarianceDimension, VarianceEntry, VariancePeriodKind, VarianceQuery, VarianceReport, VarianceRow } from '@/types';
+
+export const VARIANCE_DIMENSIONS: Record<VarianceDimension, string> = {
+    'business_line': 'Business Line',
+    'cost_center': 'Cost Center',
+    'month': 'Month',
+};
+
+export const VARIANCE_PERIODS: Record<VariancePeriodKind, string> = {
+    'month': 'Month',
+    'quarter': 'Fiscal quarter to date',
+    'fytd': 'Fiscal year to date',
+};
+
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+export function isVarianceDimension(value: unknown): value is VarianceDimension {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VARIANCE_DIMENSIONS, value);
+}
+
+export function isVariancePeriodKind(value: unknown): value is VariancePeriodKind {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VARIANCE_PERIODS, value);
+}
+
+// Months are compared as a single index (year * 12 + month - 1)
+export function monthIndex(year: number, month: number): number {
+    return year * 12 + month - 1;
+}
+
+export function fromMonthIndex(index: number): { year: number; month: number } {
+    return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+export function formatMonth(year: number, month: number): string {
+    return `${String(month).padStart(2, '0')}/${year}`;
+}
+
+export function isInMonthRange(year: number, month: number, range: MonthRange): boolean {
+    const index = monthIndex(year, month);
+    return index >= monthIndex(range.start.year, range.start.month) && index <= monthIndex(range.end.year, range.end.month);
+}
+
+// The fiscal year containing the given month. Fiscal years starting in January are named after their year,
+// others after both years they span (e.g. 'FY 2025/26' for April 2025 to March 2026).
+export function fiscalYearOf(year: number, month: number, startMonth: number): MonthRange & { label: string } {
+    const startYear = month >= startMonth ? year : year - 1;
+    const start = monthIndex(startYear, startMonth);
+    const label = startMonth === 1 ? `FY ${startYear}` : `FY ${startYear}/${String(startYear + 1).slice(-2)}`;
+    return { start: fromMonthIndex(start), end: fromMonthIndex(start + 11), label };
+}
+
+// Months left in the fiscal year after the given month, null when it is the fiscal year's last month
+export function remainingFiscalYear(asOf: { year: number; month: number }, fiscalYearStartMonth: number): MonthRange | null {
+    const fiscalYear = fiscalYearOf(asOf.year, asOf.month, fiscalYearStartMonth);
+    const next = monthIndex(asOf.year, asOf.month) + 1;
+    if (next > monthIndex(fiscalYear.end.year, fiscalYear.end.month)) return null;
+    return { start: fromMonthIndex(next), end: fiscalYear.end };
+}
+
+// The months the report covers. Every period ends with the chosen month, so months that have not happened yet
+// never count as under budget.
+export function resolveVariancePeriod(query: VarianceQuery, fiscalYearStartMonth: number): MonthRange & { label: string } {
+    const end = monthIndex(query.year, query.month);
+    const fiscalYear = fiscalYearOf(query.year, query.month, fiscalYearStartMonth);
+    const fiscalYearStart = monthIndex(fiscalYear.start.year, fiscalYear.start.month);
+    const endLabel = formatMonth(query.year, query.month);
+
+    switch (query.period) {
+        case 'month':
+            return { start: fromMonthIndex(end), end: fromMonthIndex(end), label: endLabel };
+        case 'quarter': {
+            const quarter = Math.floor((end - fiscalYearStart) / 3);
+            return {
+                start: fromMonthIndex(fiscalYearStart + quarter * 3),
+                end: fromMonthIndex(end),
+                label: `Q${quarter + 1} ${fiscalYear.label} through ${endLabel}`,
+            };
+        }
+        case 'fytd':
+            return { start: fromMonthIndex(fiscalYearStart), end: fromMonthIndex(end), label: `${fiscalYear.label} through ${endLabel}` };
+    }
+}
+
+// Group an entry belongs to for the given dimension; entries without a business line/cost center share the 'none' group.
+// Keys never collide with the 'total' key used for the totals row.
+export function varianceGroupOf(entry: Pick<VarianceEntry, 'year' | 'month' | 'business_line_name' | 'cost_center_name'>, dimension: VarianceDimension): { key: string; label: string } {
+    switch (dimension) {
+        case 'business_line':
+            return entry.business_line_name ? { key: `name:${entry.business_line_name}`, label: entry.business_line_name } : { key: 'none', label: 'Unassigned' };
+        case 'cost_center':
+            return entry.cost_center_name ? { key: `name:${entry.cost_center_name}`, label: entry.cost_center_name } : { key: 'none', label: 'Unassigned' };
+        case 'month':
+            return { key: `${entry.year}-${String(entry.month).padStart(2, '0')}`, label: formatMonth(entry.year, entry.month) };
+    }
+}
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+interface VarianceSums {
+    budget: number;
+    actual: number;
+    fiscalYearBudget: number;
+    fiscalYearActual: number;
+    projected: number; // Forecast for the rest of the fiscal year
+}
+
+function toVarianceRow(key: string, label: string, sums: VarianceSums, withProjection: boolean): VarianceRow {
+    const budget = roundCents(sums.budget);
+    const actual = roundCents(sums.actual);
+    const fiscalYearBudget = roundCents(sums.fiscalYearBudget);
+    const fiscalYearActual = roundCents(sums.fiscalYearActual);
+    const projectedYearEnd = withProjection ? roundCents(fiscalYearActual + sums.projected) : null;
+    return {
+        key,
+        label,
+        budget,
+        actual,
+        variance: roundCents(budget - actual),
+        variancePercent: budget !== 0 ? ((budget - actual) / budget) * 100 : null,
+        fiscalYearBudget,
+        fiscalYearActual,
+        consumedPercent: fiscalYearBudget !== 0 ? (fiscalYearActual / fiscalYearBudget) * 100 : null,
+        remaining: roundCents(fiscalYearBudget - fiscalYearActual),
+        projectedYearEnd,
+        projectedVariance: projectedYearEnd !== null ? roundCents(fiscalYearBudget - projectedYearEnd) : null,
+    };
+}
+
+// Range the actual side of the fiscal-year columns covers: the fiscal year up to the end of the period, or the whole
+// fiscal year when another budget version stands in for the actuals
+function fiscalYearActualRange(query: VarianceQuery, period: MonthRange, fiscalYear: MonthRange): MonthRange {
+    return query.compareVersionId !== null ? fiscalYear : { start: fiscalYear.start, end: period.end };
+}
+
+// Aggregates the entries of the period's fiscal year (converted into the reporting currency) into one row per group,
+// and adds the forecast for the months after the period (see forecastSpend) to project where each group ends the
+// fiscal year. Groups with nothing in the period, the fiscal year or the forecast are left out. For the month
+// dimension only the months of the period are listed and only the totals are projected. When versions are compared
+// nothing is projected.
+export function buildVarianceReport(
+    entries: VarianceEntry[],
+    forecast: ForecastEntry[],
+    query: VarianceQuery,
+    fiscalYearStartMonth: number,
+    currency: string,
+    version: Pick<BudgetVersion, 'id' | 'name'>,
+    compareVersion: Pick<BudgetVersion, 'id' | 'name'> | null
+): VarianceReport {
+    const period = resolveVariancePeriod(query, fiscalYearStartMonth);
+    const fiscalYear = fiscalYearOf(query.year, query.month, fiscalYearStartMonth);
+    const fiscalYearToDate = fiscalYearActualRange(query, period, fiscalYear);
+    const forecastRange = compareVersion ? null : remainingFiscalYear(period.end, fiscalYearStartMonth);
+
+    const emptySums = (): VarianceSums => ({ budget: 0, actual: 0, fiscalYearBudget: 0, fiscalYearActual: 0, projected: 0 });
+    const groups = new Map<string, VarianceSums & { label: string }>();
+    const totals = emptySums();
+    for (const entry of entries) {
+        if (!isInMonthRange(entry.year, entry.month, fiscalYear)) continue;
+        if (query.dimension === 'month' && !isInMonthRange(entry.year, entry.month, period)) continue;
+
+        const { key, label } = varianceGroupOf(entry, query.dimension);
+        const group = groups.get(key) ?? { label, ...emptySums() };
+        const inPeriod = isInMonthRange(entry.year, entry.month, period);
+        for (const sums of [group, totals]) {
+            if (entry.source === 'Budget') {
+                sums.fiscalYearBudget += entry.convertedAmount;
+                if (inPeriod) sums.budget += entry.convertedAmount;
+            } else if (isInMonthRange(entry.year, entry.month, fiscalYearToDate)) {
+                sums.fiscalYearActual += entry.convertedAmount;
+                if (inPeriod) sums.actual += entry.convertedAmount;
+            }
+        }
+        groups.set(key, group);
+    }
+    for (const entry of forecast) {
+        if (!forecastRange || !isInMonthRange(entry.year, entry.month, forecastRange)) continue;
+        totals.projected += entry.amount;
+        if (query.dimension === 'month') continue;
+
+        const { key, label } = varianceGroupOf(entry, query.dimension);
+        const group = groups.get(key) ?? { label, ...emptySums() };
+        group.projected += entry.amount;
+        groups.set(key, group);
+    }
+
+    const withProjection = query.dimension !== 'month' && !compareVersion;
+    const rows = Array.from(groups.entries())
+        .map(([key, group]) => toVarianceRow(key, group.label, group, withProjection))
+        .filter(row => row.budget !== 0 || row.actual !== 0 || row.fiscalYearBudget !== 0 || row.fiscalYearActual !== 0 || (row.projectedYearEnd ?? 0) !== 0)
+        .sort((a, b) => query.dimension === 'month'
+            ? a.key.localeCompare(b.key)
+            // Unassigned last, otherwise the largest budgets first
+            : Number(a.key === 'none') - Number(b.key === 'none') || b.budget - a.budget || a.label.localeCompare(b.label));
+
+    return {
+        query,
+        period,
+        fiscalYear,
+        forecast: forecastRange,
+        version,
+        compareVersion,
+        currency,
+        rows,
+        totals: toVarianceRow('total', 'Total', totals, !compareVersion),
+    };
+}
+
+// Entries behind one cell of the report: a group's (or, for the 'total' key, every group's) budgets and/or expenses,
+// within the period or within the fiscal year (expenses up to the end of the period, as in the report)
+export function selectVarianceEntries(
+    entries: VarianceEntry[],
+    query: VarianceQuery,
+    fiscalYearStartMonth: number,
+    groupKey: string,
+    cell: VarianceCell
+): VarianceEntry[] {
+    const period = resolveVariancePeriod(query, fiscalYearStartMonth);
+    const fiscalYear = fiscalYearOf(query.year, query.month, fiscalYearStartMonth);
+    const budgetRange: MonthRange = cell.scope === 'period' ? period : fiscalYear;
+    const expenseRange: MonthRange = cell.scope === 'period' ? period : fiscalYearActualRange(query, period, fiscalYear);
+
+    return entries
+        .filter(entry => cell.source === null || entry.source === cell.source)
+        .filter(entry => isInMonthRange(entry.year, entry.month, entry.source === 'Budget' ? budgetRange : expenseRange))
+        .filter(entry => query.dimension !== 'month' || isInMonthRange(entry.year, entry.month, period))
+        .filter(entry => groupKey === 'total' || varianceGroupOf(entry, query.dimension).key === groupKey)
+        .sort((a, b) => a.source.localeCompare(b.source) || monthIndex(a.year, a.month) - monthIndex(b.year, b.month) || b.convertedAmount - a.convertedAmount);
+}
@@ -0,0 +1,49 @@
+import type { WebhookDeliveryStatus, WebhookEvent } from '@/types';
+
+export const WEBHOOK_EVENTS: Record<WebhookEvent, { label: string; description: string }> = {
+    'budget.created': {
+        label: 'Budget Created',
+        description: 'A budget entry was added; data is the entry.',
+    },
+    'budget.updated': {
+        label: 'Budget Updated',
+        description: 'A budget entry was changed, submitted or reviewed; data is the entry as it is now.',
+    },
+    'budget.deleted': {
+        label: 'Budget Deleted',
+        description: 'A budget entry was deleted; data is the entry as it was.',
+    },
+    'expense.created': {
+        label: 'Expense Created',
+        description: 'An expense entry was added; data is the entry.',
+    },
+    'expense.updated': {
+        label: 'Expense Updated',
+        description: 'An expense entry was changed; data is the entry as it is now.',
+    },
+    'expense.deleted': {
+        label: 'Expense Deleted',
+        description: 'An expense entry was deleted; data is the entry as it was.',
+    },
+    'import.committed': {
+        label: 'Import Committed',
+        description: 'A spreadsheet or cloud cost import was written; data is the import batch with its counts.',
+    },
+    'threshold.breached': {
+        label: 'Threshold Breached',
+        description: 'An alert rule triggered; data is the alert.',
+    },
+};
+
+export const WEBHOOK_DELIVERY_STATUSES: Record<WebhookDeliveryStatus, string> = {
+    'pending': 'Pending',
+    'delivered': 'Delivered',
+    'failed': 'Failed',
+};
+
+// Minutes to wait before each retry of a failed delivery; after the last, the delivery has failed
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 480];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, value);
+}
@@ -0,0 +1,181 @@
+import { createHmac, randomUUID } from 'crypto';
+import type { WebhookDelivery, WebhookEvent } from '@/types';
+import { isWebhookEvent, WEBHOOK_RETRY_DELAYS_MINUTES } from '@/lib/webhook-events';
+import { getDb, type Database } from '@/lib/db';
+
+// Outbound webhooks. Events are queued as one delivery per subscription and sent right away; failed attempts are
+// retried after WEBHOOK_RETRY_DELAYS_MINUTES by the dispatcher (see startWebhookDispatcher). Every payload is
+// { id, event, created_at, actor, data }, signed like alert webhooks: 'X-Signature-256: sha256=<hex HMAC-SHA256 of
+// the body>' with the subscription's secret.
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DELIVERY_LOG_RETENTION_DAYS = 30; // Finished deliveries are deleted after this
+
+export function signWebhookPayload(secret: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function buildPayload(eventId: string, event: WebhookDelivery['event'], data: unknown, actor: string | null): string {
+    return JSON.stringify({ id: eventId, event, created_at: new Date().toISOString(), actor, data });
+}
+
+interface DueDelivery {
+    id: number;
+    event_id: string;
+    event: string;
+    payload: string;
+    attempts: number;
+    max_attempts: number;
+    url: string;
+    secret: string;
+}
+
+// Sends the delivery once and records the outcome: delivered on a 2xx answer, else retried later or, after the last
+// attempt, failed
+async function attemptDelivery(db: Database, delivery: DueDelivery): Promise<void> {
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+        const response = await fetch(delivery.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'CloudWise-Webhooks',
+                'X-CloudWise-Event': delivery.event,
+                'X-CloudWise-Delivery': delivery.event_id,
+                'X-Signature-256': signWebhookPayload(delivery.secret, delivery.payload),
+            },
+            body: delivery.payload,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            redirect: 'manual',
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            error = `Responded with ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`;
+        }
+    } catch (requestError: any) {
+        error = requestError?.name === 'TimeoutError' ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds` : String(requestError?.cause?.message ?? requestError?.message ?? requestError);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const retryInMinutes = error && attempts < delivery.max_attempts ? WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1] : null;
+    await db.run(
+        `UPDATE webhook_deliveries SET
+           status = ?, attempts = ?, response_status = ?, error = ?, last_attempt_at = CURRENT_TIMESTAMP,
+           next_attempt_at = ${retryInMinutes === null ? 'NULL' : `datetime('now', '+${retryInMinutes} minutes')`}
+         WHERE id = ?`,
+        [error === null ? 'delivered' : retryInMinutes === null ? 'failed' : 'pending', attempts, responseStatus, error, delivery.id]
+    );
+}
+
+let dispatching: Promise<void> | null = null;
+
+// Sends every pending delivery that is due. Deliveries of deactivated subscriptions wait until they are active again.
+// Runs one at a time; calls made meanwhile wait for the running one.
+export function dispatchWebhookDeliveries(): Promise<void> {
+    dispatching ??= (async () => {
+        try {
+            const db = await getDb();
+            for (;;) {
+                const due = await db.all<DueDelivery[]>(`
+                    SELECT d.id, d.event_id, d.event, d.payload, d.attempts, d.max_attempts, s.url, s.secret
+                    FROM webhook_deliveries d
+                    JOIN webhook_subscriptions s ON s.id = d.subscription_id
+                    WHERE d.status = 'pending' AND d.next_attempt_at <= CURRENT_TIMESTAMP AND s.is_active = 1
+                    ORDER BY d.id
+                    LIMIT 50
+                `);
+                if (due.length === 0) break;
+                for (const delivery of due) {
+                    await attemptDelivery(db, delivery);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to dispatch webhook deliveries:', error);
+        } finally {
+            dispatching = null;
+        }
+    })();
+    return dispatching;
+}
+
+// Queues the event for every active subscription to it and starts sending. Failures are logged, never thrown, so
+// they do not fail the change the event is about.
+export async function queueWebhookEvent(event: WebhookEvent, data: unknown, actor: string | null): Promise<void> {
+    try {
+        const db = await getDb();
+        const subscriptions = (await db.all<{ id: number; events: string }[]>(`SELECT id, events FROM webhook_subscriptions WHERE is_active = 1`))
+            .filter(subscription => subscription.events.split(',').filter(isWebhookEvent).includes(event));
+        if (subscriptions.length === 0) return;
+
+        const eventId = randomUUID();
+        const payload = buildPayload(eventId, event, data, actor);
+        for (const subscription of subscriptions) {
+            await db.run(
+                `INSERT INTO webhook_deliveries (subscription_id, event_id, event, payload, max_attempts, next_attempt_at)
+                 VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+                [subscription.id, eventId, event, payload, WEBHOOK_RETRY_DELAYS_MINUTES.length + 1]
+            );
+        }
+        void dispatchWebhookDeliveries();
+    } catch (error) {
+        console.error(`Failed to queue webhook event ${event}:`, error);
+    }
+}
+
+// Sends a 'webhook.test' event to the subscription once, whether or not it is active, and returns the logged delivery.
+// Test deliveries are not retried.
+export async function sendTestWebhook(subscriptionId: number, actor: string | null): Promise<WebhookDelivery | null> {
+    const db = await getDb();
+    const subscription = await db.get<{ id: number; name: string; url: string; secret: string }>(
+        'SELECT id, name, url, secret FROM webhook_subscriptions WHERE id = ?', subscriptionId
+    );
+    if (!subscription) return null;
+    const eventId = randomUUID();
+    const payload = buildPayload(eventId, 'webhook.test', { message: `This is a test of the '${subscription.name}' webhook.` }, actor);
+    const result = await db.run(
+        `INSERT INTO webhook_deliveries (subscription_id, event_id, event, payload, max_attempts) VALUES (?, ?, 'webhook.test', ?, 1)`,
+        [subscription.id, eventId, payload]
+    );
+    await attemptDelivery(db, { id: result.lastID!, event_id: eventId, event: 'webhook.test', payload, attempts: 0, max_attempts: 1, url: subscription.url, secret: subscription.secret });
+    return (await listWebhookDeliveries(db, { deliveryId: result.lastID! }))[0] ?? null;
+}
+
+// Newest first
+export async function listWebhookDeliveries(db: Database, { deliveryId, limit = 100 }: { deliveryId?: number; limit?: number } = {}): Promise<WebhookDelivery[]> {
+    return db.all<WebhookDelivery[]>(`
+        SELECT d.id, d.subscription_id, s.name as subscription_name, d.event_id, d.event, d.status, d.attempts, d.max_attempts,
+          d.response_status, d.error,
+          strftime('%Y-%m-%d %H:%M:%S', d.next_attempt_at) as next_attempt_at,
+          strftime('%Y-%m-%d %H:%M:%S', d.last_attempt_at) as last_attempt_at,
+          strftime('%Y-%m-%d %H:%M:%S', d.created_at) as created_at
+        FROM webhook_deliveries d
+        JOIN webhook_subscriptions s ON s.id = d.subscription_id
+        ${deliveryId === undefined ? '' : 'WHERE d.id = ?'}
+        ORDER BY d.id DESC
+        LIMIT ${Number(limit)}
+    `, deliveryId === undefined ? [] : [deliveryId]);
+}
+
+const DISPATCH_INTERVAL_MS = 30 * 1000;
+let dispatcher: ReturnType<typeof setInterval> | null = null;
+
+// Sends due retries now and every 30 seconds while the server runs (see src/instrumentation.ts), and deletes
+// finished deliveries older than the retention. Deliveries pending when the server stopped are sent after a restart.
+export function startWebhookDispatcher() {
+    if (dispatcher) return;
+    const check = async () => {
+        await dispatchWebhookDeliveries();
+        try {
+            await (await getDb()).run(
+                `DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', '-${DELIVERY_LOG_RETENTION_DAYS} days')`
+            );
+        } catch (error) {
+            console.error('Failed to prune the webhook delivery log:', error);
+        }
+    };
+    dispatcher = setInterval(() => void check(), DISPATCH_INTERVAL_MS);
+    dispatcher.unref();
+    void check();
+}
@@ -0,0 +1,46 @@
+import type { ColumnMapping, StagedImportRow, WorkbookSheetRole } from '@/types';
+import { findUnmappedRequiredFields } from '@/lib/import-mapping';
+
+export const WORKBOOK_SHEET_ROLES: Record<WorkbookSheetRole, string> = {
+    'entries': 'Budgets & expenses (Source column)',
+    'budgets': 'Budgets',
+    'expenses': 'Expenses',
+    'master_data': 'Master data (business lines & cost centers)',
+};
+
+export function isWorkbookSheetRole(value: unknown): value is WorkbookSheetRole {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WORKBOOK_SHEET_ROLES, value);
+}
+
+// Reads the 'sheet_roles' upload field: a JSON object of sheet name to role. Entries with unknown roles are dropped;
+// returns null when the field is missing or not an object, in which case only the first sheet is imported.
+export function parseSheetRoles(value: unknown): Record<string, WorkbookSheetRole> | null {
+    if (typeof value !== 'string' || value.trim() === '') return null;
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+        return Object.fromEntries(Object.entries(parsed).filter(([, role]) => isWorkbookSheetRole(role))) as Record<string, WorkbookSheetRole>;
+    } catch {
+        return null;
+    }
+}
+
+// Guesses what a sheet holds from its (normalized) headers: entry sheets have every required column the mapping
+// needs, master-data sheets list business lines and/or cost centers without amounts. The sheet name decides
+// between budgets and expenses.
+export function suggestSheetRole(sheetName: string, headers: Set<string>, mapping: ColumnMapping): WorkbookSheetRole | null {
+    if (findUnmappedRequiredFields(mapping, headers).length === 0) {
+        if (/expense/i.test(sheetName)) return 'expenses';
+        if (/budget/i.test(sheetName)) return 'budgets';
+        return 'entries';
+    }
+    if (!headers.has('amount') && (headers.has('business line') || headers.has('cost center'))) {
+        return 'master_data';
+    }
+    return null;
+}
+
+// Staged rows are identified by their sheet and row number (row numbers repeat across sheets)
+export function isSameStagedRow(a: Pick<StagedImportRow, 'sheet' | 'rowNumber'>, b: Pick<StagedImportRow, 'sheet' | 'rowNumber'>): boolean {
+    return a.sheet === b.sheet && a.rowNumber === b.rowNumber;
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+const SESSION_COOKIE = 'cloudwise_session'; // As set by createSession in '@/lib/auth', which middleware cannot import
+
+// Sends visitors without a session cookie to the login page; REST API requests get a 401 error body instead (see
+// '@/lib/api'), unless they send an API key. Whether the session or key is valid is checked by the pages, server
+// actions and route handlers themselves, since middleware cannot reach the database.
+export function middleware(request: NextRequest) {
+    if (request.cookies.has(SESSION_COOKIE)) {
+        return NextResponse.next();
+    }
+    if (request.nextUrl.pathname.startsWith('/api/v1/')) {
+        if (request.headers.has('authorization')) {
+            return NextResponse.next();
+        }
+        return NextResponse.json(
+            { error: { code: 'unauthorized', message: 'Sign in or send an API key to use the API; the session is missing or has expired.' } },
+            { status: 401 }
+        );
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+    matcher: ['/((?!login|api/auth|api/v1/openapi.json|_next/static|_next/image|favicon.ico).*)'],
+};
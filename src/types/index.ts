@@ -3,6 +3,8 @@
 export interface BusinessLine {
   id: number;
   name: string;
+  budget_owner_id?: number | null; // User who approves the business line's budget entries and changes
+  budget_owner?: string | null; // Their name
   // Removed optional timestamps as they are not always selected/needed
   // created_at?: string;
   // updated_at?: string;
@@ -21,6 +23,14 @@ export interface CostCenterWithBusinessLines extends CostCenter {
     businessLines: Pick<BusinessLine, 'id' | 'name'>[]; // Array of associated business lines
 }
 
+// One cost center <-> business line pair, as listed by the REST API
+export interface CostCenterAssociation {
+    cost_center_id: number;
+    cost_center_name: string;
+    business_line_id: number;
+    business_line_name: string;
+}
+
 
 export interface Budget {
   id: number;
@@ -29,23 +39,97 @@ export interface Budget {
   year: number;
   month: number;
   type: 'CAPEX' | 'OPEX';
+  currency: string; // ISO 4217 code the amount is in
   business_line_id: number | null; // FK to business_lines
   cost_center_id: number | null;   // FK to cost_centers
+  import_batch_id?: number | null; // FK to import_batches, set for rows created by an upload
+  external_id?: string | null; // Key of the row in the system it was exported from; upsert imports match on it
+  version_id?: number; // FK to budget_versions
+  status?: BudgetStatus; // Only approved rows count in totals, charts, variance and alerts
+  review?: BudgetReview | null; // Latest review of the row, cleared when the row is edited
+  pending_change_id?: number | null; // Submitted edit of an approved row, waiting for review
   created_at?: string;
   updated_at?: string;
   business_line_name?: string; // Optional: name of the linked business line
   cost_center_name?: string;   // Optional: name of the linked cost center
+  version_name?: string;       // Optional: name of the budget version
 }
 
 // Type for creating a new budget entry (from spreadsheet or form)
-export type BudgetEntry = Omit<Budget, 'id' | 'created_at' | 'updated_at' | 'business_line_name' | 'cost_center_name'>;
+export type BudgetEntry = Omit<Budget, 'id' | 'created_at' | 'updated_at' | 'business_line_name' | 'cost_center_name' | 'version_name' | 'status' | 'review' | 'pending_change_id'>;
 
 // Type for the budget form data (IDs might be strings from select inputs)
-export interface BudgetFormData extends Omit<Budget, 'id' | 'created_at' | 'updated_at' | 'business_line_name' | 'cost_center_name' | 'business_line_id' | 'cost_center_id'> {
+export interface BudgetFormData extends Omit<Budget, 'id' | 'created_at' | 'updated_at' | 'business_line_name' | 'cost_center_name' | 'version_name' | 'status' | 'review' | 'pending_change_id' | 'business_line_id' | 'cost_center_id'> {
    business_line_id: string | null; // Form values might be strings or null representation
    cost_center_id: string | null;   // Form values might be strings or null representation
 }
 
+// --- Budget Approval Types ---
+
+// New rows start as drafts and count as the budget once approved. Editing an approved row does not change it:
+// the edit is submitted as a BudgetChange and applied when approved.
+export type BudgetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type BudgetReviewDecision = 'approved' | 'rejected';
+
+export interface BudgetReview {
+    decision: BudgetReviewDecision;
+    reviewer: string;
+    comment: string | null;
+    reviewed_at: string;
+}
+
+// Fields of a budget row an edit can change
+export type BudgetChangeValues = Pick<Budget, 'description' | 'amount' | 'year' | 'month' | 'type' | 'currency' | 'business_line_id' | 'cost_center_id'>;
+
+// 'delete' changes take the row out of the budget when approved; their values are the row's when they were submitted
+export type BudgetChangeAction = 'update' | 'delete';
+
+// Proposed edit of an approved budget row
+export interface BudgetChange extends BudgetChangeValues {
+    id: number;
+    budget_id: number;
+    action: BudgetChangeAction;
+    status: 'submitted' | BudgetReviewDecision;
+    submitted_at: string;
+    review: BudgetReview | null;
+    business_line_name?: string | null;
+    cost_center_name?: string | null;
+}
+
+// An entry of the review queue: a submitted new row, or a submitted change with the row it edits
+export interface BudgetReviewItem {
+    kind: 'entry' | 'change';
+    id: number; // Budget ID for entries, change ID for changes
+    budget: Budget; // The row as it currently is
+    change: BudgetChange | null;
+    version_name: string;
+    approver_id: number | null; // User ID of the business line's budget owner; anyone but the submitter may review rows without one
+    approver: string | null; // Their name
+    submitted_at: string;
+    submitted_by_id: number | null; // User who submitted the entry or change; null for ones submitted before this was recorded
+}
+
+// --- Budget Version Types ---
+
+// The approved plan, a reforecast made during the year, or a what-if scenario
+export type BudgetVersionKind = 'original' | 'reforecast' | 'what_if';
+
+// A named set of budget rows. Reforecasts and scenarios are usually cloned from another version and then edited,
+// so the version they started from stays untouched.
+export interface BudgetVersion {
+    id: number;
+    name: string;
+    kind: BudgetVersionKind;
+    description: string | null;
+    cloned_from_id: number | null;
+    cloned_from_name?: string | null;
+    is_default: boolean; // Compared with actuals on the dashboard, in alerts and wherever no version is picked
+    budget_count?: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
 // --- Expense Types (NEW) ---
 
 export interface Expense {
@@ -55,8 +139,11 @@ export interface Expense {
   year: number;
   month: number;
   type: 'CAPEX' | 'OPEX';
+  currency: string; // ISO 4217 code the amount is in
   business_line_id: number | null;
   cost_center_id: number | null;
+  import_batch_id?: number | null; // FK to import_batches, set for rows created by an upload
+  external_id?: string | null; // Key of the row in the system it was exported from; upsert imports match on it
   created_at?: string;
   updated_at?: string;
   business_line_name?: string; // Optional: name of the linked business line
@@ -67,6 +154,182 @@ export interface Expense {
 export type ExpenseEntry = Omit<Expense, 'id' | 'created_at' | 'updated_at' | 'business_line_name' | 'cost_center_name'>;
 
 
+// --- Import Preview Types ---
+
+// Where a spreadsheet row will be written on commit
+export type ImportSource = 'Budget' | 'Expense';
+
+// A spreadsheet row parsed into a staged entry, before anything is written to the DB.
+// Fields that could not be parsed are null so the row can be fixed up in the preview.
+export interface StagedImportRow {
+    rowNumber: number; // Row number in the file (header is row 1), or position of the line in an aggregated cost report
+    sheet: string | null; // Workbook sheet the row comes from when several sheets were imported; rows are identified by sheet and rowNumber
+    source: ImportSource | null; // null when the Source column holds an unknown value
+    description: string;
+    amount: number | null;
+    year: number | null;
+    month: number | null;
+    type: 'CAPEX' | 'OPEX' | null;
+    currency: string | null; // null when the Currency column holds something that is not a 3-letter code
+    external_id: string | null; // Empty cells are null
+    business_line_name: string | null; // Name as read from the file (or picked in the preview)
+    cost_center_name: string | null;
+    business_line_id: number | null; // Resolved from the name during validation
+    cost_center_id: number | null;
+    parseIssues: { amount?: string; date?: string }; // Why a value in the file could not be read (e.g. an ambiguous amount); cleared when the row is edited
+    errors: string[]; // Empty when the row can be committed
+    excluded: boolean; // Rows excluded by the user are never committed
+}
+
+// Result of the dry-run step of an upload
+export interface ImportPreview {
+    id: number; // Staged import the reviewed rows are committed with (see commitImportRows)
+    fileName: string;
+    checksum: string; // SHA-256 of the uploaded file
+    duplicateBatches: ImportBatch[]; // Committed batches that imported a file with the same checksum
+    mode: ImportMode; // Chosen before the preview, since it decides which rows are valid
+    budgetVersion: Pick<BudgetVersion, 'id' | 'name'>; // Version budget rows are written to; external IDs are checked within it
+    masterData: MasterDataPlan | null; // Set when master-data sheets were chosen; saved when the import is committed
+    rows: StagedImportRow[];
+}
+
+// What a workbook sheet holds. 'entries' sheets are read like a single-sheet upload (the Source column decides);
+// budget and expense sheets put every row in that table.
+export type WorkbookSheetRole = 'entries' | 'budgets' | 'expenses' | 'master_data';
+
+// A sheet of an uploaded workbook, listed so the user can choose which sheets to import and what each holds
+export interface WorkbookSheet {
+    name: string;
+    rowCount: number;
+    suggestedRole: WorkbookSheetRole | null; // null when the sheet looks like neither entries nor master data
+}
+
+// Business lines, cost centers and associations created from master-data sheets
+export interface MasterDataCounts {
+    businessLines: number;
+    costCenters: number;
+    associations: number;
+}
+
+// A row of a master-data sheet: a business line and/or a cost center, associated when both are given ('' when empty)
+export interface MasterDataRow {
+    businessLine: string;
+    costCenter: string;
+}
+
+// The master-data sheets of an import, written in the same transaction as its rows
+export interface MasterDataPlan {
+    rows: MasterDataRow[];
+    counts: MasterDataCounts; // What committing would create, as of the preview
+}
+
+// How committed rows are written: always inserted, matched on external_id and updated, or replacing
+// every existing row of the same kind in the months the file covers
+export type ImportMode = 'insert' | 'upsert' | 'replace';
+
+// --- Import Batch Types ---
+
+// One committed upload; every row it inserted carries its ID in import_batch_id
+export interface ImportBatch {
+    id: number;
+    file_name: string;
+    checksum: string;
+    uploaded_by: string | null;
+    budget_count: number; // Rows inserted at commit time
+    expense_count: number;
+    skipped_count: number; // Rows excluded or invalid at commit time
+    import_mode: ImportMode;
+    updated_count: number; // Existing rows changed by an upsert
+    unchanged_count: number; // Upserted rows identical to the existing ones
+    deleted_count: number; // Existing rows removed by a replace
+    status: 'committed' | 'reverted';
+    created_at: string;
+    reverted_at: string | null;
+    remaining_budget_count?: number; // Rows still linked to the batch (some may have been deleted by hand)
+    remaining_expense_count?: number;
+}
+
+// --- Column Mapping Profile Types ---
+
+// Fields an uploaded row is mapped onto (names match the standard upload headers)
+export type ImportField = 'description' | 'amount' | 'year' | 'month' | 'date' | 'type' | 'currency' | 'business line' | 'cost center' | 'source' | 'external id';
+
+// Locale uploaded files are written in; decides decimal/thousands separators and day/month order in dates
+export type ImportLocale = 'en-US' | 'en-GB' | 'pt-BR' | 'de-DE' | 'es-ES' | 'fr-FR';
+
+// How one field gets its value: copied from a source column (optionally transformed) or a constant
+export type FieldMapping =
+    | { kind: 'column'; column: string; transform?: 'none' | 'date-year' | 'date-month' }
+    | { kind: 'constant'; value: string };
+
+export type ColumnMapping = Partial<Record<ImportField, FieldMapping>>;
+
+// Saved mapping for files whose headers differ from the standard format
+export interface ImportMappingProfile {
+    id: number;
+    name: string;
+    mapping: ColumnMapping;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// --- Cloud Cost Import Types ---
+
+export type CloudProvider = 'aws' | 'azure' | 'gcp' | 'focus'; // 'focus' is any FinOps FOCUS-conformant export
+
+// Cost column summed when importing a billing export. Which ones apply depends on the provider.
+export type CloudCostMetric = 'unblended' | 'net_unblended' | 'blended' | 'cost' | 'cost_after_credits' | 'effective_cost';
+
+// What spend is broken down by within each account/subscription/project: a tag (label on GCP),
+// the Azure resource group, the FOCUS service category, or nothing
+export type CloudCostGrouping = 'tag' | 'resource_group' | 'service_category' | 'none';
+
+export interface CloudCostImportOptions {
+    provider: CloudProvider;
+    groupBy: CloudCostGrouping;
+    tagKey: string; // Only used when grouping by tag
+    costMetric: CloudCostMetric;
+}
+
+// What an allocation rule matches on. AWS accounts (and FOCUS sub accounts), Azure subscriptions and GCP projects
+// are matched by ID or name.
+export type CostDimension = 'tag' | 'account' | 'subscription' | 'resource_group' | 'project';
+
+// Assigns cloud spend with a given dimension value to a business line and/or cost center
+export interface CostAllocationRule {
+    id: number;
+    dimension: CostDimension;
+    tag_key: string; // e.g. 'user:CostCenter' for tag rules; empty for other dimensions
+    value: string; // Matched case-insensitively
+    business_line_id: number | null;
+    cost_center_id: number | null;
+    business_line_name?: string; // Optional: name of the linked business line
+    cost_center_name?: string;   // Optional: name of the linked cost center
+    created_at?: string;
+}
+
+// --- Currency Types ---
+
+// Rate for converting one unit of from_currency into to_currency in a given month
+export interface ExchangeRate {
+    id: number;
+    year: number;
+    month: number;
+    from_currency: string;
+    to_currency: string;
+    rate: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// Budgets/expenses in one currency and month that cannot be converted to the reporting currency
+export interface MissingExchangeRate {
+    currency: string;
+    year: number;
+    month: number;
+    entryCount: number;
+}
+
 export type BudgetData = Budget[];
 export type ExpenseData = Expense[]; // New type for array of expenses
 
@@ -75,16 +338,28 @@ export type ExpenseData = Expense[]; // New type for array of expenses
 
 // Type for raw data fetched for charting (includes time info) - Extended for expenses
 export type ChartItem = {
-    amount: number;
+    amount: number; // Converted to the reporting currency
     type: 'CAPEX' | 'OPEX';
     year: number;
     month: number;
+    business_line_id: number | null;
+    cost_center_id: number | null;
     business_line_name: string; // Use resolved name, default to 'Unassigned' if null
     cost_center_name: string; // Use resolved name, default to 'Unassigned' if null
     source: 'Budget' | 'Expense'; // Indicate if the item is a budget or expense
 };
 
 
+// What the chart aggregates of the REST API total amounts by
+export type ChartGroup = 'business_line' | 'cost_center' | 'month' | 'type';
+
+export interface ChartAggregate {
+    key: string; // ID of the business line or cost center ('unassigned' without one), 'YYYY-MM' or the type
+    label: string;
+    budget: number; // In the reporting currency
+    expense: number;
+}
+
 // Aggregated data for simple pie/bar charts
 export type ChartData = {
   name: string; // e.g., Business Line Name, Cost Center Name, Type (CAPEX/OPEX)
@@ -115,3 +390,388 @@ export type BudgetExpenseComparisonChartData = {
     // ExpenseCAPEX?: number;
     // ExpenseOPEX?: number;
 }[];
+
+// --- Forecast Types ---
+
+// How future spend is projected from monthly expense history
+export type ForecastMethod = 'run_rate' | 'linear_trend' | 'seasonal_average';
+
+// Spend of one business line/cost center/type combination in one month: actual when used as history,
+// projected when returned by a forecast. Amounts are in the reporting currency.
+export interface ForecastEntry {
+    year: number;
+    month: number;
+    type: 'CAPEX' | 'OPEX';
+    business_line_name: string | null;
+    cost_center_name: string | null;
+    amount: number;
+}
+
+// --- Variance Report Types ---
+
+// What the rows of the variance report are grouped by
+export type VarianceDimension = 'business_line' | 'cost_center' | 'month';
+
+// Period the report covers, ending with the chosen month: that month, its fiscal quarter, or the fiscal year up to it
+export type VariancePeriodKind = 'month' | 'quarter' | 'fytd';
+
+export interface VarianceQuery {
+    dimension: VarianceDimension;
+    period: VariancePeriodKind;
+    year: number; // Calendar year and month the period ends in
+    month: number;
+    forecast: ForecastMethod; // How the rest of the fiscal year is projected
+    versionId: number | null; // Budget version, null for the default one
+    compareVersionId: number | null; // Set to compare the budget version with another one instead of with actuals
+}
+
+// Inclusive range of calendar months
+export interface MonthRange {
+    start: { year: number; month: number };
+    end: { year: number; month: number };
+}
+
+// Budget versus actual for one group; amounts are in the reporting currency
+export interface VarianceRow {
+    key: string; // Group key, passed back for the drill-down ('none' for unassigned entries)
+    label: string;
+    budget: number; // Within the period
+    actual: number;
+    variance: number; // budget - actual: positive is favorable (under budget)
+    variancePercent: number | null; // variance / budget, null without a budget
+    fiscalYearBudget: number; // Whole fiscal year
+    fiscalYearActual: number; // Fiscal year up to the end of the period
+    consumedPercent: number | null; // fiscalYearActual / fiscalYearBudget, null without a budget
+    remaining: number; // fiscalYearBudget - fiscalYearActual
+    projectedYearEnd: number | null; // fiscalYearActual plus the forecast for the rest of the fiscal year, null for month rows
+    projectedVariance: number | null; // fiscalYearBudget - projectedYearEnd
+}
+
+export interface VarianceReport {
+    query: VarianceQuery;
+    period: MonthRange & { label: string };
+    fiscalYear: MonthRange & { label: string };
+    forecast: MonthRange | null; // Months after the period that are projected, null when the period ends the fiscal year or versions are compared
+    version: Pick<BudgetVersion, 'id' | 'name'>;
+    compareVersion: Pick<BudgetVersion, 'id' | 'name'> | null; // Its budgets are in the actual columns
+    currency: string; // Reporting currency
+    rows: VarianceRow[];
+    totals: VarianceRow;
+}
+
+// Which entries a clicked report cell stands for: budgets, expenses (source) or both (null), within the
+// period or the fiscal year
+export interface VarianceCell {
+    source: ImportSource | null;
+    scope: 'period' | 'fiscal_year';
+}
+
+// A budget or expense behind a variance report cell
+export interface VarianceEntry {
+    id: number;
+    source: ImportSource;
+    description: string;
+    year: number;
+    month: number;
+    type: 'CAPEX' | 'OPEX';
+    amount: number; // In the entry's own currency
+    currency: string;
+    convertedAmount: number; // In the reporting currency
+    business_line_name: string | null;
+    cost_center_name: string | null;
+}
+
+// --- Alert Types ---
+
+// What an alert rule watches: one business line, one cost center, or all CAPEX or OPEX spend
+export type AlertScope = 'business_line' | 'cost_center' | 'type';
+
+// A percent of the scope's budget for the period, or an amount of spend in the reporting currency
+export type AlertThresholdKind = 'percent' | 'amount';
+
+// Period spend is summed over: the month, fiscal quarter or fiscal year an expense falls in
+export type AlertPeriod = 'month' | 'quarter' | 'year';
+
+export interface AlertRule {
+    id: number;
+    name: string;
+    scope: AlertScope;
+    business_line_id: number | null; // Set for business line rules
+    cost_center_id: number | null; // Set for cost center rules
+    expense_type: 'CAPEX' | 'OPEX' | null; // Set for type rules
+    scope_name?: string | null; // Resolved business line/cost center name, or the type
+    threshold_kind: AlertThresholdKind;
+    threshold_value: number;
+    period: AlertPeriod;
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export type AlertChannelKind = 'webhook' | 'slack' | 'email';
+
+// Where a channel delivers alerts. Secrets (webhook secret, SMTP password) are never sent to the browser:
+// they come back empty, and saving a channel with them empty keeps the stored value.
+export type AlertChannelConfig =
+    | { kind: 'webhook'; url: string; secret: string } // JSON POST, signed with the secret if there is one
+    | { kind: 'slack'; url: string } // Slack-compatible incoming webhook
+    | { kind: 'email'; host: string; port: number; secure: boolean; username: string; password: string; from: string; to: string }; // to: comma-separated
+
+export interface AlertChannel {
+    id: number;
+    name: string;
+    config: AlertChannelConfig;
+    has_secret: boolean; // A webhook secret or SMTP password is stored
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// What channels are sent when a rule's threshold is crossed; amounts are in the reporting currency
+export interface AlertNotification {
+    ruleName: string;
+    scope: string; // e.g. "Business line 'Cloud Platform'"
+    period: string; // e.g. '03/2025', 'Q1 FY 2025'
+    budget: number;
+    actual: number;
+    threshold: number; // Spend at which the rule triggers
+    currency: string;
+    message: string;
+    triggeredAt: string;
+}
+
+// A rule crossing its threshold in one period. A rule triggers at most once per period.
+export interface TriggeredAlert {
+    id: number;
+    rule_id: number;
+    rule_name: string;
+    period_key: string; // 'YYYY-MM', or the fiscal quarter/year label
+    period_label: string;
+    budget: number;
+    actual: number;
+    threshold: number;
+    currency: string;
+    message: string;
+    triggered_at: string;
+    acknowledged_at: string | null;
+    sent_count: number; // Channels it was delivered to
+    failed_count: number;
+    delivery_errors: string | null; // Errors of failed deliveries, one per line
+}
+
+// --- Webhook Types ---
+
+// Changes webhook subscriptions are notified of. Test deliveries sent from the webhooks page have the event 'webhook.test'.
+export type WebhookEvent =
+    | 'budget.created'
+    | 'budget.updated'
+    | 'budget.deleted'
+    | 'expense.created'
+    | 'expense.updated'
+    | 'expense.deleted'
+    | 'import.committed'
+    | 'threshold.breached';
+
+// The secret is never sent to the browser: it comes back empty, and saving a subscription with it empty keeps the stored one
+export interface WebhookSubscription {
+    id: number;
+    name: string;
+    url: string;
+    secret: string;
+    events: WebhookEvent[];
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// Pending until the receiver answers with a 2xx status, failed once every attempt was refused
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent to one subscription, with its latest attempt
+export interface WebhookDelivery {
+    id: number;
+    subscription_id: number;
+    subscription_name: string;
+    event_id: string; // The same for every subscription the event is sent to; receivers can skip events seen before
+    event: WebhookEvent | 'webhook.test';
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    max_attempts: number;
+    response_status: number | null; // HTTP status of the latest attempt; null when no response came
+    error: string | null; // Why the latest attempt failed
+    next_attempt_at: string | null; // Set while pending
+    last_attempt_at: string | null;
+    created_at: string;
+}
+
+
+// --- User & Access Types ---
+
+// Admins manage users and settings, finance editors everything else, business-line owners edit and review budgets,
+// viewers only look
+export type UserRole = 'admin' | 'finance_editor' | 'business_line_owner' | 'viewer';
+
+// What a role allows; checked by the server actions themselves, the UI only hides what the user cannot do
+export type Permission =
+    | 'view'
+    | 'edit_budgets'
+    | 'review_budgets'
+    | 'edit_expenses'
+    | 'import_data'
+    | 'manage_master_data'
+    | 'manage_alerts'
+    | 'manage_settings'
+    | 'manage_backups'
+    | 'manage_users'
+    | 'manage_api_keys';
+
+export interface User {
+    id: number;
+    email: string;
+    name: string;
+    role: UserRole;
+    is_active: boolean;
+    has_password: boolean; // False for users who only sign in with OIDC
+    oidc_subject: string | null; // 'issuer|sub' of the OIDC account linked on first OIDC sign-in
+    business_line_ids: number[]; // Business lines granted to the user; see BusinessLineScope
+    last_login_at: string | null;
+    created_at: string;
+}
+
+// The signed-in user as passed to client components. For REST API requests authenticated with an API key, the key
+// acting as a user: its scopes take the place of the role (see api_key).
+export type SessionUser = Pick<User, 'id' | 'email' | 'name' | 'role'> & { api_key?: ApiKeyGrant };
+
+// Business lines whose budgets and expenses a user sees and changes, or null for all of them. Users with granted
+// business lines only get those (business-line owners always, so none without grants); admins and the other users
+// without grants get everything. Rows without a business line are outside every limited scope.
+export type BusinessLineScope = number[] | null;
+
+// What an API key may do through the REST API; a key has one or more of them
+export type ApiKeyScope = 'read' | 'expenses:write' | 'budgets:write' | 'admin';
+
+export interface ApiKey {
+    id: number;
+    name: string;
+    key_prefix: string; // The start of the key, to tell keys apart; the key itself is only shown when created
+    scopes: ApiKeyScope[];
+    business_line_ids: BusinessLineScope; // Null for a key not limited to business lines
+    created_by: string | null; // Name of the admin who created the key
+    created_at: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+// The API key a REST API request is made with, as checked by permissionDenial and getBusinessLineScope
+export type ApiKeyGrant = Pick<ApiKey, 'id' | 'name' | 'scopes' | 'business_line_ids'>;
+
+// --- Audit Types ---
+
+// Tables whose every insert, update and delete is recorded in audit_events
+export type AuditTable = 'budgets' | 'expenses' | 'business_lines' | 'cost_centers' | 'cost_center_business_lines' | 'api_keys';
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+    field: string;
+    before: unknown; // null for inserted rows
+    after: unknown; // null for deleted rows
+}
+
+export interface AuditEvent {
+    id: number;
+    table_name: AuditTable;
+    record_id: number; // The cost center's ID for cost_center_business_lines
+    action: AuditAction;
+    actor_user_id: number | null;
+    actor_name: string | null; // Null for changes made outside the app, e.g. by scripts
+    changes: AuditFieldChange[]; // Only the fields an update changed
+    created_at: string;
+}
+
+export interface AuditLogFilter {
+    table: AuditTable | null;
+    action: AuditAction | null;
+    actor: string; // Part of the actor's name; empty for everyone
+    recordId: number | null;
+    from: string | null; // YYYY-MM-DD, inclusive
+    to: string | null; // YYYY-MM-DD, inclusive
+}
+
+
+// --- Backup Types ---
+
+// How a snapshot was taken: by an admin, by the schedule, or automatically right before a restore
+export type SnapshotKind = 'manual' | 'scheduled' | 'pre_restore';
+
+export interface DatabaseSnapshot {
+    name: string; // File name in the backup directory
+    kind: SnapshotKind;
+    size: number; // Bytes
+    created_at: string;
+}
+
+export interface BackupSchedule {
+    intervalHours: number; // 0 when scheduled snapshots are off
+    retention: number; // Scheduled snapshots kept; older ones are deleted
+}
+
+
+// --- Configuration Types ---
+
+// Where a configuration setting's value comes from; see AppConfig in '@/lib/config'
+export type ConfigSource = 'default' | 'file' | 'environment';
+
+export interface ConfigSetting {
+    key: string;
+    label: string;
+    variable: string; // The environment variable that sets it
+    description: string;
+    value: string;
+    source: ConfigSource;
+}
+
+export interface EffectiveSettings {
+    file: string | null; // The config file read, if any
+    settings: ConfigSetting[];
+    // Picked by an admin in the app, replacing the configured defaults; null when not picked
+    reportingCurrency: string | null;
+    fiscalYearStartMonth: number | null;
+}
+
+
+// --- List Query Types ---
+
+// Filters of the budget and expense lists; null leaves a field unfiltered
+export interface EntryFilter {
+    year: number | null;
+    month: number | null;
+    type: 'CAPEX' | 'OPEX' | null;
+    business_line_id: number | null;
+    cost_center_id: number | null;
+}
+
+// Sortable columns of the budget and expense lists; 'period' sorts by year and month
+export type EntrySortColumn = 'description' | 'amount' | 'period' | 'type' | 'business_line' | 'cost_center' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+// Filters and order of the budget and expense list pages. Beyond EntryFilter, 'none' keeps the entries without a
+// business line or cost center. The status filter and sorting by status apply to budgets only.
+export interface EntryListQuery extends Omit<EntryFilter, 'business_line_id' | 'cost_center_id'> {
+    business_line_id: number | 'none' | null;
+    cost_center_id: number | 'none' | null;
+    status: BudgetStatus | null;
+    sort: EntrySortColumn;
+    direction: SortDirection;
+}
+
+export interface PageRequest {
+    page: number; // Counting from 1
+    pageSize: number;
+}
+
+export interface Page<T> {
+    items: T[];
+    total: number; // Items matching the query, on every page
+    page: number;
+    pageSize: number;
+}
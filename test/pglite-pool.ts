@@ -0,0 +1,28 @@
+import { PGlite } from '@electric-sql/pglite';
+import { citext } from '@electric-sql/pglite/contrib/citext';
+import type { PostgresPool } from '@/lib/postgres';
+
+// Left as text, as createPostgresPool has pg leave them: int8, numeric, timestamp, timestamptz, date
+const RAW_TYPES = [20, 1700, 1114, 1184, 1082];
+
+// A PostgresPool over an in-process PostgreSQL (PGlite), for the tests. PGlite has a single session, which every
+// connection shares; the tests run one operation at a time.
+export function createPGlitePool(): PostgresPool {
+    const pglite = new PGlite({
+        extensions: { citext },
+        parsers: Object.fromEntries(RAW_TYPES.map(type => [type, (value: string) => value])),
+    });
+    const client = {
+        async query(text: string, values: unknown[] = []) {
+            // Queries without parameters may hold several statements, which only exec runs
+            const results = values.length === 0 ? await pglite.exec(text) : [await pglite.query<Record<string, unknown>>(text, values)];
+            const last = results[results.length - 1];
+            return { rows: (last?.rows ?? []) as Record<string, unknown>[], rowCount: last?.affectedRows ?? null, fields: last?.fields ?? [] };
+        },
+        release() {},
+    };
+    return {
+        connect: async () => client,
+        end: () => pglite.close(),
+    };
+}
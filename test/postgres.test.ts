@@ -0,0 +1,140 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { withAuditActor } from '@/lib/audit';
+import { migrateUp } from '@/lib/migrate';
+import { MIGRATIONS } from '@/lib/migrations';
+import { PostgresDatabase, toPostgresSql } from '@/lib/postgres';
+import { copySqliteToPostgres } from '@/lib/postgres-copy';
+import { POSTGRES_MIGRATIONS } from '@/lib/postgres-migrations';
+import type { SessionUser } from '@/types';
+import { createPGlitePool } from './pglite-pool';
+
+const admin = { id: 1, name: 'Ada Admin', email: 'ada@example.com', role: 'admin', api_key: null } as unknown as SessionUser;
+
+async function migratedPostgres(): Promise<PostgresDatabase> {
+    const db = new PostgresDatabase(createPGlitePool());
+    await db.withConnection(session => migrateUp(session, POSTGRES_MIGRATIONS));
+    return db;
+}
+
+describe('toPostgresSql', () => {
+    test('numbers the parameters, leaving string literals, quoted names and comments alone', () => {
+        assert.equal(
+            toPostgresSql(`SELECT 'a?' AS "b?", x FROM t WHERE y = ? -- z?\n AND w IN (?, ?)`),
+            `SELECT 'a?' AS "b?", x FROM t WHERE y = $1 -- z?\n AND w IN ($2, $3)`
+        );
+    });
+
+    test('rewrites the SQLite-only forms', () => {
+        assert.equal(toPostgresSql('INSERT OR IGNORE INTO t (a) VALUES (?)'), 'INSERT INTO t (a) VALUES ($1) ON CONFLICT DO NOTHING');
+        assert.equal(toPostgresSql('SELECT id FROM t WHERE a = ? AND id IS NOT ?'), 'SELECT id FROM t WHERE a = $1 AND id IS DISTINCT FROM $2');
+        assert.equal(toPostgresSql('SELECT * FROM t ORDER BY u.name COLLATE NOCASE, id'), 'SELECT * FROM t ORDER BY lower(u.name), id');
+        assert.equal(toPostgresSql(`SELECT * FROM t WHERE name LIKE ?`), 'SELECT * FROM t WHERE name ILIKE $1');
+        assert.equal(toPostgresSql('SELECT GROUP_CONCAT(error, char(10)) FROM t'), 'SELECT GROUP_CONCAT(error, chr(10)) FROM t');
+        assert.equal(toPostgresSql('SELECT id FROM t WHERE id IN () OR id NOT IN ()'), `SELECT id FROM t WHERE id = ANY('{}') OR id <> ALL('{}')`);
+    });
+});
+
+describe('PostgresDatabase', () => {
+    let db: PostgresDatabase;
+    before(async () => {
+        db = await migratedPostgres();
+        await db.run(`INSERT INTO users (email, name, role) VALUES (?, ?, 'admin')`, admin.email, admin.name);
+    });
+    after(() => db.close());
+
+    test('returns what the sqlite driver returns', async () => {
+        const result = await db.run('INSERT INTO business_lines (name) VALUES (?)', ['Retail']);
+        assert.equal(result.lastID, 1);
+        assert.equal(result.changes, 1);
+        const row = await db.get('SELECT COUNT(*) as count, SUM(id) as ids, id IS NOT NULL as has_id, created_at FROM business_lines GROUP BY id, created_at');
+        assert.deepEqual({ ...row, created_at: undefined }, { count: 1, ids: 1, has_id: 1, created_at: undefined });
+        assert.match(row.created_at, /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+        assert.equal((await db.run('UPDATE business_lines SET name = name WHERE id = ?', 2)).changes, 0);
+        assert.deepEqual(await db.all('SELECT id FROM business_lines WHERE id IN ()'), []);
+        assert.equal((await db.all('SELECT id FROM business_lines WHERE name NOT IN ()')).length, 1);
+    });
+
+    test('runs the SQLite functions the queries use', async () => {
+        const row = await db.get(`
+            SELECT strftime('%Y-%m-%d %H:%M:%S', CAST('2026-10-19 08:40:35.123' AS TIMESTAMP)) as formatted,
+                   datetime('2026-10-19 08:40:35', '-1 day') < CAST('2026-10-19' AS TIMESTAMP) as earlier,
+                   CAST(json_extract('{"business_line_id": 7}', '$.business_line_id') AS INTEGER) as extracted,
+                   (SELECT GROUP_CONCAT(id) FROM (VALUES (1), (2)) ids(id)) as ids,
+                   (SELECT GROUP_CONCAT(word, char(10)) FROM (VALUES ('a'), ('b')) words(word)) as words
+        `);
+        assert.deepEqual(row, { formatted: '2026-10-19 08:40:35', earlier: 1, extracted: 7, ids: '1,2', words: 'a\nb' });
+    });
+
+    test('compares the NOCASE columns of SQLite without case', async () => {
+        assert.ok(await db.get('SELECT id FROM users WHERE email = ?', 'ADA@example.com'));
+        await assert.rejects(db.run(`INSERT INTO users (email, name) VALUES (?, ?)`, 'Ada@Example.com', 'Ada again'), /UNIQUE constraint failed: users/);
+    });
+
+    test('reports constraint errors with the messages of SQLite', async () => {
+        await assert.rejects(db.run('INSERT INTO business_lines (name) VALUES (?)', 'Retail'), /UNIQUE constraint failed/);
+        await assert.rejects(db.run('INSERT INTO user_business_lines (user_id, business_line_id) VALUES (?, ?)', 1, 999), /FOREIGN KEY constraint failed/);
+        await assert.rejects(db.run('INSERT INTO business_lines (name) VALUES (?)', null), /NOT NULL constraint failed: business_lines.name/);
+    });
+
+    test('records audit events with the actor of the write', async () => {
+        await db.withConnection(session => withAuditActor(session, admin, async () => {
+            await session.run('INSERT INTO cost_centers (name) VALUES (?)', 'CC-100');
+            await session.run('UPDATE cost_centers SET name = ? WHERE name = ?', 'CC-200', 'CC-100');
+        }));
+        await db.run('UPDATE business_lines SET updated_at = CURRENT_TIMESTAMP'); // Touches only unaudited columns
+        const events = await db.all(`SELECT table_name, record_id, action, actor_user_id, actor_name, old_values, new_values FROM audit_events WHERE table_name = 'cost_centers' ORDER BY id`);
+        assert.deepEqual(events.map(event => ({ ...event, old_values: JSON.parse(event.old_values), new_values: JSON.parse(event.new_values) })), [
+            { table_name: 'cost_centers', record_id: 1, action: 'insert', actor_user_id: 1, actor_name: 'Ada Admin', old_values: null, new_values: { id: 1, name: 'CC-100' } },
+            { table_name: 'cost_centers', record_id: 1, action: 'update', actor_user_id: 1, actor_name: 'Ada Admin', old_values: { id: 1, name: 'CC-100' }, new_values: { id: 1, name: 'CC-200' } },
+        ]);
+        assert.equal((await db.get(`SELECT COUNT(*) as count FROM audit_events WHERE table_name = 'business_lines' AND action = 'update'`)).count, 0);
+        assert.equal(await db.get('SELECT * FROM audit_context'), undefined);
+    });
+
+    test('rolls back the transaction of a failed operation', async () => {
+        await assert.rejects(db.withConnection(async (session) => {
+            await session.run('BEGIN TRANSACTION');
+            await session.run('INSERT INTO cost_centers (name) VALUES (?)', 'CC-300');
+            throw new Error('Failed halfway');
+        }), /Failed halfway/);
+        assert.equal(await db.get('SELECT id FROM cost_centers WHERE name = ?', 'CC-300'), undefined);
+    });
+});
+
+describe('copySqliteToPostgres', () => {
+    test('copies the rows with their IDs and audit events', async () => {
+        const source = await open({ filename: ':memory:', driver: sqlite3.Database });
+        const target = new PostgresDatabase(createPGlitePool());
+        try {
+            await migrateUp(source, MIGRATIONS);
+            await source.run(`INSERT INTO users (email, name, role) VALUES (?, ?, 'admin')`, admin.email, admin.name);
+            await withAuditActor(source, admin, async () => {
+                await source.run('INSERT INTO business_lines (id, name, budget_owner_id) VALUES (5, ?, 1)', 'Retail');
+                await source.run('INSERT INTO cost_centers (id, name) VALUES (3, ?)', 'CC-100');
+                await source.run('INSERT INTO cost_center_business_lines (cost_center_id, business_line_id) VALUES (3, 5)');
+                await source.run(
+                    `INSERT INTO budgets (description, amount, year, month, type, business_line_id, cost_center_id, version_id, status)
+                     VALUES ('Licences', 1250.5, 2026, 10, 'OPEX', 5, 3, (SELECT id FROM budget_versions WHERE is_default = 1), 'approved')`
+                );
+            });
+
+            const copied = await copySqliteToPostgres(source, target);
+            assert.equal(copied.business_lines, 1);
+            assert.equal(copied.budget_versions, 1); // The default version of the SQLite database, not a second one
+            assert.equal(copied.audit_events, 4);
+            assert.deepEqual(
+                await target.get('SELECT id, description, amount, business_line_id, cost_center_id, status FROM budgets'),
+                { id: 1, description: 'Licences', amount: 1250.5, business_line_id: 5, cost_center_id: 3, status: 'approved' }
+            );
+            assert.equal((await target.get('SELECT COUNT(*) as count FROM audit_events')).count, 4);
+            assert.equal((await target.run('INSERT INTO business_lines (name) VALUES (?)', 'Wholesale')).lastID, 6);
+            await assert.rejects(copySqliteToPostgres(source, target), /already has the tables/);
+        } finally {
+            await source.close();
+            await target.close();
+        }
+    });
+});